@@ -0,0 +1,66 @@
+-- Copy legacy tag links (from the original trade journal) into Trade.tags by name
+UPDATE "Trade" AS t
+SET "tags" = ARRAY(SELECT DISTINCT tag FROM unnest(t."tags" || legacy."names") AS tag)
+FROM (
+    SELECT tt."tradeId", array_agg(g."name") AS "names"
+    FROM "TradeTag" tt
+    JOIN "Tag" g ON g."id" = tt."tagId"
+    GROUP BY tt."tradeId"
+) AS legacy
+WHERE legacy."tradeId" = t."id";
+
+-- RenameTable (the legacy tables are kept, outside the Prisma schema, so "Tag" can be reused)
+ALTER TABLE "TradeTag" RENAME TO "LegacyTradeTag";
+ALTER TABLE "Tag" RENAME TO "LegacyTag";
+
+-- RenameConstraint
+ALTER TABLE "LegacyTag" RENAME CONSTRAINT "Tag_pkey" TO "LegacyTag_pkey";
+ALTER TABLE "LegacyTradeTag" RENAME CONSTRAINT "TradeTag_pkey" TO "LegacyTradeTag_pkey";
+ALTER TABLE "LegacyTradeTag" RENAME CONSTRAINT "TradeTag_tradeId_fkey" TO "LegacyTradeTag_tradeId_fkey";
+ALTER TABLE "LegacyTradeTag" RENAME CONSTRAINT "TradeTag_tagId_fkey" TO "LegacyTradeTag_tagId_fkey";
+
+-- RenameIndex
+ALTER INDEX "Tag_userId_idx" RENAME TO "LegacyTag_userId_idx";
+ALTER INDEX "Tag_type_idx" RENAME TO "LegacyTag_type_idx";
+ALTER INDEX "Tag_userId_name_key" RENAME TO "LegacyTag_userId_name_key";
+ALTER INDEX "TradeTag_tradeId_idx" RENAME TO "LegacyTradeTag_tradeId_idx";
+ALTER INDEX "TradeTag_tagId_idx" RENAME TO "LegacyTradeTag_tagId_idx";
+ALTER INDEX "TradeTag_tradeId_tagId_key" RENAME TO "LegacyTradeTag_tradeId_tagId_key";
+
+-- CreateTable
+CREATE TABLE "TagSection" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT 'blue',
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TagSection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sectionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TagSection_userId_idx" ON "TagSection"("userId");
+
+-- CreateIndex
+CREATE INDEX "Tag_sectionId_idx" ON "Tag"("sectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_name_key" ON "Tag"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "TagSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "CustomSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "recurring" BOOLEAN NOT NULL DEFAULT false,
+    "days" INTEGER[],
+    "openAlert" BOOLEAN NOT NULL DEFAULT false,
+    "openAlertSound" TEXT,
+    "closeAlert" BOOLEAN NOT NULL DEFAULT false,
+    "closeAlertSound" TEXT,
+    "note" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomAlert" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "time" TEXT NOT NULL,
+    "sound" TEXT NOT NULL DEFAULT 'default',
+    "recurring" BOOLEAN NOT NULL DEFAULT false,
+    "days" INTEGER[],
+    "color" TEXT NOT NULL,
+    "note" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TimelinePreferences" (
+    "userId" TEXT NOT NULL,
+    "preferences" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TimelinePreferences_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomSession_userId_idx" ON "CustomSession"("userId");
+
+-- CreateIndex
+CREATE INDEX "CustomAlert_userId_idx" ON "CustomAlert"("userId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "UserSettings" (
+    "userId" TEXT NOT NULL,
+    "yearlyPnlGoal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "startingEquity" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "winRateTarget" DOUBLE PRECISION NOT NULL DEFAULT 60,
+    "profitFactorTarget" DOUBLE PRECISION NOT NULL DEFAULT 2,
+    "maxDrawdownLimit" DOUBLE PRECISION NOT NULL DEFAULT 25,
+    "riskRewardTarget" DOUBLE PRECISION NOT NULL DEFAULT 1.5,
+    "keyMetrics" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserSettings_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateTable
+CREATE TABLE "UserSettingsHistory" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "yearlyPnlGoal" DOUBLE PRECISION NOT NULL,
+    "startingEquity" DOUBLE PRECISION NOT NULL,
+    "winRateTarget" DOUBLE PRECISION NOT NULL,
+    "profitFactorTarget" DOUBLE PRECISION NOT NULL,
+    "maxDrawdownLimit" DOUBLE PRECISION NOT NULL,
+    "riskRewardTarget" DOUBLE PRECISION NOT NULL,
+    "changedFields" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserSettingsHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserSettingsHistory_userId_createdAt_idx" ON "UserSettingsHistory"("userId", "createdAt");
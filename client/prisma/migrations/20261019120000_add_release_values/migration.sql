@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ReleaseValue" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "releaseDate" TEXT NOT NULL,
+    "actual" TEXT,
+    "previous" TEXT,
+    "actualValue" DOUBLE PRECISION,
+    "previousValue" DOUBLE PRECISION,
+    "fetchedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReleaseValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReleaseValue_seriesId_releaseDate_key" ON "ReleaseValue"("seriesId", "releaseDate");
+
+-- CreateIndex
+CREATE INDEX "ReleaseValue_event_releaseDate_idx" ON "ReleaseValue"("event", "releaseDate");
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "EconomicEvent" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "seriesKey" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "time" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "country" TEXT NOT NULL DEFAULT 'US',
+    "impact" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "forecast" TEXT,
+    "actual" TEXT,
+    "previous" TEXT,
+    "latestValue" TEXT,
+    "priorValue" TEXT,
+    "latestDate" TEXT,
+    "priorDate" TEXT,
+    "fredReleaseId" INTEGER,
+    "fredSeriesId" TEXT,
+    "sourceUrl" TEXT,
+    "description" TEXT,
+    "whyItMatters" TEXT,
+    "frequency" TEXT,
+    "typicalReaction" JSONB,
+    "relatedAssets" TEXT[],
+    "historicalVolatility" TEXT,
+    "isEarlyClose" BOOLEAN,
+    "closeTimeET" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EconomicEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CalendarIngestRun" (
+    "id" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "scrapedAt" TIMESTAMP(3) NOT NULL,
+    "eventCount" INTEGER NOT NULL,
+    "created" INTEGER NOT NULL,
+    "updated" INTEGER NOT NULL,
+    "removed" INTEGER NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalendarIngestRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EconomicEvent_source_seriesKey_date_key" ON "EconomicEvent"("source", "seriesKey", "date");
+
+-- CreateIndex
+CREATE INDEX "EconomicEvent_date_idx" ON "EconomicEvent"("date");
+
+-- CreateIndex
+CREATE INDEX "EconomicEvent_currency_date_idx" ON "EconomicEvent"("currency", "date");
+
+-- CreateIndex
+CREATE INDEX "EconomicEvent_impact_date_idx" ON "EconomicEvent"("impact", "date");
+
+-- CreateIndex
+CREATE INDEX "EconomicEvent_category_date_idx" ON "EconomicEvent"("category", "date");
+
+-- CreateIndex
+CREATE INDEX "CalendarIngestRun_receivedAt_idx" ON "CalendarIngestRun"("receivedAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "EventForecast" (
+    "id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "forecast" TEXT NOT NULL,
+    "forecastValue" DOUBLE PRECISION NOT NULL,
+    "actual" TEXT,
+    "actualValue" DOUBLE PRECISION,
+    "surpriseAbs" DOUBLE PRECISION,
+    "surprisePct" DOUBLE PRECISION,
+    "surpriseStd" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "enteredBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventForecast_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventForecast_event_date_key" ON "EventForecast"("event", "date");
+
+-- CreateIndex
+CREATE INDEX "EventForecast_date_idx" ON "EventForecast"("date");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ReleaseObservation" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "releaseDate" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "rawValue" DOUBLE PRECISION,
+    "observedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReleaseObservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReleaseObservation_seriesId_releaseDate_observedAt_idx" ON "ReleaseObservation"("seriesId", "releaseDate", "observedAt");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "EconomicEvent" ADD COLUMN     "startsAt" TIMESTAMP(3),
+ADD COLUMN     "timeKind" TEXT NOT NULL DEFAULT 'timed';
+
+-- Backfill from the ET wall-clock date and time
+UPDATE "EconomicEvent"
+SET "timeKind" = CASE
+  WHEN "time" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$' THEN 'timed'
+  WHEN lower("time") = 'all day' THEN 'all_day'
+  ELSE 'tbd'
+END;
+
+UPDATE "EconomicEvent"
+SET "startsAt" = (("date" || ' ' || "time")::timestamp AT TIME ZONE 'America/New_York') AT TIME ZONE 'UTC'
+WHERE "timeKind" = 'timed';
+
+-- CreateIndex
+CREATE INDEX "EconomicEvent_startsAt_idx" ON "EconomicEvent"("startsAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "displayTimezone" TEXT NOT NULL DEFAULT 'local';
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "WatchedEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "eventId" TEXT,
+    "title" TEXT NOT NULL,
+    "date" TEXT,
+    "leadTimes" INTEGER[],
+    "sound" TEXT NOT NULL DEFAULT 'bell',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WatchedEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WatchedEvent_userId_idx" ON "WatchedEvent"("userId");
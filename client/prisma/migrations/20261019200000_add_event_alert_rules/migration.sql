@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CustomAlert" ADD COLUMN     "eventCategory" TEXT,
+ADD COLUMN     "eventCurrencies" TEXT[],
+ADD COLUMN     "eventImpacts" TEXT[],
+ADD COLUMN     "eventOffset" INTEGER,
+ADD COLUMN     "eventTitle" TEXT;
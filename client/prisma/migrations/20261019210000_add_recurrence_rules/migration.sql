@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "CustomAlert" ADD COLUMN     "holidayPolicy" TEXT,
+ADD COLUMN     "recurrenceExceptions" TEXT[],
+ADD COLUMN     "recurrenceRule" TEXT,
+ADD COLUMN     "recurrenceStart" TEXT;
+
+-- AlterTable
+ALTER TABLE "CustomSession" ADD COLUMN     "holidayPolicy" TEXT,
+ADD COLUMN     "recurrenceExceptions" TEXT[],
+ADD COLUMN     "recurrenceRule" TEXT,
+ADD COLUMN     "recurrenceStart" TEXT;
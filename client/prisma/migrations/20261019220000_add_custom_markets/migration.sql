@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "CustomMarket" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shortName" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "days" INTEGER[],
+    "segments" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomMarket_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomMarket_userId_marketId_key" ON "CustomMarket"("userId", "marketId");
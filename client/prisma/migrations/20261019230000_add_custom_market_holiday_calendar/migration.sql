@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "CustomMarket" ADD COLUMN     "holidayCalendar" TEXT;
+
+-- Backfill: edited built-in exchanges keep the built-in's holiday calendar
+UPDATE "CustomMarket" SET "holidayCalendar" = CASE "marketId"
+    WHEN 'us' THEN 'nyse'
+    WHEN 'london' THEN 'lse'
+    WHEN 'tokyo' THEN 'jpx'
+    WHEN 'sydney' THEN 'asx'
+    WHEN 'xetra' THEN 'xetra'
+    WHEN 'hkex' THEN 'hkex'
+    WHEN 'sse' THEN 'sse'
+    WHEN 'tsx' THEN 'tsx'
+END
+WHERE "marketId" IN ('us', 'london', 'tokyo', 'sydney', 'xetra', 'hkex', 'sse', 'tsx');
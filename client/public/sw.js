@@ -0,0 +1,60 @@
+// Service worker for background alerts (see src/lib/push.ts). Shows pushed
+// alerts as notifications, unless a visible dashboard tab is already playing
+// them, and focuses the dashboard when a notification is clicked.
+
+const DASHBOARD_PATH = "/dashboard";
+
+async function isDashboardVisible() {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  return windows.some((client) => client.visibilityState === "visible" && new URL(client.url).pathname === DASHBOARD_PATH);
+}
+
+async function showAlert(payload) {
+  if (!payload || !payload.title) return;
+  if (payload.type !== "test" && (await isDashboardVisible())) return;
+
+  await self.registration.showNotification(payload.title, {
+    body: payload.body,
+    tag: payload.tag,
+    data: { url: payload.url || DASHBOARD_PATH },
+    // Watchlist releases stay up until dismissed; session alerts are glanceable
+    requireInteraction: payload.type === "event",
+  });
+}
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let payload = null;
+  try {
+    payload = event.data ? event.data.json() : null;
+  } catch {
+    // Not one of ours
+  }
+  event.waitUntil(showAlert(payload));
+});
+
+// Development stand-in: the dashboard forwards payloads polled from /api/push/local
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "local-push") {
+    event.waitUntil(showAlert(event.data.payload));
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || DASHBOARD_PATH;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    const existing = windows.find((client) => new URL(client.url).pathname === new URL(url, self.location.origin).pathname);
+    if (existing) return existing.focus();
+    return self.clients.openWindow(url);
+  })());
+});
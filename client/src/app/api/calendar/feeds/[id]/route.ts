@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { createFeedToken, parseCalendarFeedInput, serializeCalendarFeed } from "@/lib/calendar-feeds";
+
+// PUT - Update a feed's name and filters; { rotateToken: true } issues a new URL
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { feed, error } = parseCalendarFeedInput(body);
+    if (!feed) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const existing = await prisma.calendarFeed.findUnique({ where: { id, userId } });
+    if (!existing) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const updated = await prisma.calendarFeed.update({
+      where: { id },
+      data: { ...feed, ...(body.rotateToken === true ? { token: createFeedToken() } : {}) },
+    });
+
+    return NextResponse.json({ feed: serializeCalendarFeed(updated) });
+  } catch (error) {
+    console.error("Error updating calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to update calendar feed" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a feed; its URL stops working immediately
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { count } = await prisma.calendarFeed.deleteMany({ where: { id, userId } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to delete calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { createFeedToken, parseCalendarFeedInput, serializeCalendarFeed } from "@/lib/calendar-feeds";
+
+// GET - List the user's ICS feeds
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const feeds = await prisma.calendarFeed.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ feeds: feeds.map(serializeCalendarFeed) });
+  } catch (error) {
+    console.error("Error fetching calendar feeds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar feeds" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a feed from a filter preset
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { feed, error } = parseCalendarFeedInput(await request.json());
+    if (!feed) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await prisma.calendarFeed.create({
+      data: { ...feed, userId, token: createFeedToken() },
+    });
+
+    return NextResponse.json({ feed: serializeCalendarFeed(created) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to create calendar feed" },
+      { status: 500 }
+    );
+  }
+}
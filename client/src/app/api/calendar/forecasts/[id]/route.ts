@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getForecastEditor } from "@/lib/consensus";
+
+// DELETE - Remove a forecast (and with it the release's surprise)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const editor = await getForecastEditor(request);
+    const { id } = await params;
+
+    if (!editor.allowed) {
+      return NextResponse.json({ error: "Not allowed to edit forecasts" }, { status: 403 });
+    }
+
+    const { count } = await prisma.eventForecast.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Forecast not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting forecast:", error);
+    return NextResponse.json(
+      { error: "Failed to delete forecast" },
+      { status: 500 }
+    );
+  }
+}
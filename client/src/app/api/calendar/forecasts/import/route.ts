@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { captureReleasedActuals, getForecastEditor, upsertForecasts } from "@/lib/consensus";
+import { parseForecastCsv } from "@/lib/surprise";
+
+// POST - Import consensus numbers from CSV ({ csv, dryRun }).
+// Columns: date,event,forecast and optionally actual for past releases.
+// Rows with errors are reported and skipped; the rest are saved.
+export async function POST(request: NextRequest) {
+  try {
+    const editor = await getForecastEditor(request);
+    if (!editor.allowed) {
+      return NextResponse.json({ error: "Not allowed to edit forecasts" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (typeof body.csv !== "string") {
+      return NextResponse.json({ error: "csv must be a string" }, { status: 400 });
+    }
+
+    const { forecasts, errors } = parseForecastCsv(body.csv);
+
+    if (body.dryRun) {
+      return NextResponse.json({ valid: forecasts.length, errors, dryRun: true });
+    }
+
+    const result = await upsertForecasts(forecasts, { source: "csv", enteredBy: editor.userId });
+    const captured = await captureReleasedActuals();
+
+    return NextResponse.json({ ...result, captured, errors });
+  } catch (error) {
+    console.error("Error importing forecasts:", error);
+    return NextResponse.json(
+      { error: "Failed to import forecasts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { captureReleasedActuals, getForecastEditor, serializeForecast, upsertForecasts } from "@/lib/consensus";
+import { parseForecastInput } from "@/lib/surprise";
+
+// GET - Consensus forecasts (?event=&start=&end=&limit=), newest first.
+// canEdit tells the calendar page whether to show the entry controls.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const event = searchParams.get("event");
+    const start = searchParams.get("start");
+    const end = searchParams.get("end");
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "500", 10) || 0, 0), 2000);
+
+    const [forecasts, editor] = await Promise.all([
+      limit > 0
+        ? prisma.eventForecast.findMany({
+            where: {
+              ...(event ? { event } : {}),
+              ...(start || end ? { date: { ...(start ? { gte: start } : {}), ...(end ? { lte: end } : {}) } } : {}),
+            },
+            orderBy: { date: "desc" },
+            take: limit,
+          })
+        : Promise.resolve([]),
+      getForecastEditor(request),
+    ]);
+
+    return NextResponse.json({
+      forecasts: forecasts.map(serializeForecast),
+      canEdit: editor.allowed,
+    });
+  } catch (error) {
+    console.error("Error fetching forecasts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch forecasts" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Enter or replace the forecast for one release ({ event, date, forecast, actual? })
+export async function POST(request: NextRequest) {
+  try {
+    const editor = await getForecastEditor(request);
+    if (!editor.allowed) {
+      return NextResponse.json({ error: "Not allowed to edit forecasts" }, { status: 403 });
+    }
+
+    const { forecast, error } = parseForecastInput(await request.json());
+    if (!forecast) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await upsertForecasts([forecast], { source: "manual", enteredBy: editor.userId });
+    await captureReleasedActuals();
+
+    const saved = await prisma.eventForecast.findUnique({
+      where: { event_date: { event: forecast.event, date: forecast.date } },
+    });
+
+    return NextResponse.json({ forecast: saved ? serializeForecast(saved) : null });
+  } catch (error) {
+    console.error("Error saving forecast:", error);
+    return NextResponse.json(
+      { error: "Failed to save forecast" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { EVENT_TO_SERIES } from "@/lib/fred";
+import { loadRevisions } from "@/lib/release-history";
+
+// GET - Actual/previous history for one event (?event=CPI m/m&limit=24), newest first
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const event = searchParams.get("event");
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "24") || 24, 1), 240);
+
+  if (!event) {
+    return NextResponse.json({ error: "event is required" }, { status: 400 });
+  }
+
+  const series = EVENT_TO_SERIES[event];
+  if (!series) {
+    return NextResponse.json(
+      { error: `No release history is tracked for "${event}"` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const rows = await prisma.releaseValue.findMany({
+      where: { seriesId: series.seriesId },
+      orderBy: { releaseDate: "desc" },
+      take: limit,
+    });
+    const revisions = await loadRevisions(rows.map((row) => ({ seriesId: row.seriesId, releaseDate: row.releaseDate })));
+
+    return NextResponse.json({
+      event,
+      seriesId: series.seriesId,
+      count: rows.length,
+      history: rows.map((row) => ({
+        releaseDate: row.releaseDate,
+        actual: row.actual,
+        previous: row.previous,
+        actualValue: row.actualValue,
+        previousValue: row.previousValue,
+        fetchedAt: row.fetchedAt.toISOString(),
+        revision: revisions.get(`${row.seriesId}|${row.releaseDate}`) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching release history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch release history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getClientIdentifier, rateLimit, rateLimitPresets } from "@/lib/rate-limit";
+import { loadCalendarData } from "@/lib/calendar-events";
+import { getFeedFilters } from "@/lib/calendar-feeds";
+import { buildIcsCalendar } from "@/lib/ics";
+
+// GET - A user's personal ICS feed. The token stands in for sign-in, since
+// calendar apps can't authenticate; start/end may still be passed as query params.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const limit = rateLimit(`calendar-ics:${getClientIdentifier(request)}`, rateLimitPresets.relaxed);
+  if (!limit.success) {
+    return NextResponse.json(
+      { error: "Too many requests", retryAfter: Math.ceil(limit.resetIn / 1000) },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.resetIn / 1000)) } }
+    );
+  }
+
+  try {
+    const { token } = await params;
+    const feed = await prisma.calendarFeed.findUnique({ where: { token } });
+
+    if (!feed) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const data = await loadCalendarData({
+      ...getFeedFilters(feed),
+      start: searchParams.get("start"),
+      end: searchParams.get("end"),
+    });
+
+    // Lets users spot feeds nobody polls any more
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    return new NextResponse(buildIcsCalendar(data?.events ?? [], { name: `EconTimeline - ${feed.name}` }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="econtimeline.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 });
+  }
+}
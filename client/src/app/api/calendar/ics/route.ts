@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClientIdentifier, rateLimit, rateLimitPresets } from "@/lib/rate-limit";
+import { loadCalendarData, parseCalendarFilters } from "@/lib/calendar-events";
+import { buildIcsCalendar } from "@/lib/ics";
+
+// GET - Public ICS feed; takes the same currency/impact/category/start/end filters as /api/calendar
+export async function GET(request: NextRequest) {
+  const limit = rateLimit(`calendar-ics:${getClientIdentifier(request)}`, rateLimitPresets.relaxed);
+  if (!limit.success) {
+    return NextResponse.json(
+      { error: "Too many requests", retryAfter: Math.ceil(limit.resetIn / 1000) },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.resetIn / 1000)) } }
+    );
+  }
+
+  try {
+    const data = await loadCalendarData(parseCalendarFilters(request.nextUrl.searchParams));
+
+    return new NextResponse(buildIcsCalendar(data?.events ?? [], { name: "EconTimeline" }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="econtimeline.ics"',
+        "Cache-Control": "public, s-maxage=900, stale-while-revalidate=60",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 });
+  }
+}
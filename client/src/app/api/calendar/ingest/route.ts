@@ -0,0 +1,59 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { ingestCalendarEvents, validateScrapedEvent, ScrapedEvent } from "@/lib/calendar-events";
+import { captureReleasedActuals } from "@/lib/consensus";
+
+// Constant-time comparison, so the secret can't be guessed from response timing
+function hasBearerToken(request: Request, secret: string): boolean {
+  const given = Buffer.from(request.headers.get("authorization") || "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// POST - Upload scraper output ({ lastUpdated, mode, events }) into the calendar table
+export async function POST(request: Request) {
+  // /api/calendar is public, so uploads always need the ingest secret
+  const secret = process.env.CALENDAR_INGEST_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "CALENDAR_INGEST_SECRET not configured" }, { status: 503 });
+  }
+  if (!hasBearerToken(request, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body?.events)) {
+      return NextResponse.json({ error: "events must be an array" }, { status: 400 });
+    }
+
+    for (let i = 0; i < body.events.length; i++) {
+      const error = validateScrapedEvent(body.events[i]);
+      if (error) {
+        return NextResponse.json({ error: `Event ${i}: ${error}` }, { status: 400 });
+      }
+    }
+
+    const mode = body.mode === "data-only" ? "data-only" : "full";
+    const scrapedAt = body.lastUpdated ? new Date(body.lastUpdated) : new Date();
+    if (isNaN(scrapedAt.getTime())) {
+      return NextResponse.json({ error: "lastUpdated must be a valid date" }, { status: 400 });
+    }
+
+    const result = await ingestCalendarEvents(body.events as ScrapedEvent[], { mode, scrapedAt });
+
+    // New actuals may complete surprises for releases with a consensus forecast
+    let surprises = 0;
+    try {
+      surprises = await captureReleasedActuals();
+    } catch (error) {
+      console.error("Failed to capture release surprises:", error);
+    }
+
+    return NextResponse.json({ success: true, mode, ...result, surprises });
+  } catch (error) {
+    console.error("Error ingesting calendar events:", error);
+    return NextResponse.json({ error: "Failed to ingest calendar events" }, { status: 500 });
+  }
+}
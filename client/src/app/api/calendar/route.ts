@@ -1,162 +1,11 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { CalendarData, loadCalendarData, parseCalendarFilters } from "@/lib/calendar-events";
 
-export interface EconomicEvent {
-  id: string;
-  date: string;
-  time: string;
-  currency: string;
-  event: string;
-  impact: "high" | "medium" | "low" | "holiday" | "early_close";
-  forecast: string | null;
-  previous: string | null;
-  actual: string | null;
-  category: string;
-  country?: string;
-  source?: string;
-  sourceUrl?: string;
-  // Enriched metadata
-  description?: string;
-  whyItMatters?: string;
-  frequency?: string;
-  typicalReaction?: {
-    higherThanExpected?: string;
-    lowerThanExpected?: string;
-    hawkish?: string;
-    dovish?: string;
-  };
-  relatedAssets?: string[];
-  historicalVolatility?: string;
-  // Early close fields
-  isEarlyClose?: boolean;
-  closeTimeET?: string;
-}
-
-interface CalendarData {
-  lastUpdated: string;
-  eventCount: number;
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  events: EconomicEvent[];
-}
-
-/**
- * Determine if an event has already occurred based on date and time
- * Uses US Eastern Time since most economic releases are in ET
- */
-function isEventPast(eventDate: string, eventTime: string): boolean {
-  // Get current time in US Eastern
-  const now = new Date();
-  const etFormatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-  });
-
-  const parts = etFormatter.formatToParts(now);
-  const nowET = {
-    year: parts.find(p => p.type === 'year')?.value || '',
-    month: parts.find(p => p.type === 'month')?.value || '',
-    day: parts.find(p => p.type === 'day')?.value || '',
-    hour: parts.find(p => p.type === 'hour')?.value || '00',
-    minute: parts.find(p => p.type === 'minute')?.value || '00',
-  };
-
-  const currentDateET = `${nowET.year}-${nowET.month}-${nowET.day}`;
-  const currentTimeET = `${nowET.hour}:${nowET.minute}`;
-
-  // Compare dates first
-  if (eventDate < currentDateET) return true;
-  if (eventDate > currentDateET) return false;
-
-  // Same day - compare times
-  // Handle "All Day" events as past if date has passed
-  if (eventTime === 'All Day' || eventTime === 'TBD') return true;
-
-  return eventTime <= currentTimeET;
-}
-
-// Try to load data from the public JSON file
-async function loadCalendarData(): Promise<CalendarData | null> {
-  try {
-    // In production, this will be in the public folder
-    const filePath = path.join(process.cwd(), "public", "calendar-data.json");
-    const fileContent = await fs.readFile(filePath, "utf-8");
-    const rawData = JSON.parse(fileContent);
-
-    // Transform the new scraper format to the expected format
-    const events: EconomicEvent[] = (rawData.events || []).map((e: Record<string, unknown>, i: number) => {
-      const eventDate = e.date as string;
-      const eventTime = e.time as string;
-      const latestValue = e.latestValue as string | null;
-      const priorValue = e.priorValue as string | null;
-
-      // Determine actual/previous based on whether event has occurred
-      const isPast = isEventPast(eventDate, eventTime);
-
-      // Past events: show latestValue as Actual, priorValue as Previous
-      // Future events: show null as Actual (displays "—"), latestValue as Previous
-      const actual = isPast ? latestValue : null;
-      const previous = isPast ? priorValue : latestValue;
-
-      return {
-        id: `event-${i}`,
-        date: eventDate,
-        time: eventTime,
-        currency: e.currency as string,
-        event: e.title as string, // Map 'title' to 'event'
-        impact: e.impact as "high" | "medium" | "low" | "holiday" | "early_close",
-        forecast: e.forecast as string | null,
-        previous,
-        actual,
-        category: e.category as string,
-        country: e.country as string,
-        source: e.source as string,
-        sourceUrl: e.sourceUrl as string,
-        // Enriched metadata
-        description: e.description as string,
-        whyItMatters: e.whyItMatters as string,
-        frequency: e.frequency as string,
-        typicalReaction: e.typicalReaction as EconomicEvent["typicalReaction"],
-        relatedAssets: e.relatedAssets as string[],
-        historicalVolatility: e.historicalVolatility as string,
-        // Early close fields
-        isEarlyClose: e.isEarlyClose as boolean | undefined,
-        closeTimeET: e.closeTimeET as string | undefined,
-      };
-    });
-
-    // Calculate date range
-    const dates = events.map(e => e.date).sort();
-
-    return {
-      lastUpdated: rawData.lastUpdated || new Date().toISOString(),
-      eventCount: events.length,
-      dateRange: {
-        start: dates[0] || new Date().toISOString().split("T")[0],
-        end: dates[dates.length - 1] || new Date().toISOString().split("T")[0],
-      },
-      events,
-    };
-  } catch (error) {
-    console.log("Could not load calendar-data.json, using fallback", error);
-    return null;
-  }
-}
-
-// Return empty data when calendar-data.json is not available
+// Return empty data when no calendar data is available
 function getEmptyData(): CalendarData {
   const today = new Date().toISOString().split("T")[0];
   return {
     lastUpdated: new Date().toISOString(),
-    eventCount: 0,
     dateRange: {
       start: today,
       end: today,
@@ -168,63 +17,29 @@ function getEmptyData(): CalendarData {
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
 
-  // Load real data from calendar-data.json
-  let data = await loadCalendarData();
-  const isRealData = data !== null;
-
-  if (!data) {
-    data = getEmptyData();
-  }
-
-  // Apply filters
-  const currency = searchParams.get("currency");
-  const impact = searchParams.get("impact");
-  const category = searchParams.get("category");
-  const startParam = searchParams.get("start");
-  const endParam = searchParams.get("end");
-
-  let filteredEvents = data.events;
-
-  if (currency && currency !== "all") {
-    filteredEvents = filteredEvents.filter((e) => e.currency === currency.toUpperCase());
-  }
-
-  if (impact && impact !== "all") {
-    filteredEvents = filteredEvents.filter((e) => e.impact === impact);
-  }
-
-  if (category && category !== "all") {
-    filteredEvents = filteredEvents.filter((e) => e.category === category);
-  }
-
-  if (startParam) {
-    filteredEvents = filteredEvents.filter((e) => e.date >= startParam);
-  }
-
-  if (endParam) {
-    filteredEvents = filteredEvents.filter((e) => e.date <= endParam);
-  }
+  const loaded = await loadCalendarData(parseCalendarFilters(searchParams));
+  const data = loaded ?? getEmptyData();
 
   return NextResponse.json({
-    events: filteredEvents,
+    events: data.events,
     lastUpdated: data.lastUpdated,
-    isRealData,
+    isRealData: loaded !== null,
     meta: {
-      totalEvents: filteredEvents.length,
+      totalEvents: data.events.length,
       dateRange: data.dateRange,
     },
   });
 }
 
-// Force refresh - just returns status since data comes from GitHub Actions
+// Force refresh - just returns status since data comes from the scraper
 export async function POST() {
-  const data = await loadCalendarData();
+  const data = await loadCalendarData({});
 
   if (data) {
     return NextResponse.json({
       success: true,
       message: "Using data from FRED API and other US sources",
-      eventCount: data.eventCount,
+      eventCount: data.events.length,
       lastUpdated: data.lastUpdated,
     });
   } else {
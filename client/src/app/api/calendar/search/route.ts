@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClientIdentifier, rateLimit, rateLimitPresets } from "@/lib/rate-limit";
+import { loadCalendarData } from "@/lib/calendar-events";
+import { parseSearchQuery, searchEvents } from "@/lib/event-search";
+import { SOURCE_TIME_ZONE, getZonedParts } from "@/lib/event-time";
+
+const MAX_QUERY_LENGTH = 200;
+
+// GET - Ranked search over event titles, descriptions, related assets and categories (?q=&limit=)
+export async function GET(request: NextRequest) {
+  const limit = rateLimit(`calendar-search:${getClientIdentifier(request)}`, rateLimitPresets.relaxed);
+  if (!limit.success) {
+    return NextResponse.json(
+      { error: "Too many requests", retryAfter: Math.ceil(limit.resetIn / 1000) },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.resetIn / 1000)) } }
+    );
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const q = (searchParams.get("q") || "").trim();
+    if (!q) {
+      return NextResponse.json({ error: "q is required" }, { status: 400 });
+    }
+    if (q.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+
+    const parsedLimit = parseInt(searchParams.get("limit") || "", 10);
+    const resultLimit = Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), 100) : 50;
+
+    const query = parseSearchQuery(q, getZonedParts(new Date(), SOURCE_TIME_ZONE).date);
+    const data = await loadCalendarData(query.range ? { start: query.range.start, end: query.range.end } : {});
+    const results = data ? searchEvents(data.events, query, { limit: resultLimit }) : [];
+
+    return NextResponse.json(
+      { query: { terms: query.terms, range: query.range }, results },
+      { headers: { "Cache-Control": "public, s-maxage=60, stale-while-revalidate=30" } }
+    );
+  } catch (error) {
+    console.error("Error searching calendar events:", error);
+    return NextResponse.json(
+      { error: "Failed to search calendar events" },
+      { status: 500 }
+    );
+  }
+}
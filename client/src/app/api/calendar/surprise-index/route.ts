@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClientIdentifier, rateLimit, rateLimitPresets } from "@/lib/rate-limit";
+import { DEFAULT_SURPRISE_INDEX_OPTIONS, getSurpriseIndex } from "@/lib/surprise-index";
+
+function intParam(value: string | null, fallback: number, min: number, max: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+}
+
+// GET - Daily economic surprise index (?days=&windowDays=&halfLifeDays=), overall and by category
+export async function GET(request: NextRequest) {
+  const limit = rateLimit(`calendar-surprise-index:${getClientIdentifier(request)}`, rateLimitPresets.relaxed);
+  if (!limit.success) {
+    return NextResponse.json(
+      { error: "Too many requests", retryAfter: Math.ceil(limit.resetIn / 1000) },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.resetIn / 1000)) } }
+    );
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const index = await getSurpriseIndex({
+      days: intParam(searchParams.get("days"), DEFAULT_SURPRISE_INDEX_OPTIONS.days, 7, 730),
+      windowDays: intParam(searchParams.get("windowDays"), DEFAULT_SURPRISE_INDEX_OPTIONS.windowDays, 7, 365),
+      halfLifeDays: intParam(searchParams.get("halfLifeDays"), DEFAULT_SURPRISE_INDEX_OPTIONS.halfLifeDays, 1, 180),
+    });
+
+    return NextResponse.json(index, {
+      headers: { "Cache-Control": "public, s-maxage=900, stale-while-revalidate=60" },
+    });
+  } catch (error) {
+    console.error("Error computing surprise index:", error);
+    return NextResponse.json(
+      { error: "Failed to compute surprise index" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { deliverDuePushes, getPushMode } from "@/lib/push-delivery";
+
+// Sends scheduled alerts that have come due as Web Pushes. Vercel Hobby crons
+// run at most daily, so an external scheduler calls this every minute (see README).
+export async function GET(request: Request) {
+  // /api/cron is public, so delivery always needs the cron secret
+  if (!process.env.CRON_SECRET) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (getPushMode() === "disabled") {
+    return NextResponse.json({ error: "VAPID keys not configured" }, { status: 500 });
+  }
+
+  try {
+    const result = await deliverDuePushes();
+    if (result.due > 0 || result.dropped > 0) {
+      console.log(`Push alerts: ${result.sent} sent, ${result.expired} expired, ${result.failed} failed, ${result.dropped} dropped`);
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error delivering push alerts:", error);
+    return NextResponse.json({ error: "Failed to deliver push alerts" }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { CalendarHealth, getCalendarHealth } from "@/lib/calendar-health";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -12,6 +13,8 @@ export async function GET() {
     timestamp: string;
     uptime: number;
     database: "connected" | "disconnected";
+    calendar?: CalendarHealth;
+    reasons: string[];
     responseTime?: number;
     error?: string;
   } = {
@@ -19,6 +22,7 @@ export async function GET() {
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     database: "disconnected",
+    reasons: [],
   };
 
   try {
@@ -29,6 +33,14 @@ export async function GET() {
     health.status = "degraded";
     health.database = "disconnected";
     health.error = error instanceof Error ? error.message : "Database connection failed";
+    health.reasons.push("Database connection failed");
+  }
+
+  // Stale or malformed calendar data degrades the app without taking it down
+  health.calendar = await getCalendarHealth();
+  if (health.calendar.status === "degraded") {
+    health.status = "degraded";
+    health.reasons.push(...health.calendar.reasons);
   }
 
   health.responseTime = Date.now() - startTime;
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClientIdentifier, rateLimit, rateLimitPresets } from "@/lib/rate-limit";
+import { isFredConfigured } from "@/lib/fred";
+import { getLiveData, getLiveDataTtl } from "@/lib/live-data";
+
+// GET - Latest FRED values keyed by calendar event title, served from a server-side cache
+export async function GET(request: NextRequest) {
+  const limit = rateLimit(`live-data:${getClientIdentifier(request)}`, rateLimitPresets.relaxed);
+  if (!limit.success) {
+    return NextResponse.json(
+      { error: "Too many requests", retryAfter: Math.ceil(limit.resetIn / 1000) },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.resetIn / 1000)) } }
+    );
+  }
+
+  if (!isFredConfigured()) {
+    return NextResponse.json({ error: "FRED_API_KEY not configured" }, { status: 503 });
+  }
+
+  try {
+    const { snapshot, cached } = await getLiveData();
+    const ttl = getLiveDataTtl();
+
+    return NextResponse.json(
+      { success: true, cached, ...snapshot },
+      {
+        headers: {
+          "Cache-Control": `public, s-maxage=${ttl}, stale-while-revalidate=60`,
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error fetching live data:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch live data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { deliverDuePushes, isPushMockEnabled } from "@/lib/push-delivery";
+import { drainLocalInbox } from "@/lib/push-mock";
+
+// GET - Development push stand-in: deliver the user's due alerts (there's no
+// cron locally), then hand over whatever is queued for this device's endpoint
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isPushMockEnabled()) {
+      return NextResponse.json({ error: "Local push is only available in development" }, { status: 404 });
+    }
+
+    const endpoint = request.nextUrl.searchParams.get("endpoint");
+    const subscription = endpoint
+      ? await prisma.pushSubscription.findFirst({ where: { endpoint, userId } })
+      : null;
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    await deliverDuePushes(new Date(), { userId });
+
+    return NextResponse.json({ payloads: drainLocalInbox(subscription.endpoint) });
+  } catch (error) {
+    console.error("Error polling local push inbox:", error);
+    return NextResponse.json(
+      { error: "Failed to poll local push inbox" },
+      { status: 500 }
+    );
+  }
+}
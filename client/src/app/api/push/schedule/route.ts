@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { parsePushSchedule } from "@/lib/push";
+
+// PUT - Replace the user's upcoming alerts. Alerts already sent keep their
+// rows, so an occurrence in the new schedule that has been sent isn't resent.
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { items, error } = parsePushSchedule(await request.json());
+    if (!items) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const now = new Date();
+    const upcoming = items.filter((item) => new Date(item.fireAt) > now);
+
+    await prisma.$transaction([
+      prisma.scheduledPush.deleteMany({ where: { userId, sentAt: null } }),
+      prisma.scheduledPush.createMany({
+        data: upcoming.map((item) => ({ userId, ...item, fireAt: new Date(item.fireAt) })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return NextResponse.json({ scheduled: upcoming.length });
+  } catch (error) {
+    console.error("Error saving push schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to save push schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { LOCAL_PUSH_ENDPOINT_PREFIX, parseAlertTypes, parsePushSubscriptionInput } from "@/lib/push";
+import { getPushMode, getVapidPublicKey } from "@/lib/push-delivery";
+
+// GET - Push configuration, plus this device's opt-in when ?endpoint= is given
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const endpoint = request.nextUrl.searchParams.get("endpoint");
+    const subscription = endpoint
+      ? await prisma.pushSubscription.findFirst({ where: { endpoint, userId } })
+      : null;
+
+    return NextResponse.json({
+      mode: getPushMode(),
+      publicKey: getVapidPublicKey(),
+      subscription: subscription ? { endpoint: subscription.endpoint, alertTypes: parseAlertTypes(subscription.alertTypes) } : null,
+    });
+  } catch (error) {
+    console.error("Error fetching push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch push subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save this device's subscription and alert types. A browser signed in
+// to a different account takes the subscription over.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { subscription, error } = parsePushSubscriptionInput(await request.json());
+    if (!subscription) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const mode = getPushMode();
+    const isLocal = subscription.endpoint.startsWith(LOCAL_PUSH_ENDPOINT_PREFIX);
+    if (mode === "disabled" || isLocal !== (mode === "local")) {
+      return NextResponse.json({ error: `Push notifications are in ${mode} mode` }, { status: 400 });
+    }
+
+    const userAgent = request.headers.get("user-agent")?.slice(0, 300) ?? null;
+    const saved = await prisma.pushSubscription.upsert({
+      where: { endpoint: subscription.endpoint },
+      create: { userId, ...subscription, userAgent },
+      update: { userId, ...subscription, userAgent },
+    });
+
+    return NextResponse.json({ subscription: { endpoint: saved.endpoint, alertTypes: saved.alertTypes } });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to save push subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Stop background alerts on a device (?endpoint=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const endpoint = request.nextUrl.searchParams.get("endpoint");
+    if (!endpoint) {
+      return NextResponse.json({ error: "endpoint is required" }, { status: 400 });
+    }
+
+    await prisma.pushSubscription.deleteMany({ where: { endpoint, userId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to delete push subscription" },
+      { status: 500 }
+    );
+  }
+}
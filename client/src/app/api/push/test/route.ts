@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { sendPush } from "@/lib/push-delivery";
+
+// POST - Send a test notification to every device the user has enabled
+export async function POST() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const subscriptions = await prisma.pushSubscription.findMany({ where: { userId } });
+    if (subscriptions.length === 0) {
+      return NextResponse.json({ error: "No devices have background alerts enabled" }, { status: 404 });
+    }
+
+    const outcomes = await Promise.all(
+      subscriptions.map((subscription) =>
+        sendPush(subscription, {
+          title: "Test alert",
+          body: "Background alerts are working on this device.",
+          tag: `test-${Date.now()}`,
+          type: "test",
+          url: "/dashboard",
+        })
+      )
+    );
+
+    return NextResponse.json({
+      sent: outcomes.filter((o) => o === "sent").length,
+      expired: outcomes.filter((o) => o === "expired").length,
+      failed: outcomes.filter((o) => o === "failed").length,
+    });
+  } catch (error) {
+    console.error("Error sending test push:", error);
+    return NextResponse.json(
+      { error: "Failed to send test notification" },
+      { status: 500 }
+    );
+  }
+}
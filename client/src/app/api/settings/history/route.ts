@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+// GET - Goal and consistency target changes, newest first (?limit=50)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 500);
+
+    const history = await prisma.userSettingsHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error("Error fetching settings history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch settings history" },
+      { status: 500 }
+    );
+  }
+}
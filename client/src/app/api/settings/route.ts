@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma, UserSettings as UserSettingsRow } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  DEFAULT_USER_SETTINGS,
+  parseUserSettingsUpdate,
+  TRACKED_SETTINGS_FIELDS,
+  UserSettings,
+  UserSettingsUpdate,
+} from "@/lib/user-settings";
+
+function serializeSettings(row: UserSettingsRow | null): UserSettings {
+  if (!row) return DEFAULT_USER_SETTINGS;
+  return {
+    yearlyPnlGoal: row.yearlyPnlGoal,
+    monthlyPnlGoal: row.yearlyPnlGoal / 12,
+    startingEquity: row.startingEquity,
+    winRateTarget: row.winRateTarget,
+    profitFactorTarget: row.profitFactorTarget,
+    maxDrawdownLimit: row.maxDrawdownLimit,
+    riskRewardTarget: row.riskRewardTarget,
+    keyMetrics: row.keyMetrics,
+    displayTimezone: row.displayTimezone,
+  };
+}
+
+// Write the update and, when a goal or target changed, a history snapshot
+async function applySettingsUpdate(tx: Prisma.TransactionClient, userId: string, update: UserSettingsUpdate) {
+  const existing = await tx.userSettings.findUnique({ where: { userId } });
+  const before = serializeSettings(existing);
+
+  const saved = await tx.userSettings.upsert({
+    where: { userId },
+    create: { userId, ...update },
+    update,
+  });
+
+  const changedFields = TRACKED_SETTINGS_FIELDS.filter((field) => saved[field] !== before[field]);
+  if (changedFields.length > 0) {
+    await tx.userSettingsHistory.create({
+      data: {
+        userId,
+        yearlyPnlGoal: saved.yearlyPnlGoal,
+        startingEquity: saved.startingEquity,
+        winRateTarget: saved.winRateTarget,
+        profitFactorTarget: saved.profitFactorTarget,
+        maxDrawdownLimit: saved.maxDrawdownLimit,
+        riskRewardTarget: saved.riskRewardTarget,
+        changedFields,
+      },
+    });
+  }
+
+  return saved;
+}
+
+// GET - Fetch the user's goals, consistency targets, Key Metrics order and display time zone
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+
+    return NextResponse.json({
+      settings: serializeSettings(settings),
+      // False until the client has uploaded its localStorage settings
+      initialized: settings !== null,
+    });
+  } catch (error) {
+    console.error("Error fetching settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update some or all settings
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { update, error } = parseUserSettingsUpdate(await request.json());
+    if (!update) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const saved = await prisma.$transaction((tx) => applySettingsUpdate(tx, userId, update));
+
+    return NextResponse.json({ settings: serializeSettings(saved) });
+  } catch (error) {
+    console.error("Error updating settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - One-time import of the settings previously kept in localStorage
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { update, error } = parseUserSettingsUpdate(await request.json());
+    if (!update) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      // Another tab may have imported first; never import twice
+      if (await tx.userSettings.findUnique({ where: { userId } })) {
+        return null;
+      }
+      return applySettingsUpdate(tx, userId, update);
+    });
+
+    if (!saved) {
+      const current = await prisma.userSettings.findUnique({ where: { userId } });
+      return NextResponse.json(
+        { error: "Settings have already been imported", settings: serializeSettings(current) },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ settings: serializeSettings(saved) });
+  } catch (error) {
+    console.error("Error importing settings:", error);
+    return NextResponse.json(
+      { error: "Failed to import settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { moveTagToSection, removeTagFromTrades, renameTagInTrades } from "@/lib/tags";
+
+// PUT - Rename or move a tag; renames are applied to every trade carrying it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id },
+    });
+
+    if (!existingTag || existingTag.userId !== userId) {
+      return NextResponse.json(
+        { error: "Tag not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : undefined;
+    const { sectionId } = body;
+
+    if (name === "") {
+      return NextResponse.json(
+        { error: "Tag name cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    const isMove = Boolean(sectionId) && sectionId !== existingTag.sectionId;
+
+    if (isMove) {
+      const section = await prisma.tagSection.findUnique({
+        where: { id: sectionId },
+      });
+
+      if (!section || section.userId !== userId) {
+        return NextResponse.json(
+          { error: "Section not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const isRename = name !== undefined && name !== existingTag.name;
+
+    const { tag, tradesUpdated } = await prisma.$transaction(async (tx) => {
+      // A moved tag goes to the end of its new section
+      if (isMove) {
+        await moveTagToSection(tx, existingTag, sectionId);
+      }
+
+      const tag = await tx.tag.update({
+        where: { id },
+        data: { name: name ?? existingTag.name },
+      });
+
+      const tradesUpdated = isRename
+        ? await renameTagInTrades(tx, userId, existingTag.name, tag.name)
+        : 0;
+
+      return { tag, tradesUpdated };
+    });
+
+    return NextResponse.json({ tag, tradesUpdated });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error updating tag:", error);
+    return NextResponse.json(
+      { error: "Failed to update tag" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a tag (pass removeFromTrades=true to also strip it from trades)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id },
+    });
+
+    if (!existingTag || existingTag.userId !== userId) {
+      return NextResponse.json(
+        { error: "Tag not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const removeFromTrades = searchParams.get("removeFromTrades") === "true";
+
+    const tradesUpdated = await prisma.$transaction(async (tx) => {
+      await tx.tag.delete({ where: { id } });
+
+      // Close the gap left in the section ordering
+      await tx.tag.updateMany({
+        where: { sectionId: existingTag.sectionId, order: { gt: existingTag.order } },
+        data: { order: { decrement: 1 } },
+      });
+
+      return removeFromTrades ? removeTagFromTrades(tx, userId, existingTag.name) : 0;
+    });
+
+    return NextResponse.json({ success: true, tradesUpdated });
+  } catch (error) {
+    console.error("Error deleting tag:", error);
+    return NextResponse.json(
+      { error: "Failed to delete tag" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { DEFAULT_TAG_SECTIONS } from "@/lib/tag-defaults";
+import { getTagTaxonomy, seedTagSections } from "@/lib/tags";
+
+// POST - Replace the user's taxonomy with the defaults (trades keep their tags)
+export async function POST() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const sections = await prisma.$transaction(async (tx) => {
+      await tx.tagSection.deleteMany({ where: { userId } });
+      await seedTagSections(tx, userId, DEFAULT_TAG_SECTIONS);
+      return getTagTaxonomy(userId, tx);
+    });
+
+    return NextResponse.json({ sections });
+  } catch (error) {
+    console.error("Error restoring default tags:", error);
+    return NextResponse.json(
+      { error: "Failed to restore default tags" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { DEFAULT_TAG_SECTIONS, DefaultTagSection } from "@/lib/tag-defaults";
+import { getTagTaxonomy, seedTagSections } from "@/lib/tags";
+
+function parseSections(value: unknown): DefaultTagSection[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const sections: DefaultTagSection[] = [];
+  for (const raw of value) {
+    if (typeof raw !== "object" || raw === null) return null;
+    const { name, color, tags } = raw as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim() || !Array.isArray(tags)) return null;
+
+    sections.push({
+      name,
+      color: typeof color === "string" ? color : "blue",
+      // Accept both plain names and the { id, name } objects stored by the old TagContext
+      tags: tags
+        .map((tag) => (typeof tag === "string" ? tag : (tag as { name?: unknown })?.name))
+        .filter((tag): tag is string => typeof tag === "string"),
+    });
+  }
+  return sections;
+}
+
+// POST - One-time import of the taxonomy previously kept in localStorage.
+// Without a body (or with no sections) the default taxonomy is seeded instead.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const sections = body.sections === undefined ? [] : parseSections(body.sections);
+
+    if (!sections) {
+      return NextResponse.json(
+        { error: "Sections must be an array of { name, color, tags }" },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Another tab may have migrated first; never import twice
+      if ((await tx.tagSection.count({ where: { userId } })) > 0) {
+        return null;
+      }
+
+      await seedTagSections(tx, userId, sections.length > 0 ? sections : DEFAULT_TAG_SECTIONS);
+      return getTagTaxonomy(userId, tx);
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Tags have already been migrated", sections: await getTagTaxonomy(userId) },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ sections: result });
+  } catch (error) {
+    console.error("Error migrating tags:", error);
+    return NextResponse.json(
+      { error: "Failed to migrate tags" },
+      { status: 500 }
+    );
+  }
+}
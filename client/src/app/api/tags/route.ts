@@ -1,15 +1,10 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getTagTaxonomy } from "@/lib/tags";
 
-// Preset tag suggestions - users can also type custom tags
-const PRESET_TAGS = [
-  // Setup tags
-  "Breakout", "Reversal", "Trend", "Scalp", "News Play", "Range", "Fade",
-  // Emotion tags
-  "Confident", "Disciplined", "FOMO", "Revenge", "Anxious", "Impatient",
-];
-
-// GET - Return preset tag suggestions
+// GET - Return the user's tag taxonomy (sections with ordered tags)
 export async function GET() {
   try {
     const { userId } = await auth();
@@ -18,7 +13,15 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    return NextResponse.json({ tags: PRESET_TAGS });
+    const sections = await getTagTaxonomy(userId);
+
+    return NextResponse.json({
+      sections,
+      // Flat list of names, used as suggestions by the trade form
+      tags: sections.flatMap((section) => section.tags.map((tag) => tag.name)),
+      // False until the client has migrated its localStorage taxonomy (or seeded defaults)
+      initialized: sections.length > 0,
+    });
   } catch (error) {
     console.error("Error fetching tags:", error);
     return NextResponse.json(
@@ -27,3 +30,107 @@ export async function GET() {
     );
   }
 }
+
+// POST - Add a tag to a section
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sectionId, name } = await request.json();
+    const tagName = typeof name === "string" ? name.trim() : "";
+
+    if (!sectionId || !tagName) {
+      return NextResponse.json(
+        { error: "Section ID and name are required" },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.tagSection.findUnique({
+      where: { id: sectionId },
+      include: { _count: { select: { tags: true } } },
+    });
+
+    if (!section || section.userId !== userId) {
+      return NextResponse.json(
+        { error: "Section not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        userId,
+        sectionId,
+        name: tagName,
+        order: section._count.tags,
+      },
+    });
+
+    return NextResponse.json({ tag });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating tag:", error);
+    return NextResponse.json(
+      { error: "Failed to create tag" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Reorder the tags within a section
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sectionId, tagIds } = await request.json();
+
+    if (!sectionId || !Array.isArray(tagIds)) {
+      return NextResponse.json(
+        { error: "Section ID and tag IDs are required" },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.tagSection.findUnique({
+      where: { id: sectionId },
+    });
+
+    if (!section || section.userId !== userId) {
+      return NextResponse.json(
+        { error: "Section not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(
+      tagIds.map((id: string, order: number) =>
+        prisma.tag.updateMany({
+          where: { id, sectionId, userId },
+          data: { order },
+        })
+      )
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error reordering tags:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder tags" },
+      { status: 500 }
+    );
+  }
+}
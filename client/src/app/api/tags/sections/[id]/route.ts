@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+// PUT - Rename or recolor a section
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingSection = await prisma.tagSection.findUnique({
+      where: { id },
+    });
+
+    if (!existingSection || existingSection.userId !== userId) {
+      return NextResponse.json(
+        { error: "Section not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    const { name, color } = await request.json();
+    const sectionName = typeof name === "string" ? name.trim() : undefined;
+
+    if (sectionName === "") {
+      return NextResponse.json(
+        { error: "Section name cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.tagSection.update({
+      where: { id },
+      data: {
+        name: sectionName ?? existingSection.name,
+        color: color || existingSection.color,
+      },
+      include: { tags: { orderBy: { order: "asc" } } },
+    });
+
+    return NextResponse.json({ section });
+  } catch (error) {
+    console.error("Error updating tag section:", error);
+    return NextResponse.json(
+      { error: "Failed to update tag section" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a section and its tags (trades keep their tag names)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingSection = await prisma.tagSection.findUnique({
+      where: { id },
+    });
+
+    if (!existingSection || existingSection.userId !== userId) {
+      return NextResponse.json(
+        { error: "Section not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.tagSection.delete({ where: { id } }),
+      prisma.tagSection.updateMany({
+        where: { userId, order: { gt: existingSection.order } },
+        data: { order: { decrement: 1 } },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting tag section:", error);
+    return NextResponse.json(
+      { error: "Failed to delete tag section" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+// POST - Create a tag section at the end of the list
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name, color } = await request.json();
+    const sectionName = typeof name === "string" ? name.trim() : "";
+
+    if (!sectionName) {
+      return NextResponse.json(
+        { error: "Name is required" },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.tagSection.count({ where: { userId } });
+
+    const section = await prisma.tagSection.create({
+      data: {
+        userId,
+        name: sectionName,
+        color: color || "blue",
+        order,
+      },
+      include: { tags: true },
+    });
+
+    return NextResponse.json({ section });
+  } catch (error) {
+    console.error("Error creating tag section:", error);
+    return NextResponse.json(
+      { error: "Failed to create tag section" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Reorder the user's sections
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sectionIds } = await request.json();
+
+    if (!Array.isArray(sectionIds)) {
+      return NextResponse.json(
+        { error: "Section IDs are required" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      sectionIds.map((id: string, order: number) =>
+        prisma.tagSection.updateMany({
+          where: { id, userId },
+          data: { order },
+        })
+      )
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error reordering tag sections:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder tag sections" },
+      { status: 500 }
+    );
+  }
+}
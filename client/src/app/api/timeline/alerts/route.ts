@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { parseCustomAlert, serializeAlert, toAlertData } from "@/lib/timeline";
+
+// POST - Create a custom alert
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { alert, error } = parseCustomAlert(await request.json());
+    if (!alert) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await prisma.customAlert.create({
+      data: { userId, ...toAlertData(alert) },
+    });
+
+    return NextResponse.json({ alert: serializeAlert(created) });
+  } catch (error) {
+    console.error("Error creating custom alert:", error);
+    return NextResponse.json(
+      { error: "Failed to create custom alert" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { parseMarketInput, serializeMarket } from "@/lib/markets";
+
+// PUT - Update a custom market. The client sends the version it edited;
+// if another tab saved in the meantime the current copy is returned with a 409.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { market, error } = parseMarketInput(body);
+    if (!market) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // marketId is fixed once created; an edited built-in stays tied to it
+    const { count } = await prisma.customMarket.updateMany({
+      where: { id, userId, ...(typeof body.version === "number" ? { version: body.version } : {}) },
+      data: {
+        name: market.name,
+        shortName: market.shortName,
+        color: market.color,
+        timezone: market.timezone,
+        days: market.days,
+        segments: market.segments as unknown as Prisma.InputJsonValue,
+        holidayCalendar: market.holidayCalendar ?? null,
+        version: { increment: 1 },
+      },
+    });
+
+    const current = await prisma.customMarket.findUnique({ where: { id, userId } });
+
+    if (!current) {
+      return NextResponse.json(
+        { error: "Market was deleted" },
+        { status: 404 }
+      );
+    }
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Market was changed in another tab", market: serializeMarket(current) },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ market: serializeMarket(current) });
+  } catch (error) {
+    console.error("Error updating custom market:", error);
+    return NextResponse.json(
+      { error: "Failed to update custom market" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an added exchange, or reset a built-in to its default hours
+// (?version=N rejects the delete if it was edited elsewhere)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const version = new URL(request.url).searchParams.get("version");
+
+    const { count } = await prisma.customMarket.deleteMany({
+      where: { id, userId, ...(version ? { version: parseInt(version) } : {}) },
+    });
+
+    if (count === 0) {
+      const current = await prisma.customMarket.findUnique({ where: { id, userId } });
+      if (current) {
+        return NextResponse.json(
+          { error: "Market was changed in another tab", market: serializeMarket(current) },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Deleting something another tab already deleted is not an error
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting custom market:", error);
+    return NextResponse.json(
+      { error: "Failed to delete custom market" },
+      { status: 500 }
+    );
+  }
+}
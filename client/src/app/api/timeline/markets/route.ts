@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { parseMarketInput, serializeMarket } from "@/lib/markets";
+
+// POST - Add an exchange, or save edited hours for a built-in one
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { market, error } = parseMarketInput(await request.json());
+    if (!market) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // Another tab may have edited the same built-in first
+    const existing = await prisma.customMarket.findUnique({
+      where: { userId_marketId: { userId, marketId: market.marketId } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: "Market was changed in another tab", market: serializeMarket(existing) },
+        { status: 409 }
+      );
+    }
+
+    const created = await prisma.customMarket.create({
+      data: {
+        userId,
+        ...market,
+        segments: market.segments as unknown as Prisma.InputJsonValue,
+        holidayCalendar: market.holidayCalendar ?? null,
+      },
+    });
+
+    return NextResponse.json({ market: serializeMarket(created) });
+  } catch (error) {
+    console.error("Error creating custom market:", error);
+    return NextResponse.json(
+      { error: "Failed to create custom market" },
+      { status: 500 }
+    );
+  }
+}
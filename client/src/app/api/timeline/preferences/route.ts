@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+// PUT - Replace the user's timeline preferences (last write wins)
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { preferences } = await request.json();
+
+    if (typeof preferences !== "object" || preferences === null || Array.isArray(preferences)) {
+      return NextResponse.json(
+        { error: "Preferences must be an object" },
+        { status: 400 }
+      );
+    }
+
+    const saved = await prisma.timelinePreferences.upsert({
+      where: { userId },
+      create: { userId, preferences: preferences as Prisma.InputJsonValue },
+      update: { preferences: preferences as Prisma.InputJsonValue },
+    });
+
+    return NextResponse.json({ preferences: saved.preferences });
+  } catch (error) {
+    console.error("Error saving timeline preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to save timeline preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { serializeMarket } from "@/lib/markets";
+import {
+  CustomAlertInput,
+  CustomSessionInput,
+  parseCustomAlert,
+  parseCustomSession,
+  serializeAlert,
+  serializeSession,
+  toAlertData,
+  toSessionData,
+} from "@/lib/timeline";
+
+// GET - Fetch the user's custom sessions, alerts, markets and timeline preferences
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [sessions, alerts, markets, preferences] = await Promise.all([
+      prisma.customSession.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+      prisma.customAlert.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+      prisma.customMarket.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+      prisma.timelinePreferences.findUnique({ where: { userId } }),
+    ]);
+
+    return NextResponse.json({
+      sessions: sessions.map(serializeSession),
+      alerts: alerts.map(serializeAlert),
+      markets: markets.map(serializeMarket),
+      preferences: preferences?.preferences ?? null,
+      // The preferences row is created by the first sync, so it marks the
+      // account as migrated from localStorage
+      initialized: preferences !== null,
+    });
+  } catch (error) {
+    console.error("Error fetching timeline items:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch timeline items" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - One-time import of sessions, alerts and preferences from localStorage
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    // Invalid entries from old clients are dropped rather than failing the import
+    const sessions = (Array.isArray(body.sessions) ? body.sessions : [])
+      .map((s: unknown) => parseCustomSession(s).session)
+      .filter((s: CustomSessionInput | null): s is CustomSessionInput => s !== null);
+    const alerts = (Array.isArray(body.alerts) ? body.alerts : [])
+      .map((a: unknown) => parseCustomAlert(a).alert)
+      .filter((a: CustomAlertInput | null): a is CustomAlertInput => a !== null);
+    const preferences = typeof body.preferences === "object" && body.preferences !== null ? body.preferences : {};
+
+    const migrated = await prisma.$transaction(async (tx) => {
+      // Another tab or device may have synced first; never import twice
+      if (await tx.timelinePreferences.findUnique({ where: { userId } })) {
+        return false;
+      }
+
+      await tx.timelinePreferences.create({
+        data: { userId, preferences: preferences as Prisma.InputJsonValue },
+      });
+      // One at a time so createdAt keeps the original order
+      for (const session of sessions) {
+        await tx.customSession.create({ data: { userId, ...toSessionData(session) } });
+      }
+      for (const alert of alerts) {
+        await tx.customAlert.create({ data: { userId, ...toAlertData(alert) } });
+      }
+      return true;
+    });
+
+    const [savedSessions, savedAlerts, savedMarkets, savedPreferences] = await Promise.all([
+      prisma.customSession.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+      prisma.customAlert.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+      prisma.customMarket.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+      prisma.timelinePreferences.findUnique({ where: { userId } }),
+    ]);
+
+    return NextResponse.json(
+      {
+        ...(migrated ? {} : { error: "Timeline items have already been synced" }),
+        sessions: savedSessions.map(serializeSession),
+        alerts: savedAlerts.map(serializeAlert),
+        markets: savedMarkets.map(serializeMarket),
+        preferences: savedPreferences?.preferences ?? null,
+      },
+      { status: migrated ? 200 : 409 }
+    );
+  } catch (error) {
+    console.error("Error migrating timeline items:", error);
+    return NextResponse.json(
+      { error: "Failed to migrate timeline items" },
+      { status: 500 }
+    );
+  }
+}
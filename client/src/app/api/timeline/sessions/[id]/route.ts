@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { parseCustomSession, serializeSession, toSessionData } from "@/lib/timeline";
+
+// PUT - Update a custom session. The client sends the version it edited;
+// if another tab saved in the meantime the current copy is returned with a 409.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { session, error } = parseCustomSession(body);
+    if (!session) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const { count } = await prisma.customSession.updateMany({
+      where: { id, userId, ...(typeof body.version === "number" ? { version: body.version } : {}) },
+      data: { ...toSessionData(session), version: { increment: 1 } },
+    });
+
+    const current = await prisma.customSession.findUnique({ where: { id, userId } });
+
+    if (!current) {
+      return NextResponse.json(
+        { error: "Session was deleted" },
+        { status: 404 }
+      );
+    }
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Session was changed in another tab", session: serializeSession(current) },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ session: serializeSession(current) });
+  } catch (error) {
+    console.error("Error updating custom session:", error);
+    return NextResponse.json(
+      { error: "Failed to update custom session" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a custom session (?version=N rejects the delete if it was edited elsewhere)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const version = new URL(request.url).searchParams.get("version");
+
+    const { count } = await prisma.customSession.deleteMany({
+      where: { id, userId, ...(version ? { version: parseInt(version) } : {}) },
+    });
+
+    if (count === 0) {
+      const current = await prisma.customSession.findUnique({ where: { id, userId } });
+      if (current) {
+        return NextResponse.json(
+          { error: "Session was changed in another tab", session: serializeSession(current) },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Deleting something another tab already deleted is not an error
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting custom session:", error);
+    return NextResponse.json(
+      { error: "Failed to delete custom session" },
+      { status: 500 }
+    );
+  }
+}
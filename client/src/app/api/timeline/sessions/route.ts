@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { parseCustomSession, serializeSession, toSessionData } from "@/lib/timeline";
+
+// POST - Create a custom session
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { session, error } = parseCustomSession(await request.json());
+    if (!session) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await prisma.customSession.create({
+      data: { userId, ...toSessionData(session) },
+    });
+
+    return NextResponse.json({ session: serializeSession(created) });
+  } catch (error) {
+    console.error("Error creating custom session:", error);
+    return NextResponse.json(
+      { error: "Failed to create custom session" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,12 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
-import { promises as fs } from "fs";
-import path from "path";
+import { readCalendarFile } from "@/lib/calendar-events";
 
 interface EconomicEvent {
-  id: string;
   date: string;
-  time: string;
-  currency: string;
   event: string;
-  impact: "high" | "medium" | "low" | "holiday" | "early_close";
+  impact: string;
   category: string;
 }
 
@@ -51,24 +47,26 @@ function finalizeStats(stats: CorrelationStats): CorrelationStats {
   };
 }
 
-async function loadCalendarEvents(): Promise<EconomicEvent[]> {
-  try {
-    const filePath = path.join(process.cwd(), "public", "calendar-data.json");
-    const fileContent = await fs.readFile(filePath, "utf-8");
-    const rawData = JSON.parse(fileContent);
-
-    return (rawData.events || []).map((e: Record<string, unknown>, i: number) => ({
-      id: `event-${i}`,
-      date: e.date as string,
-      time: e.time as string,
-      currency: e.currency as string,
-      event: e.title as string,
-      impact: e.impact as "high" | "medium" | "low" | "holiday" | "early_close",
-      category: e.category as string,
-    }));
-  } catch {
-    return [];
+// Only the events on days the user traded, via the date index
+async function loadCalendarEvents(dates: string[]): Promise<EconomicEvent[]> {
+  if (dates.length === 0) return [];
+
+  const [rows, total] = await Promise.all([
+    prisma.economicEvent.findMany({
+      where: { date: { in: dates } },
+      select: { date: true, title: true, impact: true, category: true },
+    }),
+    prisma.economicEvent.count(),
+  ]);
+
+  if (total === 0) {
+    // Nothing ingested yet - use the bundled calendar file
+    const file = await readCalendarFile();
+    const dateSet = new Set(dates);
+    return (file?.events || []).filter((e) => dateSet.has(e.date));
   }
+
+  return rows.map((row) => ({ date: row.date, event: row.title, impact: row.impact, category: row.category }));
 }
 
 export async function GET() {
@@ -79,14 +77,11 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Fetch all trades and calendar events
-    const [trades, events] = await Promise.all([
-      prisma.trade.findMany({
-        where: { userId },
-        orderBy: { date: "asc" },
-      }),
-      loadCalendarEvents(),
-    ]);
+    const trades = await prisma.trade.findMany({
+      where: { userId },
+      orderBy: { date: "asc" },
+    });
+    const events = await loadCalendarEvents(Array.from(new Set(trades.map((trade) => trade.date))));
 
     if (trades.length === 0) {
       return NextResponse.json({
@@ -0,0 +1,249 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma, Strategy } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  ExportedStrategy,
+  ExportedTrade,
+  JOURNAL_EXPORT_VERSION,
+  JournalExportFilters,
+  TRADE_CSV_COLUMNS,
+  toCsvRow,
+} from "@/lib/journal-export";
+
+export const dynamic = "force-dynamic";
+
+const BATCH_SIZE = 500;
+const VALID_ASSET_TYPES = ["STOCK", "FUTURES", "OPTIONS", "FOREX", "CRYPTO"];
+
+const tradeInclude = {
+  strategyTrades: {
+    select: { strategy: { select: { id: true, name: true } } },
+  },
+} satisfies Prisma.TradeInclude;
+
+type TradeWithStrategies = Prisma.TradeGetPayload<{ include: typeof tradeInclude }>;
+
+// Build the where clause the same way the trading page filters:
+// closed swing trades count on their closeDate, everything else on its entry date
+function buildWhere(userId: string, filters: JournalExportFilters): Prisma.TradeWhereInput {
+  const where: Prisma.TradeWhereInput = { userId };
+
+  if (filters.assetTypes.length > 0) {
+    where.assetType = { in: filters.assetTypes };
+  }
+
+  if (filters.startDate || filters.endDate) {
+    const range = {
+      ...(filters.startDate && { gte: filters.startDate }),
+      ...(filters.endDate && { lte: filters.endDate }),
+    };
+    where.OR = [
+      { closeDate: range },
+      { closeDate: null, date: range },
+    ];
+  }
+
+  return where;
+}
+
+// Page through trades in stable (date, id) order
+async function* iterateTrades(where: Prisma.TradeWhereInput): AsyncGenerator<TradeWithStrategies[]> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.trade.findMany({
+      where,
+      include: tradeInclude,
+      orderBy: [{ date: "asc" }, { id: "asc" }],
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    if (batch.length === 0) return;
+    yield batch;
+    if (batch.length < BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+function tradeToCsvRow(trade: TradeWithStrategies): string {
+  const strategies = trade.strategyTrades.map((st) => st.strategy);
+  const values: Record<(typeof TRADE_CSV_COLUMNS)[number], unknown> = {
+    id: trade.id,
+    date: trade.date,
+    time: trade.time,
+    closeDate: trade.closeDate,
+    ticker: trade.ticker,
+    direction: trade.direction,
+    assetType: trade.assetType,
+    status: trade.status,
+    entryPrice: trade.entryPrice,
+    exitPrice: trade.exitPrice,
+    size: trade.size,
+    pnl: trade.pnl,
+    optionType: trade.optionType,
+    strikePrice: trade.strikePrice,
+    expirationDate: trade.expirationDate,
+    premium: trade.premium,
+    underlyingTicker: trade.underlyingTicker,
+    tags: trade.tags.join(";"),
+    strategies: strategies.map((s) => s.name).join(";"),
+    strategyIds: strategies.map((s) => s.id).join(";"),
+    notes: trade.notes,
+    createdAt: trade.createdAt,
+    updatedAt: trade.updatedAt,
+  };
+  return toCsvRow(TRADE_CSV_COLUMNS.map((column) => values[column]));
+}
+
+// Backup copies carry only the exported fields, never the owner
+function toExportedTrade(trade: TradeWithStrategies): ExportedTrade {
+  return {
+    id: trade.id,
+    date: trade.date,
+    time: trade.time,
+    ticker: trade.ticker,
+    direction: trade.direction,
+    entryPrice: trade.entryPrice,
+    exitPrice: trade.exitPrice,
+    size: trade.size,
+    pnl: trade.pnl,
+    notes: trade.notes,
+    assetType: trade.assetType,
+    status: trade.status,
+    closeDate: trade.closeDate,
+    optionType: trade.optionType,
+    strikePrice: trade.strikePrice,
+    expirationDate: trade.expirationDate,
+    premium: trade.premium,
+    underlyingTicker: trade.underlyingTicker,
+    tags: trade.tags,
+    createdAt: trade.createdAt.toISOString(),
+    updatedAt: trade.updatedAt.toISOString(),
+  };
+}
+
+function toExportedStrategy(strategy: Strategy): ExportedStrategy {
+  return {
+    id: strategy.id,
+    name: strategy.name,
+    description: strategy.description,
+    type: strategy.type,
+    status: strategy.status,
+    color: strategy.color,
+    defaultRiskPercent: strategy.defaultRiskPercent,
+    maxDrawdownPercent: strategy.maxDrawdownPercent,
+    createdAt: strategy.createdAt.toISOString(),
+    updatedAt: strategy.updatedAt.toISOString(),
+  };
+}
+
+// GET - Stream all of the user's journal data as CSV or versioned JSON
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get("format") || "csv").toLowerCase();
+    const assetTypes = (searchParams.get("assetType") || "")
+      .split(",")
+      .map((a) => a.trim().toUpperCase())
+      .filter(Boolean);
+
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json(
+        { error: "Format must be csv or json" },
+        { status: 400 }
+      );
+    }
+
+    const invalidAsset = assetTypes.find((a) => !VALID_ASSET_TYPES.includes(a));
+    if (invalidAsset) {
+      return NextResponse.json(
+        { error: `Invalid asset type "${invalidAsset}"` },
+        { status: 400 }
+      );
+    }
+
+    const filters: JournalExportFilters = {
+      startDate: searchParams.get("startDate"),
+      endDate: searchParams.get("endDate"),
+      assetTypes,
+    };
+    const where = buildWhere(userId, filters);
+    const isFiltered = Boolean(filters.startDate || filters.endDate || assetTypes.length > 0);
+    const exportedAt = new Date().toISOString();
+    const fileName = `journal-export-${exportedAt.split("T")[0]}.${format}`;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          if (format === "csv") {
+            controller.enqueue(encoder.encode(toCsvRow([...TRADE_CSV_COLUMNS])));
+            for await (const batch of iterateTrades(where)) {
+              controller.enqueue(encoder.encode(batch.map(tradeToCsvRow).join("")));
+            }
+            controller.close();
+            return;
+          }
+
+          // JSON: stream the trades array, then append strategies and links
+          controller.enqueue(encoder.encode(
+            `{"version":${JOURNAL_EXPORT_VERSION},"exportedAt":${JSON.stringify(exportedAt)},"filters":${JSON.stringify(filters)},"trades":[`
+          ));
+
+          const exportedTradeIds: string[] = [];
+          let first = true;
+          for await (const batch of iterateTrades(where)) {
+            const chunk = batch.map((trade) => JSON.stringify(toExportedTrade(trade))).join(",");
+            controller.enqueue(encoder.encode((first ? "" : ",") + chunk));
+            exportedTradeIds.push(...batch.map((t) => t.id));
+            first = false;
+          }
+
+          const strategies = await prisma.strategy.findMany({
+            where: { userId },
+            orderBy: { createdAt: "asc" },
+          });
+
+          // A filtered export only carries links for the trades it contains;
+          // a full export also keeps manual and backtest strategy entries
+          const strategyTrades = await prisma.strategyTrade.findMany({
+            where: isFiltered
+              ? { strategy: { userId }, tradeId: { in: exportedTradeIds } }
+              : { strategy: { userId } },
+            orderBy: [{ date: "asc" }, { id: "asc" }],
+          });
+
+          controller.enqueue(encoder.encode(
+            `],"strategies":${JSON.stringify(strategies.map(toExportedStrategy))},"strategyTrades":${JSON.stringify(strategyTrades)}}`
+          ));
+          controller.close();
+        } catch (error) {
+          console.error("Error streaming journal export:", error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting journal:", error);
+    return NextResponse.json(
+      { error: "Failed to export journal" },
+      { status: 500 }
+    );
+  }
+}
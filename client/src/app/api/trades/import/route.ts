@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import {
+  BROKER_PRESETS,
+  ColumnMapping,
+  getPreset,
+  getTradeFingerprint,
+  groupFillsIntoTrades,
+  parseColumnMapping,
+  parseFills,
+} from "@/lib/trade-import";
+
+const MAX_CSV_LENGTH = 2_000_000; // ~2MB of text
+const VALID_ASSET_TYPES = ["STOCK", "FUTURES", "OPTIONS", "FOREX", "CRYPTO"];
+
+// GET - List available broker presets and their column mappings
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ presets: BROKER_PRESETS });
+  } catch (error) {
+    console.error("Error fetching import presets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch import presets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Preview (dryRun) or commit a broker CSV import
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const {
+      csv,
+      preset: presetId = "generic",
+      mapping,
+      assetType,
+      multiplier,
+      dryRun = true,
+      skipDuplicates = true,
+    } = body as {
+      csv?: string;
+      preset?: string;
+      mapping?: unknown;
+      assetType?: string;
+      multiplier?: number;
+      dryRun?: boolean;
+      skipDuplicates?: boolean;
+    };
+
+    if (!csv || typeof csv !== "string") {
+      return NextResponse.json(
+        { error: "CSV content is required" },
+        { status: 400 }
+      );
+    }
+
+    if (csv.length > MAX_CSV_LENGTH) {
+      return NextResponse.json(
+        { error: "CSV file is too large (max 2MB)" },
+        { status: 400 }
+      );
+    }
+
+    const preset = getPreset(presetId);
+    if (!preset) {
+      return NextResponse.json(
+        { error: `Unknown preset "${presetId}"` },
+        { status: 400 }
+      );
+    }
+
+    const effectiveAssetType = (assetType || preset.assetType).toUpperCase();
+    if (!VALID_ASSET_TYPES.includes(effectiveAssetType)) {
+      return NextResponse.json(
+        { error: `Invalid asset type "${assetType}"` },
+        { status: 400 }
+      );
+    }
+
+    const { mapping: customMapping, error: mappingError } = parseColumnMapping(mapping);
+    if (!customMapping) {
+      return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+
+    // Custom mapping overrides the preset column by column
+    const effectiveMapping: ColumnMapping = { ...preset.mapping, ...customMapping };
+    const { fills, errors } = parseFills(csv, effectiveMapping);
+    const imported = groupFillsIntoTrades(
+      fills,
+      effectiveAssetType,
+      typeof multiplier === "number" && multiplier > 0 ? multiplier : 1
+    );
+
+    // Detect duplicates against the user's trades in the same date range
+    const dates = imported.map((t) => t.date).sort();
+    const existingTrades = dates.length > 0
+      ? await prisma.trade.findMany({
+          where: { userId, date: { gte: dates[0], lte: dates[dates.length - 1] } },
+          select: { date: true, ticker: true, direction: true, size: true, entryPrice: true, exitPrice: true },
+        })
+      : [];
+
+    const seen = new Set(existingTrades.map(getTradeFingerprint));
+    const preview = imported.map((trade) => {
+      const fingerprint = getTradeFingerprint(trade);
+      const isDuplicate = seen.has(fingerprint);
+      seen.add(fingerprint);
+      return { ...trade, isDuplicate };
+    });
+
+    const duplicateCount = preview.filter((t) => t.isDuplicate).length;
+    const summary = {
+      fillCount: fills.length,
+      tradeCount: preview.length,
+      duplicateCount,
+      totalPnl: preview.reduce((sum, t) => sum + t.pnl, 0),
+    };
+
+    if (dryRun) {
+      return NextResponse.json({ preview, errors, summary, created: 0 });
+    }
+
+    const toCreate = skipDuplicates ? preview.filter((t) => !t.isDuplicate) : preview;
+
+    const result = await prisma.trade.createMany({
+      data: toCreate.map((trade) => ({
+        userId,
+        date: trade.date,
+        time: trade.time,
+        ticker: trade.ticker,
+        direction: trade.direction,
+        entryPrice: trade.entryPrice,
+        exitPrice: trade.exitPrice,
+        size: trade.size,
+        pnl: trade.pnl,
+        assetType: trade.assetType,
+        status: trade.status,
+        closeDate: trade.closeDate,
+        tags: [],
+      })),
+    });
+
+    return NextResponse.json({ preview, errors, summary, created: result.count });
+  } catch (error) {
+    console.error("Error importing trades:", error);
+    return NextResponse.json(
+      { error: "Failed to import trades" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,286 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { getTradeFingerprint } from "@/lib/trade-import";
+import {
+  ExportedStrategy,
+  ExportedStrategyTrade,
+  ExportedTrade,
+  validateJournalExport,
+} from "@/lib/journal-export";
+
+interface RestoreConflict {
+  type: "trade" | "strategy" | "strategyTrade";
+  sourceId: string;
+  message: string;
+}
+
+interface RestoreCounts {
+  created: number;
+  duplicates: number;
+  conflicts: number;
+}
+
+// A source id either maps onto a row that already exists or onto one we will create
+type IdTarget = { existingId: string } | { createFrom: string };
+
+function emptyCounts(): RestoreCounts {
+  return { created: 0, duplicates: 0, conflicts: 0 };
+}
+
+function strategyConfigKey(s: Pick<ExportedStrategy, "type" | "description" | "status" | "color" | "defaultRiskPercent" | "maxDrawdownPercent">): string {
+  return JSON.stringify([
+    s.type.toUpperCase(),
+    s.description ?? null,
+    s.status ?? "ACTIVE",
+    s.color ?? "#3b82f6",
+    s.defaultRiskPercent ?? null,
+    s.maxDrawdownPercent ?? null,
+  ]);
+}
+
+// Every user-visible field; two trades with the same key are exact duplicates
+function tradeContentKey(t: Omit<ExportedTrade, "id" | "createdAt" | "updatedAt">): string {
+  return JSON.stringify([
+    t.date, t.time ?? null, t.ticker.toUpperCase(), t.direction.toUpperCase(),
+    t.entryPrice ?? null, t.exitPrice ?? null, t.size ?? null, t.pnl, t.notes ?? null,
+    t.assetType ?? "STOCK", t.status ?? "CLOSED", t.closeDate ?? null,
+    t.optionType ?? null, t.strikePrice ?? null, t.expirationDate ?? null, t.premium ?? null,
+    t.underlyingTicker ?? null, [...(t.tags || [])].sort(),
+  ]);
+}
+
+function manualLinkKey(strategyId: string, l: Pick<ExportedStrategyTrade, "date" | "time" | "ticker" | "direction" | "pnl" | "isBacktest">): string {
+  return JSON.stringify([strategyId, l.date, l.time ?? null, l.ticker.toUpperCase(), l.direction.toUpperCase(), l.pnl, l.isBacktest ?? false]);
+}
+
+// POST - Restore a JSON journal backup into the current account
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") !== "false";
+
+    const { bundle, error } = validateJournalExport(await request.json());
+    if (!bundle) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const [existingStrategies, existingTrades, existingLinks] = await Promise.all([
+      prisma.strategy.findMany({ where: { userId } }),
+      prisma.trade.findMany({ where: { userId } }),
+      prisma.strategyTrade.findMany({ where: { strategy: { userId } } }),
+    ]);
+
+    const conflicts: RestoreConflict[] = [];
+    const summary = {
+      strategies: emptyCounts(),
+      trades: emptyCounts(),
+      strategyTrades: emptyCounts(),
+    };
+
+    // --- Strategies: match by name, reuse on exact match, report config differences ---
+    const strategyTargets = new Map<string, IdTarget>();
+    const strategiesByName = new Map(existingStrategies.map((s) => [s.name.trim().toLowerCase(), s]));
+    const restoredByName = new Map<string, string>();
+    const strategiesToCreate: ExportedStrategy[] = [];
+
+    for (const strategy of bundle.strategies) {
+      const nameKey = strategy.name.trim().toLowerCase();
+      const existing = strategiesByName.get(nameKey);
+      const restored = restoredByName.get(nameKey);
+
+      // The same name twice in one backup resolves to the first copy
+      if (restored) {
+        strategyTargets.set(strategy.id, { createFrom: restored });
+        summary.strategies.duplicates++;
+        continue;
+      }
+
+      if (existing) {
+        strategyTargets.set(strategy.id, { existingId: existing.id });
+        if (strategyConfigKey(existing) === strategyConfigKey(strategy)) {
+          summary.strategies.duplicates++;
+        } else {
+          summary.strategies.conflicts++;
+          conflicts.push({
+            type: "strategy",
+            sourceId: strategy.id,
+            message: `Strategy "${strategy.name}" already exists with different settings; keeping the existing one`,
+          });
+        }
+        continue;
+      }
+
+      strategyTargets.set(strategy.id, { createFrom: strategy.id });
+      strategiesToCreate.push(strategy);
+      restoredByName.set(nameKey, strategy.id);
+      summary.strategies.created++;
+    }
+
+    // --- Trades: skip exact duplicates, report near-duplicates that differ ---
+    const tradeTargets = new Map<string, IdTarget>();
+    const tradesByContent = new Map<string, string>();
+    const tradesByFingerprint = new Map<string, string>();
+    for (const trade of existingTrades) {
+      tradesByContent.set(tradeContentKey(trade), trade.id);
+      tradesByFingerprint.set(getTradeFingerprint(trade), trade.id);
+    }
+    const tradesToCreate: ExportedTrade[] = [];
+
+    for (const trade of bundle.trades) {
+      const contentKey = tradeContentKey(trade);
+      const fingerprint = getTradeFingerprint(trade);
+      const exactId = tradesByContent.get(contentKey);
+
+      if (exactId) {
+        tradeTargets.set(trade.id, exactId.startsWith("source:") ? { createFrom: exactId.slice(7) } : { existingId: exactId });
+        summary.trades.duplicates++;
+        continue;
+      }
+
+      const nearId = tradesByFingerprint.get(fingerprint);
+      if (nearId && !nearId.startsWith("source:")) {
+        tradeTargets.set(trade.id, { existingId: nearId });
+        summary.trades.conflicts++;
+        conflicts.push({
+          type: "trade",
+          sourceId: trade.id,
+          message: `${trade.date} ${trade.ticker} ${trade.direction} matches an existing trade with different P&L, notes or tags; keeping the existing one`,
+        });
+        continue;
+      }
+
+      tradeTargets.set(trade.id, { createFrom: trade.id });
+      tradesToCreate.push(trade);
+      tradesByContent.set(contentKey, `source:${trade.id}`);
+      tradesByFingerprint.set(fingerprint, `source:${trade.id}`);
+      summary.trades.created++;
+    }
+
+    // --- Strategy links: remap both ids, skip links that already exist ---
+    const linkKeys = new Set<string>();
+    for (const link of existingLinks) {
+      linkKeys.add(link.tradeId ? `${link.strategyId}|${link.tradeId}` : manualLinkKey(link.strategyId, link));
+    }
+    const targetKey = (target: IdTarget) => ("existingId" in target ? target.existingId : `source:${target.createFrom}`);
+    const linksToCreate: { link: ExportedStrategyTrade; strategy: IdTarget; trade: IdTarget | null }[] = [];
+
+    for (const link of bundle.strategyTrades) {
+      const strategy = strategyTargets.get(link.strategyId);
+      if (!strategy) {
+        summary.strategyTrades.conflicts++;
+        conflicts.push({
+          type: "strategyTrade",
+          sourceId: link.id,
+          message: `Strategy trade ${link.date} ${link.ticker} references a strategy that is not in the backup; skipped`,
+        });
+        continue;
+      }
+
+      let trade: IdTarget | null = null;
+      if (link.tradeId) {
+        trade = tradeTargets.get(link.tradeId) ?? null;
+        if (!trade) {
+          summary.strategyTrades.conflicts++;
+          conflicts.push({
+            type: "strategyTrade",
+            sourceId: link.id,
+            message: `Strategy trade ${link.date} ${link.ticker} was linked to a trade that is not in the backup; restored as a manual entry`,
+          });
+        }
+      }
+
+      const key = trade
+        ? `${targetKey(strategy)}|${targetKey(trade)}`
+        : manualLinkKey(targetKey(strategy), link);
+      if (linkKeys.has(key)) {
+        summary.strategyTrades.duplicates++;
+        continue;
+      }
+
+      linkKeys.add(key);
+      linksToCreate.push({ link, strategy, trade });
+      summary.strategyTrades.created++;
+    }
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, summary, conflicts });
+    }
+
+    // --- Apply: ids are assigned up front so each table is one createMany ---
+    const createdIds = new Map<string, string>();
+    for (const { id } of [...strategiesToCreate, ...tradesToCreate]) createdIds.set(id, randomUUID());
+    const resolve = (target: IdTarget) => ("existingId" in target ? target.existingId : createdIds.get(target.createFrom)!);
+
+    await prisma.$transaction([
+      prisma.strategy.createMany({
+        data: strategiesToCreate.map((s) => ({
+          id: createdIds.get(s.id)!,
+          userId,
+          name: s.name,
+          description: s.description ?? null,
+          type: s.type.toUpperCase(),
+          status: s.status || "ACTIVE",
+          color: s.color || "#3b82f6",
+          defaultRiskPercent: s.defaultRiskPercent ?? null,
+          maxDrawdownPercent: s.maxDrawdownPercent ?? null,
+        })),
+      }),
+      prisma.trade.createMany({
+        data: tradesToCreate.map((t) => ({
+          id: createdIds.get(t.id)!,
+          userId,
+          date: t.date,
+          time: t.time ?? null,
+          ticker: t.ticker.toUpperCase(),
+          direction: t.direction.toUpperCase(),
+          entryPrice: t.entryPrice ?? null,
+          exitPrice: t.exitPrice ?? null,
+          size: t.size ?? null,
+          pnl: t.pnl,
+          notes: t.notes ?? null,
+          assetType: t.assetType || "STOCK",
+          status: t.status || "CLOSED",
+          closeDate: t.closeDate ?? null,
+          optionType: t.optionType ?? null,
+          strikePrice: t.strikePrice ?? null,
+          expirationDate: t.expirationDate ?? null,
+          premium: t.premium ?? null,
+          underlyingTicker: t.underlyingTicker ?? null,
+          tags: t.tags || [],
+        })),
+      }),
+      prisma.strategyTrade.createMany({
+        data: linksToCreate.map(({ link, strategy, trade }) => ({
+          strategyId: resolve(strategy),
+          tradeId: trade ? resolve(trade) : null,
+          date: link.date,
+          time: link.time ?? null,
+          ticker: link.ticker.toUpperCase(),
+          direction: link.direction.toUpperCase(),
+          entryPrice: link.entryPrice ?? null,
+          exitPrice: link.exitPrice ?? null,
+          size: link.size ?? null,
+          pnl: link.pnl,
+          notes: link.notes ?? null,
+          isBacktest: link.isBacktest ?? false,
+        })),
+      }),
+    ]);
+
+    return NextResponse.json({ dryRun: false, summary, conflicts });
+  } catch (error) {
+    console.error("Error restoring journal:", error);
+    return NextResponse.json(
+      { error: "Failed to restore journal" },
+      { status: 500 }
+    );
+  }
+}
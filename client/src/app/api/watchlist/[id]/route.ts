@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { parseWatchUpdate, serializeWatchedEvent } from "@/lib/watchlist";
+
+// PUT - Change a watch's lead times or alert sound
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { update, error } = parseWatchUpdate(await request.json());
+    if (!update) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const existing = await prisma.watchedEvent.findUnique({ where: { id, userId } });
+    if (!existing) {
+      return NextResponse.json({ error: "Watch not found" }, { status: 404 });
+    }
+
+    const updated = await prisma.watchedEvent.update({ where: { id }, data: update });
+
+    return NextResponse.json({ watch: serializeWatchedEvent(updated) });
+  } catch (error) {
+    console.error("Error updating watch:", error);
+    return NextResponse.json(
+      { error: "Failed to update watch" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Unstar an event or series
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { id } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { count } = await prisma.watchedEvent.deleteMany({
+      where: { id, userId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Watch not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting watch:", error);
+    return NextResponse.json(
+      { error: "Failed to delete watch" },
+      { status: 500 }
+    );
+  }
+}
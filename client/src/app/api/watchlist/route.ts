@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { parseWatchedEventInput, serializeWatchedEvent } from "@/lib/watchlist";
+
+// GET - List the user's starred events and series
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const watches = await prisma.watchedEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ watchlist: watches.map(serializeWatchedEvent) });
+  } catch (error) {
+    console.error("Error fetching watchlist:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch watchlist" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Star an event or series. Starring something already starred
+// returns the existing watch, so double clicks don't create duplicates.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { watch, error } = parseWatchedEventInput(await request.json());
+    if (!watch) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const existing = await prisma.watchedEvent.findFirst({
+      where: watch.scope === "event"
+        ? { userId, scope: "event", eventId: watch.eventId }
+        : { userId, scope: "series", title: watch.title },
+    });
+    if (existing) {
+      return NextResponse.json({ watch: serializeWatchedEvent(existing) });
+    }
+
+    const created = await prisma.watchedEvent.create({
+      data: { userId, ...watch },
+    });
+
+    return NextResponse.json({ watch: serializeWatchedEvent(created) }, { status: 201 });
+  } catch (error) {
+    console.error("Error starring event:", error);
+    return NextResponse.json(
+      { error: "Failed to star event" },
+      { status: 500 }
+    );
+  }
+}
@@ -33,10 +33,40 @@ import {
   Hash,
   Tag as TagIcon,
   ArrowUpRight,
+  Upload,
+  RotateCcw,
+  Download,
+  CalendarPlus,
+  Star,
+  Layers,
 } from "lucide-react";
 import { useTradeJournal } from "@/hooks/useTradeJournal";
 import { Trade, TradeFormData, DEFAULT_TRADE_FORM } from "@/components/TradeJournal/types";
 import TradeForm from "@/components/TradeJournal/TradeForm";
+import TradeImport from "@/components/TradeJournal/TradeImport";
+import JournalRestore from "@/components/TradeJournal/JournalRestore";
+import CalendarFeeds from "@/components/Calendar/CalendarFeeds";
+import ForecastImport from "@/components/Calendar/ForecastImport";
+import SurpriseIndexChart from "@/components/Calendar/SurpriseIndexChart";
+import EventSearch from "@/components/Calendar/EventSearch";
+import { EventSurprise, LOWER_IS_BETTER_EVENTS, describeSurprise } from "@/lib/surprise";
+import { EventRevisions, describeRevision } from "@/lib/revisions";
+import { CURRENCIES, CURRENCY_PRESETS, getCurrencyFlag, resolveCurrencyFilter } from "@/lib/currencies";
+import {
+  EventTimeKind,
+  DISPLAY_TIME_ZONES,
+  getEventInstant,
+  getEventDateInZone,
+  getEventSortTime,
+  getZonedParts,
+  getTimeZoneLabel,
+  formatEventTime,
+  isEventPast,
+  resolveDisplayTimeZone,
+} from "@/lib/event-time";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { findWatch } from "@/lib/watchlist";
 import { useDemoMode } from "@/context/DemoModeContext";
 import { useTagSettings, TAG_COLORS } from "@/context/TagContext";
 
@@ -77,6 +107,10 @@ interface EconomicEvent {
   historicalVolatility?: string;
   isEarlyClose?: boolean;
   closeTimeET?: string;
+  timeKind?: EventTimeKind;
+  startsAt?: string | null;
+  surprise?: EventSurprise | null;
+  revisions?: EventRevisions | null;
 }
 
 const impactColors: Record<string, string> = {
@@ -95,11 +129,6 @@ const impactColorsLegacy = {
   holiday: "bg-gray-500",
 };
 
-
-const currencyFlags: Record<string, string> = {
-  USD: "🇺🇸",
-};
-
 // Category labels for display
 const categoryLabels: Record<string, string> = {
   bonds: "Bonds",
@@ -134,11 +163,18 @@ export default function EconomicCalendarPage() {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [showEvents, setShowEvents] = useState(true);
   const [showTenDayWindow, setShowTenDayWindow] = useState(true);
+  const [showSurpriseIndex, setShowSurpriseIndex] = useState(false);
   const [showNotes, setShowNotes] = useState(true);
   const [showMonthSummary, setShowMonthSummary] = useState(false);
   const [showYtdSummary, setShowYtdSummary] = useState(false);
   const [showDeleteAllTradesConfirm, setShowDeleteAllTradesConfirm] = useState(false);
   const [deletingAllTrades, setDeletingAllTrades] = useState(false);
+  const [showImportTrades, setShowImportTrades] = useState(false);
+  const [showRestoreJournal, setShowRestoreJournal] = useState(false);
+  const [showCalendarFeeds, setShowCalendarFeeds] = useState(false);
+  const [showForecastImport, setShowForecastImport] = useState(false);
+  const [canEditForecasts, setCanEditForecasts] = useState(false);
+  const [forecastDraft, setForecastDraft] = useState<{ eventId: string; value: string; error?: string } | null>(null);
   const [showWeekSummary, setShowWeekSummary] = useState<{ show: boolean; saturdayDate: Date | null }>({ show: false, saturdayDate: null });
   const [hoveredTrade, setHoveredTrade] = useState<{ index: number; x: number; y: number; trade: any } | null>(null);
   const [showProfitFactorTooltip, setShowProfitFactorTooltip] = useState<'weekly' | 'monthly' | 'ytd' | null>(null);
@@ -158,9 +194,10 @@ export default function EconomicCalendarPage() {
     isLoading?: boolean;
   }>({ show: false, title: "", message: "", onConfirm: () => {} });
 
-  // Filters (USD-only, no currency filter needed)
+  // Filters
   const [filterImpacts, setFilterImpacts] = useState<Set<string>>(new Set(["high", "medium", "low"]));
   const [filterCategory, setFilterCategory] = useState("All");
+  const [filterCurrency, setFilterCurrency] = useState("All"); // "All", a currency code or a pair preset
   const [showHolidays, setShowHolidays] = useState(true);
   const [showPastEvents, setShowPastEvents] = useState(true);
   const [showFilters, setShowFilters] = useState(false);
@@ -178,6 +215,8 @@ export default function EconomicCalendarPage() {
     updateTrade,
     deleteTrade,
     closeTrade,
+    importTrades,
+    restoreJournal,
     changeStatsPeriod,
     getTradesByDate,
     getDailyPnL,
@@ -191,6 +230,10 @@ export default function EconomicCalendarPage() {
   // Demo mode integration
   const { isDemoMode, demoTrades } = useDemoMode();
   const { getTagById } = useTagSettings();
+  const { settings: userSettings, updateSettings } = useUserSettings();
+  const { watchlist, toggleWatch } = useWatchlist();
+  const displayTimeZone = resolveDisplayTimeZone(userSettings.displayTimezone);
+  const todayInZone = getZonedParts(currentTime, displayTimeZone).date;
 
   // Use demo trades when in demo mode, otherwise use real trades
   const trades = useMemo(() => {
@@ -365,6 +408,31 @@ export default function EconomicCalendarPage() {
     fetchEvents();
   }, []);
 
+  // Consensus forecasts are shared data; only editors get the entry controls
+  useEffect(() => {
+    if (isDemoMode) return;
+    fetch("/api/calendar/forecasts?limit=0")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setCanEditForecasts(data?.canEdit === true))
+      .catch(() => {});
+  }, [isDemoMode]);
+
+  const saveForecast = async (event: EconomicEvent, value: string) => {
+    try {
+      const response = await fetch("/api/calendar/forecasts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event: event.event, date: event.date, forecast: value }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save forecast");
+      setForecastDraft(null);
+      fetchEvents();
+    } catch (error) {
+      setForecastDraft({ eventId: event.id, value, error: error instanceof Error ? error.message : "Failed to save forecast" });
+    }
+  };
+
   // Live clock update
   useEffect(() => {
     const timer = setInterval(() => {
@@ -390,42 +458,6 @@ export default function EconomicCalendarPage() {
     };
   }, [showFilters]);
 
-  // Helper to check if an event's release time has passed (in ET)
-  const isEventReleased = (eventDate: string, eventTime: string): boolean => {
-    // Get current time in US Eastern
-    const now = new Date();
-    const etFormatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/New_York',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
-    });
-
-    const parts = etFormatter.formatToParts(now);
-    const nowET = {
-      year: parts.find(p => p.type === 'year')?.value || '',
-      month: parts.find(p => p.type === 'month')?.value || '',
-      day: parts.find(p => p.type === 'day')?.value || '',
-      hour: parts.find(p => p.type === 'hour')?.value || '00',
-      minute: parts.find(p => p.type === 'minute')?.value || '00',
-    };
-
-    const currentDateET = `${nowET.year}-${nowET.month}-${nowET.day}`;
-    const currentTimeET = `${nowET.hour}:${nowET.minute}`;
-
-    // Compare dates first
-    if (eventDate < currentDateET) return true;
-    if (eventDate > currentDateET) return false;
-
-    // Same day - compare times (event times are in ET)
-    if (eventTime === 'All Day' || eventTime === 'TBD') return true;
-
-    return eventTime <= currentTimeET;
-  };
-
   const fetchEvents = async () => {
     setLoading(true);
     try {
@@ -449,7 +481,7 @@ export default function EconomicCalendarPage() {
           setEvents(prevEvents =>
             prevEvents.map((event: EconomicEvent) => {
               const live = liveData[event.event];
-              const hasReleased = isEventReleased(event.date, event.time);
+              const hasReleased = isEventPast(event);
 
               if (live && hasReleased) {
                 return {
@@ -470,29 +502,17 @@ export default function EconomicCalendarPage() {
     }
   };
 
-  // Get next high-impact event
+  // Get next high-impact event with a scheduled release time
   const nextHighImpactEvent = useMemo(() => {
-    const now = new Date();
-    const todayKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+    const now = Date.now();
 
     const futureHighImpact = events
       .filter((e) => e.impact === "high")
-      .filter((e) => {
-        if (e.date > todayKey) return true;
-        if (e.date === todayKey) {
-          const [hours, mins] = e.time.split(":").map(Number);
-          const eventTime = new Date(now);
-          eventTime.setHours(hours, mins, 0, 0);
-          return eventTime > now;
-        }
-        return false;
-      })
-      .sort((a, b) => {
-        if (a.date !== b.date) return a.date.localeCompare(b.date);
-        return a.time.localeCompare(b.time);
-      });
+      .map((e) => ({ event: e, instant: getEventInstant(e) }))
+      .filter((e): e is { event: EconomicEvent; instant: Date } => e.instant !== null && e.instant.getTime() > now)
+      .sort((a, b) => a.instant.getTime() - b.instant.getTime());
 
-    return futureHighImpact[0] || null;
+    return futureHighImpact[0]?.event || null;
   }, [events]);
 
   // Countdown timer
@@ -503,12 +523,10 @@ export default function EconomicCalendarPage() {
     }
 
     const updateCountdown = () => {
-      const now = new Date();
-      const [year, month, day] = nextHighImpactEvent.date.split("-").map(Number);
-      const [hours, mins] = nextHighImpactEvent.time.split(":").map(Number);
-      const eventTime = new Date(year, month - 1, day, hours, mins, 0, 0);
+      const eventTime = getEventInstant(nextHighImpactEvent);
+      if (!eventTime) return;
 
-      const diff = eventTime.getTime() - now.getTime();
+      const diff = eventTime.getTime() - Date.now();
 
       if (diff <= 0) {
         setCountdown("Now!");
@@ -552,9 +570,8 @@ export default function EconomicCalendarPage() {
   // Quick stats
   const quickStats = useMemo(() => {
     const now = new Date();
-    const todayKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
 
-    const todayEvents = events.filter((e) => e.date === todayKey);
+    const todayEvents = events.filter((e) => getEventDateInZone(e, displayTimeZone) === todayInZone);
     const todayHigh = todayEvents.filter((e) => e.impact === "high").length;
     const todayMedium = todayEvents.filter((e) => e.impact === "medium").length;
 
@@ -572,7 +589,7 @@ export default function EconomicCalendarPage() {
     const weekHigh = weekEvents.filter((e) => e.impact === "high").length;
 
     return { todayTotal: todayEvents.length, todayHigh, todayMedium, weekHigh };
-  }, [events]);
+  }, [events, displayTimeZone, todayInZone]);
 
   // Calculate weekly, monthly, and YTD P&L summaries
   const pnlSummary = useMemo(() => {
@@ -1134,14 +1151,9 @@ export default function EconomicCalendarPage() {
   }, [trades]);
 
   // Filter events (USD-only)
-  const filteredEvents = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, "0");
-    const day = String(today.getDate()).padStart(2, "0");
-    const todayKey = `${year}-${month}-${day}`;
+  const selectedCurrencies = useMemo(() => resolveCurrencyFilter(filterCurrency), [filterCurrency]);
 
+  const filteredEvents = useMemo(() => {
     return events.filter((event) => {
       // Holiday/early close events are controlled by their own toggle, not the impact filter
       const isHolidayEvent = event.impact === "holiday" || event.impact === "early_close";
@@ -1153,30 +1165,34 @@ export default function EconomicCalendarPage() {
       const categoryMatch =
         filterCategory === "All" || event.category === filterCategory;
 
+      // Currency filter (market holidays stay visible for every currency)
+      const currencyMatch = isHolidayEvent || !selectedCurrencies || selectedCurrencies.includes(event.currency);
+
       // Holiday filter (includes early close days)
       const holidayMatch = showHolidays || !isHolidayEvent;
 
       // Past events filter
-      const pastMatch = showPastEvents || event.date >= todayKey;
+      const pastMatch = showPastEvents || getEventDateInZone(event, displayTimeZone) >= todayInZone;
 
-      return impactMatch && categoryMatch && holidayMatch && pastMatch;
+      return impactMatch && categoryMatch && currencyMatch && holidayMatch && pastMatch;
     });
-  }, [events, filterImpacts, filterCategory, showHolidays, showPastEvents]);
+  }, [events, filterImpacts, filterCategory, selectedCurrencies, showHolidays, showPastEvents, displayTimeZone, todayInZone]);
 
-  // Group events by date
+  // Group events by the date they fall on in the display time zone
   const eventsByDate = useMemo(() => {
     const grouped: Record<string, EconomicEvent[]> = {};
     filteredEvents.forEach((event) => {
-      if (!grouped[event.date]) {
-        grouped[event.date] = [];
+      const date = getEventDateInZone(event, displayTimeZone);
+      if (!grouped[date]) {
+        grouped[date] = [];
       }
-      grouped[event.date].push(event);
+      grouped[date].push(event);
     });
     Object.keys(grouped).forEach((date) => {
-      grouped[date].sort((a, b) => a.time.localeCompare(b.time));
+      grouped[date].sort((a, b) => getEventSortTime(a) - getEventSortTime(b));
     });
     return grouped;
-  }, [filteredEvents]);
+  }, [filteredEvents, displayTimeZone]);
 
   // Group ALL events by date (unfiltered by impacts) - for 10-day window
   const allEventsByDate = useMemo(() => {
@@ -1187,30 +1203,28 @@ export default function EconomicCalendarPage() {
       return showHolidays || !isHolidayEvent;
     });
     tenDayEvents.forEach((event) => {
-      if (!grouped[event.date]) {
-        grouped[event.date] = [];
+      const date = getEventDateInZone(event, displayTimeZone);
+      if (!grouped[date]) {
+        grouped[date] = [];
       }
-      grouped[event.date].push(event);
+      grouped[date].push(event);
     });
     Object.keys(grouped).forEach((date) => {
-      grouped[date].sort((a, b) => a.time.localeCompare(b.time));
+      grouped[date].sort((a, b) => getEventSortTime(a) - getEventSortTime(b));
     });
     return grouped;
-  }, [events, showHolidays]);
+  }, [events, showHolidays, displayTimeZone]);
 
   // Get 10-day window (3 days back, today, 6 days forward)
   const tenDayWindow = useMemo(() => {
     const days: Date[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const [year, month, day] = todayInZone.split("-").map(Number);
 
     for (let i = -3; i <= 6; i++) {
-      const date = new Date(today);
-      date.setDate(date.getDate() + i);
-      days.push(date);
+      days.push(new Date(year, month - 1, day + i));
     }
     return days;
-  }, []);
+  }, [todayInZone]);
 
   // Get highest impact for a day
   const getHighestImpact = (date: string): EconomicEvent["impact"] | null => {
@@ -1244,20 +1258,9 @@ export default function EconomicCalendarPage() {
     const earlyCloseEvent = dayEvents.find((e) => e.impact === "early_close");
     if (!earlyCloseEvent) return null;
 
-    // Convert 1:00 PM ET to user's local time
+    // Convert the ET close (1:00 PM by default) to the display time zone
     const closeTimeET = earlyCloseEvent.closeTimeET || "13:00";
-
-    // Create a date object for today at 1:00 PM ET
-    const [hours, minutes] = closeTimeET.split(":").map(Number);
-    const etDate = new Date();
-    etDate.setHours(hours, minutes, 0, 0);
-
-    // Format in local time
-    const closeTimeLocal = etDate.toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true
-    });
+    const closeTimeLocal = formatEventTime({ date: earlyCloseEvent.date, time: closeTimeET }, displayTimeZone);
 
     return { closeTimeET, closeTimeLocal };
   };
@@ -1281,20 +1284,9 @@ export default function EconomicCalendarPage() {
     return `${year}-${month}-${day}`;
   };
 
-  const isToday = (date: Date) => {
-    const today = new Date();
-    return (
-      date.getFullYear() === today.getFullYear() &&
-      date.getMonth() === today.getMonth() &&
-      date.getDate() === today.getDate()
-    );
-  };
+  const isToday = (date: Date) => formatDateKey(date) === todayInZone;
 
-  const isPast = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return date < today;
-  };
+  const isPast = (date: Date) => formatDateKey(date) < todayInZone;
 
   const navigateMonth = (direction: "prev" | "next") => {
     // Start slide-out animation
@@ -1377,8 +1369,11 @@ export default function EconomicCalendarPage() {
   // Handle clicking on the next high-impact countdown box
   const handleCountdownClick = () => {
     if (!nextHighImpactEvent) return;
+    jumpToDate(getEventDateInZone(nextHighImpactEvent, displayTimeZone));
+  };
 
-    const eventDate = nextHighImpactEvent.date;
+  // Slide to the date's month if needed, then pulse the day
+  const jumpToDate = (eventDate: string) => {
     const [year, month] = eventDate.split("-").map(Number);
 
     // Check if we need to navigate to a different month
@@ -1477,16 +1472,22 @@ export default function EconomicCalendarPage() {
           <div className="flex items-center gap-2.5 px-3.5 py-1.5 rounded-lg bg-background/50 border border-border/50">
             <Clock className="w-4.5 h-4.5 text-accent-light" />
             <span className="text-base font-mono font-bold text-foreground">
-              {currentTime.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+              {currentTime.toLocaleTimeString("en-US", { timeZone: displayTimeZone, hour: "2-digit", minute: "2-digit", second: "2-digit" })}
             </span>
+            <span className="text-xs text-muted">{getTimeZoneLabel(displayTimeZone, currentTime)}</span>
             <span className="text-muted">|</span>
             <span className="text-sm font-medium text-foreground">
-              {currentTime.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" })}
+              {currentTime.toLocaleDateString("en-US", { timeZone: displayTimeZone, weekday: "short", month: "short", day: "numeric", year: "numeric" })}
             </span>
           </div>
 
           {/* Toggle Buttons */}
           <div className="flex items-center gap-2">
+            <EventSearch
+              displayTimeZone={displayTimeZone}
+              categoryLabel={(category) => categoryLabels[category] || category.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
+              onSelect={jumpToDate}
+            />
             <button
               onClick={() => {
                 const newShowEvents = !showEvents;
@@ -1520,6 +1521,18 @@ export default function EconomicCalendarPage() {
               {showTenDayWindow ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
               <span className="hidden sm:inline">10-Day</span>
             </button>
+            <button
+              onClick={() => setShowSurpriseIndex(!showSurpriseIndex)}
+              className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                showSurpriseIndex
+                  ? "bg-accent/20 border border-accent/50 text-accent-light"
+                  : "bg-background/50 border border-border text-muted hover:text-foreground"
+              }`}
+              title={showSurpriseIndex ? "Hide surprise index" : "Show surprise index"}
+            >
+              {showSurpriseIndex ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+              <span className="hidden sm:inline">Surprises</span>
+            </button>
             <button
               onClick={() => setShowNotes(!showNotes)}
               className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all ${
@@ -1558,7 +1571,7 @@ export default function EconomicCalendarPage() {
             <button
               onClick={() => setShowFilters(!showFilters)}
               className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-all ${
-                showFilters || filterImpacts.size < 3 || filterCategory !== "All" || !showHolidays || !showPastEvents
+                showFilters || filterImpacts.size < 3 || filterCategory !== "All" || filterCurrency !== "All" || !showHolidays || !showPastEvents
                   ? "bg-white/10 border border-white/30 text-white"
                   : "bg-background/50 hover:bg-card-hover text-muted hover:text-foreground"
               }`}
@@ -1605,6 +1618,41 @@ export default function EconomicCalendarPage() {
                   </div>
                 </div>
 
+                {/* Currency Filter - single currency or a pair preset */}
+                <div>
+                  <label className="block text-xs font-medium text-muted mb-2">Currency</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {["All", ...CURRENCIES.map((c) => c.code)].map((code) => (
+                      <button
+                        key={code}
+                        onClick={() => setFilterCurrency(code)}
+                        className={`px-2 py-1 text-xs font-medium rounded-lg border transition-colors ${
+                          filterCurrency === code
+                            ? "bg-accent/20 border-accent/50 text-accent-light"
+                            : "bg-card-hover border-border text-muted hover:text-foreground"
+                        }`}
+                      >
+                        {code === "All" ? "All" : `${getCurrencyFlag(code)} ${code}`}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 mt-1.5">
+                    {CURRENCY_PRESETS.map((preset) => (
+                      <button
+                        key={preset.id}
+                        onClick={() => setFilterCurrency(preset.label)}
+                        className={`px-2 py-0.5 text-[10px] font-medium rounded border transition-colors ${
+                          filterCurrency === preset.label
+                            ? "bg-accent/20 border-accent/50 text-accent-light"
+                            : "bg-card-hover border-border text-muted hover:text-foreground"
+                        }`}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Category Filter - Only High Impact Categories */}
                 <div>
                   <label className="block text-xs font-medium text-muted mb-2">
@@ -1658,15 +1706,32 @@ export default function EconomicCalendarPage() {
                       <div className={`w-4 h-4 rounded-full bg-white shadow-md absolute top-0.5 transition-all ${showPastEvents ? "left-[18px]" : "left-0.5"}`} />
                     </div>
                   </button>
+
+                  {/* Time zone for event times, saved to the account */}
+                  <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border bg-card-hover border-border">
+                    <span className="text-xs font-medium">Time Zone</span>
+                    <select
+                      value={userSettings.displayTimezone}
+                      onChange={(e) => updateSettings({ displayTimezone: e.target.value })}
+                      className="px-2 py-1 text-xs bg-card border border-border rounded text-foreground focus:outline-none focus:ring-2 focus:ring-accent/50"
+                    >
+                      {DISPLAY_TIME_ZONES.map((zone) => (
+                        <option key={zone.value} value={zone.value}>
+                          {zone.label} ({getTimeZoneLabel(resolveDisplayTimeZone(zone.value), currentTime)})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
                 {/* Reset */}
-                {(filterImpacts.size < 3 || filterCategory !== "All" || !showHolidays || !showPastEvents) && (
+                {(filterImpacts.size < 3 || filterCategory !== "All" || filterCurrency !== "All" || !showHolidays || !showPastEvents) && (
                   <div className="pt-2 border-t border-border">
                     <button
                       onClick={() => {
                         setFilterImpacts(new Set(["high", "medium", "low"]));
                         setFilterCategory("All");
+                        setFilterCurrency("All");
                         setShowHolidays(true);
                         setShowPastEvents(true);
                       }}
@@ -1677,6 +1742,60 @@ export default function EconomicCalendarPage() {
                   </div>
                 )}
 
+                {/* Calendar Subscription */}
+                {!isDemoMode && (
+                  <div className="pt-3 mt-3 border-t border-border">
+                    <button
+                      onClick={() => {
+                        setShowCalendarFeeds(true);
+                        setShowFilters(false);
+                      }}
+                      className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-card-hover border border-border rounded-lg text-muted text-xs font-medium hover:text-foreground transition-colors"
+                    >
+                      <CalendarPlus className="w-3.5 h-3.5" />
+                      Subscribe (ICS Feed)
+                    </button>
+                    {canEditForecasts && (
+                      <button
+                        onClick={() => {
+                          setShowForecastImport(true);
+                          setShowFilters(false);
+                        }}
+                        className="w-full mt-2 flex items-center justify-center gap-2 px-3 py-2 bg-card-hover border border-border rounded-lg text-muted text-xs font-medium hover:text-foreground transition-colors"
+                      >
+                        <Upload className="w-3.5 h-3.5" />
+                        Import Forecasts (CSV)
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Import Trades */}
+                {!isDemoMode && (
+                  <div className="pt-3 mt-3 border-t border-border">
+                    <button
+                      onClick={() => {
+                        setShowImportTrades(true);
+                        setShowFilters(false);
+                      }}
+                      className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-accent/10 border border-accent/30 rounded-lg text-accent-light text-xs font-medium hover:bg-accent/20 transition-colors"
+                    >
+                      <Upload className="w-3.5 h-3.5" />
+                      Import Trades (CSV)
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowRestoreJournal(true);
+                        setShowFilters(false);
+                      }}
+                      className="w-full mt-2 flex items-center justify-center gap-2 px-3 py-2 bg-card-hover border border-border rounded-lg text-muted text-xs font-medium hover:text-foreground transition-colors"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Restore Backup (JSON)
+                    </button>
+                  </div>
+                )}
+
                 {/* Delete All Trades */}
                 {trades.length > 0 && (
                   <div className="pt-3 mt-3 border-t border-border">
@@ -1831,7 +1950,7 @@ export default function EconomicCalendarPage() {
                           <div key={event.id} className="flex items-start gap-2 text-[10px]">
                             <div className={`w-1.5 h-1.5 rounded-full mt-1 flex-shrink-0 ${impactColors[event.impact]}`} />
                             <div className="flex-1 min-w-0">
-                              <span className="text-muted">{event.time}</span>
+                              <span className="text-muted">{formatEventTime(event, displayTimeZone, { hour12: false })}</span>
                               <span className="mx-1 text-border">•</span>
                               <span className="text-foreground truncate">{event.event}</span>
                             </div>
@@ -1851,6 +1970,13 @@ export default function EconomicCalendarPage() {
       </div>
       )}
 
+      {/* Surprise Index */}
+      {showSurpriseIndex && (
+        <SurpriseIndexChart
+          categoryLabel={(category) => categoryLabels[category] || category.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
+        />
+      )}
+
       {/* Month Calendar */}
       <div className={`bg-card rounded-xl border border-border flex-1 flex flex-col overflow-hidden min-h-0 transition-all ease-out ${
         isSliding ? "duration-250" : "duration-200"
@@ -2464,7 +2590,13 @@ export default function EconomicCalendarPage() {
                               {/* Time and Event Name Row */}
                               <div className="flex items-center justify-between gap-2 mb-1">
                                 <div className="flex items-center gap-2">
-                                  <span className="text-sm font-mono font-bold text-accent-light">{event.time}</span>
+                                  <span className="text-sm font-mono font-bold text-accent-light">{formatEventTime(event, displayTimeZone, { hour12: false })}</span>
+                                  {findWatch({ id: event.id, title: event.event }, watchlist) && (
+                                    <Star className="w-3.5 h-3.5 text-amber-400 fill-amber-400" />
+                                  )}
+                                  <span className="text-[10px] text-muted px-1.5 py-0.5 bg-background/50 rounded">
+                                    {getCurrencyFlag(event.currency)} {event.currency}
+                                  </span>
                                   <span className="text-[10px] text-muted capitalize px-1.5 py-0.5 bg-background/50 rounded">
                                     {event.category?.replace(/_/g, ' ')}
                                   </span>
@@ -2475,8 +2607,8 @@ export default function EconomicCalendarPage() {
                               </div>
                               <p className="text-sm font-semibold text-foreground mb-2">{event.event}</p>
 
-                              {/* Actual / Previous Row - Only show for events with data */}
-                              {(event.actual || event.previous) && (
+                              {/* Actual / Forecast / Previous Row - Only show for events with data */}
+                              {(event.actual || event.previous || event.forecast) && (
                                 <div className="flex items-center gap-4 text-xs">
                                   <div className="flex items-center gap-1.5">
                                     <span className="text-muted">Actual:</span>
@@ -2492,10 +2624,7 @@ export default function EconomicCalendarPage() {
                                       if (isNaN(actualNum) || isNaN(prevNum)) return "text-foreground";
 
                                       // Indicators where LOWER is better (red when higher, green when lower)
-                                      const lowerIsBetter = [
-                                        'Unemployment Rate',
-                                        'Unemployment Claims',
-                                      ].includes(event.event);
+                                      const lowerIsBetter = LOWER_IS_BETTER_EVENTS.includes(event.event);
 
                                       if (lowerIsBetter) {
                                         // For unemployment-type indicators: lower = green, higher = red
@@ -2511,12 +2640,43 @@ export default function EconomicCalendarPage() {
                                       {event.actual || "—"}
                                     </span>
                                   </div>
+                                  {event.forecast && (
+                                    <div className="flex items-center gap-1.5">
+                                      <span className="text-muted">Forecast:</span>
+                                      <span className="text-foreground">{event.forecast}</span>
+                                    </div>
+                                  )}
                                   <div className="flex items-center gap-1.5">
                                     <span className="text-muted">Previous:</span>
                                     <span className="text-foreground">{event.previous || "—"}</span>
                                   </div>
                                 </div>
                               )}
+
+                              {/* Surprise vs consensus */}
+                              {event.surprise && (
+                                <span className={`inline-block mt-1.5 text-[10px] font-medium px-1.5 py-0.5 rounded ${
+                                  event.surprise.absolute > 0
+                                    ? "bg-emerald-500/10 text-emerald-400"
+                                    : event.surprise.absolute < 0
+                                      ? "bg-red-500/10 text-red-400"
+                                      : "bg-card-hover text-muted"
+                                }`}>
+                                  {describeSurprise(event.surprise)}
+                                </span>
+                              )}
+
+                              {/* Revised prints */}
+                              {event.revisions && (
+                                <div className="mt-1.5 space-y-0.5">
+                                  {event.revisions.actual && (
+                                    <p className="text-[10px] text-amber-400">{describeRevision("Actual", event.revisions.actual)}</p>
+                                  )}
+                                  {event.revisions.previous && (
+                                    <p className="text-[10px] text-amber-400">{describeRevision("Previous", event.revisions.previous)}</p>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </button>
@@ -2566,6 +2726,66 @@ export default function EconomicCalendarPage() {
                                 </div>
                               )}
 
+                              {/* Consensus Forecast Entry */}
+                              {canEditForecasts && event.impact !== "holiday" && event.impact !== "early_close" && (
+                                <div className="space-y-1">
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-xs text-muted">Consensus:</span>
+                                    <input
+                                      value={forecastDraft?.eventId === event.id ? forecastDraft.value : event.forecast || ""}
+                                      onChange={(e) => setForecastDraft({ eventId: event.id, value: e.target.value })}
+                                      placeholder="e.g. 0.3%"
+                                      className="w-24 px-2 py-1 text-xs bg-card-hover border border-border rounded text-foreground focus:outline-none focus:ring-2 focus:ring-accent/50"
+                                    />
+                                    <button
+                                      onClick={() => forecastDraft?.eventId === event.id && saveForecast(event, forecastDraft.value)}
+                                      disabled={forecastDraft?.eventId !== event.id || !forecastDraft.value.trim()}
+                                      className="px-2 py-1 text-xs bg-accent/20 text-accent-light border border-accent/30 rounded hover:bg-accent/30 transition-colors disabled:opacity-50"
+                                    >
+                                      Save
+                                    </button>
+                                  </div>
+                                  {forecastDraft?.eventId === event.id && forecastDraft.error && (
+                                    <p className="text-[10px] text-red-400">{forecastDraft.error}</p>
+                                  )}
+                                </div>
+                              )}
+
+                              {/* Watchlist - alerts fire from the timeline */}
+                              {event.impact !== "holiday" && event.impact !== "early_close" && (() => {
+                                const watchable = { id: event.id, title: event.event, date: event.date };
+                                const eventStarred = watchlist.some((w) => w.scope === "event" && w.eventId === event.id);
+                                const seriesStarred = watchlist.some((w) => w.scope === "series" && w.title === event.event);
+                                return (
+                                  <div className="flex items-center gap-2">
+                                    <button
+                                      onClick={() => toggleWatch(watchable, "event")}
+                                      className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded border transition-colors ${
+                                        eventStarred
+                                          ? "bg-amber-500/20 text-amber-400 border-amber-500/30"
+                                          : "text-muted border-border hover:text-foreground hover:bg-card-hover"
+                                      }`}
+                                      title={eventStarred ? "Remove this release from your watchlist" : "Add this release to your watchlist"}
+                                    >
+                                      <Star className={`w-3 h-3 ${eventStarred ? "fill-amber-400" : ""}`} />
+                                      {eventStarred ? "Starred" : "Star"}
+                                    </button>
+                                    <button
+                                      onClick={() => toggleWatch(watchable, "series")}
+                                      className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded border transition-colors ${
+                                        seriesStarred
+                                          ? "bg-amber-500/20 text-amber-400 border-amber-500/30"
+                                          : "text-muted border-border hover:text-foreground hover:bg-card-hover"
+                                      }`}
+                                      title={seriesStarred ? `Stop watching every ${event.event} release` : `Star every ${event.event} release`}
+                                    >
+                                      <Layers className="w-3 h-3" />
+                                      {seriesStarred ? "Watching series" : "Star series"}
+                                    </button>
+                                  </div>
+                                );
+                              })()}
+
                               {/* Frequency & Source */}
                               <div className="flex items-center justify-between pt-2 border-t border-border/30">
                                 {event.frequency && (
@@ -4595,6 +4815,42 @@ export default function EconomicCalendarPage() {
         );
       })()}
 
+      {/* Import Trades Modal */}
+      {showImportTrades && (
+        <TradeImport
+          onImport={importTrades}
+          onClose={() => setShowImportTrades(false)}
+        />
+      )}
+
+      {/* Restore Journal Modal */}
+      {showRestoreJournal && (
+        <JournalRestore
+          onRestore={restoreJournal}
+          onClose={() => setShowRestoreJournal(false)}
+        />
+      )}
+
+      {/* Calendar Feeds Modal */}
+      {showCalendarFeeds && (
+        <CalendarFeeds
+          impacts={Array.from(filterImpacts)}
+          currencies={selectedCurrencies ?? []}
+          category={filterCategory === "All" ? null : filterCategory}
+          includeHolidays={showHolidays}
+          categoryLabel={(category) => categoryLabels[category] || category.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
+          onClose={() => setShowCalendarFeeds(false)}
+        />
+      )}
+
+      {/* Forecast Import Modal */}
+      {showForecastImport && (
+        <ForecastImport
+          onImported={fetchEvents}
+          onClose={() => setShowForecastImport(false)}
+        />
+      )}
+
       {/* Delete All Trades Confirmation Modal */}
       {showDeleteAllTradesConfirm && (
         <div
@@ -4613,6 +4869,13 @@ export default function EconomicCalendarPage() {
               <p className="text-sm text-muted mb-6">
                 This will permanently delete all {trades.length} trades from your journal. This action cannot be undone.
               </p>
+              <a
+                href="/api/trades/export?format=json"
+                className="inline-flex items-center gap-1.5 mb-6 -mt-3 text-xs text-accent-light hover:underline"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Download a backup first
+              </a>
               <div className="flex gap-3">
                 <button
                   onClick={() => setShowDeleteAllTradesConfirm(false)}
@@ -8,6 +8,7 @@ import { useState, useEffect, useCallback } from "react";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { DemoModeProvider, useDemoMode } from "@/context/DemoModeContext";
 import { TagProvider, useTagSettings, TAG_COLORS } from "@/context/TagContext";
+import { TAG_SECTION_COLORS } from "@/lib/tag-defaults";
 
 // Logo Icon Component
 const LogoIcon = ({ className = "w-8 h-8" }: { className?: string }) => (
@@ -56,9 +57,6 @@ const navItems = [
   { name: "Strategies", href: "/dashboard/strategies", icon: Lightbulb },
 ];
 
-// Available colors for sections
-const SECTION_COLORS = ["blue", "purple", "emerald", "red", "amber", "cyan", "pink", "indigo"];
-
 // Settings Modal Component
 function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
   const { isDemoMode, demoSettings, enableDemoMode, disableDemoMode, regenerateDemoTrades } = useDemoMode();
@@ -69,6 +67,7 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
     updateSection,
     addTag,
     removeTag,
+    updateTag,
     restoreDefaults,
     setStartingEquity: setTagStartingEquity
   } = useTagSettings();
@@ -83,6 +82,7 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
   const [showNewSection, setShowNewSection] = useState(false);
   const [newSectionName, setNewSectionName] = useState("");
   const [newSectionColor, setNewSectionColor] = useState("blue");
+  const [editingTag, setEditingTag] = useState<{ sectionId: string; tagId: string; name: string } | null>(null);
 
   if (!isOpen) return null;
 
@@ -115,6 +115,18 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
     }
   };
 
+  // Renaming a tag also renames it on every trade that uses it
+  const handleRenameTag = () => {
+    if (!editingTag) return;
+    const tagName = editingTag.name.trim();
+    const section = tagSettings.sections.find(s => s.id === editingTag.sectionId);
+    const tag = section?.tags.find(t => t.id === editingTag.tagId);
+    if (tagName && tag && tag.name !== tagName) {
+      updateTag(editingTag.sectionId, editingTag.tagId, { name: tagName });
+    }
+    setEditingTag(null);
+  };
+
   const handleAddSection = () => {
     if (newSectionName.trim()) {
       addSection(newSectionName.trim(), newSectionColor);
@@ -258,7 +270,28 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
                                     key={tag.id}
                                     className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${colors.bg} ${colors.text} ${colors.border} border`}
                                   >
-                                    {tag.name}
+                                    {editingTag?.tagId === tag.id ? (
+                                      <input
+                                        type="text"
+                                        value={editingTag.name}
+                                        onChange={(e) => setEditingTag({ ...editingTag, name: e.target.value })}
+                                        onKeyDown={(e) => {
+                                          if (e.key === "Enter") handleRenameTag();
+                                          if (e.key === "Escape") setEditingTag(null);
+                                        }}
+                                        onBlur={handleRenameTag}
+                                        autoFocus
+                                        className="w-24 bg-transparent outline-none"
+                                      />
+                                    ) : (
+                                      <span
+                                        onDoubleClick={() => setEditingTag({ sectionId: section.id, tagId: tag.id, name: tag.name })}
+                                        title="Double-click to rename"
+                                        className="cursor-text"
+                                      >
+                                        {tag.name}
+                                      </span>
+                                    )}
                                     <button
                                       onClick={() => removeTag(section.id, tag.id)}
                                       className="ml-0.5 hover:bg-black/20 rounded p-0.5 transition-colors"
@@ -320,7 +353,7 @@ function SettingsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
                   <div>
                     <label className="text-xs text-muted block mb-2">Color</label>
                     <div className="flex flex-wrap gap-2">
-                      {SECTION_COLORS.map((color) => {
+                      {TAG_SECTION_COLORS.map((color) => {
                         const colorStyle = TAG_COLORS[color];
                         return (
                           <button
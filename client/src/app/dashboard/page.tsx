@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import {
   Maximize2,
   Minimize2,
@@ -19,119 +19,90 @@ import {
   TrendingUp,
   Calendar,
   Palette,
+  Star,
+  Layers,
+  BellRing,
 } from "lucide-react";
+import { CustomSession, CustomAlert, EventAlertRule, TimelinePreferences, TIMELINE_STORAGE_KEYS, parseEventAlertRule } from "@/lib/timeline";
+import { describeEventAlertOccurrence, describeEventRule, getEventAlertOccurrences } from "@/lib/alert-rules";
+import {
+  HOLIDAY_POLICIES,
+  RECURRENCE_PRESETS,
+  Recurrence,
+  getNextRecurrenceDates,
+  isValidDate,
+  occursOn,
+  parseRecurrence,
+  toDateKey,
+} from "@/lib/recurrence";
+import {
+  BUILT_IN_MARKETS,
+  CustomMarketInput,
+  DEFAULT_VISIBLE_MARKETS,
+  MarketSegment,
+  MarketSegmentType,
+  MarketSession,
+  SEGMENT_TYPES,
+  SegmentInstance,
+  buildMarketRegistry,
+  getActiveSegment,
+  getMarketClosure,
+  getNextSegment,
+  getSegmentInstances,
+  getSegmentLabel,
+  isBuiltInMarket,
+  isTradingSegment,
+  parseMarketInput,
+} from "@/lib/markets";
+import { CalendarClosures, HOLIDAY_CALENDARS, HolidayCalendarId, buildMarketClosures } from "@/lib/market-holidays";
+import { useTimelineItems } from "@/hooks/useTimelineItems";
+import { getEventId } from "@/lib/event-id";
+import { EventRevisions, describeRevision } from "@/lib/revisions";
+import { CURRENCY_CODES, CURRENCY_PRESETS, getCurrencyFlag, resolveCurrencyFilter } from "@/lib/currencies";
+import {
+  EventTimeKind,
+  DISPLAY_TIME_ZONES,
+  SOURCE_TIME_ZONE,
+  formatEventTime,
+  getEventDateInZone,
+  getEventInstant,
+  getEventSortTime,
+  getTimeZoneLabel,
+  getZonedParts,
+  resolveDisplayTimeZone,
+} from "@/lib/event-time";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { usePushNotifications } from "@/hooks/usePushNotifications";
+import { PUSH_ALERT_TYPES, PUSH_SCHEDULE_HOURS, PushScheduleItem } from "@/lib/push";
+import { WatchedEvent, describeLeadTime, findWatch, formatLeadTime, parseLeadTimes } from "@/lib/watchlist";
 
 // ============================================
 // TYPES
 // ============================================
 
-interface MarketSession {
-  id: string;
-  name: string;
-  shortName: string;
-  color: string;
-  preMarket?: { start: number; end: number }; // Hours in UTC
-  regular: { start: number; end: number };
-  postMarket?: { start: number; end: number };
-  timezone: string;
-}
-
 interface CalendarEvent {
+  id: string;
   date: string;
   time: string;
   title: string;
   impact: "high" | "medium" | "low";
   category: string;
   currency?: string;
+  closeTimeET?: string; // Early closes only
   actual?: string;
   previous?: string;
   forecast?: string;
   description?: string;
-}
-
-interface CustomSession {
-  id: string;
-  name: string;
-  startTime: string; // HH:MM format
-  endTime: string;
-  color: string;
-  recurring: boolean;
-  days?: number[]; // 0-6, Sunday-Saturday
-  openAlert?: boolean;
-  openAlertSound?: string;
-  closeAlert?: boolean;
-  closeAlertSound?: string;
-  note?: string;
-}
-
-interface CustomAlert {
-  id: string;
-  name: string;
-  time: string; // HH:MM format
-  sound: string;
-  recurring: boolean;
-  days?: number[];
-  color: string;
-  note?: string;
+  timeKind?: EventTimeKind;
+  startsAt?: string | null;
+  revisions?: EventRevisions | null;
 }
 
 // ============================================
 // CONSTANTS
 // ============================================
 
-// Market sessions with local trading hours (will be converted to UTC dynamically)
-// Verified from official sources: NYSE, LSE, JPX, ASX websites
-const MARKET_SESSIONS: MarketSession[] = [
-  {
-    id: "us",
-    name: "New York Stock Exchange",
-    shortName: "NYSE",
-    color: "#22c55e", // Green
-    // Local times in ET: Pre 4:00-9:30, Regular 9:30-16:00, Post 16:00-20:00
-    // Source: stockanalysis.com - Pre-market 4:00 AM, After-hours until 8:00 PM
-    preMarket: { start: 4, end: 9.5 },
-    regular: { start: 9.5, end: 16 },
-    postMarket: { start: 16, end: 20 },
-    timezone: "America/New_York",
-  },
-  {
-    id: "london",
-    name: "London Stock Exchange",
-    shortName: "LSE",
-    color: "#3B82F6", // Blue
-    // Local times in GMT/BST: Pre 5:05-7:50, Regular 8:00-16:30, Post 16:40-17:15
-    // Source: xtb.com - Pre-trading 5:05-7:50, Regular 8:00-16:30, Post 16:40-17:15
-    preMarket: { start: 5.083, end: 7.833 }, // 5:05 AM - 7:50 AM
-    regular: { start: 8, end: 16.5 }, // 8:00 AM - 4:30 PM
-    postMarket: { start: 16.667, end: 17.25 }, // 4:40 PM - 5:15 PM
-    timezone: "Europe/London",
-  },
-  {
-    id: "tokyo",
-    name: "Tokyo Stock Exchange",
-    shortName: "TSE",
-    color: "#EF4444", // Red
-    // Local times in JST: Morning 9:00-11:30, Afternoon 12:30-15:30
-    // Source: jpx.co.jp - Morning session 9:00-11:30, Afternoon 12:30-15:30
-    // Note: Has lunch break 11:30-12:30, showing as two sessions
-    preMarket: { start: 9, end: 11.5 }, // Morning session 9:00 AM - 11:30 AM
-    regular: { start: 12.5, end: 15.5 }, // Afternoon session 12:30 PM - 3:30 PM
-    timezone: "Asia/Tokyo",
-  },
-  {
-    id: "sydney",
-    name: "Australian Securities Exchange",
-    shortName: "ASX",
-    color: "#EAB308", // Yellow
-    // Local times in AEST/AEDT: Pre-open 7:00-10:00, Regular 10:00-16:00, Post 16:10-18:50
-    // Source: asx.com.au - Pre-open 7:00, Normal trading ~10:00-16:00, Adjust phase until 18:50
-    preMarket: { start: 7, end: 10 }, // Pre-open 7:00 AM - 10:00 AM
-    regular: { start: 10, end: 16 }, // Normal trading 10:00 AM - 4:00 PM
-    postMarket: { start: 16.167, end: 18.833 }, // Post-close/Adjust 4:10 PM - 6:50 PM
-    timezone: "Australia/Sydney",
-  },
-];
-
 // View window: 3 hours past, 8 hours future = 11 hours total
 const HOURS_IN_PAST = 3;
 const HOURS_IN_FUTURE = 8;
@@ -164,15 +135,27 @@ const EVENT_CATEGORIES = [
   { value: "trade", label: "Trade" },
 ];
 
-// Currency options for filtering
-const CURRENCY_OPTIONS = ["All", "USD"];
+function getCategoryLabel(category: string): string {
+  return EVENT_CATEGORIES.find((c) => c.value === category)?.label ?? category.replace(/_/g, " ");
+}
+
+// Starting points offered in the alert form for event-anchored alerts
+const EVENT_ALERT_PRESETS: { label: string; rule: EventAlertRule }[] = [
+  { label: "High-impact USD", rule: { offsetMinutes: 15, impacts: ["high"], currencies: ["USD"] } },
+  { label: "Inflation releases", rule: { offsetMinutes: 0, impacts: [], currencies: [], category: "inflation" } },
+  { label: "FOMC statement", rule: { offsetMinutes: 15, impacts: [], currencies: [], titleMatch: "FOMC Rate Decision" } },
+];
+
+// Currency options for filtering: every covered currency plus the pair presets
+const CURRENCY_OPTIONS = ["All", ...CURRENCY_CODES, ...CURRENCY_PRESETS.map((preset) => preset.label)];
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
-function formatTime(date: Date): string {
+function formatTime(date: Date, timeZone: string): string {
   return date.toLocaleTimeString("en-US", {
+    timeZone,
     hour: "2-digit",
     minute: "2-digit",
     second: "2-digit",
@@ -180,8 +163,9 @@ function formatTime(date: Date): string {
   });
 }
 
-function formatDate(date: Date): string {
+function formatDate(date: Date, timeZone: string): string {
   return date.toLocaleDateString("en-US", {
+    timeZone,
     weekday: "long",
     month: "long",
     day: "numeric",
@@ -189,6 +173,18 @@ function formatDate(date: Date): string {
   });
 }
 
+// Countdown to a release, e.g. "2h 05m" or "4m 12s"
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+}
+
 function getTimePosition(targetTime: Date, currentTime: Date, containerWidth: number): number {
   const diffMs = targetTime.getTime() - currentTime.getTime();
   const diffSeconds = diffMs / 1000;
@@ -200,115 +196,6 @@ function getTimePosition(targetTime: Date, currentTime: Date, containerWidth: nu
   return nowLinePixels + diffPixels;
 }
 
-function isSessionActive(session: MarketSession, currentHourUTC: number, type: "pre" | "regular" | "post"): boolean {
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
-
-  if (!timeRange) return false;
-
-  // Handle sessions that cross midnight
-  if (timeRange.end > 24) {
-    return currentHourUTC >= timeRange.start || currentHourUTC < (timeRange.end - 24);
-  }
-
-  return currentHourUTC >= timeRange.start && currentHourUTC < timeRange.end;
-}
-
-function getSessionProgress(session: MarketSession, currentHourUTC: number, type: "pre" | "regular" | "post"): number {
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
-
-  if (!timeRange) return 0;
-
-  let start = timeRange.start;
-  let end = timeRange.end;
-  let current = currentHourUTC;
-
-  // Handle sessions that cross midnight
-  if (end > 24) {
-    if (current < start) current += 24;
-    end = end; // Keep as is for calculation
-  }
-
-  if (current < start) return 0;
-  if (current >= end) return 100;
-
-  return ((current - start) / (end - start)) * 100;
-}
-
-// Convert UTC hours to local time string
-function utcHoursToLocalTime(utcHours: number): string {
-  const now = new Date();
-  const utcDate = new Date(now);
-  utcDate.setUTCHours(Math.floor(utcHours), (utcHours % 1) * 60, 0, 0);
-  return utcDate.toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    hour12: true,
-  });
-}
-
-// Get time remaining in session
-function getTimeRemaining(session: MarketSession, currentHourUTC: number, type: "pre" | "regular" | "post"): string {
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
-
-  if (!timeRange) return "";
-
-  let end = timeRange.end;
-  let current = currentHourUTC;
-
-  // Handle sessions that cross midnight
-  if (end > 24) {
-    if (current < timeRange.start) current += 24;
-  }
-
-  const hoursRemaining = end - current;
-  if (hoursRemaining <= 0) return "Closed";
-
-  const hours = Math.floor(hoursRemaining);
-  const minutes = Math.round((hoursRemaining % 1) * 60);
-
-  if (hours === 0) return `${minutes}m remaining`;
-  if (minutes === 0) return `${hours}h remaining`;
-  return `${hours}h ${minutes}m remaining`;
-}
-
-// Get time until session opens
-function getTimeUntilOpen(session: MarketSession, currentHourUTC: number, type: "pre" | "regular" | "post"): string {
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
-
-  if (!timeRange) return "";
-
-  let start = timeRange.start;
-  let current = currentHourUTC;
-
-  // Handle sessions that cross midnight
-  if (start < current && timeRange.end > 24) {
-    // Session already started (wraps midnight)
-    return "";
-  }
-
-  let hoursUntil = start - current;
-  if (hoursUntil < 0) hoursUntil += 24;
-
-  const hours = Math.floor(hoursUntil);
-  const minutes = Math.round((hoursUntil % 1) * 60);
-
-  if (hours === 0) return `Opens in ${minutes}m`;
-  if (minutes === 0) return `Opens in ${hours}h`;
-  return `Opens in ${hours}h ${minutes}m`;
-}
-
 // Get current time in a specific timezone
 function getTimeInTimezone(timezone: string): string {
   return new Date().toLocaleTimeString("en-US", {
@@ -369,138 +256,229 @@ function getTimezoneAbbr(timezone: string): string {
   }
 }
 
-// Get current hour (as decimal) in a specific timezone
-function getCurrentHourInTimezone(timezone: string, currentTime: Date): number {
-  const timeStr = currentTime.toLocaleTimeString("en-US", {
-    timeZone: timezone,
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-  const [hours, minutes] = timeStr.split(":").map(Number);
-  return hours + minutes / 60;
+// Check if the market has no trading day today in its timezone (a weekend or
+// holiday, for most exchanges) and nothing left trading from the day before
+function isMarketDayOff(session: MarketSession, currentTime: Date): boolean {
+  const dayNum = getDayOfWeekInTimezone(currentTime, session.timezone);
+  const closure = getMarketClosure(session, currentTime);
+  const isHoliday = closure !== null && !closure.closeTime;
+  return (!session.days.includes(dayNum) || isHoliday) && !getActiveSegment(session, currentTime);
 }
 
-// Convert a local hour in a timezone to a Date object for positioning on timeline
-function getSessionDateTime(
-  baseDate: Date,
-  localHour: number,
-  timezone: string,
-  currentTime: Date
-): Date {
-  // Get the current time in the target timezone
-  const currentHourInTz = getCurrentHourInTimezone(timezone, currentTime);
+// Check if any segment other than a break is trading for a market
+function isMarketActive(session: MarketSession, currentTime: Date): boolean {
+  const active = getActiveSegment(session, currentTime);
+  return active !== null && isTradingSegment(active.segment);
+}
 
-  // Calculate how many hours from now until the target time
-  let hoursFromNow = localHour - currentHourInTz;
+// sessionType is the current segment's, including "break" while shut for lunch
+type MarketState = { isOpen: boolean; sessionType: MarketSegmentType | null; label: string | null };
 
-  // Adjust baseDate offset (baseDate is relative to today in that timezone)
-  const tzDateStr = currentTime.toLocaleDateString("en-CA", { timeZone: timezone });
-  const baseDateStr = `${baseDate.getFullYear()}-${String(baseDate.getMonth() + 1).padStart(2, "0")}-${String(baseDate.getDate()).padStart(2, "0")}`;
+function getMarketState(session: MarketSession, time: Date): MarketState {
+  const active = getActiveSegment(session, time);
+  return {
+    isOpen: active !== null && isTradingSegment(active.segment),
+    sessionType: active?.segment.type ?? null,
+    label: active ? getSegmentLabel(active.segment) : null,
+  };
+}
 
-  if (baseDateStr < tzDateStr) {
-    hoursFromNow -= 24; // Yesterday
-  } else if (baseDateStr > tzDateStr) {
-    hoursFromNow += 24; // Tomorrow
-  }
+type MarketTransition = { type: 'open' | 'close'; sessionType: MarketSegmentType | null; label: string | null };
 
-  return new Date(currentTime.getTime() + hoursFromNow * 60 * 60 * 1000);
+// The alert for a change of market state, if any: opening, closing (for the
+// day or for a break), or moving between segments, e.g. pre-market to regular
+function getMarketTransition(prev: MarketState, next: MarketState): MarketTransition | null {
+  if (!prev.isOpen && next.isOpen) return { type: 'open', sessionType: next.sessionType, label: next.label };
+  if (prev.isOpen && !next.isOpen) return { type: 'close', sessionType: next.sessionType, label: next.label };
+  if (prev.isOpen && prev.sessionType !== next.sessionType) return { type: 'open', sessionType: next.sessionType, label: next.label };
+  return null;
 }
 
-// Check if it's a weekend (Saturday or Sunday) in a specific timezone
-function isWeekendInTimezone(timezone: string, currentTime: Date): boolean {
-  // Get day of week: 0 = Sunday, 6 = Saturday
-  // Uses getDayOfWeekInTimezone for reliable cross-platform behavior
-  const dayNum = getDayOfWeekInTimezone(currentTime, timezone);
-  return dayNum === 0 || dayNum === 6;
+// Spoken and notification text for a market alert, e.g. "NYSE Pre-market Open"
+// or "HKEX Lunch Break"
+function describeMarketAlert(type: 'open' | 'close', marketName: string, sessionType: string | null, label?: string | null): string {
+  if (type === 'close') return sessionType === 'break' ? `${marketName} ${label || "Break"}` : `${marketName} Market Closed`;
+  if (sessionType === 'pre') return `${marketName} Pre-market Open`;
+  if (sessionType === 'post') return `${marketName} After Hours Open`;
+  if (sessionType === 'auction') return `${marketName} ${label || "Auction"}`;
+  return `${marketName} Market Open`;
 }
 
-// Check if a session is currently active
-function isSessionActiveNow(
-  session: MarketSession,
-  currentTime: Date,
-  type: "pre" | "regular" | "post"
-): boolean {
-  // Markets are closed on weekends
-  if (isWeekendInTimezone(session.timezone, currentTime)) {
-    return false;
-  }
-
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
+// Alerts the market alert effect will play between from and to. State only
+// changes where a segment starts or ends (whole minutes, as the effect reads
+// the clock), so only those instants are checked.
+type MarketAlertTime = MarketTransition & { at: Date };
 
-  if (!timeRange) return false;
-
-  // Get current hour in the session's timezone
-  const currentHour = getCurrentHourInTimezone(session.timezone, currentTime);
+function getMarketAlertTimes(session: MarketSession, from: Date, to: Date): MarketAlertTime[] {
+  const boundaries = new Set<number>();
+  getSegmentInstances(session, from, new Date(to.getTime() + 1)).forEach(instance => {
+    boundaries.add(instance.start.getTime());
+    boundaries.add(instance.end.getTime());
+  });
 
-  return currentHour >= timeRange.start && currentHour < timeRange.end;
+  return Array.from(boundaries)
+    .filter(t => t > from.getTime() && t <= to.getTime())
+    .sort((a, b) => a - b)
+    .flatMap((t): MarketAlertTime[] => {
+      const transition = getMarketTransition(getMarketState(session, new Date(t - 60000)), getMarketState(session, new Date(t)));
+      return transition ? [{ ...transition, at: new Date(t) }] : [];
+    });
 }
 
-// Check if any session type (pre, regular, post) is active for a market
-function isMarketActive(session: MarketSession, currentTime: Date): boolean {
-  return (
-    isSessionActiveNow(session, currentTime, "pre") ||
-    isSessionActiveNow(session, currentTime, "regular") ||
-    isSessionActiveNow(session, currentTime, "post")
-  );
+// Next occurrences of a browser-local HH:MM between from and to. Non-recurring
+// items repeat daily, as on the timeline.
+function getLocalOccurrences(
+  time: string,
+  item: { recurring: boolean; days?: number[]; recurrence?: Recurrence },
+  from: Date,
+  to: Date,
+  closures: CalendarClosures
+): Date[] {
+  const [hour, minute] = time.split(":").map(Number);
+  const occurrences: Date[] = [];
+  for (let day = 0; day <= Math.ceil((to.getTime() - from.getTime()) / 86400000); day++) {
+    const at = new Date(from);
+    at.setDate(at.getDate() + day);
+    at.setHours(hour, minute, 0, 0);
+    if (at <= from || at > to) continue;
+    if (!occursOn(item, at, closures)) continue;
+    occurrences.push(at);
+  }
+  return occurrences;
 }
 
-// Get session progress percentage
-function getSessionProgressNow(
-  session: MarketSession,
-  currentTime: Date,
-  type: "pre" | "regular" | "post"
-): number {
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
+// Alerts due over the next PUSH_SCHEDULE_HOURS, for delivery while the tab is
+// backgrounded or closed. Mirrors the foreground alert effects; alerts set to
+// the "none" sound stay silent here too.
+function buildPushSchedule(
+  from: Date,
+  {
+    markets,
+    marketAlerts,
+    marketAlertSounds,
+    customSessions,
+    customAlerts,
+    events,
+    closures,
+    watchedEvents,
+  }: {
+    markets: MarketSession[];
+    marketAlerts: Set<string>;
+    marketAlertSounds: Record<string, { open: string; close: string }>;
+    customSessions: CustomSession[];
+    customAlerts: CustomAlert[];
+    events: CalendarEvent[];
+    closures: CalendarClosures;
+    watchedEvents: { event: CalendarEvent; instant: Date; leadTimes: number[]; sound: string }[];
+  }
+): PushScheduleItem[] {
+  const to = new Date(from.getTime() + PUSH_SCHEDULE_HOURS * 60 * 60 * 1000);
+  const items: PushScheduleItem[] = [];
+
+  markets.filter(session => marketAlerts.has(session.id)).forEach(session => {
+    const sounds = marketAlertSounds[session.id] || { open: 'bell', close: 'bell' };
+    getMarketAlertTimes(session, from, to).forEach(({ at, type, sessionType, label }) => {
+      if (sounds[type] === 'none') return;
+      items.push({
+        key: `market:${session.id}:${at.toISOString()}`,
+        type: "market",
+        fireAt: at.toISOString(),
+        title: describeMarketAlert(type, session.shortName, sessionType, label),
+        body: session.name,
+      });
+    });
+  });
 
-  if (!timeRange) return 0;
+  customSessions.forEach(session => {
+    const isOvernight = session.endTime < session.startTime;
+    if (session.openAlert && session.openAlertSound !== 'none') {
+      getLocalOccurrences(session.startTime, session, from, to, closures).forEach(at => items.push({
+        key: `session:${session.id}:open:${at.toISOString()}`,
+        type: "custom",
+        fireAt: at.toISOString(),
+        title: `${session.name} session started`,
+        body: `${session.startTime} – ${session.endTime}`,
+      }));
+    }
+    if (session.closeAlert && session.closeAlertSound !== 'none') {
+      // An overnight session ends the day after it starts
+      const closeFrom = isOvernight ? new Date(from.getTime() - 86400000) : from;
+      getLocalOccurrences(session.startTime, session, closeFrom, to, closures).forEach(start => {
+        const at = new Date(start);
+        if (isOvernight) at.setDate(at.getDate() + 1);
+        const [hour, minute] = session.endTime.split(":").map(Number);
+        at.setHours(hour, minute, 0, 0);
+        if (at <= from || at > to) return;
+        items.push({
+          key: `session:${session.id}:close:${at.toISOString()}`,
+          type: "custom",
+          fireAt: at.toISOString(),
+          title: `${session.name} session ended`,
+          body: `${session.startTime} – ${session.endTime}`,
+        });
+      });
+    }
+  });
 
-  // Get current hour in the session's timezone
-  const currentHour = getCurrentHourInTimezone(session.timezone, currentTime);
+  customAlerts.forEach(alert => {
+    if (alert.sound === 'none') return;
+    if (alert.eventRule) {
+      const rule = alert.eventRule;
+      getEventAlertOccurrences(alert, events, from, to).forEach(occurrence => items.push({
+        key: `alert:${occurrence.key}`,
+        type: "custom",
+        fireAt: occurrence.fireAt.toISOString(),
+        title: alert.name,
+        body: describeEventAlertOccurrence(rule, occurrence),
+      }));
+      return;
+    }
+    getLocalOccurrences(alert.time, alert, from, to, closures).forEach(at => items.push({
+      key: `alert:${alert.id}:${at.toISOString()}`,
+      type: "custom",
+      fireAt: at.toISOString(),
+      title: alert.name,
+      body: alert.note || alert.time,
+    }));
+  });
 
-  if (currentHour < timeRange.start) return 0;
-  if (currentHour >= timeRange.end) return 100;
+  watchedEvents.forEach(({ event, instant, leadTimes, sound }) => {
+    if (sound === 'none') return;
+    leadTimes.forEach(lead => {
+      const at = new Date(instant.getTime() - lead * 60000);
+      if (at <= from || at > to) return;
+      items.push({
+        key: `event:${event.id}:${lead}`,
+        type: "event",
+        fireAt: at.toISOString(),
+        title: describeLeadTime(event.title, lead),
+        body: [event.currency, event.forecast && `Forecast ${event.forecast}`, event.previous && `Previous ${event.previous}`].filter(Boolean).join(" · "),
+      });
+    });
+  });
 
-  const total = timeRange.end - timeRange.start;
-  const elapsed = currentHour - timeRange.start;
+  return items.sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+}
 
-  return (elapsed / total) * 100;
+// Get segment progress percentage
+function getSessionProgressNow(segment: SegmentInstance, currentTime: Date): number {
+  const total = segment.end.getTime() - segment.start.getTime();
+  const elapsed = currentTime.getTime() - segment.start.getTime();
+  return Math.max(0, Math.min(100, (elapsed / total) * 100));
 }
 
-// Format local time for display (e.g., "9:30 AM")
-function formatLocalHour(hour: number): string {
-  const hours = Math.floor(hour);
-  const minutes = Math.round((hour % 1) * 60);
+// Format a segment's local HH:MM for display (e.g., "9:30 AM")
+function formatLocalHour(time: string): string {
+  const [hour, minutes] = time.split(":").map(Number);
+  const hours = hour % 24;
   const period = hours >= 12 ? "PM" : "AM";
   const displayHour = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
   return `${displayHour}:${String(minutes).padStart(2, "0")} ${period}`;
 }
 
-// Get time remaining in session
-function getTimeRemainingNow(
-  session: MarketSession,
-  currentTime: Date,
-  type: "pre" | "regular" | "post"
-): string {
-  let timeRange;
-  if (type === "pre") timeRange = session.preMarket;
-  else if (type === "post") timeRange = session.postMarket;
-  else timeRange = session.regular;
-
-  if (!timeRange) return "";
-
-  const tzDateStr = currentTime.toLocaleDateString("en-CA", { timeZone: session.timezone });
-  const [year, month, day] = tzDateStr.split("-").map(Number);
-  const baseDate = new Date(year, month - 1, day);
-
-  const sessionEnd = getSessionDateTime(baseDate, timeRange.end, session.timezone, currentTime);
-  const remaining = sessionEnd.getTime() - currentTime.getTime();
+// Get time remaining in segment
+function getTimeRemainingNow(segment: SegmentInstance, currentTime: Date): string {
+  const remaining = segment.end.getTime() - currentTime.getTime();
 
   if (remaining <= 0) return "Closed";
 
@@ -524,37 +502,15 @@ function getDayOfWeekInTimezone(date: Date, timezone: string): number {
   return dayMap[dayName] ?? 0;
 }
 
-// Get time until session opens
+// Get time until the next regular segment opens (any segment, for markets without one)
 function getTimeUntilOpenNow(
   session: MarketSession,
   currentTime: Date
 ): string {
-  const timeRange = session.regular;
-
-  const tzDateStr = currentTime.toLocaleDateString("en-CA", { timeZone: session.timezone });
-  const [year, month, day] = tzDateStr.split("-").map(Number);
-  let baseDate = new Date(year, month - 1, day);
-
-  let sessionStart = getSessionDateTime(baseDate, timeRange.start, session.timezone, currentTime);
-
-  // If session already passed today, look at tomorrow
-  const sessionEnd = getSessionDateTime(baseDate, timeRange.end, session.timezone, currentTime);
-  if (currentTime >= sessionEnd) {
-    baseDate = new Date(baseDate.getTime() + 24 * 60 * 60 * 1000);
-    sessionStart = getSessionDateTime(baseDate, timeRange.start, session.timezone, currentTime);
-  }
-
-  // Skip weekends - find the next trading day (max 7 iterations for safety)
-  for (let i = 0; i < 7; i++) {
-    const dayOfWeek = getDayOfWeekInTimezone(sessionStart, session.timezone);
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) break; // Not a weekend
-    baseDate = new Date(baseDate.getTime() + 24 * 60 * 60 * 1000);
-    sessionStart = getSessionDateTime(baseDate, timeRange.start, session.timezone, currentTime);
-  }
-
-  const until = sessionStart.getTime() - currentTime.getTime();
+  const next = getNextSegment(session, currentTime, "regular") ?? getNextSegment(session, currentTime);
+  if (!next) return "";
 
-  if (until <= 0) return "Open";
+  const until = next.start.getTime() - currentTime.getTime();
 
   const hours = Math.floor(until / (1000 * 60 * 60));
   const minutes = Math.floor((until % (1000 * 60 * 60)) / (1000 * 60));
@@ -776,8 +732,8 @@ export default function DashboardPage() {
   const [dragStartX, setDragStartX] = useState(0);
   const [dragStartOffset, setDragStartOffset] = useState(0);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [customSessions, setCustomSessions] = useState<CustomSession[]>([]);
-  const [customAlerts, setCustomAlerts] = useState<CustomAlert[]>([]);
+  const { settings: userSettings, updateSettings } = useUserSettings();
+  const displayTimeZone = resolveDisplayTimeZone(userSettings.displayTimezone);
 
   // Modal state
   const [showModal, setShowModal] = useState(false);
@@ -822,10 +778,19 @@ export default function DashboardPage() {
   const [alertVoice, setAlertVoice] = useState<string>('default');
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [showMarketAlertsModal, setShowMarketAlertsModal] = useState(false);
-  const prevMarketStates = useRef<Map<string, { isOpen: boolean; sessionType: string | null }>>(new Map());
+  const [showMarketsModal, setShowMarketsModal] = useState(false);
+  const [marketForm, setMarketForm] = useState<CustomMarketInput | null>(null); // Market being added or edited
+  const prevMarketStates = useRef<Map<string, MarketState>>(new Map());
   const prevCustomSessionStates = useRef<Map<string, boolean>>(new Map());
   const audioContextRef = useRef<AudioContext | null>(null);
 
+  // Watchlist (starred events) state
+  const { watchlist, updateWatch, removeWatch } = useWatchlist();
+  const [showWatchlist, setShowWatchlist] = useState(false);
+  const [leadTimeDrafts, setLeadTimeDrafts] = useState<Record<string, string>>({});
+  const firedWatchAlerts = useRef<Set<string>>(new Set()); // `${eventId}|${leadMinutes}`
+  const firedCustomAlerts = useRef<Set<string>>(new Set()); // `${alertId}|${date}`
+
   // Economic Events Filter State
     const [filterImpacts, setFilterImpacts] = useState<Set<string>>(new Set(["high", "medium", "low"]));
   const [filterCategory, setFilterCategory] = useState("All");
@@ -881,80 +846,106 @@ export default function DashboardPage() {
     y: number;
     alertTime: Date;
     isPast: boolean;
+    description?: string; // What an event alert occurrence fires for
   } | null>(null);
 
   // Visibility toggles
-  const [visibleMarkets, setVisibleMarkets] = useState<Set<string>>(new Set(MARKET_SESSIONS.map(s => s.id)));
+  const [visibleMarkets, setVisibleMarkets] = useState<Set<string>>(new Set(DEFAULT_VISIBLE_MARKETS));
   const [showMarketDropdown, setShowMarketDropdown] = useState(false);
   const [showEventsCard, setShowEventsCard] = useState(true);
   const [showCustomCard, setShowCustomCard] = useState(true);
   const [activeMarketsOnly, setActiveMarketsOnly] = useState(false);
   const [preferencesLoaded, setPreferencesLoaded] = useState(false);
 
+  // Apply a saved preferences object (from localStorage or the server)
+  const applyPreferences = useCallback((prefs: TimelinePreferences) => {
+    if (prefs.visibleMarkets) {
+      setVisibleMarkets(new Set(prefs.visibleMarkets));
+    }
+    if (prefs.marketAlerts) {
+      setMarketAlerts(new Set(prefs.marketAlerts));
+    }
+    if (prefs.marketAlertSounds) {
+      // Handle migration from old format (string) to new format ({ open, close })
+      const sounds: Record<string, { open: string; close: string }> = {};
+      for (const [key, value] of Object.entries(prefs.marketAlertSounds)) {
+        if (typeof value === 'string') {
+          // Old format - use same sound for both
+          sounds[key] = { open: value, close: value };
+        } else if (value && typeof value === 'object') {
+          // New format
+          sounds[key] = value as { open: string; close: string };
+        }
+      }
+      setMarketAlertSounds(sounds);
+    }
+    if (prefs.alertVoice) {
+      setAlertVoice(prefs.alertVoice);
+    }
+    if (typeof prefs.showEventsCard === 'boolean') {
+      setShowEventsCard(prefs.showEventsCard);
+    }
+    if (typeof prefs.showCustomCard === 'boolean') {
+      setShowCustomCard(prefs.showCustomCard);
+    }
+    if (typeof prefs.activeMarketsOnly === 'boolean') {
+      setActiveMarketsOnly(prefs.activeMarketsOnly);
+    }
+    if (typeof prefs.showPastEvents === 'boolean') {
+      setShowPastEvents(prefs.showPastEvents);
+    }
+    if (prefs.filterImpacts) {
+      setFilterImpacts(new Set(prefs.filterImpacts));
+    }
+    if (prefs.filterCategory) {
+      setFilterCategory(prefs.filterCategory);
+    }
+    if (prefs.filterCurrency) {
+      setFilterCurrency(prefs.filterCurrency);
+    }
+  }, []);
+
+  // Custom sessions/alerts/markets and preferences synced to the account; server
+  // preferences replace the local copy once they load
+  const {
+    customSessions,
+    customAlerts,
+    customMarkets,
+    syncNotice,
+    dismissSyncNotice,
+    saveSession,
+    deleteSession,
+    saveAlert,
+    deleteAlert,
+    saveMarket,
+    deleteMarket,
+    savePreferences,
+  } = useTimelineItems({ onRemotePreferences: applyPreferences });
+
+  // Built-in exchanges with the user's edits, then the exchanges they added
+  // Holidays and early closes for each exchange, NYSE's from the calendar data
+  const marketClosures = useMemo(() => buildMarketClosures(events), [events]);
+  const markets = useMemo(() => buildMarketRegistry(customMarkets, marketClosures), [customMarkets, marketClosures]);
+
   // Load preferences from localStorage on mount
   useEffect(() => {
     try {
-      const savedPrefs = localStorage.getItem('econtimeline-preferences');
+      const savedPrefs = localStorage.getItem(TIMELINE_STORAGE_KEYS.preferences);
       if (savedPrefs) {
-        const prefs = JSON.parse(savedPrefs);
-
-        if (prefs.visibleMarkets) {
-          setVisibleMarkets(new Set(prefs.visibleMarkets));
-        }
-        if (prefs.marketAlerts) {
-          setMarketAlerts(new Set(prefs.marketAlerts));
-        }
-        if (prefs.marketAlertSounds) {
-          // Handle migration from old format (string) to new format ({ open, close })
-          const sounds: Record<string, { open: string; close: string }> = {};
-          for (const [key, value] of Object.entries(prefs.marketAlertSounds)) {
-            if (typeof value === 'string') {
-              // Old format - use same sound for both
-              sounds[key] = { open: value, close: value };
-            } else if (value && typeof value === 'object') {
-              // New format
-              sounds[key] = value as { open: string; close: string };
-            }
-          }
-          setMarketAlertSounds(sounds);
-        }
-        if (prefs.alertVoice) {
-          setAlertVoice(prefs.alertVoice);
-        }
-        if (typeof prefs.showEventsCard === 'boolean') {
-          setShowEventsCard(prefs.showEventsCard);
-        }
-        if (typeof prefs.showCustomCard === 'boolean') {
-          setShowCustomCard(prefs.showCustomCard);
-        }
-        if (typeof prefs.activeMarketsOnly === 'boolean') {
-          setActiveMarketsOnly(prefs.activeMarketsOnly);
-        }
-        if (typeof prefs.showPastEvents === 'boolean') {
-          setShowPastEvents(prefs.showPastEvents);
-        }
-        if (prefs.filterImpacts) {
-          setFilterImpacts(new Set(prefs.filterImpacts));
-        }
-        if (prefs.filterCategory) {
-          setFilterCategory(prefs.filterCategory);
-        }
-        if (prefs.filterCurrency) {
-          setFilterCurrency(prefs.filterCurrency);
-        }
+        applyPreferences(JSON.parse(savedPrefs));
       }
     } catch (e) {
       console.log('Failed to load preferences:', e);
     }
     setPreferencesLoaded(true);
-  }, []);
+  }, [applyPreferences]);
 
   // Save preferences to localStorage when they change
   useEffect(() => {
     if (!preferencesLoaded) return; // Don't save until initial load is complete
 
     try {
-      const prefs = {
+      const prefs: TimelinePreferences = {
         visibleMarkets: Array.from(visibleMarkets),
         marketAlerts: Array.from(marketAlerts),
         marketAlertSounds,
@@ -967,11 +958,12 @@ export default function DashboardPage() {
         filterCategory,
         filterCurrency,
       };
-      localStorage.setItem('econtimeline-preferences', JSON.stringify(prefs));
+      localStorage.setItem(TIMELINE_STORAGE_KEYS.preferences, JSON.stringify(prefs));
+      savePreferences(prefs);
     } catch (e) {
       console.log('Failed to save preferences:', e);
     }
-  }, [preferencesLoaded, visibleMarkets, marketAlerts, marketAlertSounds, alertVoice, showEventsCard, showCustomCard, activeMarketsOnly, showPastEvents, filterImpacts, filterCategory, filterCurrency]);
+  }, [preferencesLoaded, savePreferences, visibleMarkets, marketAlerts, marketAlertSounds, alertVoice, showEventsCard, showCustomCard, activeMarketsOnly, showPastEvents, filterImpacts, filterCategory, filterCurrency]);
 
   // Toggle individual market visibility
   const toggleMarket = (marketId: string) => {
@@ -991,13 +983,13 @@ export default function DashboardPage() {
   // Toggle active markets only mode
   const toggleActiveMarketsOnly = () => {
     if (activeMarketsOnly) {
-      // Turning off: show all markets
-      setVisibleMarkets(new Set(MARKET_SESSIONS.map(s => s.id)));
+      // Turning off: back to the default markets
+      setVisibleMarkets(new Set(DEFAULT_VISIBLE_MARKETS));
       setActiveMarketsOnly(false);
     } else {
       // Turning on: show only active markets
       const time = currentTime ?? new Date();
-      const activeMarkets = MARKET_SESSIONS.filter(s => isMarketActive(s, time)).map(s => s.id);
+      const activeMarkets = markets.filter(s => isMarketActive(s, time)).map(s => s.id);
       setVisibleMarkets(new Set(activeMarkets));
       setActiveMarketsOnly(true);
     }
@@ -1011,6 +1003,9 @@ export default function DashboardPage() {
   const [formColor, setFormColor] = useState(COLOR_OPTIONS[0].value);
   const [formRecurring, setFormRecurring] = useState(false);
   const [formDays, setFormDays] = useState<number[]>([1, 2, 3, 4, 5]); // Weekdays by default
+  const [formRecurrence, setFormRecurrence] = useState<Recurrence | null>(null); // Set when repeating by rule instead of weekdays
+  const [formException, setFormException] = useState("");
+  const [formEventRule, setFormEventRule] = useState<EventAlertRule | null>(null); // Set for alerts anchored to calendar events
   const [formOpenAlert, setFormOpenAlert] = useState(false);
   const [formOpenAlertSound, setFormOpenAlertSound] = useState("bell");
   const [formCloseAlert, setFormCloseAlert] = useState(false);
@@ -1069,7 +1064,7 @@ export default function DashboardPage() {
   // Auto-update visible markets when in "active only" mode
   useEffect(() => {
     if (activeMarketsOnly && currentTime) {
-      const activeMarkets = MARKET_SESSIONS.filter(s => isMarketActive(s, currentTime)).map(s => s.id);
+      const activeMarkets = markets.filter(s => isMarketActive(s, currentTime)).map(s => s.id);
       setVisibleMarkets(prev => {
         const newSet = new Set(activeMarkets);
         // Only update if different to avoid unnecessary re-renders
@@ -1079,54 +1074,28 @@ export default function DashboardPage() {
         return prev;
       });
     }
-  }, [activeMarketsOnly, currentTime]);
+  }, [activeMarketsOnly, currentTime, markets]);
+
+  // Next dates of the recurrence being edited, or the error that blocks saving it
+  const todayKey = currentTime ? toDateKey(currentTime) : null;
+  const recurrencePreview = useMemo(() => {
+    if (!formRecurrence || !todayKey) return { dates: [] as string[], error: null };
+    const { error } = parseRecurrence(formRecurrence);
+    if (error) return { dates: [] as string[], error };
+    return { dates: getNextRecurrenceDates(formRecurrence, todayKey, 5, marketClosures), error: null };
+  }, [formRecurrence, todayKey, marketClosures]);
 
   // Load calendar events
   useEffect(() => {
-    fetch("/calendar-data.json")
+    // Same source as the calendar page, so popovers get forecasts and revisions
+    fetch("/api/calendar")
       .then((res) => res.json())
       .then((data) => {
-        setEvents(data.events || []);
+        setEvents((data.events || []).map((e: Omit<CalendarEvent, "title"> & { event: string }) => ({ ...e, title: e.event })));
       })
       .catch((err) => console.error("Failed to load calendar data:", err));
   }, []);
 
-  // Load custom sessions and alerts from localStorage
-  useEffect(() => {
-    const savedSessions = localStorage.getItem("timeline-custom-sessions");
-    const savedAlerts = localStorage.getItem("timeline-custom-alerts");
-
-    if (savedSessions) {
-      try {
-        setCustomSessions(JSON.parse(savedSessions));
-      } catch (e) {
-        console.error("Failed to load custom sessions:", e);
-      }
-    }
-
-    if (savedAlerts) {
-      try {
-        setCustomAlerts(JSON.parse(savedAlerts));
-      } catch (e) {
-        console.error("Failed to load custom alerts:", e);
-      }
-    }
-  }, []);
-
-  // Save custom sessions to localStorage when changed
-  useEffect(() => {
-    if (customSessions.length > 0) {
-      localStorage.setItem("timeline-custom-sessions", JSON.stringify(customSessions));
-    }
-  }, [customSessions]);
-
-  // Save custom alerts to localStorage when changed
-  useEffect(() => {
-    if (customAlerts.length > 0) {
-      localStorage.setItem("timeline-custom-alerts", JSON.stringify(customAlerts));
-    }
-  }, [customAlerts]);
-
   // Real-time clock update - use setInterval instead of requestAnimationFrame
   // to avoid 60fps re-renders which cause slow page transitions
   useEffect(() => {
@@ -1184,25 +1153,15 @@ export default function DashboardPage() {
     };
   }, []);
 
-  // Play market alert sound with configurable sound type and announce with speech
-  const playAlertSound = useCallback((type: 'open' | 'close', marketName: string, sessionType: string | null, soundType: string = 'bell') => {
+  // Play market alert sound with configurable sound type and announce with speech.
+  // announcement replaces the built "<market> Market Open" style message.
+  const playAlertSound = useCallback((type: 'open' | 'close', marketName: string, sessionType: string | null, soundType: string = 'bell', announcement?: string) => {
     if (soundType === 'none') return;
 
     const speakAnnouncement = () => {
       if ('speechSynthesis' in window) {
         // Build the announcement message
-        let message = marketName;
-        if (type === 'open') {
-          if (sessionType === 'pre') {
-            message += ' Pre-market Open';
-          } else if (sessionType === 'post') {
-            message += ' After Hours Open';
-          } else {
-            message += ' Market Open';
-          }
-        } else {
-          message += ' Market Closed';
-        }
+        const message = announcement ?? describeMarketAlert(type, marketName, sessionType);
 
         // Cancel any ongoing speech
         window.speechSynthesis.cancel();
@@ -1427,14 +1386,13 @@ export default function DashboardPage() {
     if (customSessions.length === 0 || !currentTime) return;
 
     const today = new Date(currentTime);
-    const todayDay = today.getDay();
 
     customSessions.forEach(session => {
       // Check if session has alerts enabled
       if (!session.openAlert && !session.closeAlert) return;
 
       // Check if session is active today
-      const isActiveToday = !session.recurring || (session.days?.includes(todayDay) ?? false);
+      const isActiveToday = occursOn(session, today, marketClosures);
       if (!isActiveToday) return;
 
       // Parse session times
@@ -1474,46 +1432,114 @@ export default function DashboardPage() {
 
       prevCustomSessionStates.current.set(session.id, isActive);
     });
-  }, [currentTime, customSessions, playCustomSound]);
+  }, [currentTime, customSessions, marketClosures, playCustomSound]);
 
   // Market session alert detection
   useEffect(() => {
     if (marketAlerts.size === 0 || !currentTime) return;
 
-    MARKET_SESSIONS.forEach(session => {
+    markets.forEach(session => {
       if (!marketAlerts.has(session.id)) return;
 
-      const isPreActive = isSessionActiveNow(session, currentTime, "pre");
-      const isRegularActive = isSessionActiveNow(session, currentTime, "regular");
-      const isPostActive = isSessionActiveNow(session, currentTime, "post");
-      const isOpen = isPreActive || isRegularActive || isPostActive;
-      const currentSessionType = isRegularActive ? "regular" : isPreActive ? "pre" : isPostActive ? "post" : null;
+      const state = getMarketState(session, currentTime);
 
       const prevState = prevMarketStates.current.get(session.id);
       const sounds = marketAlertSounds[session.id] || { open: 'bell', close: 'bell' };
 
-      if (prevState !== undefined) {
-        // Detect market open (was closed, now open)
-        if (!prevState.isOpen && isOpen) {
-          playAlertSound('open', session.name, currentSessionType, sounds.open);
-          console.log(`🔔 ${session.name} OPENED (${currentSessionType})`);
-        }
-        // Detect market close (was open, now closed)
-        else if (prevState.isOpen && !isOpen) {
-          playAlertSound('close', session.name, null, sounds.close);
-          console.log(`🔔 ${session.name} CLOSED`);
-        }
-        // Detect session type change (e.g., pre-market to regular)
-        else if (prevState.sessionType !== currentSessionType && currentSessionType !== null && prevState.sessionType !== null) {
-          playAlertSound('open', session.name, currentSessionType, sounds.open);
-          console.log(`🔔 ${session.name} transitioned to ${currentSessionType}`);
-        }
+      const transition = prevState !== undefined ? getMarketTransition(prevState, state) : null;
+      if (transition) {
+        const { type, sessionType, label } = transition;
+        playAlertSound(type, session.name, sessionType, sounds[type], describeMarketAlert(type, session.name, sessionType, label));
+        console.log(`🔔 ${session.name} ${type === 'open' ? 'OPENED' : 'CLOSED'} (${label ?? sessionType ?? 'closed'})`);
       }
 
       // Update previous state
-      prevMarketStates.current.set(session.id, { isOpen, sessionType: currentSessionType });
+      prevMarketStates.current.set(session.id, state);
+    });
+  }, [currentTime, markets, marketAlerts, marketAlertSounds, playAlertSound]);
+
+  // Watchlist lead-time alerts. Each fires once, and only within a minute of
+  // its moment, so reloading the page doesn't replay alerts already passed.
+  useEffect(() => {
+    if (watchlist.length === 0 || !currentTime) return;
+    const now = currentTime.getTime();
+
+    events.forEach(event => {
+      const watch = findWatch(event, watchlist);
+      const instant = getEventInstant(event);
+      if (!watch || !instant) return;
+
+      watch.leadTimes.forEach(lead => {
+        const alertAt = instant.getTime() - lead * 60000;
+        const key = `${event.id}|${lead}`;
+        if (now < alertAt || now >= alertAt + 60000 || firedWatchAlerts.current.has(key)) return;
+
+        firedWatchAlerts.current.add(key);
+        playAlertSound('open', event.title, null, watch.sound, describeLeadTime(event.title, lead));
+        console.log(`🔔 Watchlist: ${describeLeadTime(event.title, lead)}`);
+      });
+    });
+  }, [currentTime, events, watchlist, playAlertSound]);
+
+  // Custom alert detection: once at the alert's minute, in browser local time
+  useEffect(() => {
+    if (customAlerts.length === 0 || !currentTime) return;
+
+    const time = `${String(currentTime.getHours()).padStart(2, "0")}:${String(currentTime.getMinutes()).padStart(2, "0")}`;
+    customAlerts.forEach(alert => {
+      if (alert.eventRule || alert.time !== time) return;
+      if (!occursOn(alert, currentTime, marketClosures)) return;
+
+      const key = `${alert.id}|${currentTime.toDateString()}`;
+      if (firedCustomAlerts.current.has(key)) return;
+      firedCustomAlerts.current.add(key);
+      playAlertSound('open', alert.name, null, alert.sound === 'default' ? 'bell' : alert.sound, alert.name);
+      console.log(`🔔 Custom alert "${alert.name}"`);
+    });
+  }, [currentTime, customAlerts, marketClosures, playAlertSound]);
+
+  // Event-anchored custom alerts, with the same one-minute window as the
+  // watchlist. Releases sharing a timestamp fire once between them.
+  useEffect(() => {
+    if (!currentTime) return;
+    const from = new Date(currentTime.getTime() - 60000);
+
+    customAlerts.forEach(alert => {
+      const rule = alert.eventRule;
+      if (!rule) return;
+
+      getEventAlertOccurrences(alert, events, from, currentTime).forEach(occurrence => {
+        if (firedCustomAlerts.current.has(occurrence.key)) return;
+        firedCustomAlerts.current.add(occurrence.key);
+        const announcement = describeEventAlertOccurrence(rule, occurrence);
+        playAlertSound('open', alert.name, null, alert.sound === 'default' ? 'bell' : alert.sound, announcement);
+        console.log(`🔔 Custom alert "${alert.name}": ${announcement}`);
+      });
     });
-  }, [currentTime, marketAlerts, marketAlertSounds, playAlertSound]);
+  }, [currentTime, customAlerts, events, playAlertSound]);
+
+  // Background alerts: the schedule is rebuilt when alert settings change, and
+  // hourly so its window keeps reaching a day ahead
+  const scheduleHour = currentTime ? Math.floor(currentTime.getTime() / 3600000) : null;
+  const pushSchedule = useMemo(() => {
+    if (scheduleHour === null) return [];
+    const watchedEvents = events.flatMap(event => {
+      const watch = findWatch(event, watchlist);
+      const instant = getEventInstant(event);
+      return watch && instant ? [{ event, instant, leadTimes: watch.leadTimes, sound: watch.sound }] : [];
+    });
+    return buildPushSchedule(new Date(scheduleHour * 3600000), {
+      markets,
+      marketAlerts,
+      marketAlertSounds,
+      customSessions,
+      customAlerts,
+      events,
+      closures: marketClosures,
+      watchedEvents,
+    });
+  }, [scheduleHour, events, marketClosures, watchlist, markets, marketAlerts, marketAlertSounds, customSessions, customAlerts]);
+  const backgroundAlerts = usePushNotifications(pushSchedule);
 
   // Mouse handlers for dragging
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -1585,6 +1611,7 @@ export default function DashboardPage() {
     setFormColor(COLOR_OPTIONS[0].value);
     setFormRecurring(false);
     setFormDays([1, 2, 3, 4, 5]);
+    setFormRecurrence(null);
     setFormOpenAlert(false);
     setFormOpenAlertSound("bell");
     setFormCloseAlert(false);
@@ -1602,6 +1629,8 @@ export default function DashboardPage() {
     setFormColor("#94A3B8"); // Gray for alerts
     setFormRecurring(false);
     setFormDays([1, 2, 3, 4, 5]);
+    setFormRecurrence(null);
+    setFormEventRule(null);
     setFormNote("");
     setShowModal(true);
   }, []);
@@ -1616,6 +1645,7 @@ export default function DashboardPage() {
     setFormColor(session.color);
     setFormRecurring(session.recurring);
     setFormDays(session.days || [1, 2, 3, 4, 5]);
+    setFormRecurrence(session.recurrence || null);
     setFormOpenAlert(session.openAlert || false);
     setFormOpenAlertSound(session.openAlertSound || "bell");
     setFormCloseAlert(session.closeAlert || false);
@@ -1633,6 +1663,8 @@ export default function DashboardPage() {
     setFormColor(alert.color || "#F97316");
     setFormRecurring(alert.recurring);
     setFormDays(alert.days || [1, 2, 3, 4, 5]);
+    setFormRecurrence(alert.recurrence || null);
+    setFormEventRule(alert.eventRule || null);
     setFormNote(alert.note || "");
     setShowModal(true);
   }, []);
@@ -1647,74 +1679,96 @@ export default function DashboardPage() {
   // Save session or alert
   const handleSave = useCallback(() => {
     if (!formName.trim()) return;
+    if (modalMode === "alert" && formEventRule && parseEventAlertRule(formEventRule).error) return;
+    if (formRecurring && formRecurrence && !(modalMode === "alert" && formEventRule) && parseRecurrence(formRecurrence).error) return;
 
     if (modalMode === "session") {
-      const newSession: CustomSession = {
-        id: editingItem?.id || `session-${Date.now()}`,
+      saveSession({
         name: formName.trim(),
         startTime: formStartTime,
         endTime: formEndTime,
         color: formColor,
         recurring: formRecurring,
         days: formRecurring ? formDays : undefined,
+        recurrence: formRecurring && formRecurrence ? formRecurrence : undefined,
         openAlert: formOpenAlert,
         openAlertSound: formOpenAlert ? formOpenAlertSound : undefined,
         closeAlert: formCloseAlert,
         closeAlertSound: formCloseAlert ? formCloseAlertSound : undefined,
         note: formNote.trim() || undefined,
-      };
-
-      if (editingItem) {
-        setCustomSessions((prev) =>
-          prev.map((s) => (s.id === editingItem.id ? newSession : s))
-        );
-      } else {
-        setCustomSessions((prev) => [...prev, newSession]);
-      }
+      }, editingItem as CustomSession | null);
     } else {
-      const newAlert: CustomAlert = {
-        id: editingItem?.id || `alert-${Date.now()}`,
+      saveAlert({
         name: formName.trim(),
-        time: formAlertTime,
+        time: formEventRule ? "00:00" : formAlertTime,
         sound: "default",
-        recurring: formRecurring,
-        days: formRecurring ? formDays : undefined,
+        recurring: formEventRule ? false : formRecurring,
+        days: !formEventRule && formRecurring ? formDays : undefined,
+        recurrence: !formEventRule && formRecurring && formRecurrence ? formRecurrence : undefined,
+        eventRule: formEventRule || undefined,
         color: formColor,
         note: formNote.trim() || undefined,
-      };
-
-      if (editingItem) {
-        setCustomAlerts((prev) =>
-          prev.map((a) => (a.id === editingItem.id ? newAlert : a))
-        );
-      } else {
-        setCustomAlerts((prev) => [...prev, newAlert]);
-      }
+      }, editingItem as CustomAlert | null);
     }
 
     setShowModal(false);
-  }, [modalMode, editingItem, formName, formStartTime, formEndTime, formAlertTime, formColor, formRecurring, formDays, formOpenAlert, formOpenAlertSound, formCloseAlert, formCloseAlertSound, formNote]);
+  }, [modalMode, editingItem, saveSession, saveAlert, formName, formStartTime, formEndTime, formAlertTime, formColor, formRecurring, formDays, formRecurrence, formEventRule, formOpenAlert, formOpenAlertSound, formCloseAlert, formCloseAlertSound, formNote]);
 
   // Delete session or alert
   const handleDelete = useCallback(() => {
     if (!editingItem) return;
 
     if (modalMode === "session") {
-      setCustomSessions((prev) => prev.filter((s) => s.id !== editingItem.id));
-      localStorage.setItem(
-        "timeline-custom-sessions",
-        JSON.stringify(customSessions.filter((s) => s.id !== editingItem.id))
-      );
+      deleteSession(editingItem as CustomSession);
     } else {
-      setCustomAlerts((prev) => prev.filter((a) => a.id !== editingItem.id));
-      localStorage.setItem(
-        "timeline-custom-alerts",
-        JSON.stringify(customAlerts.filter((a) => a.id !== editingItem.id))
-      );
+      deleteAlert(editingItem as CustomAlert);
     }
 
     setShowModal(false);
-  }, [modalMode, editingItem, customSessions, customAlerts]);
+  }, [modalMode, editingItem, deleteSession, deleteAlert]);
+
+  // Market editor: starts from a market in the registry, or a blank exchange
+  const openMarketForm = useCallback((market: MarketSession | null) => {
+    setMarketForm(market
+      ? {
+          marketId: market.id,
+          name: market.name,
+          shortName: market.shortName,
+          color: market.color,
+          timezone: market.timezone,
+          days: market.days,
+          segments: market.segments,
+          holidayCalendar: market.holidayCalendar,
+        }
+      : {
+          marketId: `custom-${Date.now().toString(36)}`,
+          name: "",
+          shortName: "",
+          color: COLOR_OPTIONS[1].value,
+          timezone: "America/New_York",
+          days: [1, 2, 3, 4, 5],
+          segments: [{ type: "regular", start: "09:00", end: "17:00" }],
+        });
+  }, []);
+
+  const marketFormError = useMemo(() => (marketForm ? parseMarketInput(marketForm).error : null), [marketForm]);
+
+  const updateMarketSegment = (index: number, changes: Partial<MarketSegment>) => {
+    setMarketForm(prev => prev && { ...prev, segments: prev.segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)) });
+  };
+
+  // Edited built-ins and added exchanges are both CustomMarket rows, keyed by marketId
+  const handleSaveMarket = useCallback(() => {
+    const market = marketForm && parseMarketInput(marketForm).market;
+    if (!market) return;
+
+    const existing = customMarkets.find(m => m.marketId === market.marketId) ?? null;
+    saveMarket(market, existing);
+    if (!existing && !isBuiltInMarket(market.marketId)) {
+      setVisibleMarkets(prev => new Set(prev).add(market.marketId));
+    }
+    setMarketForm(null);
+  }, [marketForm, customMarkets, saveMarket]);
 
   // Fullscreen X visibility
   const handleFullscreenMouseMove = useCallback((e: React.MouseEvent) => {
@@ -1763,13 +1817,36 @@ export default function DashboardPage() {
   const visibleStartTime = new Date(currentTime.getTime() - HOURS_IN_PAST * 60 * 60 * 1000);
   const visibleEndTime = new Date(currentTime.getTime() + HOURS_IN_FUTURE * 60 * 60 * 1000);
 
+  // Each watch with its next timed release, soonest first
+  const watchRows = watchlist
+    .map((watch) => {
+      const upcoming = events
+        .filter((event) => findWatch(event, watchlist)?.id === watch.id)
+        .map((event) => ({ event, instant: getEventInstant(event) }))
+        .filter((item): item is { event: CalendarEvent; instant: Date } => item.instant !== null && item.instant > currentTime)
+        .sort((a, b) => a.instant.getTime() - b.instant.getTime());
+      return { watch, next: upcoming[0] ?? null };
+    })
+    .sort((a, b) => (a.next?.instant.getTime() ?? Infinity) - (b.next?.instant.getTime() ?? Infinity));
+
+  const addLeadTime = (watch: WatchedEvent) => {
+    const { leadTimes } = parseLeadTimes([...watch.leadTimes, Number(leadTimeDrafts[watch.id])]);
+    if (!leadTimes) return;
+    updateWatch(watch.id, { leadTimes });
+    setLeadTimeDrafts((prev) => ({ ...prev, [watch.id]: "" }));
+  };
+
   // Get current hour in UTC for session calculations
   const currentHourUTC = currentTime.getUTCHours() + currentTime.getUTCMinutes() / 60;
 
   // Filter events by visibility and user-selected filters
   const filteredVisibleEvents = (() => {
     const realEvents = events.filter((event) => {
-      const eventDateTime = new Date(`${event.date}T${event.time || "00:00"}:00`);
+      // All-day and TBD events have no point on the timeline; they're listed in Today's Events
+      const eventDateTime = getEventInstant(event);
+      if (!eventDateTime) {
+        return false;
+      }
 
       // Time window check
       if (eventDateTime < visibleStartTime || eventDateTime > visibleEndTime) {
@@ -1787,7 +1864,8 @@ export default function DashboardPage() {
       }
 
       // Currency filter
-      if (filterCurrency !== "All" && event.currency !== filterCurrency) {
+      const currencies = resolveCurrencyFilter(filterCurrency);
+      if (currencies && !currencies.includes(event.currency || "USD")) {
         return false;
       }
 
@@ -1802,17 +1880,11 @@ export default function DashboardPage() {
     // MOCK EVENTS - Remove after testing
     // Use fixed base time so events don't shift on every render
     const baseTime = mockEventsBaseTime.current;
-    const pad = (n: number) => n.toString().padStart(2, '0');
-    const getTimeStr = (offsetMin: number) => {
-      const d = new Date(baseTime.getTime() + offsetMin * 60000);
-      return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
-    };
-    const getDateStr = (offsetMin: number) => {
-      const d = new Date(baseTime.getTime() + offsetMin * 60000);
-      return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
-    };
+    // ET date and time, as the calendar API publishes them
+    const getTimeStr = (offsetMin: number) => getZonedParts(new Date(baseTime.getTime() + offsetMin * 60000), SOURCE_TIME_ZONE).time;
+    const getDateStr = (offsetMin: number) => getZonedParts(new Date(baseTime.getTime() + offsetMin * 60000), SOURCE_TIME_ZONE).date;
 
-    const mockEvents: CalendarEvent[] = [
+    const mockEvents: CalendarEvent[] = ([
       // Past events (already passed NOW line)
       { date: getDateStr(-30), time: getTimeStr(-30), title: "Initial Jobless Claims", impact: "medium", currency: "USD", category: "Employment", forecast: "210K", previous: "215K", actual: "208K" },
       { date: getDateStr(-15), time: getTimeStr(-15), title: "PPI MoM", impact: "medium", currency: "USD", category: "Inflation", forecast: "0.2%", previous: "0.1%", actual: "0.3%" },
@@ -1826,7 +1898,7 @@ export default function DashboardPage() {
       { date: getDateStr(30), time: getTimeStr(30), title: "Fed Interest Rate Decision", impact: "high", currency: "USD", category: "Central Bank", forecast: "5.50%", previous: "5.25%" },
       { date: getDateStr(45), time: getTimeStr(45), title: "Consumer Confidence", impact: "medium", currency: "USD", category: "Consumer", forecast: "102.5", previous: "100.3" },
       { date: getDateStr(60), time: getTimeStr(60), title: "FOMC Press Conference", impact: "high", currency: "USD", category: "Central Bank", forecast: "-", previous: "-" },
-    ];
+    ] as Omit<CalendarEvent, "id">[]).map(e => ({ ...e, id: getEventId({ ...e, source: "mock" }) }));
 
     console.log("MOCK EVENTS:", mockEvents);
     console.log("Total events:", [...realEvents, ...mockEvents].length);
@@ -1835,10 +1907,10 @@ export default function DashboardPage() {
   })();
 
   // Filter events for today's full day (for the modal)
-  const todayStr = currentTime.toISOString().split('T')[0]; // YYYY-MM-DD format
+  const todayStr = getZonedParts(currentTime, displayTimeZone).date; // YYYY-MM-DD in the display time zone
   const todaysEvents = events.filter((event) => {
     // Check if event is today
-    if (event.date !== todayStr) {
+    if (getEventDateInZone(event, displayTimeZone) !== todayStr) {
       return false;
     }
 
@@ -1881,10 +1953,22 @@ export default function DashboardPage() {
         {/* Center - Clock */}
         <div className="flex flex-col items-center">
           <div className="text-2xl font-mono font-bold tracking-wider">
-            {formatTime(currentTime)}
+            {formatTime(currentTime, displayTimeZone)}
           </div>
-          <div className="text-xs text-muted">
-            {formatDate(currentTime)}
+          <div className="flex items-center gap-1.5 text-xs text-muted">
+            {formatDate(currentTime, displayTimeZone)}
+            <select
+              value={userSettings.displayTimezone}
+              onChange={(e) => updateSettings({ displayTimezone: e.target.value })}
+              title="Time zone for the clock, time scale and event times"
+              className="bg-transparent text-xs text-muted hover:text-foreground focus:outline-none cursor-pointer"
+            >
+              {DISPLAY_TIME_ZONES.map((zone) => (
+                <option key={zone.value} value={zone.value}>
+                  {zone.value === "local" ? getTimeZoneLabel(displayTimeZone, currentTime) : zone.label}
+                </option>
+              ))}
+            </select>
           </div>
         </div>
 
@@ -1931,7 +2015,7 @@ export default function DashboardPage() {
               </button>
               {showMarketDropdown && (
                 <div
-                  className="absolute top-full right-0 mt-1 bg-card border border-border rounded-lg shadow-xl z-50 py-1 min-w-[140px]"
+                  className="absolute top-full right-0 mt-1 bg-card border border-border rounded-lg shadow-xl z-50 py-1 min-w-[140px] max-h-[70vh] overflow-y-auto"
                   onMouseLeave={() => setShowMarketDropdown(false)}
                 >
                   {/* Active Only Toggle */}
@@ -1961,7 +2045,7 @@ export default function DashboardPage() {
                   {/* Divider */}
                   <div className="h-px bg-border/50 my-1" />
                   {/* Individual Market Toggles */}
-                  {MARKET_SESSIONS.map(session => {
+                  {markets.map(session => {
                     const isActive = isMarketActive(session, currentTime);
                     return (
                       <button
@@ -1998,6 +2082,17 @@ export default function DashboardPage() {
                       </button>
                     );
                   })}
+                  <div className="h-px bg-border/50 my-1" />
+                  <button
+                    onClick={() => {
+                      setShowMarketDropdown(false);
+                      setShowMarketsModal(true);
+                    }}
+                    className="w-full px-3 py-1.5 flex items-center gap-2 hover:bg-white/5 transition-colors text-xs font-medium text-muted hover:text-white"
+                  >
+                    <Settings className="w-3 h-3" />
+                    Edit Markets
+                  </button>
                 </div>
               )}
             </div>
@@ -2023,6 +2118,118 @@ export default function DashboardPage() {
             >
               <Palette className="w-4 h-4" />
             </button>
+            {/* Watchlist Panel */}
+            <div className="relative">
+              <button
+                onClick={() => setShowWatchlist(!showWatchlist)}
+                className={`p-1.5 rounded transition-colors ${
+                  showWatchlist
+                    ? 'bg-amber-500/20 text-amber-400'
+                    : 'bg-transparent text-muted hover:text-white/70'
+                }`}
+                title={showWatchlist ? "Hide Watchlist" : "Show Watchlist"}
+              >
+                <Star className="w-4 h-4" />
+              </button>
+              {showWatchlist && (
+                <div className="absolute top-full right-0 mt-1 w-80 max-h-[70vh] overflow-y-auto bg-card border border-border rounded-lg shadow-xl z-50">
+                  <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+                    <span className="text-xs font-semibold text-amber-400 flex items-center gap-1.5">
+                      <Star className="w-3.5 h-3.5" />
+                      Watchlist
+                    </span>
+                    <button
+                      onClick={() => setShowWatchlist(false)}
+                      className="p-1 rounded text-muted hover:text-white/70 transition-colors"
+                      title="Close"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+
+                  {watchRows.length === 0 ? (
+                    <p className="px-3 py-4 text-xs text-muted text-center">
+                      Star events or series on the calendar page to get alerts before they release.
+                    </p>
+                  ) : (
+                    <div className="divide-y divide-border/50">
+                      {watchRows.map(({ watch, next }) => (
+                        <div key={watch.id} className="px-3 py-2 space-y-1.5">
+                          <div className="flex items-start gap-2">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-xs font-medium truncate flex items-center gap-1">
+                                {watch.scope === "series" && <Layers className="w-3 h-3 text-muted flex-shrink-0" />}
+                                {watch.title}
+                              </p>
+                              <p className="text-[10px] text-muted">
+                                {next
+                                  ? `${next.instant.toLocaleDateString("en-US", { timeZone: displayTimeZone, weekday: "short", month: "short", day: "numeric" })} · ${formatEventTime(next.event, displayTimeZone)}`
+                                  : "No upcoming timed release"}
+                              </p>
+                            </div>
+                            {next && (
+                              <span className="text-xs font-mono text-amber-400 flex-shrink-0">
+                                {formatCountdown(next.instant.getTime() - currentTime.getTime())}
+                              </span>
+                            )}
+                            <button
+                              onClick={() => removeWatch(watch.id)}
+                              className="p-0.5 rounded text-muted hover:text-red-400 transition-colors flex-shrink-0"
+                              title={watch.scope === "series" ? `Stop watching every ${watch.title} release` : "Unstar"}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+
+                          {/* Lead times */}
+                          <div className="flex flex-wrap items-center gap-1">
+                            {watch.leadTimes.map((lead) => (
+                              <span key={lead} className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">
+                                {formatLeadTime(lead)}
+                                <button
+                                  onClick={() => updateWatch(watch.id, { leadTimes: watch.leadTimes.filter((m) => m !== lead) })}
+                                  className="hover:text-white"
+                                  title="Remove lead time"
+                                >
+                                  <X className="w-2.5 h-2.5" />
+                                </button>
+                              </span>
+                            ))}
+                            <input
+                              type="number"
+                              min={0}
+                              value={leadTimeDrafts[watch.id] ?? ""}
+                              onChange={(e) => setLeadTimeDrafts((prev) => ({ ...prev, [watch.id]: e.target.value }))}
+                              onKeyDown={(e) => e.key === "Enter" && addLeadTime(watch)}
+                              placeholder="min"
+                              className="w-12 px-1 py-0.5 text-[10px] bg-background/50 border border-border rounded focus:outline-none focus:border-amber-500/50"
+                            />
+                            <button
+                              onClick={() => addLeadTime(watch)}
+                              disabled={!leadTimeDrafts[watch.id]}
+                              className="p-0.5 rounded text-muted hover:text-amber-400 transition-colors disabled:opacity-40"
+                              title="Add lead time (minutes before release)"
+                            >
+                              <Plus className="w-3 h-3" />
+                            </button>
+                            <select
+                              value={watch.sound}
+                              onChange={(e) => updateWatch(watch.id, { sound: e.target.value })}
+                              className="ml-auto px-1 py-0.5 text-[10px] bg-background/50 border border-border rounded focus:outline-none"
+                              title="Alert sound"
+                            >
+                              {SOUND_OPTIONS.map((sound) => (
+                                <option key={sound.value} value={sound.value}>{sound.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
 
           <button
@@ -2067,16 +2274,16 @@ export default function DashboardPage() {
             const timelineWidth = containerWidth - 240; // Same as session bars
             const elements: React.ReactNode[] = [];
 
-            // Start from current time snapped to the hour, minus HOURS_IN_PAST (same as time scale)
+            // Start from current time snapped to the half hour, minus HOURS_IN_PAST (same as time scale)
             const startTime = new Date(currentTime);
-            startTime.setMinutes(0, 0, 0);
-            startTime.setHours(startTime.getHours() - HOURS_IN_PAST);
+            startTime.setUTCMinutes(startTime.getUTCMinutes() < 30 ? 0 : 30, 0, 0);
+            startTime.setTime(startTime.getTime() - HOURS_IN_PAST * 60 * 60 * 1000);
 
             // Generate gridlines for each 30-minute increment (same as time scale)
             for (let i = 0; i <= TOTAL_HOURS * 2 + 2; i++) {
               const lineTime = new Date(startTime.getTime() + i * 30 * 60 * 1000);
               const xPos = getTimePosition(lineTime, currentTime, timelineWidth) + scrollOffset;
-              const isHourLine = lineTime.getMinutes() === 0;
+              const isHourLine = getZonedParts(lineTime, displayTimeZone).time.endsWith(":00");
 
               if (xPos < 0 || xPos > timelineWidth) continue;
 
@@ -2107,16 +2314,17 @@ export default function DashboardPage() {
             const timelineWidth = containerWidth - 240; // Subtract sidebar width
             const markers: React.ReactNode[] = [];
 
-            // Start from HOURS_IN_PAST hours ago, snapped to the hour
+            // Start from HOURS_IN_PAST hours ago, snapped to the half hour so
+            // hour marks line up in zones with half-hour offsets
             const startTime = new Date(currentTime);
-            startTime.setMinutes(0, 0, 0);
-            startTime.setHours(startTime.getHours() - HOURS_IN_PAST);
+            startTime.setUTCMinutes(startTime.getUTCMinutes() < 30 ? 0 : 30, 0, 0);
+            startTime.setTime(startTime.getTime() - HOURS_IN_PAST * 60 * 60 * 1000);
 
             // Generate markers for each 30-minute increment
             for (let i = 0; i <= TOTAL_HOURS * 2; i++) {
               const markerTime = new Date(startTime.getTime() + i * 30 * 60 * 1000);
               const xPos = getTimePosition(markerTime, currentTime, timelineWidth) + scrollOffset;
-              const isHourLine = markerTime.getMinutes() === 0;
+              const isHourLine = getZonedParts(markerTime, displayTimeZone).time.endsWith(":00");
 
               if (xPos < -50 || xPos > timelineWidth + 50) continue;
 
@@ -2129,14 +2337,14 @@ export default function DashboardPage() {
                   {isHourLine ? (
                     <>
                       <span className="text-xs text-foreground font-mono font-medium mb-0.5">
-                        {markerTime.toLocaleTimeString("en-US", { hour: "numeric", hour12: true })}
+                        {markerTime.toLocaleTimeString("en-US", { timeZone: displayTimeZone, hour: "numeric", hour12: true })}
                       </span>
                       <div className="w-0.5 h-3 bg-border rounded-full" />
                     </>
                   ) : (
                     <>
                       <span className="text-[10px] text-muted font-mono">
-                        {markerTime.getHours() % 12 || 12}:30 {markerTime.getHours() >= 12 ? "PM" : "AM"}
+                        {markerTime.toLocaleTimeString("en-US", { timeZone: displayTimeZone, hour: "numeric", minute: "2-digit", hour12: true })}
                       </span>
                       <div className="w-px h-2 bg-border/50" />
                     </>
@@ -2151,16 +2359,15 @@ export default function DashboardPage() {
         {/* Unified Left Sidebar - Below Time Scale */}
         <div className="absolute top-10 left-0 bottom-0 w-60 bg-background border-r border-border flex flex-col p-1.5 gap-1 overflow-y-auto overflow-x-visible">
           {/* Market Session Cards */}
-          {MARKET_SESSIONS.filter(s => visibleMarkets.has(s.id)).map((session) => {
-              const isPreActive = isSessionActiveNow(session, currentTime, "pre");
-              const isRegularActive = isSessionActiveNow(session, currentTime, "regular");
-              const isPostActive = isSessionActiveNow(session, currentTime, "post");
-              const isAnyActive = isPreActive || isRegularActive || isPostActive;
+          {markets.filter(s => visibleMarkets.has(s.id)).map((session) => {
+              const activeSegment = getActiveSegment(session, currentTime);
+              const isAnyActive = activeSegment !== null && isTradingSegment(activeSegment.segment);
+              const closure = getMarketClosure(session, currentTime);
+              const isHoliday = closure !== null && !closure.closeTime;
               const isExpanded = expandedCard === session.id;
 
-              // Determine current session type and get progress
-              const currentSessionType = isRegularActive ? "regular" : isPreActive ? "pre" : isPostActive ? "post" : null;
-              const progress = currentSessionType ? getSessionProgressNow(session, currentTime, currentSessionType) : 0;
+              // Current segment progress
+              const progress = activeSegment ? getSessionProgressNow(activeSegment, currentTime) : 0;
 
               return (
                 <div
@@ -2236,7 +2443,7 @@ export default function DashboardPage() {
                           boxShadow: isAnyActive ? `0 0 8px ${session.color}60` : 'none',
                         }}
                       >
-                        {isRegularActive ? "LIVE" : isPreActive ? "PRE" : isPostActive ? "POST" : "CLOSED"}
+                        {activeSegment ? SEGMENT_TYPES.find(t => t.value === activeSegment.segment.type)!.badge : isHoliday ? "HOLIDAY" : "CLOSED"}
                       </span>
                     </div>
                     <div className="flex items-center gap-1">
@@ -2258,15 +2465,15 @@ export default function DashboardPage() {
 
                   {/* Progress/countdown row - compact view */}
                   <div className="px-2.5 pb-2 relative">
-                      {isAnyActive ? (
+                      {activeSegment ? (
                         <div className="space-y-1">
                           {/* Progress bar with time remaining */}
                           <div className="flex items-center justify-between text-[11px] font-medium mb-1">
                             <span style={{ color: `${session.color}90` }}>
-                              {isRegularActive ? "Regular" : isPreActive ? "Pre-Market" : "After-Hours"}
+                              {getSegmentLabel(activeSegment.segment)}{closure?.closeTime ? " · Early close" : ""}
                             </span>
                             <span className="font-mono font-bold" style={{ color: session.color }}>
-                              {currentSessionType ? getTimeRemainingNow(session, currentTime, currentSessionType) : ""}
+                              {getTimeRemainingNow(activeSegment, currentTime)}
                             </span>
                           </div>
                           {/* Progress bar */}
@@ -2313,8 +2520,8 @@ export default function DashboardPage() {
                         </div>
                       ) : (
                         <div className="flex items-center justify-between py-1">
-                          <span className="text-[11px]" style={{ color: `${session.color}70` }}>
-                            {getTimeUntilOpenNow(session, currentTime)}
+                          <span className="text-[11px] truncate" style={{ color: `${session.color}70` }}>
+                            {isHoliday && `${closure.name} · `}{getTimeUntilOpenNow(session, currentTime)}
                           </span>
                           {/* Closed state mini chart - flat line */}
                           <svg className="w-12 h-3 opacity-40" viewBox="0 0 48 12">
@@ -2333,8 +2540,7 @@ export default function DashboardPage() {
             // Check for high-impact event within the next hour
             const highImpactSoon = filteredVisibleEvents.some(e => {
               if (e.impact !== "high") return false;
-              const eventTime = new Date(`${e.date}T${e.time || "00:00"}:00`);
-              const timeDiff = eventTime.getTime() - currentTime.getTime();
+              const timeDiff = getEventSortTime(e) - currentTime.getTime();
               return timeDiff > 0 && timeDiff < 60 * 60 * 1000; // Within next hour
             });
 
@@ -2399,6 +2605,21 @@ export default function DashboardPage() {
                   );
                 })}
               </div>
+              <select
+                value={filterCurrency}
+                onChange={(e) => setFilterCurrency(e.target.value)}
+                className="w-full mt-1.5 px-2 py-1 text-[10px] bg-transparent border border-white/10 rounded text-slate-300 focus:outline-none focus:border-white/30"
+              >
+                {CURRENCY_OPTIONS.map((option) => (
+                  <option key={option} value={option} className="bg-card">
+                    {option === "All"
+                      ? "All currencies"
+                      : CURRENCY_CODES.includes(option)
+                        ? `${getCurrencyFlag(option)} ${option}`
+                        : `${option} pair`}
+                  </option>
+                ))}
+              </select>
             </div>
 
             {/* View Today's Events Button */}
@@ -2449,6 +2670,7 @@ export default function DashboardPage() {
 
             // Find next alert
             const upcomingAlerts = customAlerts
+              .filter(alert => !alert.eventRule)
               .map(alert => {
                 const [h, m] = alert.time.split(":").map(Number);
                 const alertMinutes = h * 60 + m;
@@ -2501,6 +2723,16 @@ export default function DashboardPage() {
               </span>
             </div>
 
+            {/* Sync conflict / failure notice */}
+            {syncNotice && (
+              <div className="mx-3 mb-2 px-2 py-1.5 flex items-start gap-1.5 text-[9px] rounded bg-amber-500/10 border border-amber-500/30 text-amber-400">
+                <span className="flex-1">{syncNotice}</span>
+                <button onClick={dismissSyncNotice} className="hover:text-amber-300">
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="px-3 pb-2 flex gap-1.5">
               <button
@@ -2531,15 +2763,11 @@ export default function DashboardPage() {
         </div>
 
         {/* Market Session Popover - renders outside sidebar to avoid clipping */}
-        {expandedCard && popoverPosition && MARKET_SESSIONS.find(s => s.id === expandedCard) && (() => {
-          const session = MARKET_SESSIONS.find(s => s.id === expandedCard)!;
+        {expandedCard && popoverPosition && markets.find(s => s.id === expandedCard) && (() => {
+          const session = markets.find(s => s.id === expandedCard)!;
 
-          const isPreActive = isSessionActiveNow(session, currentTime, "pre");
-          const isRegularActive = isSessionActiveNow(session, currentTime, "regular");
-          const isPostActive = isSessionActiveNow(session, currentTime, "post");
-          const isAnyActive = isPreActive || isRegularActive || isPostActive;
-          const currentSessionType = isRegularActive ? "regular" : isPreActive ? "pre" : isPostActive ? "post" : null;
-          const progress = currentSessionType ? getSessionProgressNow(session, currentTime, currentSessionType) : 0;
+          const activeSegment = getActiveSegment(session, currentTime);
+          const isAnyActive = activeSegment !== null && isTradingSegment(activeSegment.segment);
 
           return (
             <div
@@ -2583,40 +2811,25 @@ export default function DashboardPage() {
                       color: isAnyActive ? '#000' : `${session.color}90`,
                     }}
                   >
-                    {isRegularActive ? "LIVE" : isPreActive ? "PRE" : isPostActive ? "POST" : "CLOSED"}
+                    {activeSegment ? SEGMENT_TYPES.find(t => t.value === activeSegment.segment.type)!.badge : "CLOSED"}
                   </span>
                 </div>
 
                 {/* Session Times */}
                 <div className="space-y-1.5 text-[10px]">
-                  {session.preMarket && (
-                    <div className="flex justify-between">
-                      <span style={{ color: isPreActive ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
-                        {session.id === "tokyo" ? "Morning" : session.id === "sydney" ? "Pre-Open" : "Pre-Market"}
-                      </span>
-                      <span className="font-mono" style={{ color: isPreActive ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
-                        {formatLocalHour(session.preMarket.start)} - {formatLocalHour(session.preMarket.end)}
-                      </span>
-                    </div>
-                  )}
-                  <div className="flex justify-between">
-                    <span style={{ color: isRegularActive ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
-                      {session.id === "tokyo" ? "Afternoon" : "Regular"}
-                    </span>
-                    <span className="font-mono" style={{ color: isRegularActive ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
-                      {formatLocalHour(session.regular.start)} - {formatLocalHour(session.regular.end)}
-                    </span>
-                  </div>
-                  {session.postMarket && (
-                    <div className="flex justify-between">
-                      <span style={{ color: isPostActive ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
-                        Post-Market
-                      </span>
-                      <span className="font-mono" style={{ color: isPostActive ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
-                        {formatLocalHour(session.postMarket.start)} - {formatLocalHour(session.postMarket.end)}
-                      </span>
-                    </div>
-                  )}
+                  {session.segments.map((segment, index) => {
+                    const isCurrent = activeSegment?.index === index;
+                    return (
+                      <div key={index} className="flex justify-between">
+                        <span style={{ color: isCurrent ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
+                          {getSegmentLabel(segment)}
+                        </span>
+                        <span className="font-mono" style={{ color: isCurrent ? "#ffffff" : "rgba(255,255,255,0.6)" }}>
+                          {formatLocalHour(segment.start)} - {formatLocalHour(segment.end)}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -2626,11 +2839,7 @@ export default function DashboardPage() {
         {/* Unified Right Timeline Area - Below Time Scale */}
         <div className="absolute top-10 left-60 right-0 bottom-0 flex flex-col overflow-hidden">
           {/* Each market session gets its own lane */}
-          {MARKET_SESSIONS.filter(s => visibleMarkets.has(s.id)).map((session) => {
-            const isPreActive = isSessionActiveNow(session, currentTime, "pre");
-            const isRegularActive = isSessionActiveNow(session, currentTime, "regular");
-            const isPostActive = isSessionActiveNow(session, currentTime, "post");
-
+          {markets.filter(s => visibleMarkets.has(s.id)).map((session) => {
             return (
               <div
                 key={session.id}
@@ -2641,11 +2850,8 @@ export default function DashboardPage() {
                   const elements: React.ReactNode[] = [];
                   const timelineWidth = containerWidth - 240; // Timeline area width (minus sidebar)
 
-                  // Check if today is a weekend in this market's timezone
-                  const todayIsWeekend = isWeekendInTimezone(session.timezone, currentTime);
-
-                  // Show "WEEKEND CLOSED" indicator if today is Saturday or Sunday
-                  if (todayIsWeekend) {
+                  // Show "WEEKEND CLOSED" indicator on days the market doesn't trade
+                  if (isMarketDayOff(session, currentTime)) {
                     return (
                       <div
                         key={`${session.id}-weekend-closed`}
@@ -2664,193 +2870,82 @@ export default function DashboardPage() {
                           className="text-[10px] font-medium tracking-widest uppercase"
                           style={{ color: `${session.color}60` }}
                         >
-                          Weekend
+                          {getMarketClosure(session, currentTime)?.name ?? "Weekend"}
                         </span>
                       </div>
                     );
                   }
 
-                  // Get the date in the session's timezone for today, yesterday, and tomorrow
-                  for (let dayOffset = -1; dayOffset <= 1; dayOffset++) {
-                    const tzDateStr = currentTime.toLocaleDateString("en-CA", { timeZone: session.timezone });
-                    const [year, month, day] = tzDateStr.split("-").map(Number);
-                    const baseDate = new Date(year, month - 1, day + dayOffset);
-
-                    // Skip weekend days
-                    const dayOfWeek = getDayOfWeekInTimezone(baseDate, session.timezone);
-                    if (dayOfWeek === 0 || dayOfWeek === 6) continue;
-
-                    // Pre-market (US only)
-                    if (session.preMarket) {
-                      const preStart = getSessionDateTime(baseDate, session.preMarket.start, session.timezone, currentTime);
-                      const preEnd = getSessionDateTime(baseDate, session.preMarket.end, session.timezone, currentTime);
-
-                      const preStartX = getTimePosition(preStart, currentTime, timelineWidth) + scrollOffset;
-                      const preEndX = getTimePosition(preEnd, currentTime, timelineWidth) + scrollOffset;
-
-                      // Clip to visible area
-                      const clippedStartX = Math.max(0, preStartX);
-                      const clippedEndX = Math.min(timelineWidth, preEndX);
-                      const clippedWidth = clippedEndX - clippedStartX;
-
-                      if (clippedWidth > 20) {
-                        const barIsActive = isPreActive && dayOffset === 0;
-
-                        // Calculate TRUE progress based on full session duration
-                        const fullSessionWidth = preEndX - preStartX;
-                        const sessionDuration = preEnd.getTime() - preStart.getTime();
-                        const elapsed = currentTime.getTime() - preStart.getTime();
-                        const trueProgress = barIsActive ? Math.max(0, Math.min(100, (elapsed / sessionDuration) * 100)) : 0;
-                        const clipStartOffset = clippedStartX - preStartX;
-
-                        elements.push(
-                          <div
-                            key={`${session.id}-pre-${dayOffset}`}
-                            className="absolute rounded cursor-pointer transition-all duration-300 hover:brightness-110 hover:z-10 overflow-hidden"
-                            style={{
-                              left: clippedStartX,
-                              width: clippedWidth,
-                              height: "calc(100% - 12px)",
-                              top: 6,
-                              background: barIsActive
-                                ? `linear-gradient(90deg, ${session.color}20 0%, ${session.color}12 100%)`
-                                : `linear-gradient(90deg, ${session.color}10 0%, ${session.color}06 100%)`,
-                              border: `1px dashed ${session.color}${barIsActive ? "50" : "25"}`,
-                            }}
-                          >
-                            {/* Progress fill - dims the passed portion (left of NOW) */}
-                            {barIsActive && (
-                              <div
-                                className="absolute inset-y-0 transition-all duration-300"
-                                style={{
-                                  left: -clipStartOffset,
-                                  width: fullSessionWidth * (trueProgress / 100),
-                                  background: `linear-gradient(90deg, rgba(15,23,42,0.5) 0%, rgba(15,23,42,0.4) 90%, transparent 100%)`,
-                                }}
-                              />
-                            )}
-                            {/* Progress tick markers - positioned relative to FULL session */}
-                            {[10, 20, 30, 40, 50, 60, 70, 80, 90].map((percent) => {
-                              const markerPosInFull = fullSessionWidth * (percent / 100);
-                              const markerPosInClipped = markerPosInFull - clipStartOffset;
-                              if (markerPosInClipped < 0 || markerPosInClipped > clippedWidth) return null;
-
-                              // Check if session has completely ended (for today's session)
-                              const sessionEnded = dayOffset === 0 && currentTime.getTime() > preEnd.getTime();
-                              // Check if this is a past day's session
-                              const sessionInPast = dayOffset < 0;
-                              const isPassed = (barIsActive && trueProgress >= percent) || sessionEnded || sessionInPast;
-
-                              return (
-                                <div
-                                  key={percent}
-                                  className="absolute bottom-0 flex flex-col items-center pointer-events-none"
-                                  style={{
-                                    left: markerPosInClipped,
-                                    transform: 'translateX(-50%)',
-                                  }}
-                                >
-                                  {/* Label above tick - bright when ahead, dim when passed */}
-                                  <span
-                                    className="text-[9px] font-mono font-semibold"
-                                    style={{
-                                      color: isPassed ? `${session.color}40` : session.color,
-                                    }}
-                                  >
-                                    {percent}
-                                  </span>
-                                  {/* Short tick mark connected to bottom edge */}
-                                  <div
-                                    style={{
-                                      width: 2,
-                                      height: 6,
-                                      backgroundColor: isPassed ? `${session.color}30` : session.color,
-                                      borderRadius: 1,
-                                    }}
-                                  />
-                                </div>
-                              );
-                            })}
-                            {/* Content - centered */}
-                            <div className="absolute inset-0 flex items-center justify-center gap-2 px-2">
-                              <span
-                                className="text-[10px] font-semibold uppercase tracking-wide"
-                                style={{ color: `${session.color}${barIsActive ? "" : "90"}` }}
-                              >
-                                {session.id === "tokyo" ? "AM" : session.id === "sydney" ? "PRE" : "PRE"}
-                              </span>
-                              {barIsActive && (
-                                <span className="text-[9px] font-mono" style={{ color: session.color }}>
-                                  {Math.round(trueProgress)}%
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                        );
-                      }
-                    }
-
-                    // Regular session
-                    const regularStart = getSessionDateTime(baseDate, session.regular.start, session.timezone, currentTime);
-                    const regularEnd = getSessionDateTime(baseDate, session.regular.end, session.timezone, currentTime);
+                  // Every segment from yesterday through tomorrow, clipped to the visible area
+                  const laneFrom = new Date(currentTime.getTime() - 36 * 60 * 60 * 1000);
+                  const laneTo = new Date(currentTime.getTime() + 36 * 60 * 60 * 1000);
+                  getSegmentInstances(session, laneFrom, laneTo).forEach((instance) => {
+                    const { segment } = instance;
+                    const segmentKey = `${session.id}-${instance.tradingDate}-${instance.index}`;
 
-                    const regularStartX = getTimePosition(regularStart, currentTime, timelineWidth) + scrollOffset;
-                    const regularEndX = getTimePosition(regularEnd, currentTime, timelineWidth) + scrollOffset;
+                    const segmentStartX = getTimePosition(instance.start, currentTime, timelineWidth) + scrollOffset;
+                    const segmentEndX = getTimePosition(instance.end, currentTime, timelineWidth) + scrollOffset;
 
                     // Clip to visible area
-                    const clippedStartX = Math.max(0, regularStartX);
-                    const clippedEndX = Math.min(timelineWidth, regularEndX);
+                    const clippedStartX = Math.max(0, segmentStartX);
+                    const clippedEndX = Math.min(timelineWidth, segmentEndX);
                     const clippedWidth = clippedEndX - clippedStartX;
+                    if (clippedWidth <= 20) return;
 
-                    if (clippedWidth > 20) {
-                      const barIsActive = isRegularActive && dayOffset === 0;
-                      const activeColor = session.color;
+                    const barIsActive = currentTime >= instance.start && currentTime < instance.end;
+                    const sessionEnded = currentTime >= instance.end;
 
-                      // Calculate TRUE progress based on full session duration (not clipped)
-                      const fullSessionWidth = regularEndX - regularStartX;
-                      const sessionDuration = regularEnd.getTime() - regularStart.getTime();
-                      const elapsed = currentTime.getTime() - regularStart.getTime();
-                      const trueProgress = barIsActive ? Math.max(0, Math.min(100, (elapsed / sessionDuration) * 100)) : 0;
+                    // Calculate TRUE progress based on full segment duration (not clipped)
+                    const fullSessionWidth = segmentEndX - segmentStartX;
+                    const trueProgress = barIsActive ? getSessionProgressNow(instance, currentTime) : 0;
 
-                      // Calculate where the clipped area starts relative to full session (for positioning markers)
-                      const clipStartOffset = clippedStartX - regularStartX; // How much of the start is cut off
+                    // Calculate where the clipped area starts relative to full segment (for positioning markers)
+                    const clipStartOffset = clippedStartX - segmentStartX; // How much of the start is cut off
 
-                      // Check if session start is visible (accent line will be shown)
-                      const startIsVisible = regularStartX >= 0 && regularStartX <= timelineWidth;
-                      // Offset the bar to connect with accent line when start is visible
-                      const barLeftOffset = startIsVisible ? 2 : 0;
+                    // Breaks: the market is shut, so a faint hatched gap between sessions
+                    if (segment.type === "break") {
+                      elements.push(
+                        <div
+                          key={segmentKey}
+                          className="absolute rounded overflow-hidden"
+                          style={{
+                            left: clippedStartX,
+                            width: clippedWidth,
+                            height: "calc(100% - 12px)",
+                            top: 6,
+                            background: `repeating-linear-gradient(135deg, ${session.color}10 0px, ${session.color}10 4px, transparent 4px, transparent 8px)`,
+                          }}
+                        >
+                          <div className="absolute inset-0 flex items-center justify-center px-2">
+                            <span
+                              className="text-[9px] font-semibold uppercase tracking-wide truncate"
+                              style={{ color: `${session.color}${barIsActive ? "90" : "50"}` }}
+                            >
+                              {getSegmentLabel(segment)}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                      return;
+                    }
 
+                    // Pre-market, auction and after-hours segments
+                    if (segment.type !== "regular") {
                       elements.push(
                         <div
-                          key={`${session.id}-regular-${dayOffset}`}
-                          className={`absolute cursor-pointer transition-all duration-300 hover:brightness-110 hover:z-10 overflow-hidden ${startIsVisible ? 'rounded-r-lg' : 'rounded-lg'}`}
+                          key={segmentKey}
+                          className="absolute rounded cursor-pointer transition-all duration-300 hover:brightness-110 hover:z-10 overflow-hidden"
                           style={{
-                            left: clippedStartX + barLeftOffset,
-                            width: clippedWidth - barLeftOffset,
-                            height: "calc(100% - 8px)",
-                            top: 4,
+                            left: clippedStartX,
+                            width: clippedWidth,
+                            height: "calc(100% - 12px)",
+                            top: 6,
                             background: barIsActive
-                              ? `linear-gradient(135deg, ${activeColor}35 0%, ${activeColor}20 50%, ${activeColor}30 100%)`
-                              : `linear-gradient(135deg, ${session.color}18 0%, ${session.color}12 100%)`,
-                            borderTop: `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
-                            borderRight: `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
-                            borderBottom: `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
-                            borderLeft: startIsVisible ? 'none' : `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
-                            boxShadow: barIsActive
-                              ? `0 0 20px ${activeColor}40, inset 0 1px 0 ${activeColor}30`
-                              : `inset 0 1px 0 ${session.color}15`,
+                              ? `linear-gradient(90deg, ${session.color}20 0%, ${session.color}12 100%)`
+                              : `linear-gradient(90deg, ${session.color}10 0%, ${session.color}06 100%)`,
+                            border: `1px dashed ${session.color}${barIsActive ? "50" : "25"}`,
                           }}
                         >
-                          {/* Shimmer effect for active sessions */}
-                          {barIsActive && (
-                            <div
-                              className="absolute inset-0 overflow-hidden"
-                              style={{
-                                background: `linear-gradient(90deg, transparent 0%, ${activeColor}15 50%, transparent 100%)`,
-                                animation: "shimmer 2s ease-in-out infinite",
-                              }}
-                            />
-                          )}
                           {/* Progress fill - dims the passed portion (left of NOW) */}
                           {barIsActive && (
                             <div
@@ -2858,24 +2953,17 @@ export default function DashboardPage() {
                               style={{
                                 left: -clipStartOffset,
                                 width: fullSessionWidth * (trueProgress / 100),
-                                background: `linear-gradient(90deg, rgba(15,23,42,0.6) 0%, rgba(15,23,42,0.5) 90%, transparent 100%)`,
+                                background: `linear-gradient(90deg, rgba(15,23,42,0.5) 0%, rgba(15,23,42,0.4) 90%, transparent 100%)`,
                               }}
                             />
                           )}
-                          {/* Progress tick markers at 10%, 20%, 30%, etc. - positioned relative to FULL session */}
+                          {/* Progress tick markers - positioned relative to FULL segment */}
                           {[10, 20, 30, 40, 50, 60, 70, 80, 90].map((percent) => {
-                            // Calculate marker position relative to the clipped view
                             const markerPosInFull = fullSessionWidth * (percent / 100);
                             const markerPosInClipped = markerPosInFull - clipStartOffset;
-
-                            // Only render if marker is within the visible clipped area
                             if (markerPosInClipped < 0 || markerPosInClipped > clippedWidth) return null;
 
-                            // Check if session has completely ended (for today's session)
-                            const sessionEnded = dayOffset === 0 && currentTime.getTime() > regularEnd.getTime();
-                            // Check if this is a past day's session
-                            const sessionInPast = dayOffset < 0;
-                            const isPassed = (barIsActive && trueProgress >= percent) || sessionEnded || sessionInPast;
+                            const isPassed = (barIsActive && trueProgress >= percent) || sessionEnded;
 
                             return (
                               <div
@@ -2888,9 +2976,9 @@ export default function DashboardPage() {
                               >
                                 {/* Label above tick - bright when ahead, dim when passed */}
                                 <span
-                                  className="text-[10px] font-mono font-semibold mb-0.5"
+                                  className="text-[9px] font-mono font-semibold"
                                   style={{
-                                    color: isPassed ? `${session.color}40` : activeColor,
+                                    color: isPassed ? `${session.color}40` : session.color,
                                   }}
                                 >
                                   {percent}
@@ -2899,8 +2987,8 @@ export default function DashboardPage() {
                                 <div
                                   style={{
                                     width: 2,
-                                    height: 8,
-                                    backgroundColor: isPassed ? `${session.color}30` : activeColor,
+                                    height: 6,
+                                    backgroundColor: isPassed ? `${session.color}30` : session.color,
                                     borderRadius: 1,
                                   }}
                                 />
@@ -2908,259 +2996,237 @@ export default function DashboardPage() {
                             );
                           })}
                           {/* Content - centered */}
-                          <div className="absolute inset-0 flex items-center justify-center gap-3 px-3">
-                            {/* Pulsing dot for active */}
-                            {barIsActive && (
-                              <div className="relative">
-                                <div
-                                  className="w-2 h-2 rounded-full"
-                                  style={{ backgroundColor: activeColor }}
-                                />
-                                <div
-                                  className="absolute inset-0 w-2 h-2 rounded-full animate-ping"
-                                  style={{ backgroundColor: activeColor, opacity: 0.5 }}
-                                />
-                              </div>
-                            )}
-                            {/* Session name and TRUE progress */}
+                          <div className="absolute inset-0 flex items-center justify-center gap-2 px-2">
                             <span
-                              className="text-xs font-bold uppercase tracking-wider"
-                              style={{
-                                color: barIsActive ? activeColor : session.color,
-                                textShadow: barIsActive ? `0 0 10px ${activeColor}50` : 'none',
-                              }}
+                              className="text-[10px] font-semibold uppercase tracking-wide"
+                              style={{ color: `${session.color}${barIsActive ? "" : "90"}` }}
                             >
-                              {session.shortName}
+                              {segment.label || SEGMENT_TYPES.find(t => t.value === segment.type)!.badge}
                             </span>
-                            {/* Show TRUE progress percentage */}
                             {barIsActive && (
-                              <span
-                                className="text-xs font-mono font-bold"
-                                style={{ color: activeColor }}
-                              >
+                              <span className="text-[9px] font-mono" style={{ color: session.color }}>
                                 {Math.round(trueProgress)}%
                               </span>
                             )}
                           </div>
                         </div>
                       );
+                      return;
+                    }
 
-                      // Session start accent line - centered on session start time
-                      if (regularStartX >= 0 && regularStartX <= timelineWidth) {
-                        elements.push(
+                    // Regular segment
+                    const activeColor = session.color;
+
+                    // Check if segment start is visible (accent line will be shown)
+                    const startIsVisible = segmentStartX >= 0 && segmentStartX <= timelineWidth;
+                    // Offset the bar to connect with accent line when start is visible
+                    const barLeftOffset = startIsVisible ? 2 : 0;
+
+                    elements.push(
+                      <div
+                        key={segmentKey}
+                        className={`absolute cursor-pointer transition-all duration-300 hover:brightness-110 hover:z-10 overflow-hidden ${startIsVisible ? 'rounded-r-lg' : 'rounded-lg'}`}
+                        style={{
+                          left: clippedStartX + barLeftOffset,
+                          width: clippedWidth - barLeftOffset,
+                          height: "calc(100% - 8px)",
+                          top: 4,
+                          background: barIsActive
+                            ? `linear-gradient(135deg, ${activeColor}35 0%, ${activeColor}20 50%, ${activeColor}30 100%)`
+                            : `linear-gradient(135deg, ${session.color}18 0%, ${session.color}12 100%)`,
+                          borderTop: `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
+                          borderRight: `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
+                          borderBottom: `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
+                          borderLeft: startIsVisible ? 'none' : `1px solid ${barIsActive ? activeColor : session.color}${barIsActive ? "70" : "30"}`,
+                          boxShadow: barIsActive
+                            ? `0 0 20px ${activeColor}40, inset 0 1px 0 ${activeColor}30`
+                            : `inset 0 1px 0 ${session.color}15`,
+                        }}
+                      >
+                        {/* Shimmer effect for active sessions */}
+                        {barIsActive && (
                           <div
-                            key={`${session.id}-regular-start-line-${dayOffset}`}
-                            className="absolute pointer-events-none"
+                            className="absolute inset-0 overflow-hidden"
                             style={{
-                              left: regularStartX - 2, // Center the 4px line
-                              width: 4,
-                              height: "calc(100% - 8px)",
-                              top: 4,
-                              backgroundColor: barIsActive ? activeColor : session.color,
-                              borderRadius: 2,
-                              boxShadow: barIsActive ? `0 0 8px ${activeColor}` : 'none',
+                              background: `linear-gradient(90deg, transparent 0%, ${activeColor}15 50%, transparent 100%)`,
+                              animation: "shimmer 2s ease-in-out infinite",
                             }}
                           />
-                        );
-                      }
-                    }
-
-                    // Post-market (US only)
-                    if (session.postMarket) {
-                      const postStart = getSessionDateTime(baseDate, session.postMarket.start, session.timezone, currentTime);
-                      const postEnd = getSessionDateTime(baseDate, session.postMarket.end, session.timezone, currentTime);
-
-                      const postStartX = getTimePosition(postStart, currentTime, timelineWidth) + scrollOffset;
-                      const postEndX = getTimePosition(postEnd, currentTime, timelineWidth) + scrollOffset;
-
-                      const clippedStartX = Math.max(0, postStartX);
-                      const clippedEndX = Math.min(timelineWidth, postEndX);
-                      const clippedWidth = clippedEndX - clippedStartX;
-
-                      if (clippedWidth > 20) {
-                        const barIsActive = isPostActive && dayOffset === 0;
-
-                        // Calculate TRUE progress based on full session duration
-                        const fullSessionWidth = postEndX - postStartX;
-                        const sessionDuration = postEnd.getTime() - postStart.getTime();
-                        const elapsed = currentTime.getTime() - postStart.getTime();
-                        const trueProgress = barIsActive ? Math.max(0, Math.min(100, (elapsed / sessionDuration) * 100)) : 0;
-                        const clipStartOffset = clippedStartX - postStartX;
-
-                        elements.push(
+                        )}
+                        {/* Progress fill - dims the passed portion (left of NOW) */}
+                        {barIsActive && (
                           <div
-                            key={`${session.id}-post-${dayOffset}`}
-                            className="absolute rounded cursor-pointer transition-all duration-300 hover:brightness-110 hover:z-10 overflow-hidden"
+                            className="absolute inset-y-0 transition-all duration-300"
                             style={{
-                              left: clippedStartX,
-                              width: clippedWidth,
-                              height: "calc(100% - 12px)",
-                              top: 6,
-                              background: barIsActive
-                                ? `linear-gradient(90deg, ${session.color}20 0%, ${session.color}12 100%)`
-                                : `linear-gradient(90deg, ${session.color}10 0%, ${session.color}06 100%)`,
-                              border: `1px dashed ${session.color}${barIsActive ? "50" : "25"}`,
+                              left: -clipStartOffset,
+                              width: fullSessionWidth * (trueProgress / 100),
+                              background: `linear-gradient(90deg, rgba(15,23,42,0.6) 0%, rgba(15,23,42,0.5) 90%, transparent 100%)`,
                             }}
-                          >
-                            {/* Progress fill - dims the passed portion (left of NOW) */}
-                            {barIsActive && (
-                              <div
-                                className="absolute inset-y-0 transition-all duration-300"
+                          />
+                        )}
+                        {/* Progress tick markers at 10%, 20%, 30%, etc. - positioned relative to FULL segment */}
+                        {[10, 20, 30, 40, 50, 60, 70, 80, 90].map((percent) => {
+                          // Calculate marker position relative to the clipped view
+                          const markerPosInFull = fullSessionWidth * (percent / 100);
+                          const markerPosInClipped = markerPosInFull - clipStartOffset;
+
+                          // Only render if marker is within the visible clipped area
+                          if (markerPosInClipped < 0 || markerPosInClipped > clippedWidth) return null;
+
+                          const isPassed = (barIsActive && trueProgress >= percent) || sessionEnded;
+
+                          return (
+                            <div
+                              key={percent}
+                              className="absolute bottom-0 flex flex-col items-center pointer-events-none"
+                              style={{
+                                left: markerPosInClipped,
+                                transform: 'translateX(-50%)',
+                              }}
+                            >
+                              {/* Label above tick - bright when ahead, dim when passed */}
+                              <span
+                                className="text-[10px] font-mono font-semibold mb-0.5"
                                 style={{
-                                  left: -clipStartOffset,
-                                  width: fullSessionWidth * (trueProgress / 100),
-                                  background: `linear-gradient(90deg, rgba(15,23,42,0.5) 0%, rgba(15,23,42,0.4) 90%, transparent 100%)`,
+                                  color: isPassed ? `${session.color}40` : activeColor,
                                 }}
-                              />
-                            )}
-                            {/* Progress tick markers - positioned relative to FULL session */}
-                            {[10, 20, 30, 40, 50, 60, 70, 80, 90].map((percent) => {
-                              const markerPosInFull = fullSessionWidth * (percent / 100);
-                              const markerPosInClipped = markerPosInFull - clipStartOffset;
-                              if (markerPosInClipped < 0 || markerPosInClipped > clippedWidth) return null;
-
-                              // Check if session has completely ended (for today's session)
-                              const sessionEnded = dayOffset === 0 && currentTime.getTime() > postEnd.getTime();
-                              // Check if this is a past day's session
-                              const sessionInPast = dayOffset < 0;
-                              const isPassed = (barIsActive && trueProgress >= percent) || sessionEnded || sessionInPast;
-
-                              return (
-                                <div
-                                  key={percent}
-                                  className="absolute bottom-0 flex flex-col items-center pointer-events-none"
-                                  style={{
-                                    left: markerPosInClipped,
-                                    transform: 'translateX(-50%)',
-                                  }}
-                                >
-                                  {/* Label above tick - bright when ahead, dim when passed */}
-                                  <span
-                                    className="text-[9px] font-mono font-semibold"
-                                    style={{
-                                      color: isPassed ? `${session.color}40` : session.color,
-                                    }}
-                                  >
-                                    {percent}
-                                  </span>
-                                  {/* Short tick mark connected to bottom edge */}
-                                  <div
-                                    style={{
-                                      width: 2,
-                                      height: 6,
-                                      backgroundColor: isPassed ? `${session.color}30` : session.color,
-                                      borderRadius: 1,
-                                    }}
-                                  />
-                                </div>
-                              );
-                            })}
-                            {/* Content - centered */}
-                            <div className="absolute inset-0 flex items-center justify-center gap-2 px-2">
-                              <span
-                                className="text-[10px] font-semibold uppercase tracking-wide"
-                                style={{ color: `${session.color}${barIsActive ? "" : "90"}` }}
                               >
-                                POST
+                                {percent}
                               </span>
-                              {barIsActive && (
-                                <span className="text-[9px] font-mono" style={{ color: session.color }}>
-                                  {Math.round(trueProgress)}%
-                                </span>
-                              )}
+                              {/* Short tick mark connected to bottom edge */}
+                              <div
+                                style={{
+                                  width: 2,
+                                  height: 8,
+                                  backgroundColor: isPassed ? `${session.color}30` : activeColor,
+                                  borderRadius: 1,
+                                }}
+                              />
                             </div>
-                          </div>
-                        );
-                      }
+                          );
+                        })}
+                        {/* Content - centered */}
+                        <div className="absolute inset-0 flex items-center justify-center gap-3 px-3">
+                          {/* Pulsing dot for active */}
+                          {barIsActive && (
+                            <div className="relative">
+                              <div
+                                className="w-2 h-2 rounded-full"
+                                style={{ backgroundColor: activeColor }}
+                              />
+                              <div
+                                className="absolute inset-0 w-2 h-2 rounded-full animate-ping"
+                                style={{ backgroundColor: activeColor, opacity: 0.5 }}
+                              />
+                            </div>
+                          )}
+                          {/* Session name and TRUE progress */}
+                          <span
+                            className="text-xs font-bold uppercase tracking-wider"
+                            style={{
+                              color: barIsActive ? activeColor : session.color,
+                              textShadow: barIsActive ? `0 0 10px ${activeColor}50` : 'none',
+                            }}
+                          >
+                            {session.shortName}
+                          </span>
+                          {/* Show TRUE progress percentage */}
+                          {barIsActive && (
+                            <span
+                              className="text-xs font-mono font-bold"
+                              style={{ color: activeColor }}
+                            >
+                              {Math.round(trueProgress)}%
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    );
+
+                    // Segment start accent line - centered on segment start time
+                    if (startIsVisible) {
+                      elements.push(
+                        <div
+                          key={`${segmentKey}-start-line`}
+                          className="absolute pointer-events-none"
+                          style={{
+                            left: segmentStartX - 2, // Center the 4px line
+                            width: 4,
+                            height: "calc(100% - 8px)",
+                            top: 4,
+                            backgroundColor: barIsActive ? activeColor : session.color,
+                            borderRadius: 2,
+                            boxShadow: barIsActive ? `0 0 8px ${activeColor}` : 'none',
+                          }}
+                        />
+                      );
                     }
-                  }
+                  });
 
                   // Add alert transition markers if alerts are enabled for this market
                   if (marketAlerts.has(session.id)) {
-                    const today = new Date(currentTime);
-                    const tzDateStr = today.toLocaleDateString("en-CA", { timeZone: session.timezone });
-                    const [year, month, day] = tzDateStr.split("-").map(Number);
-                    const baseDate = new Date(year, month - 1, day);
-
-                    // Skip weekends
-                    const dayOfWeek = getDayOfWeekInTimezone(baseDate, session.timezone);
-                    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-                      // Collect all transition times for this market
-                      const transitions: { time: Date; label: string; type: 'open' | 'close' }[] = [];
-
-                      if (session.preMarket) {
-                        const preStart = getSessionDateTime(baseDate, session.preMarket.start, session.timezone, currentTime);
-                        transitions.push({ time: preStart, label: 'PRE OPEN', type: 'open' });
-                      }
-
-                      const regularStart = getSessionDateTime(baseDate, session.regular.start, session.timezone, currentTime);
-                      transitions.push({ time: regularStart, label: 'OPEN', type: 'open' });
-
-                      if (session.postMarket) {
-                        const postStart = getSessionDateTime(baseDate, session.postMarket.start, session.timezone, currentTime);
-                        const postEnd = getSessionDateTime(baseDate, session.postMarket.end, session.timezone, currentTime);
-                        transitions.push({ time: postStart, label: 'POST OPEN', type: 'open' });
-                        transitions.push({ time: postEnd, label: 'CLOSE', type: 'close' });
-                      } else {
-                        const regularEnd = getSessionDateTime(baseDate, session.regular.end, session.timezone, currentTime);
-                        transitions.push({ time: regularEnd, label: 'CLOSE', type: 'close' });
-                      }
+                    const transitions = getMarketAlertTimes(session, laneFrom, laneTo).map(({ at, type, sessionType }) => ({
+                      time: at,
+                      type,
+                      label: type === 'close'
+                        ? (sessionType === 'break' ? 'BREAK' : 'CLOSE')
+                        : sessionType === 'pre' ? 'PRE OPEN' : sessionType === 'post' ? 'POST OPEN' : sessionType === 'auction' ? 'AUCTION' : 'OPEN',
+                    }));
 
-                      // Render transition markers
-                      transitions.forEach((transition, idx) => {
-                        const xPos = getTimePosition(transition.time, currentTime, timelineWidth) + scrollOffset;
+                    // Render transition markers
+                    transitions.forEach((transition) => {
+                      const xPos = getTimePosition(transition.time, currentTime, timelineWidth) + scrollOffset;
 
-                        // Only render if visible
-                        if (xPos >= -30 && xPos <= timelineWidth + 30) {
-                          const isPast = currentTime > transition.time;
+                      // Only render if visible
+                      if (xPos >= -30 && xPos <= timelineWidth + 30) {
+                        const isPast = currentTime > transition.time;
 
-                          const isOpen = transition.type === 'open';
+                        const isOpen = transition.type === 'open';
 
-                          elements.push(
+                        elements.push(
+                          <div
+                            key={`${session.id}-alert-${transition.time.getTime()}`}
+                            className="absolute z-30 pointer-events-none"
+                            style={{
+                              left: xPos,
+                              top: '50%',
+                              transform: 'translate(-50%, -50%)',
+                            }}
+                          >
+                            {/* Bell icon - centered on xPos */}
                             <div
-                              key={`${session.id}-alert-${idx}`}
-                              className="absolute z-30 pointer-events-none"
+                              className={`flex items-center justify-center rounded-full ${isPast ? 'bg-background' : ''}`}
                               style={{
-                                left: xPos,
-                                top: '50%',
-                                transform: 'translate(-50%, -50%)',
+                                width: 18,
+                                height: 18,
+                                backgroundColor: isPast ? undefined : session.color,
+                                border: `1px solid ${isPast ? session.color + '40' : session.color}`,
+                                boxShadow: isPast ? 'none' : `0 0 10px ${session.color}80`,
                               }}
                             >
-                              {/* Bell icon - centered on xPos */}
-                              <div
-                                className={`flex items-center justify-center rounded-full ${isPast ? 'bg-background' : ''}`}
-                                style={{
-                                  width: 18,
-                                  height: 18,
-                                  backgroundColor: isPast ? undefined : session.color,
-                                  border: `1px solid ${isPast ? session.color + '40' : session.color}`,
-                                  boxShadow: isPast ? 'none' : `0 0 10px ${session.color}80`,
-                                }}
-                              >
-                                <Bell
-                                  className="w-2.5 h-2.5"
-                                  style={{ color: isPast ? `${session.color}60` : '#0f172a' }}
-                                />
-                              </div>
-                              {/* Label - positioned left for opens, right for closes */}
-                              <span
-                                className={`absolute text-[8px] font-bold tracking-wider whitespace-nowrap px-1 rounded ${isPast ? 'bg-background' : ''}`}
-                                style={{
-                                  top: '50%',
-                                  transform: 'translateY(-50%)',
-                                  left: isOpen ? undefined : 'calc(100% + 4px)',
-                                  right: isOpen ? 'calc(100% + 4px)' : undefined,
-                                  color: isPast ? `${session.color}60` : session.color,
-                                  textShadow: isPast ? 'none' : `0 0 6px ${session.color}80`,
-                                }}
-                              >
-                                {transition.label}
-                              </span>
+                              <Bell
+                                className="w-2.5 h-2.5"
+                                style={{ color: isPast ? `${session.color}60` : '#0f172a' }}
+                              />
                             </div>
-                          );
-                        }
-                      });
-                    }
+                            {/* Label - positioned left for opens, right for closes */}
+                            <span
+                              className={`absolute text-[8px] font-bold tracking-wider whitespace-nowrap px-1 rounded ${isPast ? 'bg-background' : ''}`}
+                              style={{
+                                top: '50%',
+                                transform: 'translateY(-50%)',
+                                left: isOpen ? undefined : 'calc(100% + 4px)',
+                                right: isOpen ? 'calc(100% + 4px)' : undefined,
+                                color: isPast ? `${session.color}60` : session.color,
+                                textShadow: isPast ? 'none' : `0 0 6px ${session.color}80`,
+                              }}
+                            >
+                              {transition.label}
+                            </span>
+                          </div>
+                        );
+                      }
+                    });
                   }
 
                   return elements;
@@ -3219,7 +3285,9 @@ export default function DashboardPage() {
                   <div className="flex justify-between items-center text-[10px]">
                     <span style={{ color: 'rgba(255,255,255,0.6)' }}>Repeats</span>
                     <span style={{ color: 'rgba(255,255,255,0.9)' }}>
-                      {hoveredCustomSession.session.days.map(d => ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'][d]).join(' ')}
+                      {hoveredCustomSession.session.recurrence
+                        ? hoveredCustomSession.session.recurrence.rule
+                        : hoveredCustomSession.session.days.map(d => ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'][d]).join(' ')}
                     </span>
                   </div>
                 )}
@@ -3304,16 +3372,30 @@ export default function DashboardPage() {
                 <div className="flex justify-between items-center text-[10px] mb-1">
                   <span style={{ color: 'rgba(255,255,255,0.6)' }}>Time</span>
                   <span className="font-mono" style={{ color: 'rgba(255,255,255,0.9)' }}>
-                    {hoveredCustomAlert.alert.time}
+                    {hoveredCustomAlert.alert.eventRule
+                      ? `${String(hoveredCustomAlert.alertTime.getHours()).padStart(2, "0")}:${String(hoveredCustomAlert.alertTime.getMinutes()).padStart(2, "0")}`
+                      : hoveredCustomAlert.alert.time}
                   </span>
                 </div>
 
+                {/* Event alert: the releases this occurrence is for */}
+                {hoveredCustomAlert.alert.eventRule && (
+                  <div className="text-[10px] mb-1" style={{ color: 'rgba(255,255,255,0.9)' }}>
+                    {hoveredCustomAlert.description}
+                    <div style={{ color: 'rgba(255,255,255,0.5)' }}>
+                      {describeEventRule(hoveredCustomAlert.alert.eventRule, getCategoryLabel)}
+                    </div>
+                  </div>
+                )}
+
                 {/* Recurring info */}
                 {hoveredCustomAlert.alert.recurring && hoveredCustomAlert.alert.days && (
                   <div className="flex justify-between items-center text-[10px]">
                     <span style={{ color: 'rgba(255,255,255,0.6)' }}>Repeats</span>
                     <span style={{ color: 'rgba(255,255,255,0.9)' }}>
-                      {hoveredCustomAlert.alert.days.map(d => ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'][d]).join(' ')}
+                      {hoveredCustomAlert.alert.recurrence
+                        ? hoveredCustomAlert.alert.recurrence.rule
+                        : hoveredCustomAlert.alert.days.map(d => ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'][d]).join(' ')}
                     </span>
                   </div>
                 )}
@@ -3366,7 +3448,7 @@ export default function DashboardPage() {
               // Convert to array and calculate positions
               const groupedEvents = Array.from(eventsByTime.entries()).map(([timeKey, events]) => {
                 const firstEvent = events[0];
-                const eventTime = new Date(`${firstEvent.date}T${firstEvent.time || "00:00"}:00`);
+                const eventTime = new Date(getEventSortTime(firstEvent));
                 const xPos = getTimePosition(eventTime, currentTime, timelineWidth) + scrollOffset;
                 const isPast = eventTime < currentTime;
                 // Get highest impact in group
@@ -3374,7 +3456,7 @@ export default function DashboardPage() {
                   const order = { high: 3, medium: 2, low: 1 };
                   return order[e.impact as keyof typeof order] > order[highest as keyof typeof order] ? e.impact : highest;
                 }, events[0].impact);
-                return { timeKey, events, xPos, isPast, highestImpact, time: firstEvent.time || "00:00" };
+                return { timeKey, events, xPos, isPast, highestImpact, time: formatEventTime(firstEvent, displayTimeZone) };
               }).filter(g => g.xPos >= -100 && g.xPos <= timelineWidth + 100);
 
               // Sort by TIME for stable row assignment (not affected by isPast flip)
@@ -3428,7 +3510,7 @@ export default function DashboardPage() {
                 const rowHeight = availableHeight / usedRows;
                 const topPercent = verticalPadding + (row * rowHeight) + (rowHeight / 2);
 
-                const isAnyExpanded = isExpanded || (isSingleEvent && selectedEventDetail?.title === events[0].title && selectedEventDetail?.time === events[0].time);
+                const isAnyExpanded = isExpanded || (isSingleEvent && selectedEventDetail?.id === events[0].id);
 
                 return (
                   <div
@@ -3452,7 +3534,7 @@ export default function DashboardPage() {
                       {isSingleEvent && (() => {
                         const event = events[0];
                         const eventImpactColor = IMPACT_COLORS[event.impact];
-                        const isEventExpanded = selectedEventDetail?.title === event.title && selectedEventDetail?.time === event.time;
+                        const isEventExpanded = selectedEventDetail?.id === event.id;
 
                         return (
                           <div
@@ -3481,7 +3563,7 @@ export default function DashboardPage() {
                               {/* Header row */}
                               <div className="flex items-center gap-2 px-3 py-2">
                                 <span className="text-[10px] font-medium text-white/50 flex-shrink-0">
-                                  {formatTimeDisplay(event.time || "00:00")}
+                                  {formatEventTime(event, displayTimeZone)}
                                 </span>
                                 <span className={`text-xs font-medium text-white/90 ${isEventExpanded ? '' : 'max-w-[100px] truncate'}`}>
                                   {event.title}
@@ -3495,7 +3577,7 @@ export default function DashboardPage() {
                               {isEventExpanded && (
                                 <div className="px-3 pb-3 pt-1 border-t border-white/10">
                                   <div className="flex items-center gap-1.5 mb-2 text-[10px] text-white/50">
-                                    <span>{event.currency}</span>
+                                    <span>{getCurrencyFlag(event.currency || "USD")} {event.currency}</span>
                                     {event.category && (
                                       <>
                                         <span>•</span>
@@ -3517,6 +3599,12 @@ export default function DashboardPage() {
                                       <div className="text-xs font-medium text-white/90">{event.actual || "—"}</div>
                                     </div>
                                   </div>
+                                  {event.revisions?.actual && (
+                                    <div className="mt-1.5 text-[10px] text-amber-400/90">{describeRevision("Actual", event.revisions.actual)}</div>
+                                  )}
+                                  {event.revisions?.previous && (
+                                    <div className="mt-1.5 text-[10px] text-amber-400/90">{describeRevision("Previous", event.revisions.previous)}</div>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -3557,7 +3645,7 @@ export default function DashboardPage() {
                             {/* Header - identical structure to single event */}
                             <div className="flex items-center gap-2 px-3 py-2">
                               <span className="text-[10px] font-medium text-white/50 flex-shrink-0">
-                                {formatTimeDisplay(time)}
+                                {time}
                               </span>
                               <span className={`text-xs font-medium text-white/90 ${isExpanded ? '' : 'max-w-[100px] truncate'}`}>
                                 {primaryEvent.title}
@@ -3579,13 +3667,13 @@ export default function DashboardPage() {
                             {/* Expanded list */}
                             {isExpanded && (
                               <div className="border-t border-white/10">
-                                {events.map((event, idx) => {
+                                {events.map((event) => {
                                   const eventImpactColor = IMPACT_COLORS[event.impact];
-                                  const isEventExpanded = selectedEventDetail?.title === event.title && selectedEventDetail?.time === event.time;
+                                  const isEventExpanded = selectedEventDetail?.id === event.id;
 
                                   return (
                                     <div
-                                      key={idx}
+                                      key={event.id}
                                       className="border-b border-white/5 last:border-b-0 transition-colors"
                                     >
                                       {/* Event row */}
@@ -3617,7 +3705,7 @@ export default function DashboardPage() {
                                       {isEventExpanded && (
                                         <div className="px-3 pb-2.5 bg-white/5">
                                           <div className="flex items-center gap-1.5 mb-2 text-[10px] text-white/50">
-                                            <span>{event.currency}</span>
+                                            <span>{getCurrencyFlag(event.currency || "USD")} {event.currency}</span>
                                             {event.category && (
                                               <>
                                                 <span>•</span>
@@ -3639,6 +3727,12 @@ export default function DashboardPage() {
                                               <div className="text-xs font-medium text-white/90">{event.actual || "—"}</div>
                                             </div>
                                           </div>
+                                          {event.revisions?.actual && (
+                                            <div className="mt-1.5 text-[10px] text-amber-400/90">{describeRevision("Actual", event.revisions.actual)}</div>
+                                          )}
+                                          {event.revisions?.previous && (
+                                            <div className="mt-1.5 text-[10px] text-amber-400/90">{describeRevision("Previous", event.revisions.previous)}</div>
+                                          )}
                                         </div>
                                       )}
                                     </div>
@@ -3700,8 +3794,8 @@ export default function DashboardPage() {
             {/* Custom Sessions - Pre-calculate overlaps for row stacking */}
             {(() => {
               const today = new Date(currentTime);
-              const todayDay = today.getDay();
-              const yesterdayDay = (todayDay + 6) % 7;
+              const yesterday = new Date(today);
+              yesterday.setDate(yesterday.getDate() - 1);
               const timelineWidth = containerWidth - 240;
 
               // Build list of all session instances with their positions
@@ -3724,7 +3818,7 @@ export default function DashboardPage() {
 
                 if (isOvernight) {
                   // Yesterday→Today instance
-                  const isYesterdayActive = !session.recurring || (session.days?.includes(yesterdayDay) ?? false);
+                  const isYesterdayActive = occursOn(session, yesterday, marketClosures);
                   if (isYesterdayActive) {
                     const yesterdayStart = new Date(today);
                     yesterdayStart.setDate(yesterdayStart.getDate() - 1);
@@ -3738,7 +3832,7 @@ export default function DashboardPage() {
                     }
                   }
                   // Today→Tomorrow instance
-                  const isTodayActive = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                  const isTodayActive = occursOn(session, today, marketClosures);
                   if (isTodayActive) {
                     const todayStart = new Date(today);
                     todayStart.setHours(startHour, startMin, 0, 0);
@@ -3753,7 +3847,7 @@ export default function DashboardPage() {
                   }
                 } else {
                   // Regular same-day session
-                  const isActiveToday = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                  const isActiveToday = occursOn(session, today, marketClosures);
                   if (isActiveToday) {
                     const sessionStart = new Date(today);
                     sessionStart.setHours(startHour, startMin, 0, 0);
@@ -3911,8 +4005,8 @@ export default function DashboardPage() {
             {/* Custom Session Open/Close Alert Indicators */}
             {(() => {
               const today = new Date(currentTime);
-              const todayDay = today.getDay();
-              const yesterdayDay = (todayDay + 6) % 7;
+              const yesterday = new Date(today);
+              yesterday.setDate(yesterday.getDate() - 1);
               const timelineWidth = containerWidth - 240;
 
               // First, calculate row assignments (same logic as session bars)
@@ -3933,7 +4027,7 @@ export default function DashboardPage() {
                 const isOvernight = endHour < startHour || (endHour === startHour && endMin < startMin);
 
                 if (isOvernight) {
-                  const isYesterdayActive = !session.recurring || (session.days?.includes(yesterdayDay) ?? false);
+                  const isYesterdayActive = occursOn(session, yesterday, marketClosures);
                   if (isYesterdayActive) {
                     const yesterdayStart = new Date(today);
                     yesterdayStart.setDate(yesterdayStart.getDate() - 1);
@@ -3944,7 +4038,7 @@ export default function DashboardPage() {
                     const endX = getTimePosition(todayEnd, currentTime, timelineWidth) + scrollOffset;
                     allInstances.push({ session, start: yesterdayStart, end: todayEnd, startX, endX, keyPrefix: `${session.id}-yesterday`, row: 0 });
                   }
-                  const isTodayActive = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                  const isTodayActive = occursOn(session, today, marketClosures);
                   if (isTodayActive) {
                     const todayStart = new Date(today);
                     todayStart.setHours(startHour, startMin, 0, 0);
@@ -3956,7 +4050,7 @@ export default function DashboardPage() {
                     allInstances.push({ session, start: todayStart, end: tomorrowEnd, startX, endX, keyPrefix: `${session.id}-today`, row: 0 });
                   }
                 } else {
-                  const isActiveToday = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                  const isActiveToday = occursOn(session, today, marketClosures);
                   if (isActiveToday) {
                     const sessionStart = new Date(today);
                     sessionStart.setHours(startHour, startMin, 0, 0);
@@ -4096,7 +4190,6 @@ export default function DashboardPage() {
             {/* Custom Alerts - Pre-calculate overlaps for staggering */}
             {(() => {
               const today = new Date(currentTime);
-              const todayDay = today.getDay();
               const timelineWidth = containerWidth - 240;
 
               // Build list of all visible alerts with their positions
@@ -4106,12 +4199,37 @@ export default function DashboardPage() {
                 alertTime: Date;
                 isPast: boolean;
                 staggerIndex: number;
+                key: string;
+                description?: string;
               };
 
               const visibleAlerts: AlertInstance[] = [];
 
               customAlerts.forEach((alert) => {
-                const isActiveToday = !alert.recurring || (alert.days?.includes(todayDay) ?? false);
+                // Event alerts get one marker per firing within a day either side
+                const rule = alert.eventRule;
+                if (rule) {
+                  const from = new Date(currentTime.getTime() - 86400000);
+                  const to = new Date(currentTime.getTime() + 86400000);
+                  getEventAlertOccurrences(alert, events, from, to).forEach((occurrence) => {
+                    const alertTime = occurrence.fireAt;
+                    const xPos = getTimePosition(alertTime, currentTime, timelineWidth) + scrollOffset;
+                    if (xPos < -timelineWidth || xPos > timelineWidth * 2) return;
+
+                    visibleAlerts.push({
+                      alert,
+                      xPos,
+                      alertTime,
+                      isPast: currentTime > alertTime,
+                      staggerIndex: 0,
+                      key: occurrence.key,
+                      description: describeEventAlertOccurrence(rule, occurrence),
+                    });
+                  });
+                  return;
+                }
+
+                const isActiveToday = occursOn(alert, today, marketClosures);
                 if (!isActiveToday) return;
 
                 const [alertHour, alertMin] = alert.time.split(":").map(Number);
@@ -4122,7 +4240,7 @@ export default function DashboardPage() {
                 if (xPos < -timelineWidth || xPos > timelineWidth * 2) return;
 
                 const isPast = currentTime > alertTime;
-                visibleAlerts.push({ alert, xPos, alertTime, isPast, staggerIndex: 0 });
+                visibleAlerts.push({ alert, xPos, alertTime, isPast, staggerIndex: 0, key: alert.id });
               });
 
               // Sort by x position
@@ -4142,7 +4260,7 @@ export default function DashboardPage() {
               }
 
               return visibleAlerts.map((inst) => {
-                const { alert, xPos, alertTime, isPast, staggerIndex } = inst;
+                const { alert, xPos, alertTime, isPast, staggerIndex, key, description } = inst;
                 const alertColor = alert.color || "#a855f7";
 
                 // Vertical offset for overlapping alerts - alternate up/down from center
@@ -4155,7 +4273,7 @@ export default function DashboardPage() {
 
                 return (
                   <div
-                    key={alert.id}
+                    key={key}
                     className="absolute z-30 cursor-pointer group flex flex-col items-center"
                     style={{
                       left: xPos,
@@ -4170,6 +4288,7 @@ export default function DashboardPage() {
                         y: e.clientY,
                         alertTime,
                         isPast,
+                        description,
                       });
                     }}
                     onMouseMove={(e) => {
@@ -4231,8 +4350,8 @@ export default function DashboardPage() {
               // Count how many are actually rendered (visible in time window)
               const timelineWidth = containerWidth - 240;
               const today = new Date(currentTime);
-              const todayDay = today.getDay();
-              const yesterdayDay = (todayDay + 6) % 7;
+              const yesterday = new Date(today);
+              yesterday.setDate(yesterday.getDate() - 1);
 
               let hasVisibleSession = false;
               for (const session of customSessions) {
@@ -4242,7 +4361,7 @@ export default function DashboardPage() {
 
                 if (isOvernight) {
                   // Check yesterday→today instance
-                  const isYesterdayActive = !session.recurring || (session.days?.includes(yesterdayDay) ?? false);
+                  const isYesterdayActive = occursOn(session, yesterday, marketClosures);
                   if (isYesterdayActive) {
                     const yesterdayStart = new Date(today);
                     yesterdayStart.setDate(yesterdayStart.getDate() - 1);
@@ -4257,7 +4376,7 @@ export default function DashboardPage() {
                     }
                   }
                   // Check today→tomorrow instance
-                  const isTodayActive = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                  const isTodayActive = occursOn(session, today, marketClosures);
                   if (isTodayActive) {
                     const todayStart = new Date(today);
                     todayStart.setHours(startHour, startMin, 0, 0);
@@ -4272,7 +4391,7 @@ export default function DashboardPage() {
                     }
                   }
                 } else {
-                  const isActiveToday = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                  const isActiveToday = occursOn(session, today, marketClosures);
                   if (isActiveToday) {
                     const sessionStart = new Date(today);
                     sessionStart.setHours(startHour, startMin, 0, 0);
@@ -4291,7 +4410,18 @@ export default function DashboardPage() {
               let hasVisibleAlert = false;
               if (!hasVisibleSession) {
                 for (const alert of customAlerts) {
-                  const isActiveToday = !alert.recurring || (alert.days?.includes(todayDay) ?? false);
+                  if (alert.eventRule) {
+                    const from = new Date(currentTime.getTime() - 86400000);
+                    const to = new Date(currentTime.getTime() + 86400000);
+                    hasVisibleAlert = getEventAlertOccurrences(alert, events, from, to).some((occurrence) => {
+                      const xPos = getTimePosition(occurrence.fireAt, currentTime, timelineWidth) + scrollOffset;
+                      return !(xPos < -timelineWidth || xPos > timelineWidth * 2);
+                    });
+                    if (hasVisibleAlert) break;
+                    continue;
+                  }
+
+                  const isActiveToday = occursOn(alert, today, marketClosures);
                   if (!isActiveToday) continue;
 
                   const [alertHour, alertMin] = alert.time.split(":").map(Number);
@@ -4326,7 +4456,7 @@ export default function DashboardPage() {
           {(() => {
             const timelineWidth = containerWidth - 240;
             const nowX = getTimePosition(currentTime, currentTime, timelineWidth) + scrollOffset;
-            const visibleSessions = MARKET_SESSIONS.filter(s => visibleMarkets.has(s.id));
+            const visibleSessions = markets.filter(s => visibleMarkets.has(s.id));
             const marketLaneCount = visibleSessions.length;
             // Total flex lanes = market sessions + events lane (if visible) + custom lane (if visible)
             const totalLanes = marketLaneCount + (showEventsCard ? 1 : 0) + (showCustomCard ? 1 : 0);
@@ -4345,10 +4475,7 @@ export default function DashboardPage() {
 
                 {/* Tech pointers for each market session lane */}
                 {visibleSessions.map((session, index) => {
-                  const isPreActive = isSessionActiveNow(session, currentTime, "pre");
-                  const isRegularActive = isSessionActiveNow(session, currentTime, "regular");
-                  const isPostActive = isSessionActiveNow(session, currentTime, "post");
-                  const isAnyActive = isPreActive || isRegularActive || isPostActive;
+                  const isAnyActive = isMarketActive(session, currentTime);
                   const pointerColor = session.color;
 
                   return (
@@ -4499,8 +4626,7 @@ export default function DashboardPage() {
                   // Check if any custom session is currently active
                   const hasActiveCustomSession = customSessions.some(session => {
                     const today = new Date(currentTime);
-                    const todayDay = today.getDay();
-                    const isActiveToday = !session.recurring || (session.days?.includes(todayDay) ?? false);
+                    const isActiveToday = occursOn(session, today, marketClosures);
                     if (!isActiveToday) return false;
 
                     const [startHour, startMin] = session.startTime.split(":").map(Number);
@@ -4669,36 +4795,319 @@ export default function DashboardPage() {
                   <TimePicker label="End" value={formEndTime} onChange={setFormEndTime} />
                 </div>
               ) : (
-                <TimePicker label="Time" value={formAlertTime} onChange={setFormAlertTime} />
+                <>
+                  {/* Alert anchor: a clock time or calendar releases */}
+                  <div className="flex gap-1 p-1 rounded-lg bg-background border border-border">
+                    {[
+                      { label: "At a time", active: !formEventRule, onClick: () => setFormEventRule(null) },
+                      { label: "Around calendar events", active: !!formEventRule, onClick: () => setFormEventRule((prev) => prev ?? EVENT_ALERT_PRESETS[0].rule) },
+                    ].map((option) => (
+                      <button
+                        key={option.label}
+                        onClick={option.onClick}
+                        className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${
+                          option.active ? "bg-accent text-white" : "text-muted hover:text-foreground"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {formEventRule ? (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-1">
+                        {EVENT_ALERT_PRESETS.map((preset) => (
+                          <button
+                            key={preset.label}
+                            onClick={() => {
+                              setFormEventRule(preset.rule);
+                              if (!formName.trim()) setFormName(preset.label);
+                            }}
+                            className="px-2 py-1 text-xs rounded-lg bg-background border border-border text-muted hover:text-foreground transition-colors"
+                          >
+                            {preset.label}
+                          </button>
+                        ))}
+                      </div>
+
+                      <div className="flex items-center gap-2 text-sm">
+                        <input
+                          type="number"
+                          min={0}
+                          max={1440}
+                          value={formEventRule.offsetMinutes}
+                          onChange={(e) => setFormEventRule({ ...formEventRule, offsetMinutes: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                          className="w-20 px-2 py-1 rounded-lg bg-background border border-border focus:border-accent outline-none"
+                        />
+                        <span className="text-muted">minutes before release (0 = at release)</span>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-muted mb-1">Impact</label>
+                        <div className="flex gap-1">
+                          {["high", "medium", "low"].map((impact) => (
+                            <button
+                              key={impact}
+                              onClick={() => setFormEventRule({
+                                ...formEventRule,
+                                impacts: formEventRule.impacts.includes(impact)
+                                  ? formEventRule.impacts.filter((i) => i !== impact)
+                                  : [...formEventRule.impacts, impact],
+                              })}
+                              className={`flex-1 py-1 rounded text-xs font-medium capitalize transition-colors ${
+                                formEventRule.impacts.includes(impact)
+                                  ? "bg-accent text-white"
+                                  : "bg-background border border-border text-muted hover:text-foreground"
+                              }`}
+                            >
+                              {impact}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-muted mb-1">Currencies</label>
+                        <div className="flex flex-wrap gap-1">
+                          {CURRENCY_CODES.map((code) => (
+                            <button
+                              key={code}
+                              onClick={() => setFormEventRule({
+                                ...formEventRule,
+                                currencies: formEventRule.currencies.includes(code)
+                                  ? formEventRule.currencies.filter((c) => c !== code)
+                                  : [...formEventRule.currencies, code],
+                              })}
+                              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                formEventRule.currencies.includes(code)
+                                  ? "bg-accent text-white"
+                                  : "bg-background border border-border text-muted hover:text-foreground"
+                              }`}
+                            >
+                              {getCurrencyFlag(code)} {code}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-muted mb-1">Category</label>
+                          <select
+                            value={formEventRule.category ?? "All"}
+                            onChange={(e) => setFormEventRule({ ...formEventRule, category: e.target.value === "All" ? undefined : e.target.value })}
+                            className="w-full px-2 py-1.5 text-sm rounded-lg bg-background border border-border focus:border-accent outline-none"
+                          >
+                            {EVENT_CATEGORIES.map((category) => (
+                              <option key={category.value} value={category.value}>{category.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-muted mb-1">Title contains</label>
+                          <input
+                            type="text"
+                            value={formEventRule.titleMatch ?? ""}
+                            onChange={(e) => setFormEventRule({ ...formEventRule, titleMatch: e.target.value || undefined })}
+                            placeholder="e.g., FOMC"
+                            className="w-full px-2 py-1.5 text-sm rounded-lg bg-background border border-border focus:border-accent outline-none"
+                          />
+                        </div>
+                      </div>
+
+                      <p className="text-xs text-muted">
+                        {parseEventAlertRule(formEventRule).error ?? describeEventRule(formEventRule, getCategoryLabel)}
+                      </p>
+                    </div>
+                  ) : (
+                    <TimePicker label="Time" value={formAlertTime} onChange={setFormAlertTime} />
+                  )}
+                </>
               )}
 
-              {/* Recurring toggle */}
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={formRecurring}
-                  onChange={(e) => setFormRecurring(e.target.checked)}
-                  className="w-4 h-4 rounded border-border accent-accent"
-                />
-                <span className="text-sm">Repeat on specific days</span>
-              </label>
+              {/* Recurring toggle - event alerts follow the calendar instead */}
+              {!(modalMode === "alert" && formEventRule) && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formRecurring}
+                    onChange={(e) => setFormRecurring(e.target.checked)}
+                    className="w-4 h-4 rounded border-border accent-accent"
+                  />
+                  <span className="text-sm">Repeat on specific days</span>
+                </label>
+              )}
 
-              {/* Day selection - only show when recurring */}
-              {formRecurring && (
-                <div className="flex gap-1">
-                  {DAY_OPTIONS.map((day) => (
-                    <button
-                      key={day.value}
-                      onClick={() => toggleDay(day.value)}
-                      className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${
-                        formDays.includes(day.value)
-                          ? "bg-accent text-white"
-                          : "bg-background border border-border text-muted hover:text-foreground"
-                      }`}
-                    >
-                      {day.label}
-                    </button>
-                  ))}
+              {/* Repeat pattern - weekdays or an iCalendar rule */}
+              {formRecurring && !(modalMode === "alert" && formEventRule) && (
+                <div className="space-y-3">
+                  <div className="flex gap-1 p-1 rounded-lg bg-background border border-border">
+                    {[
+                      { label: "Days of week", active: !formRecurrence, onClick: () => setFormRecurrence(null) },
+                      {
+                        label: "Custom rule",
+                        active: !!formRecurrence,
+                        onClick: () => setFormRecurrence((prev) => prev ?? {
+                          rule: RECURRENCE_PRESETS[0].rule,
+                          start: todayKey ?? "",
+                          exceptions: [],
+                          holidays: RECURRENCE_PRESETS[0].holidays,
+                        }),
+                      },
+                    ].map((option) => (
+                      <button
+                        key={option.label}
+                        onClick={option.onClick}
+                        className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${
+                          option.active ? "bg-accent text-white" : "text-muted hover:text-foreground"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {formRecurrence ? (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-1">
+                        {RECURRENCE_PRESETS.map((preset) => (
+                          <button
+                            key={preset.label}
+                            onClick={() => setFormRecurrence({ ...formRecurrence, rule: preset.rule, holidays: preset.holidays })}
+                            className={`px-2 py-1 text-xs rounded-lg border transition-colors ${
+                              formRecurrence.rule === preset.rule
+                                ? "bg-accent/20 border-accent text-accent"
+                                : "bg-background border-border text-muted hover:text-foreground"
+                            }`}
+                          >
+                            {preset.label}
+                          </button>
+                        ))}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-muted mb-1">Rule (RRULE)</label>
+                        <input
+                          type="text"
+                          value={formRecurrence.rule}
+                          onChange={(e) => setFormRecurrence({ ...formRecurrence, rule: e.target.value })}
+                          placeholder="FREQ=MONTHLY;BYDAY=3FR"
+                          spellCheck={false}
+                          className="w-full px-3 py-2 text-sm font-mono rounded-lg bg-background border border-border focus:border-accent focus:ring-1 focus:ring-accent outline-none transition-colors"
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-muted mb-1">Starting</label>
+                          <input
+                            type="date"
+                            value={formRecurrence.start}
+                            onChange={(e) => setFormRecurrence({ ...formRecurrence, start: e.target.value })}
+                            className="w-full px-2 py-1.5 text-sm rounded-lg bg-background border border-border focus:border-accent outline-none"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-muted mb-1">Market holidays</label>
+                          <select
+                            value={formRecurrence.holidays}
+                            onChange={(e) => setFormRecurrence({ ...formRecurrence, holidays: e.target.value as Recurrence["holidays"] })}
+                            className="w-full px-2 py-1.5 text-sm rounded-lg bg-background border border-border focus:border-accent outline-none"
+                          >
+                            {HOLIDAY_POLICIES.map((policy) => (
+                              <option key={policy.value} value={policy.value}>{policy.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      {formRecurrence.holidays !== "ignore" && (
+                        <div>
+                          <label className="block text-sm font-medium text-muted mb-1">Holiday calendar</label>
+                          <select
+                            value={formRecurrence.holidayCalendar ?? "nyse"}
+                            onChange={(e) => setFormRecurrence({ ...formRecurrence, holidayCalendar: e.target.value as HolidayCalendarId })}
+                            className="w-full px-2 py-1.5 text-sm rounded-lg bg-background border border-border focus:border-accent outline-none"
+                          >
+                            {HOLIDAY_CALENDARS.map((calendar) => (
+                              <option key={calendar.value} value={calendar.value}>{calendar.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
+                      <div>
+                        <label className="block text-sm font-medium text-muted mb-1">Except on</label>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {formRecurrence.exceptions.map((date) => (
+                            <span key={date} className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-background border border-border">
+                              {date}
+                              <button
+                                onClick={() => setFormRecurrence({ ...formRecurrence, exceptions: formRecurrence.exceptions.filter((d) => d !== date) })}
+                                className="text-muted hover:text-foreground"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          ))}
+                          <input
+                            type="date"
+                            value={formException}
+                            onChange={(e) => setFormException(e.target.value)}
+                            className="px-2 py-0.5 text-xs rounded-lg bg-background border border-border focus:border-accent outline-none"
+                          />
+                          <button
+                            onClick={() => {
+                              if (!isValidDate(formException) || formRecurrence.exceptions.includes(formException)) return;
+                              setFormRecurrence({ ...formRecurrence, exceptions: [...formRecurrence.exceptions, formException].sort() });
+                              setFormException("");
+                            }}
+                            disabled={!isValidDate(formException)}
+                            className="px-2 py-0.5 text-xs rounded-lg bg-background border border-border text-muted hover:text-foreground disabled:opacity-50"
+                          >
+                            Add
+                          </button>
+                        </div>
+                      </div>
+
+                      {/* Preview of the next occurrences */}
+                      <div className="text-xs">
+                        {recurrencePreview.error ? (
+                          <span className="text-red-400">{recurrencePreview.error}</span>
+                        ) : recurrencePreview.dates.length === 0 ? (
+                          <span className="text-muted">No upcoming occurrences</span>
+                        ) : (
+                          <div className="space-y-0.5">
+                            <span className="text-muted">Next:</span>
+                            {recurrencePreview.dates.map((date) => (
+                              <div key={date} className="font-mono">
+                                {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", year: "numeric" })}
+                                {" · "}
+                                {modalMode === "session" ? `${formStartTime} – ${formEndTime}` : formAlertTime}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex gap-1">
+                      {DAY_OPTIONS.map((day) => (
+                        <button
+                          key={day.value}
+                          onClick={() => toggleDay(day.value)}
+                          className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${
+                            formDays.includes(day.value)
+                              ? "bg-accent text-white"
+                              : "bg-background border border-border text-muted hover:text-foreground"
+                          }`}
+                        >
+                          {day.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -4790,7 +5199,11 @@ export default function DashboardPage() {
                 </button>
                 <button
                   onClick={handleSave}
-                  disabled={!formName.trim()}
+                  disabled={
+                    !formName.trim() ||
+                    (modalMode === "alert" && !!formEventRule && !!parseEventAlertRule(formEventRule).error) ||
+                    (formRecurring && !(modalMode === "alert" && formEventRule) && !!recurrencePreview.error)
+                  }
                   className="px-4 py-1.5 text-sm font-medium rounded-lg bg-accent hover:bg-accent/90 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {editingItem ? "Save Changes" : "Create"}
@@ -4818,7 +5231,7 @@ export default function DashboardPage() {
                 <div>
                   <h2 className="text-lg font-semibold">Today's Events</h2>
                   <p className="text-xs text-muted">
-                    {new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                    {new Date().toLocaleDateString('en-US', { timeZone: displayTimeZone, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
                   </p>
                 </div>
               </div>
@@ -4841,14 +5254,11 @@ export default function DashboardPage() {
               ) : (
                 <div className="space-y-2">
                   {todaysEvents
-                    .sort((a, b) => {
-                      const timeA = new Date(`${a.date}T${a.time || "00:00"}:00`).getTime();
-                      const timeB = new Date(`${b.date}T${b.time || "00:00"}:00`).getTime();
-                      return timeA - timeB;
-                    })
+                    .sort((a, b) => getEventSortTime(a) - getEventSortTime(b))
                     .map((event, index) => {
-                      const eventTime = new Date(`${event.date}T${event.time || "00:00"}:00`);
-                      const isPast = eventTime < currentTime;
+                      // All-day and TBD events have no countdown
+                      const eventTime = getEventInstant(event);
+                      const isPast = eventTime !== null && eventTime < currentTime;
                       const impactColor = event.impact === "high" ? "#EF4444" : event.impact === "medium" ? "#F59E0B" : "#10B981";
 
                       return (
@@ -4885,10 +5295,10 @@ export default function DashboardPage() {
                               <div className="flex items-center gap-3 text-xs text-muted">
                                 <span className="flex items-center gap-1">
                                   <Clock className="w-3 h-3" />
-                                  {event.time ? formatTimeDisplay(event.time) : "All Day"}
+                                  {formatEventTime(event, displayTimeZone)}
                                 </span>
                                 <span className="px-1.5 py-0.5 bg-white/10 rounded text-[10px]">
-                                  {event.currency}
+                                  {getCurrencyFlag(event.currency || "USD")} {event.currency}
                                 </span>
                                 {event.category && (
                                   <span className="text-[10px] text-white/50">{event.category}</span>
@@ -4916,7 +5326,7 @@ export default function DashboardPage() {
                             <div className="text-right flex-shrink-0">
                               {isPast ? (
                                 <span className="text-[10px] text-white/40">Past</span>
-                              ) : (
+                              ) : eventTime && (
                                 <span className="text-[10px] font-mono text-slate-300">
                                   {(() => {
                                     const diff = eventTime.getTime() - currentTime.getTime();
@@ -5027,11 +5437,15 @@ export default function DashboardPage() {
                           <Bell className="w-4 h-4 text-orange-400" />
                           <div>
                             <div className="text-sm font-medium">{alert.name}</div>
-                            <div className="text-xs text-muted font-mono">{alert.time}</div>
+                            <div className="text-xs text-muted font-mono">
+                              {alert.eventRule ? describeEventRule(alert.eventRule, getCategoryLabel) : alert.time}
+                            </div>
                           </div>
                         </div>
                         <div className="text-xs text-muted">
-                          {alert.recurring ? (
+                          {alert.eventRule ? (
+                            <span className="px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400">Calendar</span>
+                          ) : alert.recurring ? (
                             <span className="px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400">Recurring</span>
                           ) : (
                             <span className="px-1.5 py-0.5 rounded bg-white/10 text-white/50">One-time</span>
@@ -5100,7 +5514,7 @@ export default function DashboardPage() {
             </div>
 
             {/* Modal Content */}
-            <div className="p-4 space-y-3">
+            <div className="p-4 space-y-3 max-h-[70vh] overflow-y-auto">
               {/* Column Headers */}
               <div className="flex items-center gap-3 px-2.5 text-[10px] text-white/40 uppercase tracking-wider">
                 <div className="min-w-[80px]">Market</div>
@@ -5112,7 +5526,7 @@ export default function DashboardPage() {
               </div>
 
               {/* Market Rows */}
-              {MARKET_SESSIONS.map(session => {
+              {markets.map(session => {
                 const isEnabled = marketAlerts.has(session.id);
                 const sounds = marketAlertSounds[session.id] || { open: 'bell', close: 'bell' };
 
@@ -5216,6 +5630,77 @@ export default function DashboardPage() {
                 );
               })}
 
+              {/* Background Notifications */}
+              <div className="pt-3 mt-3 border-t border-white/10 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <span className="text-xs text-white/50 flex items-center gap-1.5">
+                      <BellRing className="w-3.5 h-3.5" />
+                      Background Notifications
+                    </span>
+                    <p className="text-[10px] text-white/30 mt-0.5">
+                      {backgroundAlerts.status === "unsupported" && "Not supported in this browser"}
+                      {backgroundAlerts.status === "disabled" && "Not configured on this server"}
+                      {backgroundAlerts.status === "denied" && "Notifications are blocked in browser settings"}
+                      {backgroundAlerts.status === "off" && "Alerts when this tab is in the background or closed"}
+                      {backgroundAlerts.status === "on" && (backgroundAlerts.mode === "local"
+                        ? "On (local stand-in, delivered while this tab is open)"
+                        : `On · ${pushSchedule.length} alert${pushSchedule.length === 1 ? "" : "s"} in the next ${PUSH_SCHEDULE_HOURS}h`)}
+                    </p>
+                  </div>
+                  {(backgroundAlerts.status === "off" || backgroundAlerts.status === "on") && (
+                    <button
+                      onClick={backgroundAlerts.status === "on" ? backgroundAlerts.disable : backgroundAlerts.enable}
+                      className="w-8 h-4 rounded-full p-0.5 transition-colors flex-shrink-0"
+                      style={{
+                        backgroundColor: backgroundAlerts.status === "on" ? '#22c55e' : 'rgba(255,255,255,0.15)',
+                      }}
+                      title={backgroundAlerts.status === "on" ? "Turn off on this device" : "Turn on for this device"}
+                    >
+                      <div
+                        className="w-3 h-3 rounded-full bg-white transition-transform duration-200"
+                        style={{
+                          transform: backgroundAlerts.status === "on" ? 'translateX(16px)' : 'translateX(0)',
+                        }}
+                      />
+                    </button>
+                  )}
+                </div>
+                {backgroundAlerts.status === "on" && (
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {PUSH_ALERT_TYPES.map(({ value, label }) => {
+                      const isChecked = backgroundAlerts.alertTypes.includes(value);
+                      return (
+                        <button
+                          key={value}
+                          onClick={() => backgroundAlerts.setAlertTypes(
+                            isChecked
+                              ? backgroundAlerts.alertTypes.filter(t => t !== value)
+                              : [...backgroundAlerts.alertTypes, value]
+                          )}
+                          className={`px-2 py-0.5 text-[10px] rounded border transition-colors ${
+                            isChecked
+                              ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
+                              : 'bg-white/5 text-white/40 border-white/10 hover:text-white/70'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      );
+                    })}
+                    <button
+                      onClick={backgroundAlerts.sendTest}
+                      className="ml-auto px-2 py-0.5 text-[10px] rounded border bg-white/5 text-white/60 border-white/10 hover:text-white transition-colors"
+                    >
+                      Send test
+                    </button>
+                  </div>
+                )}
+                {backgroundAlerts.error && (
+                  <p className="text-[10px] text-red-400">{backgroundAlerts.error}</p>
+                )}
+              </div>
+
               {/* Voice Selector */}
               <div className="pt-3 mt-3 border-t border-white/10">
                 <div className="flex items-center justify-between">
@@ -5257,6 +5742,261 @@ export default function DashboardPage() {
           </div>
         </div>
       )}
+
+      {/* Markets Editor Modal */}
+      {showMarketsModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div
+            className="bg-card border border-border rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Modal Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+              <h2 className="text-sm font-semibold">
+                {marketForm ? (isBuiltInMarket(marketForm.marketId) ? `Edit ${marketForm.shortName || "Market"}` : marketForm.name ? `Edit ${marketForm.shortName}` : "New Market") : "Markets"}
+              </h2>
+              <button
+                onClick={() => {
+                  setShowMarketsModal(false);
+                  setMarketForm(null);
+                }}
+                className="p-1 rounded hover:bg-card-hover transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Modal Content */}
+            <div className="p-4 space-y-3 max-h-[70vh] overflow-y-auto">
+              {!marketForm ? (
+                <>
+                  {markets.map(session => {
+                    const row = customMarkets.find(m => m.marketId === session.id);
+                    const builtIn = isBuiltInMarket(session.id);
+                    return (
+                      <div
+                        key={session.id}
+                        className="flex items-center gap-3 rounded-lg px-2.5 py-2 bg-white/[0.02] border border-white/5"
+                      >
+                        <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: session.color }} />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-1.5">
+                            <span className="text-xs font-bold" style={{ color: session.color }}>{session.shortName}</span>
+                            <span className="text-[11px] text-white/60 truncate">{session.name}</span>
+                            {row && (
+                              <span className="text-[9px] px-1 rounded bg-white/10 text-white/50">{builtIn ? "Edited" : "Custom"}</span>
+                            )}
+                          </div>
+                          <div className="text-[10px] text-white/40 font-mono truncate">
+                            {session.timezone} · {session.segments.map(segment => `${segment.start}–${segment.end}`).join(", ")}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => openMarketForm(session)}
+                          className="px-2 py-0.5 text-[10px] rounded border bg-white/5 text-white/60 border-white/10 hover:text-white transition-colors"
+                        >
+                          Edit
+                        </button>
+                        {row && (
+                          <button
+                            onClick={() => deleteMarket(row)}
+                            className="px-2 py-0.5 text-[10px] rounded border bg-white/5 text-red-400/80 border-white/10 hover:text-red-400 transition-colors"
+                            title={builtIn ? "Restore the default hours" : "Remove this market"}
+                          >
+                            {builtIn ? "Reset" : "Delete"}
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <button
+                    onClick={() => openMarketForm(null)}
+                    className="w-full flex items-center justify-center gap-1.5 py-2 rounded-lg border border-dashed border-white/15 text-xs text-white/60 hover:text-white hover:border-white/30 transition-colors"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add Market
+                  </button>
+                </>
+              ) : (
+                <>
+                  {/* Name, short name and color */}
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <label className="block text-[11px] text-white/50 mb-1">Name</label>
+                      <input
+                        type="text"
+                        value={marketForm.name}
+                        onChange={(e) => setMarketForm({ ...marketForm, name: e.target.value })}
+                        placeholder="e.g., Euronext Paris"
+                        className="w-full px-2 py-1.5 text-xs rounded-lg bg-background border border-border focus:border-accent outline-none"
+                      />
+                    </div>
+                    <div className="w-24">
+                      <label className="block text-[11px] text-white/50 mb-1">Short name</label>
+                      <input
+                        type="text"
+                        value={marketForm.shortName}
+                        onChange={(e) => setMarketForm({ ...marketForm, shortName: e.target.value.toUpperCase() })}
+                        placeholder="EPA"
+                        maxLength={8}
+                        className="w-full px-2 py-1.5 text-xs rounded-lg bg-background border border-border focus:border-accent outline-none"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    {COLOR_OPTIONS.map((color) => (
+                      <button
+                        key={color.value}
+                        onClick={() => setMarketForm({ ...marketForm, color: color.value })}
+                        className={`w-6 h-6 rounded-full transition-all ${
+                          marketForm.color.toLowerCase() === color.value.toLowerCase() ? "ring-2 ring-offset-1 ring-offset-card" : "hover:scale-110"
+                        }`}
+                        style={{ backgroundColor: color.value }}
+                        title={color.name}
+                      />
+                    ))}
+                  </div>
+
+                  {/* Time zone and trading days */}
+                  <div>
+                    <label className="block text-[11px] text-white/50 mb-1">Time zone (session times are local to it)</label>
+                    <input
+                      type="text"
+                      list="market-time-zones"
+                      value={marketForm.timezone}
+                      onChange={(e) => setMarketForm({ ...marketForm, timezone: e.target.value })}
+                      placeholder="e.g., Europe/Paris"
+                      className="w-full px-2 py-1.5 text-xs font-mono rounded-lg bg-background border border-border focus:border-accent outline-none"
+                    />
+                    <datalist id="market-time-zones">
+                      {Array.from(new Set(BUILT_IN_MARKETS.map(m => m.timezone))).map(zone => (
+                        <option key={zone} value={zone} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-white/50 mb-1">Opens on</label>
+                    <div className="flex gap-1">
+                      {DAY_OPTIONS.map((day) => (
+                        <button
+                          key={day.value}
+                          onClick={() => setMarketForm({
+                            ...marketForm,
+                            days: marketForm.days.includes(day.value)
+                              ? marketForm.days.filter(d => d !== day.value)
+                              : [...marketForm.days, day.value].sort(),
+                          })}
+                          className={`flex-1 py-1 rounded text-[11px] font-medium transition-colors ${
+                            marketForm.days.includes(day.value)
+                              ? "bg-accent text-white"
+                              : "bg-background border border-border text-muted hover:text-foreground"
+                          }`}
+                        >
+                          {day.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-white/30 mt-1">
+                      Overnight markets open the evening before, e.g. CME Globex opens Sunday–Thursday at 17:00 CT.
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-white/50 mb-1">Holidays</label>
+                    <select
+                      value={marketForm.holidayCalendar ?? ""}
+                      onChange={(e) => setMarketForm({ ...marketForm, holidayCalendar: (e.target.value || undefined) as HolidayCalendarId | undefined })}
+                      className="w-full px-2 py-1.5 text-xs rounded-lg bg-background border border-border focus:border-accent outline-none"
+                    >
+                      <option value="">None (trades every opening day)</option>
+                      {HOLIDAY_CALENDARS.map(calendar => (
+                        <option key={calendar.value} value={calendar.value}>{calendar.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Sessions in trading-day order */}
+                  <div className="space-y-1.5">
+                    <label className="block text-[11px] text-white/50">Sessions (HH:MM; an end before its start runs past midnight)</label>
+                    {marketForm.segments.map((segment, index) => (
+                      <div key={index} className="flex items-center gap-1.5">
+                        <select
+                          value={segment.type}
+                          onChange={(e) => updateMarketSegment(index, { type: e.target.value as MarketSegmentType })}
+                          className="text-[11px] rounded px-1.5 py-1 outline-none bg-background border border-border"
+                        >
+                          {SEGMENT_TYPES.map(type => (
+                            <option key={type.value} value={type.value}>{type.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={segment.start}
+                          onChange={(e) => updateMarketSegment(index, { start: e.target.value })}
+                          placeholder="09:30"
+                          className="w-14 px-1.5 py-1 text-[11px] font-mono rounded bg-background border border-border focus:border-accent outline-none"
+                        />
+                        <span className="text-white/30 text-[11px]">–</span>
+                        <input
+                          type="text"
+                          value={segment.end}
+                          onChange={(e) => updateMarketSegment(index, { end: e.target.value })}
+                          placeholder="16:00"
+                          className="w-14 px-1.5 py-1 text-[11px] font-mono rounded bg-background border border-border focus:border-accent outline-none"
+                        />
+                        <input
+                          type="text"
+                          value={segment.label ?? ""}
+                          onChange={(e) => updateMarketSegment(index, { label: e.target.value || undefined })}
+                          placeholder={getSegmentLabel({ ...segment, label: undefined })}
+                          className="flex-1 min-w-0 px-1.5 py-1 text-[11px] rounded bg-background border border-border focus:border-accent outline-none"
+                        />
+                        <button
+                          onClick={() => setMarketForm({ ...marketForm, segments: marketForm.segments.filter((_, i) => i !== index) })}
+                          className="p-1 rounded text-white/40 hover:text-red-400 transition-colors"
+                          title="Remove session"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => {
+                        const last = marketForm.segments[marketForm.segments.length - 1];
+                        const segment: MarketSegment = { type: "post", start: last?.end ?? "09:00", end: last?.end ?? "17:00" };
+                        setMarketForm({ ...marketForm, segments: [...marketForm.segments, segment] });
+                      }}
+                      className="flex items-center gap-1 text-[11px] text-white/50 hover:text-white transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add session
+                    </button>
+                  </div>
+
+                  {marketFormError && (
+                    <p className="text-[11px] text-red-400">{marketFormError}</p>
+                  )}
+
+                  <div className="flex justify-end gap-2 pt-2 border-t border-white/10">
+                    <button
+                      onClick={() => setMarketForm(null)}
+                      className="px-3 py-1.5 text-xs rounded-lg text-white/60 hover:text-white transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveMarket}
+                      disabled={marketFormError !== null}
+                      className="px-3 py-1.5 text-xs rounded-lg bg-accent text-white hover:bg-accent/80 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -39,8 +39,11 @@ import {
   Shield,
   Brain,
   Lightbulb,
+  Download,
 } from "lucide-react";
 import { useTradeJournal } from "@/hooks/useTradeJournal";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { ConsistencySettings, DEFAULT_CONSISTENCY_SETTINGS } from "@/lib/user-settings";
 import { Trade } from "@/components/TradeJournal/types";
 import {
   Tooltip,
@@ -375,17 +378,11 @@ function SortableMetric({ id, children, className }: SortableMetricProps) {
   );
 }
 
-// Goal settings interface
-interface TradingGoals {
-  yearlyPnlGoal: number;
-  monthlyPnlGoal: number;
-  startingEquity: number;
-}
-
 export default function TradingPage() {
   const { trades: realTrades, tags: realTags, loading, closeTrade } = useTradeJournal();
   const { isDemoMode, demoTrades, demoSettings } = useDemoMode();
-  const { tagSettings, getTagColor, getTagById, getAllTags } = useTagSettings();
+  const { tagSettings, getTagColor, getTagById, getAllTags, setStartingEquity } = useTagSettings();
+  const { settings: userSettings, history: settingsHistory, updateSettings, fetchHistory } = useUserSettings();
 
   // Use demo trades when in demo mode, otherwise use real trades
   const trades = useMemo(() => {
@@ -406,31 +403,22 @@ export default function TradingPage() {
   }, [isDemoMode, demoTrades, realTags]);
 
   const [showGoalSettings, setShowGoalSettings] = useState(false);
-  const [goals, setGoals] = useState<TradingGoals>({ yearlyPnlGoal: 0, monthlyPnlGoal: 0, startingEquity: 0 });
+  const goals = userSettings;
   const [goalInput, setGoalInput] = useState({ yearly: "", startingEquity: "" });
 
   // Consistency settings - customizable thresholds
   const [showConsistencySettings, setShowConsistencySettings] = useState(false);
   const [showGradeScale, setShowGradeScale] = useState(false);
   const [showTradingAudit, setShowTradingAudit] = useState(false);
-  const [consistencySettings, setConsistencySettings] = useState(() => {
-    if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("consistencySettings");
-      if (saved) {
-        try {
-          return JSON.parse(saved);
-        } catch {
-          // Default values
-        }
-      }
-    }
-    return {
-      winRateTarget: 60,        // Target win rate for max score (default 60%)
-      profitFactorTarget: 2,    // Target profit factor for max score (default 2.0)
-      maxDrawdownLimit: 25,     // Max acceptable drawdown (default 25%)
-      riskRewardTarget: 1.5,    // Target risk/reward ratio for max score (default 1.5)
-    };
-  });
+  // Unsaved edits from the consistency modal; null means use the saved targets
+  const [consistencyDraft, setConsistencyDraft] = useState<ConsistencySettings | null>(null);
+  const consistencySettings = useMemo((): ConsistencySettings => consistencyDraft ?? {
+    winRateTarget: userSettings.winRateTarget,
+    profitFactorTarget: userSettings.profitFactorTarget,
+    maxDrawdownLimit: userSettings.maxDrawdownLimit,
+    riskRewardTarget: userSettings.riskRewardTarget,
+  }, [consistencyDraft, userSettings]);
+  const setConsistencySettings = setConsistencyDraft;
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
   const [showRecentTrades, setShowRecentTrades] = useState(false);
   const [recentTradesPage, setRecentTradesPage] = useState(1);
@@ -447,19 +435,10 @@ export default function TradingPage() {
   const assetDropdownRef = useRef<HTMLDivElement>(null);
 
   // Key Metrics customization
-  const [selectedMetrics, setSelectedMetrics] = useState<string[]>(() => {
-    if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("tradingMetrics");
-      if (saved) {
-        try {
-          return JSON.parse(saved);
-        } catch {
-          return DEFAULT_METRIC_IDS;
-        }
-      }
-    }
-    return DEFAULT_METRIC_IDS;
-  });
+  const selectedMetrics = userSettings.keyMetrics.length > 0 ? userSettings.keyMetrics : DEFAULT_METRIC_IDS;
+  const setSelectedMetrics = (next: string[] | ((prev: string[]) => string[])) => {
+    updateSettings({ keyMetrics: typeof next === "function" ? next(selectedMetrics) : next });
+  };
   const [showMetricsSettings, setShowMetricsSettings] = useState(false);
 
   // Drag and drop sensors for Key Metrics
@@ -481,20 +460,11 @@ export default function TradingPage() {
       setSelectedMetrics((items) => {
         const oldIndex = items.indexOf(active.id as string);
         const newIndex = items.indexOf(over.id as string);
-        const newOrder = arrayMove(items, oldIndex, newIndex);
-        localStorage.setItem("tradingMetrics", JSON.stringify(newOrder));
-        return newOrder;
+        return arrayMove(items, oldIndex, newIndex);
       });
     }
   };
 
-  // Save metrics selection to localStorage
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      localStorage.setItem("tradingMetrics", JSON.stringify(selectedMetrics));
-    }
-  }, [selectedMetrics]);
-
   // Equity curve filters
   const [equityPeriod, setEquityPeriod] = useState<"all" | "ytd" | "mtd" | "wtd" | "daily" | "custom">("all");
   const [equityTagFilter, setEquityTagFilter] = useState<string[]>([]);
@@ -505,6 +475,8 @@ export default function TradingPage() {
   const [showFiltersDropdown, setShowFiltersDropdown] = useState(false);
   const [activeFilterTab, setActiveFilterTab] = useState<"period" | "tags" | "assets">("period");
   const filtersDropdownRef = useRef<HTMLDivElement>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
   const gradeScaleRef = useRef<HTMLDivElement>(null);
   // Initialize date range with today and one month ago
   const [customFilter, setCustomFilter] = useState<{
@@ -605,37 +577,88 @@ export default function TradingPage() {
     return counts;
   }, [closedTrades]);
 
-  // Load goals from localStorage
-  useEffect(() => {
-    const savedGoals = localStorage.getItem("tradingGoals");
-    if (savedGoals) {
-      const parsed = JSON.parse(savedGoals);
-      const yearlyGoal = parsed.yearlyPnlGoal || 0;
-      setGoals({
-        yearlyPnlGoal: yearlyGoal,
-        monthlyPnlGoal: yearlyGoal / 12, // Always derive from yearly
-        startingEquity: parsed.startingEquity || 0,
-      });
-      setGoalInput({
-        yearly: yearlyGoal > 0 ? yearlyGoal.toString() : "",
-        startingEquity: parsed.startingEquity > 0 ? parsed.startingEquity.toString() : "",
-      });
-    }
-  }, []);
+  // Open the goals modal with the saved values and their change history
+  const openGoalSettings = () => {
+    setGoalInput({
+      yearly: goals.yearlyPnlGoal > 0 ? goals.yearlyPnlGoal.toString() : "",
+      startingEquity: tagSettings.startingEquity > 0 ? tagSettings.startingEquity.toString() : "",
+    });
+    fetchHistory();
+    setShowGoalSettings(true);
+  };
 
-  // Save goals
+  // Save goals (starting equity is shared with the Settings modal) as one update,
+  // so the save is a single history entry
   const saveGoals = () => {
-    const yearlyGoal = parseFloat(goalInput.yearly) || 0;
-    const newGoals = {
-      yearlyPnlGoal: yearlyGoal,
-      monthlyPnlGoal: yearlyGoal / 12, // Auto-calculate from yearly
-      startingEquity: parseFloat(goalInput.startingEquity) || 0,
-    };
-    setGoals(newGoals);
-    localStorage.setItem("tradingGoals", JSON.stringify(newGoals));
+    const equity = parseFloat(goalInput.startingEquity) || 0;
+    updateSettings({ yearlyPnlGoal: parseFloat(goalInput.yearly) || 0, startingEquity: equity });
+    if (equity !== tagSettings.startingEquity) {
+      setStartingEquity(equity, { saved: true });
+    }
     setShowGoalSettings(false);
   };
 
+  // Export the journal using the same period and asset filters as the equity curve
+  const handleExport = (format: "csv" | "json") => {
+    const toKey = (d: Date) =>
+      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+    const now = new Date();
+    let startDate: string | null = null;
+    let endDate: string | null = null;
+
+    switch (equityPeriod) {
+      case "ytd":
+        startDate = toKey(new Date(now.getFullYear(), 0, 1));
+        endDate = toKey(now);
+        break;
+      case "mtd":
+        startDate = toKey(new Date(now.getFullYear(), now.getMonth(), 1));
+        endDate = toKey(now);
+        break;
+      case "wtd": {
+        const startOfWeek = new Date(now);
+        startOfWeek.setDate(now.getDate() - now.getDay());
+        startDate = toKey(startOfWeek);
+        endDate = toKey(now);
+        break;
+      }
+      case "daily":
+        startDate = toKey(now);
+        endDate = toKey(now);
+        break;
+      case "custom":
+        if (customFilter.type === "dateRange") {
+          startDate = customFilter.dateRange.start || null;
+          endDate = customFilter.dateRange.end || null;
+        } else if (customFilter.type === "daysBack") {
+          const daysAgo = new Date(now);
+          daysAgo.setDate(now.getDate() - customFilter.daysBack);
+          startDate = toKey(daysAgo);
+          endDate = toKey(now);
+        }
+        break;
+    }
+
+    const params = new URLSearchParams({ format });
+    if (startDate) params.set("startDate", startDate);
+    if (endDate) params.set("endDate", endDate);
+    if (equityAssetFilter.length > 0) params.set("assetType", equityAssetFilter.join(","));
+
+    window.location.href = `/api/trades/export?${params.toString()}`;
+    setShowExportMenu(false);
+  };
+
+  // Close export menu click outside handler
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(e.target as Node)) {
+        setShowExportMenu(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
   // Close date picker click outside handler
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -1533,6 +1556,43 @@ export default function TradingPage() {
               </div>
             )}
 
+            {/* Export Menu */}
+            {!isDemoMode && (
+              <div ref={exportMenuRef} className="relative">
+                <button
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  className={`flex items-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
+                    showExportMenu
+                      ? "bg-accent text-white border-accent"
+                      : "bg-card/80 border-border/40 text-muted hover:text-foreground hover:border-border"
+                  }`}
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </button>
+
+                {showExportMenu && (
+                  <div className="absolute top-full right-0 mt-2 w-56 bg-card border border-border rounded-xl shadow-2xl z-30 overflow-hidden">
+                    <p className="px-3 py-2 text-[10px] text-muted border-b border-border">
+                      Uses the current period and asset filters
+                    </p>
+                    <button
+                      onClick={() => handleExport("csv")}
+                      className="w-full px-3 py-2 text-left text-xs hover:bg-card-hover transition-colors"
+                    >
+                      Trades as CSV
+                    </button>
+                    <button
+                      onClick={() => handleExport("json")}
+                      className="w-full px-3 py-2 text-left text-xs hover:bg-card-hover transition-colors"
+                    >
+                      Full journal as JSON
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Unified Filters Dropdown */}
             <div ref={filtersDropdownRef} className="relative">
               <button
@@ -2336,7 +2396,7 @@ export default function TradingPage() {
                 {goalProgress?.onTrack ? "On Track" : "Behind Pace"}
               </span>
               <button
-                onClick={() => setShowGoalSettings(true)}
+                onClick={openGoalSettings}
                 className="p-1.5 rounded-lg bg-card-hover/50 hover:bg-card-hover border border-border/40 hover:border-emerald-500/50 transition-all group"
                 title="Edit goals"
               >
@@ -2911,6 +2971,24 @@ export default function TradingPage() {
                 </div>
               )}
 
+              {settingsHistory.length > 0 && (
+                <div className="pt-2 border-t border-border">
+                  <div className="text-xs text-muted mb-2">Goal History</div>
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {settingsHistory.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between text-xs">
+                        <span className="text-muted">{new Date(entry.createdAt).toLocaleDateString()}</span>
+                        <span>
+                          ${entry.yearlyPnlGoal.toLocaleString()}/yr
+                          <span className="text-muted"> · start ${entry.startingEquity.toLocaleString()}</span>
+                          <span className="text-muted"> · {entry.winRateTarget}% WR, {entry.profitFactorTarget.toFixed(1)} PF</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <button
                 onClick={saveGoals}
                 className="w-full py-2 bg-accent hover:bg-accent/90 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
@@ -3053,13 +3131,13 @@ export default function TradingPage() {
                 </div>
                 {/* Buttons */}
                 <button
-                  onClick={() => setConsistencySettings({ winRateTarget: 60, profitFactorTarget: 2, maxDrawdownLimit: 25, riskRewardTarget: 1.5 })}
+                  onClick={() => setConsistencySettings(DEFAULT_CONSISTENCY_SETTINGS)}
                   className="px-4 py-2 bg-card hover:bg-card-hover border border-border/40 rounded-lg text-sm font-medium transition-colors"
                 >
                   Reset
                 </button>
                 <button
-                  onClick={() => { localStorage.setItem("consistencySettings", JSON.stringify(consistencySettings)); setShowConsistencySettings(false); }}
+                  onClick={() => { updateSettings(consistencySettings); setConsistencyDraft(null); setShowConsistencySettings(false); }}
                   className="px-5 py-2 bg-accent hover:bg-accent/90 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
                 >
                   <Check className="w-4 h-4" />
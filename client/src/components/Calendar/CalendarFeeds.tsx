@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  X,
+  CalendarPlus,
+  Copy,
+  Check,
+  RefreshCw,
+  Trash2,
+  AlertTriangle,
+} from "lucide-react";
+
+interface CalendarFeed {
+  id: string;
+  name: string;
+  path: string;
+  currency: string | null;
+  impact: string | null;
+  category: string | null;
+  lastAccessedAt: string | null;
+}
+
+interface CalendarFeedsProps {
+  // Current calendar filters, saved as the preset of a new feed
+  impacts: string[];
+  currencies: string[]; // Empty means all
+  category: string | null;
+  includeHolidays: boolean;
+  categoryLabel: (category: string) => string;
+  onClose: () => void;
+}
+
+function describeFilters(feed: CalendarFeed, categoryLabel: (category: string) => string): string {
+  const parts = [
+    feed.impact ? feed.impact.split(",").join(", ") : "All impacts",
+    feed.category ? categoryLabel(feed.category) : "All categories",
+  ];
+  if (feed.currency) parts.unshift(feed.currency.split(",").join(", "));
+  return parts.join(" · ");
+}
+
+export default function CalendarFeeds({ impacts, currencies, category, includeHolidays, categoryLabel, onClose }: CalendarFeedsProps) {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [name, setName] = useState("My Economic Calendar");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchFeeds = useCallback(async () => {
+    try {
+      const response = await fetch("/api/calendar/feeds");
+      const data = await response.json();
+      if (data.feeds) setFeeds(data.feeds);
+    } catch (err) {
+      console.error("Failed to fetch calendar feeds:", err);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchFeeds();
+  }, [fetchFeeds]);
+
+  const feedUrl = (feed: CalendarFeed) => `${window.location.origin}${feed.path}`;
+
+  const createFeed = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/calendar/feeds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          impact: [...impacts, ...(includeHolidays ? ["holiday", "early_close"] : [])],
+          currency: currencies,
+          category,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to create feed");
+      setFeeds((prev) => [...prev, data.feed]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create feed");
+    }
+    setSaving(false);
+  };
+
+  const rotateFeed = async (feed: CalendarFeed) => {
+    try {
+      const response = await fetch(`/api/calendar/feeds/${feed.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...feed, rotateToken: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to reset feed URL");
+      setFeeds((prev) => prev.map((f) => (f.id === feed.id ? data.feed : f)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset feed URL");
+    }
+  };
+
+  const deleteFeed = async (feed: CalendarFeed) => {
+    setFeeds((prev) => prev.filter((f) => f.id !== feed.id));
+    try {
+      const response = await fetch(`/api/calendar/feeds/${feed.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete feed");
+    } catch (err) {
+      console.error("Failed to delete calendar feed:", err);
+      await fetchFeeds();
+    }
+  };
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed));
+      setCopiedId(feed.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy feed URL:", err);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg glass rounded-2xl border border-border/50 shadow-2xl overflow-hidden animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5 text-accent-light" />
+            <h3 className="text-lg font-bold">Subscribe in Your Calendar</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-card-hover transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-muted">
+            Add a feed URL to Google Calendar (&quot;From URL&quot;) or Outlook (&quot;Subscribe from web&quot;).
+            Each feed keeps the filters it was created with. Anyone with the URL can read the feed.
+          </p>
+
+          {/* New feed from the current filters */}
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-muted">New feed from current filters</label>
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="flex-1 px-3 py-1.5 text-xs bg-card-hover border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-accent/50"
+              />
+              <button
+                onClick={createFeed}
+                disabled={saving || !name.trim() || impacts.length === 0}
+                className="px-3 py-1.5 bg-accent text-white rounded-lg text-xs font-medium hover:bg-accent/90 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+              >
+                {saving ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <CalendarPlus className="w-3.5 h-3.5" />}
+                Create
+              </button>
+            </div>
+            <p className="text-[10px] text-muted">
+              {currencies.length > 0 ? `${currencies.join(", ")} · ` : ""}
+              {impacts.length > 0 ? impacts.join(", ") : "No impacts selected"}
+              {" · "}
+              {category ? categoryLabel(category) : "All categories"}
+              {includeHolidays ? " · holidays" : ""}
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {/* Existing feeds */}
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {loading ? (
+              <div className="skeleton h-16 rounded-lg" />
+            ) : feeds.length === 0 ? (
+              <p className="text-xs text-muted text-center py-4">No feeds yet</p>
+            ) : (
+              feeds.map((feed) => (
+                <div key={feed.id} className="p-3 rounded-lg bg-card-hover border border-border space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{feed.name}</p>
+                      <p className="text-[10px] text-muted">{describeFilters(feed, categoryLabel)}</p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => rotateFeed(feed)}
+                        title="Reset URL (the old URL stops working)"
+                        className="p-1.5 rounded-lg text-muted hover:text-foreground hover:bg-card transition-colors"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => deleteFeed(feed)}
+                        title="Delete feed"
+                        className="p-1.5 rounded-lg text-muted hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      readOnly
+                      value={feedUrl(feed)}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 px-2 py-1 text-[10px] font-mono bg-background/50 border border-border rounded text-muted"
+                    />
+                    <button
+                      onClick={() => copyUrl(feed)}
+                      className="px-2 py-1 rounded border border-border text-[10px] text-muted hover:text-foreground transition-colors flex items-center gap-1"
+                    >
+                      {copiedId === feed.id ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+                      Copy
+                    </button>
+                    <a
+                      href={feedUrl(feed).replace(/^https?:/, "webcal:")}
+                      className="px-2 py-1 rounded border border-border text-[10px] text-muted hover:text-foreground transition-colors"
+                    >
+                      Open
+                    </a>
+                  </div>
+                  <p className="text-[10px] text-muted/70">
+                    {feed.lastAccessedAt
+                      ? `Last fetched ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                      : "Not fetched yet"}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
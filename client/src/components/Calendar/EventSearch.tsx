@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Search, X, RefreshCw } from "lucide-react";
+import { formatEventTime, getEventDateInZone, EventTimeKind } from "@/lib/event-time";
+
+interface SearchResult {
+  id: string;
+  date: string;
+  time: string;
+  timeKind?: EventTimeKind;
+  startsAt?: string | null;
+  event: string;
+  impact: string;
+  currency: string;
+  category: string;
+  matches: string[];
+}
+
+interface EventSearchProps {
+  displayTimeZone: string;
+  categoryLabel: (category: string) => string;
+  onSelect: (date: string) => void; // Date in the display time zone
+}
+
+const IMPACT_DOTS: Record<string, string> = {
+  high: "bg-red-500",
+  medium: "bg-yellow-500",
+  low: "bg-emerald-500",
+};
+
+const MATCH_LABELS: Record<string, string> = {
+  relatedAssets: "assets",
+  category: "category",
+  description: "description",
+  whyItMatters: "description",
+  source: "source",
+};
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 250;
+
+export default function EventSearch({ displayTimeZone, categoryLabel, onSelect }: EventSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [rangeLabel, setRangeLabel] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    // Shorter queries just hide the dropdown
+    const q = query.trim();
+    if (q.length < 2) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/calendar/search?q=${encodeURIComponent(q)}&limit=20`, { signal: controller.signal });
+        const data = await response.json();
+        if (response.ok) {
+          setResults(data.results);
+          setRangeLabel(data.query.range?.label ?? null);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) console.error("Failed to search events:", err);
+      }
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const searching = loading && query.trim().length >= 2;
+
+  const selectResult = (result: SearchResult) => {
+    onSelect(getEventDateInZone(result, displayTimeZone));
+    setOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-background/50 border border-border focus-within:border-accent/50 transition-colors">
+        {searching ? <RefreshCw className="w-3.5 h-3.5 text-muted animate-spin" /> : <Search className="w-3.5 h-3.5 text-muted" />}
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && results.length > 0) selectResult(results[0]);
+            if (e.key === "Escape") setOpen(false);
+          }}
+          placeholder="Search events..."
+          className="w-40 bg-transparent text-xs text-foreground placeholder:text-muted focus:outline-none"
+        />
+        {query && (
+          <button onClick={() => setQuery("")} className="text-muted hover:text-foreground" title="Clear search">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {open && query.trim().length >= 2 && !loading && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-h-96 overflow-y-auto bg-card border border-border rounded-xl shadow-2xl z-50 p-1.5">
+          {rangeLabel && (
+            <p className="px-2 py-1 text-[10px] text-muted uppercase tracking-wider">{rangeLabel}</p>
+          )}
+          {results.length === 0 ? (
+            <p className="px-2 py-3 text-xs text-muted text-center">No matching events</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.id}
+                onClick={() => selectResult(result)}
+                className="w-full flex items-start gap-2 px-2 py-1.5 rounded-lg text-left hover:bg-card-hover transition-colors"
+              >
+                <div className={`w-1.5 h-1.5 rounded-full mt-1.5 flex-shrink-0 ${IMPACT_DOTS[result.impact] || "bg-gray-500"}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium truncate">{result.event}</p>
+                  <p className="text-[10px] text-muted">
+                    {new Date(`${getEventDateInZone(result, displayTimeZone)}T12:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" })}
+                    {" · "}
+                    {formatEventTime(result, displayTimeZone)}
+                    {" · "}
+                    {result.currency} · {categoryLabel(result.category)}
+                  </p>
+                </div>
+                {result.matches.some((field) => field !== "title") && (
+                  <span className="text-[9px] text-muted/70 flex-shrink-0 mt-0.5">
+                    {Array.from(new Set(result.matches.filter((field) => field !== "title").map((field) => MATCH_LABELS[field]))).join(", ")}
+                  </span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useRef } from "react";
+import {
+  X,
+  Upload,
+  RefreshCw,
+  FileText,
+  AlertTriangle,
+} from "lucide-react";
+
+interface ForecastImportResult {
+  valid?: number;
+  created?: number;
+  updated?: number;
+  errors: { row: number; message: string }[];
+  error?: string;
+}
+
+interface ForecastImportProps {
+  onImported: () => void;
+  onClose: () => void;
+}
+
+async function postCsv(csv: string, dryRun: boolean): Promise<ForecastImportResult> {
+  const response = await fetch("/api/calendar/forecasts/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ csv, dryRun }),
+  });
+  const data = await response.json();
+  if (!response.ok) return { errors: [], error: data.error || "Import failed" };
+  return data;
+}
+
+export default function ForecastImport({ onImported, onClose }: ForecastImportProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<ForecastImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    const text = await file.text();
+    setCsv(text);
+    setLoading(true);
+    setResult(await postCsv(text, true));
+    setLoading(false);
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+    setLoading(true);
+    const imported = await postCsv(csv, false);
+    setLoading(false);
+    if (!imported.error) {
+      onImported();
+      if (imported.errors.length === 0) {
+        onClose();
+        return;
+      }
+    }
+    setResult(imported);
+  };
+
+  const validCount = result?.valid ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md glass rounded-2xl border border-border/50 shadow-2xl overflow-hidden animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-accent-light" />
+            <h3 className="text-lg font-bold">Import Consensus Forecasts</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-card-hover transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-muted">
+            CSV columns: <span className="font-mono">date,event,forecast</span> and optionally{" "}
+            <span className="font-mono">actual</span> to backfill past releases. Event names must match the calendar.
+          </p>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center gap-2 px-3 py-2 bg-card-hover border border-border rounded-lg text-sm text-left hover:border-accent/50 transition-colors"
+          >
+            <FileText className="w-4 h-4 text-muted" />
+            <span className={fileName ? "text-foreground" : "text-muted"}>{fileName || "Choose a CSV file..."}</span>
+          </button>
+
+          {result?.error && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+              {result.error}
+            </div>
+          )}
+
+          {result && !result.error && (
+            <p className="text-xs text-muted">
+              {result.valid !== undefined
+                ? `${result.valid} forecast${result.valid === 1 ? "" : "s"} ready to import`
+                : `Imported ${result.created} new, ${result.updated} updated`}
+            </p>
+          )}
+
+          {result && result.errors.length > 0 && (
+            <div className="max-h-32 overflow-y-auto p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-1">
+              {result.errors.map((error, i) => (
+                <p key={i} className="text-[11px] text-muted">Row {error.row}: {error.message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 px-6 py-4 border-t border-border">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 bg-card-hover border border-border rounded-lg text-sm font-medium hover:bg-card transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={validCount === 0 || loading}
+            className="flex-1 px-4 py-2.5 bg-accent text-white rounded-lg text-sm font-medium hover:bg-accent/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Activity, RefreshCw } from "lucide-react";
+
+interface SurpriseIndexPoint {
+  date: string;
+  index: number | null;
+  byCategory: Record<string, number | null>;
+}
+
+interface ScoredRelease {
+  date: string;
+  event: string;
+  category: string;
+  versus: "forecast" | "previous";
+  score: number;
+}
+
+interface SurpriseIndexData {
+  categories: string[];
+  series: SurpriseIndexPoint[];
+  releases: ScoredRelease[];
+  options: { windowDays: number; halfLifeDays: number };
+}
+
+interface SurpriseIndexChartProps {
+  categoryLabel: (category: string) => string;
+}
+
+const HEIGHT = 128;
+const PADDING = { top: 10, right: 8, bottom: 18, left: 32 };
+
+function formatIndex(value: number | null): string {
+  if (value === null) return "—";
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function indexColor(value: number | null): string {
+  if (value === null || value === 0) return "text-muted";
+  return value > 0 ? "text-emerald-400" : "text-red-400";
+}
+
+export default function SurpriseIndexChart({ categoryLabel }: SurpriseIndexChartProps) {
+  const [data, setData] = useState<SurpriseIndexData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState<string | null>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [width, setWidth] = useState(600);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Track the card width so labels aren't stretched
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) setWidth(containerRef.current.offsetWidth);
+    };
+    updateWidth();
+    window.addEventListener("resize", updateWidth);
+    return () => window.removeEventListener("resize", updateWidth);
+  }, [loading]);
+
+  useEffect(() => {
+    const fetchIndex = async () => {
+      try {
+        const response = await fetch("/api/calendar/surprise-index?days=180");
+        if (response.ok) setData(await response.json());
+      } catch (err) {
+        console.error("Failed to fetch surprise index:", err);
+      }
+      setLoading(false);
+    };
+    fetchIndex();
+  }, []);
+
+  const values = useMemo(
+    () => (data?.series ?? []).map((point) => (category ? point.byCategory[category] ?? null : point.index)),
+    [data, category]
+  );
+
+  // Symmetric around zero so beats and misses read at the same scale
+  const maxAbs = useMemo(() => {
+    const defined = values.filter((v): v is number => v !== null).map(Math.abs);
+    return Math.max(50, ...defined) * 1.1;
+  }, [values]);
+
+  const getX = (i: number) =>
+    PADDING.left + (values.length > 1 ? (i / (values.length - 1)) * (width - PADDING.left - PADDING.right) : 0);
+  const getY = (value: number) =>
+    PADDING.top + ((maxAbs - value) / (2 * maxAbs)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  // Separate subpaths across gaps where nothing had been released yet
+  let linePath = "";
+  values.forEach((value, i) => {
+    if (value === null) return;
+    linePath += `${i > 0 && values[i - 1] !== null ? "L" : "M"}${getX(i).toFixed(1)},${getY(value).toFixed(1)} `;
+  });
+  linePath = linePath.trim();
+
+  const series = data?.series ?? [];
+  const latest = values.length > 0 ? values[values.length - 1] : null;
+  const hovered = hoveredIndex !== null ? series[hoveredIndex] : null;
+  const hoveredValue = hoveredIndex !== null ? values[hoveredIndex] : null;
+  const monthTicks = series
+    .map((point, i) => ({ i, date: point.date }))
+    .filter(({ date }) => date.endsWith("-01"));
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (values.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const fraction = (x - PADDING.left) / (width - PADDING.left - PADDING.right);
+    setHoveredIndex(Math.min(values.length - 1, Math.max(0, Math.round(fraction * (values.length - 1)))));
+  };
+
+  return (
+    <div className="glass rounded-xl p-3 flex-shrink-0 relative z-10">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <Activity className="w-3.5 h-3.5 text-accent-light" />
+          <h2 className="text-xs font-medium text-muted">Economic Surprise Index</h2>
+          <span className={`text-xs font-bold ${indexColor(latest)}`}>{formatIndex(latest)}</span>
+        </div>
+        {data && (
+          <span
+            className="text-[10px] text-muted"
+            title="Releases scored against consensus, or against the previous print when no forecast was entered. Weighted by impact and decayed over time."
+          >
+            {data.options.windowDays}d window · {data.options.halfLifeDays}d half-life
+          </span>
+        )}
+      </div>
+
+      {data && data.categories.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {[null, ...data.categories].map((c) => (
+            <button
+              key={c ?? "all"}
+              onClick={() => setCategory(c)}
+              className={`px-2 py-0.5 rounded text-[10px] font-medium transition-colors ${
+                category === c
+                  ? "bg-accent/20 border border-accent/50 text-accent-light"
+                  : "bg-background/50 border border-border text-muted hover:text-foreground"
+              }`}
+            >
+              {c ? categoryLabel(c) : "Composite"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="skeleton h-32 rounded-lg" />
+      ) : !data || linePath === "" ? (
+        <div className="h-32 flex items-center justify-center text-xs text-muted">
+          {data ? "Not enough released data yet" : (
+            <span className="flex items-center gap-1.5"><RefreshCw className="w-3 h-3" /> Surprise index unavailable</span>
+          )}
+        </div>
+      ) : (
+        <div ref={containerRef} className="relative">
+          <svg
+            width={width}
+            height={HEIGHT}
+            className="block"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoveredIndex(null)}
+          >
+            {/* Zero line and bounds */}
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={getY(0)} y2={getY(0)} stroke="currentColor" className="text-border" strokeWidth={1} />
+            <text x={PADDING.left - 4} y={getY(0) + 3} textAnchor="end" className="fill-muted text-[9px]">0</text>
+            <text x={PADDING.left - 4} y={PADDING.top + 6} textAnchor="end" className="fill-muted text-[9px]">+{Math.round(maxAbs)}</text>
+            <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-muted text-[9px]">-{Math.round(maxAbs)}</text>
+
+            {monthTicks.map(({ i, date }) => (
+              <text key={date} x={getX(i)} y={HEIGHT - 4} textAnchor="middle" className="fill-muted text-[9px]">
+                {new Date(`${date}T12:00:00`).toLocaleDateString("en-US", { month: "short" })}
+              </text>
+            ))}
+
+            <path d={linePath} fill="none" stroke="currentColor" className="text-accent-light" strokeWidth={1.5} />
+
+            {hoveredIndex !== null && hoveredValue !== null && (
+              <>
+                <line x1={getX(hoveredIndex)} x2={getX(hoveredIndex)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} stroke="currentColor" className="text-muted" strokeDasharray="2 2" />
+                <circle cx={getX(hoveredIndex)} cy={getY(hoveredValue)} r={2.5} className="fill-accent-light" />
+              </>
+            )}
+          </svg>
+
+          {hovered && (
+            <div className="absolute top-0 right-0 px-2 py-1 rounded-lg bg-card border border-border text-[10px] pointer-events-none">
+              <span className="text-muted">
+                {new Date(`${hovered.date}T12:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+              </span>{" "}
+              <span className={`font-bold ${indexColor(hoveredValue)}`}>{formatIndex(hoveredValue)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {data && data.releases.length > 0 && (
+        <div className="flex gap-3 mt-2 overflow-x-auto text-[10px] text-muted">
+          {data.releases
+            .filter((r) => !category || r.category === category)
+            .slice(0, 8)
+            .map((r) => (
+              <span
+                key={`${r.event}-${r.date}`}
+                className="whitespace-nowrap"
+                title={`${r.date} · vs ${r.versus}`}
+              >
+                {r.event} <span className={indexColor(r.score)}>{formatIndex(r.score)}σ</span>
+              </span>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
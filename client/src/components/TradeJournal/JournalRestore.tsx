@@ -0,0 +1,167 @@
+"use client";
+
+import { useState, useRef } from "react";
+import {
+  X,
+  RotateCcw,
+  RefreshCw,
+  FileText,
+  AlertTriangle,
+} from "lucide-react";
+import { JournalRestoreResult } from "./types";
+
+interface JournalRestoreProps {
+  onRestore: (bundle: unknown, dryRun: boolean) => Promise<JournalRestoreResult | null>;
+  onClose: () => void;
+}
+
+const ROW_LABELS: { key: "trades" | "strategies" | "strategyTrades"; label: string }[] = [
+  { key: "trades", label: "Trades" },
+  { key: "strategies", label: "Strategies" },
+  { key: "strategyTrades", label: "Strategy Links" },
+];
+
+export default function JournalRestore({ onRestore, onClose }: JournalRestoreProps) {
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<JournalRestoreResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    setParseError(null);
+    try {
+      const parsed = JSON.parse(await file.text());
+      setBundle(parsed);
+      setLoading(true);
+      setResult(await onRestore(parsed, true));
+      setLoading(false);
+    } catch {
+      setBundle(null);
+      setParseError("File is not valid JSON");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!bundle) return;
+    setLoading(true);
+    const applied = await onRestore(bundle, false);
+    setLoading(false);
+    if (applied && !applied.error) {
+      onClose();
+    } else {
+      setResult(applied);
+    }
+  };
+
+  const error = parseError || result?.error;
+  const createCount = result?.summary
+    ? result.summary.trades.created + result.summary.strategies.created + result.summary.strategyTrades.created
+    : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md glass rounded-2xl border border-border/50 shadow-2xl overflow-hidden animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5 text-accent-light" />
+            <h3 className="text-lg font-bold">Restore Journal Backup</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-card-hover transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center gap-2 px-3 py-2 bg-card-hover border border-border rounded-lg text-sm text-left hover:border-accent/50 transition-colors"
+          >
+            <FileText className="w-4 h-4 text-muted" />
+            <span className={fileName ? "text-foreground" : "text-muted"}>{fileName || "Choose a JSON export..."}</span>
+          </button>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {result?.summary && (
+            <div className="rounded-lg border border-border/50 overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-card-hover text-muted">
+                  <tr>
+                    <th className="px-3 py-1.5 text-left font-medium"></th>
+                    <th className="px-3 py-1.5 text-right font-medium">New</th>
+                    <th className="px-3 py-1.5 text-right font-medium">Duplicate</th>
+                    <th className="px-3 py-1.5 text-right font-medium">Conflict</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ROW_LABELS.map(({ key, label }) => (
+                    <tr key={key} className="border-t border-border/30">
+                      <td className="px-3 py-1.5 font-medium">{label}</td>
+                      <td className="px-3 py-1.5 text-right text-emerald-400">{result.summary![key].created}</td>
+                      <td className="px-3 py-1.5 text-right text-muted">{result.summary![key].duplicates}</td>
+                      <td className={`px-3 py-1.5 text-right ${result.summary![key].conflicts > 0 ? "text-amber-400" : "text-muted"}`}>
+                        {result.summary![key].conflicts}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {result && result.conflicts.length > 0 && (
+            <div className="max-h-32 overflow-y-auto p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-1">
+              {result.conflicts.map((conflict, i) => (
+                <p key={i} className="text-[11px] text-muted">{conflict.message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 px-6 py-4 border-t border-border">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 bg-card-hover border border-border rounded-lg text-sm font-medium hover:bg-card transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={!result?.summary || createCount === 0 || loading}
+            className="flex-1 px-4 py-2.5 bg-accent text-white rounded-lg text-sm font-medium hover:bg-accent/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading ? <RefreshCw className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { useState, useRef } from "react";
+import {
+  X,
+  Upload,
+  RefreshCw,
+  FileText,
+  AlertTriangle,
+  Copy,
+} from "lucide-react";
+import { AssetType, TradeImportRequest, TradeImportResult } from "./types";
+import { BROKER_PRESETS, ImportField } from "@/lib/trade-import";
+
+interface TradeImportProps {
+  onImport: (payload: TradeImportRequest) => Promise<TradeImportResult | null>;
+  onClose: () => void;
+}
+
+const ASSET_TYPES: AssetType[] = ["STOCK", "FUTURES", "OPTIONS", "FOREX", "CRYPTO"];
+
+const MAPPING_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "date", label: "Date" },
+  { field: "time", label: "Time" },
+  { field: "dateTime", label: "Date/Time (combined)" },
+  { field: "symbol", label: "Symbol" },
+  { field: "side", label: "Side (Buy/Sell)" },
+  { field: "quantity", label: "Quantity" },
+  { field: "price", label: "Price" },
+  { field: "commission", label: "Commission" },
+];
+
+export default function TradeImport({ onImport, onClose }: TradeImportProps) {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [presetId, setPresetId] = useState("generic");
+  const [mapping, setMapping] = useState<Record<string, string>>(
+    BROKER_PRESETS[0].mapping as Record<string, string>
+  );
+  const [assetType, setAssetType] = useState<AssetType>("STOCK");
+  const [multiplier, setMultiplier] = useState("1");
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [result, setResult] = useState<TradeImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const buildPayload = (dryRun: boolean): TradeImportRequest => ({
+    csv,
+    preset: presetId,
+    mapping: presetId === "generic" ? mapping : undefined,
+    assetType,
+    multiplier: parseFloat(multiplier) || 1,
+    dryRun,
+    skipDuplicates,
+  });
+
+  const handlePresetChange = (id: string) => {
+    const preset = BROKER_PRESETS.find((p) => p.id === id);
+    setPresetId(id);
+    setResult(null);
+    if (preset) {
+      setMapping(preset.mapping as Record<string, string>);
+      setAssetType(preset.assetType as AssetType);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setCsv(await file.text());
+    setResult(null);
+  };
+
+  const handlePreview = async () => {
+    if (!csv) return;
+    setLoading(true);
+    setResult(await onImport(buildPayload(true)));
+    setLoading(false);
+  };
+
+  const handleCommit = async () => {
+    if (!csv) return;
+    setLoading(true);
+    const committed = await onImport(buildPayload(false));
+    setLoading(false);
+    if (committed && committed.created > 0) {
+      onClose();
+    } else {
+      setResult(committed);
+    }
+  };
+
+  const importCount = result
+    ? result.preview.filter((t) => !skipDuplicates || !t.isDuplicate).length
+    : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col glass rounded-2xl border border-border/50 shadow-2xl overflow-hidden animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-accent-light" />
+            <h3 className="text-lg font-bold">Import Broker Statement</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-card-hover transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* File + Preset */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-muted mb-1.5">CSV File</label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center gap-2 px-3 py-2 bg-card-hover border border-border rounded-lg text-sm text-left hover:border-accent/50 transition-colors"
+              >
+                <FileText className="w-4 h-4 text-muted" />
+                <span className={fileName ? "text-foreground" : "text-muted"}>{fileName || "Choose file..."}</span>
+              </button>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted mb-1.5">Broker Layout</label>
+              <select
+                value={presetId}
+                onChange={(e) => handlePresetChange(e.target.value)}
+                className="w-full px-3 py-2 text-sm bg-card-hover border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-accent/50"
+              >
+                {BROKER_PRESETS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Column mapping (generic only) */}
+          {presetId === "generic" && (
+            <div>
+              <label className="block text-xs font-medium text-muted mb-1.5">
+                Column Mapping
+                <span className="text-[10px] text-muted/70 ml-1">(CSV header names; use Date/Time when date and time share a column)</span>
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {MAPPING_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <span className="block text-[10px] text-muted mb-0.5">{label}</span>
+                    <input
+                      value={mapping[field] || ""}
+                      onChange={(e) => {
+                        setMapping((prev) => ({ ...prev, [field]: e.target.value }));
+                        setResult(null);
+                      }}
+                      className="w-full px-2 py-1.5 text-xs bg-card-hover border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Options */}
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-muted mb-1.5">Asset Type</label>
+              <select
+                value={assetType}
+                onChange={(e) => { setAssetType(e.target.value as AssetType); setResult(null); }}
+                className="w-full px-3 py-2 text-sm bg-card-hover border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-accent/50"
+              >
+                {ASSET_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted mb-1.5">Point Multiplier</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={multiplier}
+                onChange={(e) => { setMultiplier(e.target.value); setResult(null); }}
+                className="w-full px-3 py-2 text-sm bg-card-hover border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/50"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                onClick={() => setSkipDuplicates(!skipDuplicates)}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border transition-colors ${
+                  skipDuplicates
+                    ? "bg-accent/10 border-accent/30 text-foreground"
+                    : "bg-card-hover border-border text-muted"
+                }`}
+              >
+                <span className="text-xs font-medium">Skip Duplicates</span>
+                <div className={`w-9 h-5 rounded-full transition-colors relative ${skipDuplicates ? "bg-accent" : "bg-gray-600"}`}>
+                  <div className={`w-4 h-4 rounded-full bg-white shadow-md absolute top-0.5 transition-all ${skipDuplicates ? "left-[18px]" : "left-0.5"}`} />
+                </div>
+              </button>
+            </div>
+          </div>
+
+          {/* Errors */}
+          {result && result.errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-1">
+              <div className="flex items-center gap-2 text-xs font-medium text-amber-400">
+                <AlertTriangle className="w-3.5 h-3.5" />
+                {result.errors.length} row{result.errors.length !== 1 ? "s" : ""} skipped
+              </div>
+              {result.errors.slice(0, 5).map((err, i) => (
+                <p key={i} className="text-[11px] text-muted">
+                  {err.row > 0 ? `Row ${err.row}: ` : ""}{err.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Preview */}
+          {result?.summary && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between px-3 py-2 bg-card/50 rounded-lg border border-border/50 text-xs">
+                <span className="text-muted">
+                  {result.summary.fillCount} fills → {result.summary.tradeCount} trades
+                  {result.summary.duplicateCount > 0 && (
+                    <span className="text-amber-400 ml-2">({result.summary.duplicateCount} duplicate{result.summary.duplicateCount !== 1 ? "s" : ""})</span>
+                  )}
+                </span>
+                <span className={`font-bold ${result.summary.totalPnl >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                  {result.summary.totalPnl >= 0 ? "+" : ""}${result.summary.totalPnl.toFixed(2)}
+                </span>
+              </div>
+              <div className="max-h-64 overflow-y-auto rounded-lg border border-border/50">
+                <table className="w-full text-xs">
+                  <thead className="bg-card-hover text-muted sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium">Date</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Ticker</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Side</th>
+                      <th className="px-2 py-1.5 text-right font-medium">Size</th>
+                      <th className="px-2 py-1.5 text-right font-medium">Entry</th>
+                      <th className="px-2 py-1.5 text-right font-medium">Exit</th>
+                      <th className="px-2 py-1.5 text-right font-medium">P&amp;L</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.preview.map((trade, i) => (
+                      <tr
+                        key={i}
+                        className={`border-t border-border/30 ${trade.isDuplicate ? "opacity-50" : ""}`}
+                      >
+                        <td className="px-2 py-1.5 whitespace-nowrap">
+                          {trade.date}{trade.time ? ` ${trade.time}` : ""}
+                          {trade.isDuplicate && (
+                            <Copy className="inline w-3 h-3 ml-1 text-amber-400" aria-label="Duplicate" />
+                          )}
+                        </td>
+                        <td className="px-2 py-1.5 font-medium">{trade.ticker}</td>
+                        <td className={`px-2 py-1.5 ${trade.direction === "LONG" ? "text-emerald-400" : "text-red-400"}`}>
+                          {trade.direction}
+                        </td>
+                        <td className="px-2 py-1.5 text-right">{trade.size}</td>
+                        <td className="px-2 py-1.5 text-right">{trade.entryPrice}</td>
+                        <td className="px-2 py-1.5 text-right">{trade.exitPrice ?? "—"}</td>
+                        <td className={`px-2 py-1.5 text-right font-medium ${trade.status === "OPEN" ? "text-muted" : trade.pnl >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                          {trade.status === "OPEN" ? "OPEN" : `${trade.pnl >= 0 ? "+" : ""}${trade.pnl.toFixed(2)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 px-6 py-4 border-t border-border">
+          <button
+            onClick={handlePreview}
+            disabled={!csv || loading}
+            className="flex-1 px-4 py-2.5 bg-card-hover border border-border rounded-lg text-sm font-medium hover:bg-card transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading && !result ? <RefreshCw className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            Preview
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={!result || importCount === 0 || loading}
+            className="flex-1 px-4 py-2.5 bg-accent text-white rounded-lg text-sm font-medium hover:bg-accent/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading && result ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import {importCount} Trade{importCount !== 1 ? "s" : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 export { default as TradeForm } from "./TradeForm";
 export { default as TradeList } from "./TradeList";
 export { default as TradeStats } from "./TradeStats";
+export { default as TradeImport } from "./TradeImport";
+export { default as JournalRestore } from "./JournalRestore";
 export * from "./types";
@@ -74,6 +74,61 @@ export interface TradeStats {
   dailyPnl: { date: string; pnl: number }[];
 }
 
+export interface TradeImportRequest {
+  csv: string;
+  preset: string;
+  mapping?: Record<string, string>;
+  assetType?: AssetType;
+  multiplier?: number;
+  dryRun: boolean;
+  skipDuplicates?: boolean;
+}
+
+export interface TradeImportPreviewRow {
+  date: string;
+  time: string | null;
+  closeDate: string | null;
+  ticker: string;
+  direction: "LONG" | "SHORT";
+  entryPrice: number;
+  exitPrice: number | null;
+  size: number;
+  pnl: number;
+  assetType: AssetType;
+  status: TradeStatus;
+  fillCount: number;
+  isDuplicate: boolean;
+}
+
+export interface TradeImportResult {
+  preview: TradeImportPreviewRow[];
+  errors: { row: number; message: string }[];
+  summary: {
+    fillCount: number;
+    tradeCount: number;
+    duplicateCount: number;
+    totalPnl: number;
+  } | null;
+  created: number;
+}
+
+export interface JournalRestoreCounts {
+  created: number;
+  duplicates: number;
+  conflicts: number;
+}
+
+export interface JournalRestoreResult {
+  dryRun: boolean;
+  summary: {
+    strategies: JournalRestoreCounts;
+    trades: JournalRestoreCounts;
+    strategyTrades: JournalRestoreCounts;
+  } | null;
+  conflicts: { type: "trade" | "strategy" | "strategyTrade"; sourceId: string; message: string }[];
+  error?: string;
+}
+
 export const DEFAULT_TRADE_FORM: TradeFormData = {
   ticker: "",
   direction: "LONG",
@@ -287,19 +287,11 @@ export default function EventCorrelation({ trades }: EventCorrelationProps) {
   useEffect(() => {
     async function fetchCalendarEvents() {
       try {
-        const res = await fetch("/calendar-data.json");
+        // Same source as the timeline and calendar page, so ingested events count
+        const res = await fetch("/api/calendar");
         if (res.ok) {
           const data = await res.json();
-          const events = (data.events || []).map((e: Record<string, unknown>, i: number) => ({
-            id: `event-${i}`,
-            date: e.date as string,
-            time: e.time as string,
-            currency: e.currency as string,
-            event: e.title as string,
-            impact: e.impact as "high" | "medium" | "low" | "holiday" | "early_close",
-            category: e.category as string,
-          }));
-          setCalendarEvents(events);
+          setCalendarEvents(data.events || []);
         }
       } catch (error) {
         console.error("Failed to fetch calendar events:", error);
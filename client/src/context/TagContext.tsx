@@ -1,6 +1,8 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
+import { DEFAULT_TAG_SECTIONS, DefaultTagSection } from "@/lib/tag-defaults";
+import { loadUserSettings, saveUserSettings } from "@/hooks/useUserSettings";
 
 // Tag and Section types
 export interface Tag {
@@ -22,80 +24,21 @@ export interface TagSettings {
   startingEquity: number;
 }
 
-// Default preset tags
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+function toTagSections(sections: DefaultTagSection[]): TagSection[] {
+  return sections.map((section, i) => ({
+    id: slugify(section.name),
+    name: section.name,
+    color: section.color,
+    order: i,
+    tags: section.tags.map((name, j) => ({ id: slugify(name), name, order: j })),
+  }));
+}
+
+// Default preset tags, shown until the server taxonomy has loaded
 const DEFAULT_TAG_SETTINGS: TagSettings = {
-  sections: [
-    {
-      id: "strategy",
-      name: "Strategy",
-      color: "blue",
-      order: 0,
-      tags: [
-        { id: "breakout", name: "Breakout", order: 0 },
-        { id: "reversal", name: "Reversal", order: 1 },
-        { id: "momentum", name: "Momentum", order: 2 },
-        { id: "scalp", name: "Scalp", order: 3 },
-        { id: "swing", name: "Swing", order: 4 },
-        { id: "gap-play", name: "Gap Play", order: 5 },
-        { id: "vwap", name: "VWAP", order: 6 },
-        { id: "support-resistance", name: "Support/Resistance", order: 7 },
-      ],
-    },
-    {
-      id: "market",
-      name: "Market Condition",
-      color: "purple",
-      order: 1,
-      tags: [
-        { id: "trending", name: "Trending", order: 0 },
-        { id: "ranging", name: "Ranging", order: 1 },
-        { id: "volatile", name: "Volatile", order: 2 },
-        { id: "low-volume", name: "Low Volume", order: 3 },
-        { id: "news-driven", name: "News Driven", order: 4 },
-        { id: "earnings", name: "Earnings", order: 5 },
-      ],
-    },
-    {
-      id: "execution",
-      name: "Execution",
-      color: "emerald",
-      order: 2,
-      tags: [
-        { id: "followed-plan", name: "Followed Plan", order: 0 },
-        { id: "target-hit", name: "Target Hit", order: 1 },
-        { id: "trailed-stop", name: "Trailed Stop", order: 2 },
-        { id: "partial-exit", name: "Partial Exit", order: 3 },
-        { id: "added-position", name: "Added Position", order: 4 },
-      ],
-    },
-    {
-      id: "mistakes",
-      name: "Mistakes",
-      color: "red",
-      order: 3,
-      tags: [
-        { id: "fomo", name: "FOMO", order: 0 },
-        { id: "revenge-trade", name: "Revenge Trade", order: 1 },
-        { id: "overtraded", name: "Overtraded", order: 2 },
-        { id: "chased", name: "Chased", order: 3 },
-        { id: "hesitated", name: "Hesitated", order: 4 },
-        { id: "early-exit", name: "Early Exit", order: 5 },
-      ],
-    },
-    {
-      id: "time",
-      name: "Time of Day",
-      color: "amber",
-      order: 4,
-      tags: [
-        { id: "pre-market", name: "Pre-Market", order: 0 },
-        { id: "market-open", name: "Market Open", order: 1 },
-        { id: "mid-day", name: "Mid-Day", order: 2 },
-        { id: "power-hour", name: "Power Hour", order: 3 },
-        { id: "after-hours", name: "After Hours", order: 4 },
-      ],
-    },
-  ],
+  sections: toTagSections(DEFAULT_TAG_SECTIONS),
   startingEquity: 0,
 };
 
@@ -164,7 +107,7 @@ interface TagContextType {
   updateTag: (sectionId: string, tagId: string, updates: Partial<Omit<Tag, "id">>) => void;
   reorderTags: (sectionId: string, tagIds: string[]) => void;
   // Settings
-  setStartingEquity: (amount: number) => void;
+  setStartingEquity: (amount: number, options?: { saved?: boolean }) => void;
   restoreDefaults: () => void;
   // Helpers
   getTagColor: (tagId: string) => { bg: string; text: string; border: string; bgHover: string };
@@ -174,35 +117,118 @@ interface TagContextType {
 
 const TagContext = createContext<TagContextType | undefined>(undefined);
 
+// Legacy localStorage entry. Its sections are migrated to the server once and
+// dropped; startingEquity stays until the account settings import reads it.
 const STORAGE_KEY = "tagSettings";
 
+// Shape returned by /api/tags and the tag section routes
+interface ApiTagSection {
+  id: string;
+  name: string;
+  color: string;
+  order: number;
+  tags: { id: string; name: string; order: number }[];
+}
+
+function fromApiSections(sections: ApiTagSection[]): TagSection[] {
+  return sections.map(({ id, name, color, order, tags }) => ({
+    id,
+    name,
+    color,
+    order,
+    tags: tags.map((tag) => ({ id: tag.id, name: tag.name, order: tag.order })),
+  }));
+}
+
+function readStoredSettings(): Partial<TagSettings> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
 export function TagProvider({ children }: { children: React.ReactNode }) {
   const [tagSettings, setTagSettings] = useState<TagSettings>(DEFAULT_TAG_SETTINGS);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const startingEquityTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Load from localStorage on mount
-  useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        setTagSettings(parsed);
-      } catch {
-        // If parsing fails, use defaults
-        setTagSettings(DEFAULT_TAG_SETTINGS);
+  const setSections = useCallback((sections: TagSection[]) => {
+    setTagSettings(prev => ({ ...prev, sections }));
+  }, []);
+
+  // Reload the taxonomy from the server (after creates, or to undo a failed optimistic update)
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tags");
+      if (response.ok) {
+        const data = await response.json();
+        setSections(fromApiSections(data.sections));
       }
+    } catch (err) {
+      console.error("Error refreshing tags:", err);
     }
-    setIsLoaded(true);
-  }, []);
+  }, [setSections]);
 
-  // Save to localStorage when settings change
+  // Load from the server on mount, migrating any localStorage taxonomy the first time
   useEffect(() => {
-    if (isLoaded) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(tagSettings));
+    const load = async () => {
+      const stored = readStoredSettings();
+
+      try {
+        const response = await fetch("/api/tags");
+        if (!response.ok) throw new Error("Failed to fetch tags");
+        const data = await response.json();
+
+        let sections: ApiTagSection[] = data.sections;
+        if (!data.initialized) {
+          const migrateResponse = await fetch("/api/tags/migrate", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sections: stored.sections ?? [] }),
+          });
+          // 409 means another tab migrated first; its taxonomy comes back either way
+          const migrated = await migrateResponse.json();
+          if (migrated.sections) sections = migrated.sections;
+        }
+
+        setSections(fromApiSections(sections));
+        if (stored.sections) {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify({ startingEquity: stored.startingEquity ?? 0 }));
+        }
+      } catch (err) {
+        console.error("Error loading tags:", err);
+      }
+    };
+
+    load();
+    // Starting equity is an account setting (see /api/settings)
+    loadUserSettings().then(settings => {
+      if (settings) {
+        setTagSettings(prev => ({ ...prev, startingEquity: settings.startingEquity }));
+      }
+    });
+  }, [setSections]);
+
+  // Send a mutation; refetch when it fails so the optimistic update is rolled back,
+  // or when it created rows whose server ids we need
+  const sync = useCallback(async (url: string, init: RequestInit, refetch = false) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update tags");
+      }
+      if (refetch) await refresh();
+    } catch (err) {
+      console.error("Error updating tags:", err);
+      await refresh();
     }
-  }, [tagSettings, isLoaded]);
+  }, [refresh]);
 
-  // Generate unique ID
+  // Temporary id for optimistic creates, replaced by the server id on refetch
   const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
   // Section management
@@ -220,7 +246,8 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
         },
       ],
     }));
-  }, []);
+    sync("/api/tags/sections", { method: "POST", body: JSON.stringify({ name, color }) }, true);
+  }, [sync]);
 
   const removeSection = useCallback((sectionId: string) => {
     setTagSettings(prev => ({
@@ -229,7 +256,8 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
         .filter(s => s.id !== sectionId)
         .map((s, i) => ({ ...s, order: i })),
     }));
-  }, []);
+    sync(`/api/tags/sections/${sectionId}`, { method: "DELETE" });
+  }, [sync]);
 
   const updateSection = useCallback((sectionId: string, updates: Partial<Omit<TagSection, "id" | "tags">>) => {
     setTagSettings(prev => ({
@@ -238,7 +266,14 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
         s.id === sectionId ? { ...s, ...updates } : s
       ),
     }));
-  }, []);
+    // Order changes go through reorderSections
+    if (updates.name !== undefined || updates.color !== undefined) {
+      sync(`/api/tags/sections/${sectionId}`, {
+        method: "PUT",
+        body: JSON.stringify({ name: updates.name, color: updates.color }),
+      });
+    }
+  }, [sync]);
 
   const reorderSections = useCallback((sectionIds: string[]) => {
     setTagSettings(prev => ({
@@ -250,7 +285,8 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
         })
         .filter((s): s is TagSection => s !== null),
     }));
-  }, []);
+    sync("/api/tags/sections", { method: "PUT", body: JSON.stringify({ sectionIds }) });
+  }, [sync]);
 
   // Tag management
   const addTag = useCallback((sectionId: string, name: string) => {
@@ -272,7 +308,8 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
           : s
       ),
     }));
-  }, []);
+    sync("/api/tags", { method: "POST", body: JSON.stringify({ sectionId, name }) }, true);
+  }, [sync]);
 
   const removeTag = useCallback((sectionId: string, tagId: string) => {
     setTagSettings(prev => ({
@@ -288,8 +325,10 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
           : s
       ),
     }));
-  }, []);
+    sync(`/api/tags/${tagId}`, { method: "DELETE" });
+  }, [sync]);
 
+  // Renames are also applied to every trade carrying the old name (server side)
   const updateTag = useCallback((sectionId: string, tagId: string, updates: Partial<Omit<Tag, "id">>) => {
     setTagSettings(prev => ({
       ...prev,
@@ -304,7 +343,10 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
           : s
       ),
     }));
-  }, []);
+    if (updates.name !== undefined) {
+      sync(`/api/tags/${tagId}`, { method: "PUT", body: JSON.stringify({ name: updates.name }) });
+    }
+  }, [sync]);
 
   const reorderTags = useCallback((sectionId: string, tagIds: string[]) => {
     setTagSettings(prev => ({
@@ -323,16 +365,25 @@ export function TagProvider({ children }: { children: React.ReactNode }) {
           : s
       ),
     }));
-  }, []);
+    sync("/api/tags", { method: "PUT", body: JSON.stringify({ sectionId, tagIds }) });
+  }, [sync]);
 
   // Settings
-  const setStartingEquity = useCallback((amount: number) => {
+  // Saved after typing pauses so each keystroke doesn't become a history entry;
+  // pass saved when the caller already sent it to /api/settings
+  const setStartingEquity = useCallback((amount: number, options?: { saved?: boolean }) => {
     setTagSettings(prev => ({ ...prev, startingEquity: amount }));
+    if (startingEquityTimerRef.current) clearTimeout(startingEquityTimerRef.current);
+    if (options?.saved) return;
+    startingEquityTimerRef.current = setTimeout(() => {
+      saveUserSettings({ startingEquity: amount });
+    }, 800);
   }, []);
 
   const restoreDefaults = useCallback(() => {
-    setTagSettings(DEFAULT_TAG_SETTINGS);
-  }, []);
+    setSections(DEFAULT_TAG_SETTINGS.sections);
+    sync("/api/tags/defaults", { method: "POST" }, true);
+  }, [setSections, sync]);
 
   // Helpers
   const getTagColor = useCallback((tagId: string): { bg: string; text: string; border: string; bgHover: string } => {
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  LOCAL_PUSH_ENDPOINT_PREFIX,
+  PUSH_ALERT_TYPES,
+  PushAlertType,
+  PushMode,
+  PushPayload,
+  PushScheduleItem,
+  urlBase64ToUint8Array,
+} from "@/lib/push";
+
+// "disabled" means the server has no push transport configured
+export type PushStatus = "loading" | "unsupported" | "disabled" | "denied" | "off" | "on";
+
+// Stand-in endpoints have no browser subscription behind them, so they're remembered here
+const LOCAL_ENDPOINT_STORAGE_KEY = "push-local-endpoint";
+
+// Schedules change in bursts (toggling several markets), so uploads wait for a pause
+const SCHEDULE_UPLOAD_DEBOUNCE_MS = 2000;
+
+const LOCAL_POLL_INTERVAL_MS = 15000;
+
+// Background alerts for this device: registers the service worker, manages
+// the push subscription and its alert types, and uploads the alert schedule
+// whenever it changes.
+export function usePushNotifications(schedule: PushScheduleItem[]) {
+  const [status, setStatus] = useState<PushStatus>("loading");
+  const [mode, setMode] = useState<PushMode | null>(null);
+  const [alertTypes, setAlertTypesState] = useState<PushAlertType[]>(PUSH_ALERT_TYPES.map((t) => t.value));
+  const [error, setError] = useState<string | null>(null);
+  const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+  const publicKeyRef = useRef<string | null>(null);
+  const endpointRef = useRef<string | null>(null);
+
+  // Register the service worker and load this device's opt-in
+  useEffect(() => {
+    const load = async () => {
+      if (!("serviceWorker" in navigator) || !("Notification" in window)) {
+        setStatus("unsupported");
+        return;
+      }
+
+      try {
+        const registration = await navigator.serviceWorker.register("/sw.js");
+        registrationRef.current = registration;
+
+        const subscription = "PushManager" in window ? await registration.pushManager.getSubscription() : null;
+        const endpoint = subscription?.endpoint ?? localStorage.getItem(LOCAL_ENDPOINT_STORAGE_KEY);
+        const response = await fetch(`/api/push/subscription${endpoint ? `?endpoint=${encodeURIComponent(endpoint)}` : ""}`);
+        if (!response.ok) throw new Error("Failed to load push settings");
+        const data = await response.json();
+
+        setMode(data.mode);
+        publicKeyRef.current = data.publicKey;
+        if (data.mode === "disabled") {
+          setStatus("disabled");
+        } else if (data.mode === "webpush" && !("PushManager" in window)) {
+          setStatus("unsupported");
+        } else if (Notification.permission === "denied") {
+          setStatus("denied");
+        } else if (data.subscription && Notification.permission === "granted") {
+          endpointRef.current = data.subscription.endpoint;
+          setAlertTypesState(data.subscription.alertTypes);
+          setStatus("on");
+        } else {
+          setStatus("off");
+        }
+      } catch (err) {
+        console.error("Failed to set up background alerts:", err);
+        setStatus("unsupported");
+      }
+    };
+
+    load();
+  }, []);
+
+  // The body POST /api/push/subscription expects for this device, subscribing if needed
+  const getSubscriptionBody = useCallback(async (subscribe: boolean): Promise<Record<string, unknown> | null> => {
+    const registration = registrationRef.current;
+    if (!registration) return null;
+
+    if (mode === "local") {
+      let endpoint = localStorage.getItem(LOCAL_ENDPOINT_STORAGE_KEY);
+      if (!endpoint && subscribe) {
+        endpoint = `${LOCAL_PUSH_ENDPOINT_PREFIX}${crypto.randomUUID()}`;
+        localStorage.setItem(LOCAL_ENDPOINT_STORAGE_KEY, endpoint);
+      }
+      return endpoint ? { endpoint } : null;
+    }
+
+    let subscription = await registration.pushManager.getSubscription();
+    if (!subscription && subscribe && publicKeyRef.current) {
+      subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKeyRef.current),
+      });
+    }
+    return subscription ? (subscription.toJSON() as Record<string, unknown>) : null;
+  }, [mode]);
+
+  const saveSubscription = useCallback(async (types: PushAlertType[], subscribe: boolean) => {
+    const body = await getSubscriptionBody(subscribe);
+    if (!body) throw new Error("This browser has no push subscription");
+
+    const response = await fetch("/api/push/subscription", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, alertTypes: types }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to save push subscription");
+
+    endpointRef.current = data.subscription.endpoint;
+    setAlertTypesState(data.subscription.alertTypes);
+  }, [getSubscriptionBody]);
+
+  // Ask for notification permission and subscribe this device
+  const enable = useCallback(async () => {
+    setError(null);
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") {
+      setStatus(permission === "denied" ? "denied" : "off");
+      return;
+    }
+
+    try {
+      await saveSubscription(alertTypes, true);
+      setStatus("on");
+    } catch (err) {
+      console.error("Failed to enable background alerts:", err);
+      setError(err instanceof Error ? err.message : "Failed to enable background alerts");
+    }
+  }, [alertTypes, saveSubscription]);
+
+  const disable = useCallback(async () => {
+    setError(null);
+    const endpoint = endpointRef.current;
+    setStatus("off");
+    endpointRef.current = null;
+
+    try {
+      if (mode === "webpush") {
+        const subscription = await registrationRef.current?.pushManager.getSubscription();
+        await subscription?.unsubscribe();
+      }
+      if (endpoint) {
+        await fetch(`/api/push/subscription?endpoint=${encodeURIComponent(endpoint)}`, { method: "DELETE" });
+      }
+    } catch (err) {
+      console.error("Failed to disable background alerts:", err);
+    }
+  }, [mode]);
+
+  const setAlertTypes = useCallback(async (types: PushAlertType[]) => {
+    setAlertTypesState(types);
+    if (status !== "on") return;
+
+    try {
+      await saveSubscription(types, false);
+    } catch (err) {
+      console.error("Failed to update alert types:", err);
+      setError(err instanceof Error ? err.message : "Failed to update alert types");
+    }
+  }, [status, saveSubscription]);
+
+  // Development stand-in: fetch queued pushes and hand them to the service worker
+  const pollLocalInbox = useCallback(async () => {
+    const endpoint = endpointRef.current;
+    if (!endpoint) return;
+
+    try {
+      const response = await fetch(`/api/push/local?endpoint=${encodeURIComponent(endpoint)}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      const worker = registrationRef.current?.active;
+      (data.payloads as PushPayload[]).forEach((payload) => worker?.postMessage({ type: "local-push", payload }));
+    } catch (err) {
+      console.error("Failed to poll local push inbox:", err);
+    }
+  }, []);
+
+  const sendTest = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/push/test", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to send test notification");
+      if (mode === "local") await pollLocalInbox();
+    } catch (err) {
+      console.error("Failed to send test notification:", err);
+      setError(err instanceof Error ? err.message : "Failed to send test notification");
+    }
+  }, [mode, pollLocalInbox]);
+
+  // Upload the schedule while enabled
+  useEffect(() => {
+    if (status !== "on") return;
+
+    const timeout = setTimeout(() => {
+      fetch("/api/push/schedule", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items: schedule }),
+      }).catch((err) => console.error("Failed to upload alert schedule:", err));
+    }, SCHEDULE_UPLOAD_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [schedule, status]);
+
+  useEffect(() => {
+    if (status !== "on" || mode !== "local") return;
+
+    const intervalId = setInterval(pollLocalInbox, LOCAL_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [status, mode, pollLocalInbox]);
+
+  return {
+    status,
+    mode,
+    alertTypes,
+    error,
+    enable,
+    disable,
+    setAlertTypes,
+    sendTest,
+  };
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  CustomAlert,
+  CustomAlertInput,
+  CustomSession,
+  CustomSessionInput,
+  TimelinePreferences,
+  TIMELINE_STORAGE_KEYS,
+} from "@/lib/timeline";
+import { CustomMarket, CustomMarketInput } from "@/lib/markets";
+
+interface UseTimelineItemsOptions {
+  // Called with preferences loaded from the server (initial load and refocus)
+  onRemotePreferences?: (preferences: TimelinePreferences) => void;
+}
+
+function readLocal<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    console.error(`Failed to read ${key}:`, e);
+    return fallback;
+  }
+}
+
+// Custom sessions, alerts, markets and preferences synced to the account.
+// localStorage stays as an instant-load cache and carries changes between tabs;
+// edits are applied optimistically and reconciled with the server response.
+export function useTimelineItems({ onRemotePreferences }: UseTimelineItemsOptions = {}) {
+  const [customSessions, setCustomSessions] = useState<CustomSession[]>([]);
+  const [customAlerts, setCustomAlerts] = useState<CustomAlert[]>([]);
+  const [customMarkets, setCustomMarkets] = useState<CustomMarket[]>([]);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const loadedRef = useRef(false);
+  const onRemotePreferencesRef = useRef(onRemotePreferences);
+  const preferencesTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    onRemotePreferencesRef.current = onRemotePreferences;
+  }, [onRemotePreferences]);
+
+  const applyServerState = useCallback((data: { sessions: CustomSession[]; alerts: CustomAlert[]; markets?: CustomMarket[]; preferences: TimelinePreferences | null }) => {
+    setCustomSessions(data.sessions);
+    setCustomAlerts(data.alerts);
+    setCustomMarkets(data.markets ?? []);
+    if (data.preferences) {
+      onRemotePreferencesRef.current?.(data.preferences);
+    }
+  }, []);
+
+  // Fetch everything from the server (also used to recover from failed writes)
+  const fetchTimelineItems = useCallback(async () => {
+    try {
+      const response = await fetch("/api/timeline");
+      if (!response.ok) return;
+      const data = await response.json();
+      if (data.initialized) {
+        applyServerState(data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch timeline items:", error);
+    }
+  }, [applyServerState]);
+
+  // Initial load: show the local cache, then replace it with the server copy.
+  // The first time an account syncs, its local items are uploaded instead.
+  useEffect(() => {
+    const load = async () => {
+      const localSessions = readLocal<CustomSession[]>(TIMELINE_STORAGE_KEYS.sessions, []);
+      const localAlerts = readLocal<CustomAlert[]>(TIMELINE_STORAGE_KEYS.alerts, []);
+      setCustomSessions(localSessions);
+      setCustomAlerts(localAlerts);
+      setCustomMarkets(readLocal<CustomMarket[]>(TIMELINE_STORAGE_KEYS.markets, []));
+
+      try {
+        const response = await fetch("/api/timeline");
+        if (!response.ok) throw new Error("Failed to fetch timeline items");
+        const data = await response.json();
+
+        if (data.initialized) {
+          applyServerState(data);
+        } else {
+          const migrateResponse = await fetch("/api/timeline", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              sessions: localSessions,
+              alerts: localAlerts,
+              preferences: readLocal<TimelinePreferences>(TIMELINE_STORAGE_KEYS.preferences, {}),
+            }),
+          });
+          // 409 means another tab synced first; its copy is returned either way
+          const migrated = await migrateResponse.json();
+          if (migrated.sessions) {
+            applyServerState(migrated);
+          }
+        }
+        loadedRef.current = true;
+      } catch (error) {
+        console.error("Failed to sync timeline items:", error);
+      }
+      setLoaded(true);
+    };
+
+    load();
+  }, [applyServerState]);
+
+  // Keep the local cache current once the initial load is done
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(TIMELINE_STORAGE_KEYS.sessions, JSON.stringify(customSessions));
+  }, [customSessions, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(TIMELINE_STORAGE_KEYS.alerts, JSON.stringify(customAlerts));
+  }, [customAlerts, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(TIMELINE_STORAGE_KEYS.markets, JSON.stringify(customMarkets));
+  }, [customMarkets, loaded]);
+
+  // Pick up changes made in other tabs (storage events) and other devices (refocus)
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (!e.newValue) return;
+      try {
+        if (e.key === TIMELINE_STORAGE_KEYS.sessions) setCustomSessions(JSON.parse(e.newValue));
+        if (e.key === TIMELINE_STORAGE_KEYS.alerts) setCustomAlerts(JSON.parse(e.newValue));
+        if (e.key === TIMELINE_STORAGE_KEYS.markets) setCustomMarkets(JSON.parse(e.newValue));
+      } catch {
+        // Ignore malformed values written by older versions
+      }
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible" && loadedRef.current) {
+        fetchTimelineItems();
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.removeEventListener("storage", handleStorage);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [fetchTimelineItems]);
+
+  // Send a create/update/delete and reconcile the optimistic local copy with the result
+  const syncItem = useCallback(
+    async <T extends { id: string; name: string }>(
+      kind: "sessions" | "alerts" | "markets",
+      setItems: React.Dispatch<React.SetStateAction<T[]>>,
+      request: { url: string; method: string; body?: unknown },
+      localId: string,
+      name: string
+    ) => {
+      const label = kind.slice(0, -1);
+      try {
+        const response = await fetch(request.url, {
+          method: request.method,
+          headers: { "Content-Type": "application/json" },
+          body: request.body ? JSON.stringify(request.body) : undefined,
+        });
+        const data = await response.json();
+        const serverItem: T | undefined = data[label];
+
+        if (response.status === 409 && serverItem) {
+          // Someone else won: show their version instead of ours. A create can
+          // lose too (a built-in market edited elsewhere), so its temporary copy goes.
+          setItems((prev) => {
+            const rest = prev.filter((item) => item.id !== localId || item.id === serverItem.id);
+            const exists = rest.some((item) => item.id === serverItem.id);
+            return exists
+              ? rest.map((item) => (item.id === serverItem.id ? serverItem : item))
+              : [...rest, serverItem];
+          });
+          setSyncNotice(`"${name}" was changed in another tab or device. Showing the latest version.`);
+          return;
+        }
+
+        if (response.status === 404) {
+          setItems((prev) => prev.filter((item) => item.id !== localId));
+          setSyncNotice(`"${name}" was deleted in another tab or device.`);
+          return;
+        }
+
+        if (!response.ok) throw new Error(data.error || `Failed to save ${label}`);
+
+        if (serverItem) {
+          // Swap the optimistic copy (and any temporary id) for the saved one
+          setItems((prev) => prev.map((item) => (item.id === localId ? serverItem : item)));
+        }
+      } catch (error) {
+        console.error(`Failed to sync ${label}:`, error);
+        setSyncNotice(`Couldn't save "${name}". Reloaded your saved ${kind}.`);
+        await fetchTimelineItems();
+      }
+    },
+    [fetchTimelineItems]
+  );
+
+  // Create (no existing item) or update a custom session
+  const saveSession = useCallback(
+    (input: CustomSessionInput, existing?: CustomSession | null) => {
+      if (existing) {
+        setCustomSessions((prev) => prev.map((s) => (s.id === existing.id ? { ...input, id: existing.id, version: existing.version } : s)));
+        syncItem("sessions", setCustomSessions, {
+          url: `/api/timeline/sessions/${existing.id}`,
+          method: "PUT",
+          body: { ...input, version: existing.version },
+        }, existing.id, input.name);
+      } else {
+        const tempId = `session-${Date.now()}`;
+        setCustomSessions((prev) => [...prev, { ...input, id: tempId }]);
+        syncItem("sessions", setCustomSessions, {
+          url: "/api/timeline/sessions",
+          method: "POST",
+          body: input,
+        }, tempId, input.name);
+      }
+    },
+    [syncItem]
+  );
+
+  const deleteSession = useCallback(
+    (session: CustomSession) => {
+      setCustomSessions((prev) => prev.filter((s) => s.id !== session.id));
+      syncItem("sessions", setCustomSessions, {
+        url: `/api/timeline/sessions/${session.id}${session.version ? `?version=${session.version}` : ""}`,
+        method: "DELETE",
+      }, session.id, session.name);
+    },
+    [syncItem]
+  );
+
+  // Create (no existing item) or update a custom alert
+  const saveAlert = useCallback(
+    (input: CustomAlertInput, existing?: CustomAlert | null) => {
+      if (existing) {
+        setCustomAlerts((prev) => prev.map((a) => (a.id === existing.id ? { ...input, id: existing.id, version: existing.version } : a)));
+        syncItem("alerts", setCustomAlerts, {
+          url: `/api/timeline/alerts/${existing.id}`,
+          method: "PUT",
+          body: { ...input, version: existing.version },
+        }, existing.id, input.name);
+      } else {
+        const tempId = `alert-${Date.now()}`;
+        setCustomAlerts((prev) => [...prev, { ...input, id: tempId }]);
+        syncItem("alerts", setCustomAlerts, {
+          url: "/api/timeline/alerts",
+          method: "POST",
+          body: input,
+        }, tempId, input.name);
+      }
+    },
+    [syncItem]
+  );
+
+  const deleteAlert = useCallback(
+    (alert: CustomAlert) => {
+      setCustomAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+      syncItem("alerts", setCustomAlerts, {
+        url: `/api/timeline/alerts/${alert.id}${alert.version ? `?version=${alert.version}` : ""}`,
+        method: "DELETE",
+      }, alert.id, alert.name);
+    },
+    [syncItem]
+  );
+
+  // Add an exchange or save edited hours for a built-in (no existing row), or update a market
+  const saveMarket = useCallback(
+    (input: CustomMarketInput, existing?: CustomMarket | null) => {
+      if (existing) {
+        setCustomMarkets((prev) => prev.map((m) => (m.id === existing.id ? { ...input, id: existing.id, version: existing.version } : m)));
+        syncItem("markets", setCustomMarkets, {
+          url: `/api/timeline/markets/${existing.id}`,
+          method: "PUT",
+          body: { ...input, version: existing.version },
+        }, existing.id, input.name);
+      } else {
+        const tempId = `market-${Date.now()}`;
+        setCustomMarkets((prev) => [...prev, { ...input, id: tempId }]);
+        syncItem("markets", setCustomMarkets, {
+          url: "/api/timeline/markets",
+          method: "POST",
+          body: input,
+        }, tempId, input.name);
+      }
+    },
+    [syncItem]
+  );
+
+  // Removes an added exchange, or resets a built-in to its default hours
+  const deleteMarket = useCallback(
+    (market: CustomMarket) => {
+      setCustomMarkets((prev) => prev.filter((m) => m.id !== market.id));
+      syncItem("markets", setCustomMarkets, {
+        url: `/api/timeline/markets/${market.id}${market.version ? `?version=${market.version}` : ""}`,
+        method: "DELETE",
+      }, market.id, market.name);
+    },
+    [syncItem]
+  );
+
+  // Debounced save of timeline preferences; ignored until the server copy has loaded
+  // so a stale local copy never overwrites preferences saved from another device
+  const savePreferences = useCallback((preferences: TimelinePreferences) => {
+    if (!loadedRef.current) return;
+    if (preferencesTimerRef.current) clearTimeout(preferencesTimerRef.current);
+    preferencesTimerRef.current = setTimeout(() => {
+      fetch("/api/timeline/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preferences }),
+      }).catch((error) => console.error("Failed to save timeline preferences:", error));
+    }, 1000);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (preferencesTimerRef.current) clearTimeout(preferencesTimerRef.current);
+    };
+  }, []);
+
+  return {
+    customSessions,
+    customAlerts,
+    customMarkets,
+    loaded,
+    syncNotice,
+    dismissSyncNotice: () => setSyncNotice(null),
+    fetchTimelineItems,
+    saveSession,
+    deleteSession,
+    saveAlert,
+    deleteAlert,
+    saveMarket,
+    deleteMarket,
+    savePreferences,
+  };
+}
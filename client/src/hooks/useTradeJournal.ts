@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Trade, TradeStats, TradeFormData } from "@/components/TradeJournal/types";
+import { Trade, TradeStats, TradeFormData, TradeImportRequest, TradeImportResult, JournalRestoreResult } from "@/components/TradeJournal/types";
 
 export function useTradeJournal() {
   const [trades, setTrades] = useState<Trade[]>([]);
@@ -212,6 +212,62 @@ export function useTradeJournal() {
     [fetchStats, statsPeriod]
   );
 
+  // Preview (dryRun) or commit a broker CSV import
+  const importTrades = useCallback(
+    async (payload: TradeImportRequest): Promise<TradeImportResult | null> => {
+      try {
+        const response = await fetch("/api/trades/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          return { preview: [], errors: [{ row: 0, message: data.error || "Import failed" }], summary: null, created: 0 };
+        }
+
+        if (data.created > 0) {
+          await fetchTrades();
+          fetchStats(statsPeriod);
+        }
+        return data;
+      } catch (error) {
+        console.error("Failed to import trades:", error);
+        return null;
+      }
+    },
+    [fetchTrades, fetchStats, statsPeriod]
+  );
+
+  // Preview (dryRun) or apply a JSON journal backup
+  const restoreJournal = useCallback(
+    async (bundle: unknown, dryRun: boolean): Promise<JournalRestoreResult | null> => {
+      try {
+        const response = await fetch(`/api/trades/restore?dryRun=${dryRun}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(bundle),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          return { dryRun, summary: null, conflicts: [], error: data.error || "Restore failed" };
+        }
+
+        if (!dryRun) {
+          await fetchTrades();
+          fetchStats(statsPeriod);
+        }
+        return data;
+      } catch (error) {
+        console.error("Failed to restore journal:", error);
+        return null;
+      }
+    },
+    [fetchTrades, fetchStats, statsPeriod]
+  );
+
   // Get trades by date (from local state)
   const getTradesByDate = useCallback(
     (date: string): Trade[] => {
@@ -350,6 +406,8 @@ export function useTradeJournal() {
     updateTrade,
     deleteTrade,
     closeTrade,
+    importTrades,
+    restoreJournal,
     fetchTradesForDate,
     changeStatsPeriod,
 
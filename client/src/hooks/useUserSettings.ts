@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  DEFAULT_USER_SETTINGS,
+  UserSettings,
+  UserSettingsHistoryEntry,
+  UserSettingsUpdate,
+} from "@/lib/user-settings";
+
+// Cache of the last server copy, so pages render saved values before the fetch returns
+const CACHE_KEY = "userSettings";
+
+// Shared by every caller (TagContext and the trading page) so the
+// localStorage import only runs once per page load
+let settingsPromise: Promise<UserSettings | null> | null = null;
+
+function readJson<T>(key: string): T | null {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Settings kept in localStorage before they moved to the account
+function readLegacySettings(): UserSettingsUpdate {
+  const update: UserSettingsUpdate = {};
+  const goals = readJson<{ yearlyPnlGoal?: number; startingEquity?: number }>("tradingGoals");
+  const consistency = readJson<Partial<UserSettings>>("consistencySettings");
+  const metrics = readJson<string[]>("tradingMetrics");
+  const tagSettings = readJson<{ startingEquity?: number }>("tagSettings");
+
+  if (goals?.yearlyPnlGoal) update.yearlyPnlGoal = goals.yearlyPnlGoal;
+  // The settings modal value is the one the equity curve used
+  const startingEquity = tagSettings?.startingEquity || goals?.startingEquity;
+  if (startingEquity) update.startingEquity = startingEquity;
+  if (consistency) {
+    for (const key of ["winRateTarget", "profitFactorTarget", "maxDrawdownLimit", "riskRewardTarget"] as const) {
+      if (typeof consistency[key] === "number") update[key] = consistency[key];
+    }
+  }
+  if (Array.isArray(metrics)) update.keyMetrics = metrics;
+
+  return update;
+}
+
+function readCachedSettings(): UserSettings {
+  if (typeof window === "undefined") return DEFAULT_USER_SETTINGS;
+  const cached = readJson<UserSettings>(CACHE_KEY);
+  if (cached) return { ...DEFAULT_USER_SETTINGS, ...cached };
+  const legacy = readLegacySettings();
+  return { ...DEFAULT_USER_SETTINGS, ...legacy, monthlyPnlGoal: (legacy.yearlyPnlGoal ?? 0) / 12 };
+}
+
+function cacheSettings(settings: UserSettings) {
+  localStorage.setItem(CACHE_KEY, JSON.stringify(settings));
+  settingsPromise = Promise.resolve(settings);
+}
+
+// Fetch the account's settings, importing localStorage values on first use
+export function loadUserSettings(): Promise<UserSettings | null> {
+  if (!settingsPromise) {
+    settingsPromise = (async () => {
+      try {
+        const response = await fetch("/api/settings");
+        if (!response.ok) throw new Error("Failed to fetch settings");
+        const data = await response.json();
+
+        let settings: UserSettings = data.settings;
+        if (!data.initialized) {
+          const importResponse = await fetch("/api/settings", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(readLegacySettings()),
+          });
+          // 409 means another tab imported first; its copy is returned either way
+          const imported = await importResponse.json();
+          if (imported.settings) settings = imported.settings;
+        }
+
+        cacheSettings(settings);
+        return settings;
+      } catch (error) {
+        console.error("Failed to load settings:", error);
+        settingsPromise = null;
+        return null;
+      }
+    })();
+  }
+  return settingsPromise;
+}
+
+export async function saveUserSettings(update: UserSettingsUpdate): Promise<UserSettings | null> {
+  try {
+    const response = await fetch("/api/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to save settings");
+    cacheSettings(data.settings);
+    return data.settings;
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+    return null;
+  }
+}
+
+export function useUserSettings() {
+  const [settings, setSettings] = useState<UserSettings>(readCachedSettings);
+  const [loaded, setLoaded] = useState(false);
+  const [history, setHistory] = useState<UserSettingsHistoryEntry[]>([]);
+
+  useEffect(() => {
+    loadUserSettings().then((loadedSettings) => {
+      if (loadedSettings) setSettings(loadedSettings);
+      setLoaded(true);
+    });
+  }, []);
+
+  // Apply optimistically; on failure fall back to the last saved copy
+  const updateSettings = useCallback(async (update: UserSettingsUpdate) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...update };
+      return { ...next, monthlyPnlGoal: next.yearlyPnlGoal / 12 };
+    });
+
+    const saved = await saveUserSettings(update);
+    if (saved) {
+      setSettings(saved);
+    } else {
+      settingsPromise = null;
+      const current = await loadUserSettings();
+      if (current) setSettings(current);
+    }
+    return saved;
+  }, []);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch("/api/settings/history");
+      const data = await response.json();
+      if (data.history) {
+        setHistory(data.history);
+      }
+    } catch (error) {
+      console.error("Failed to fetch settings history:", error);
+    }
+  }, []);
+
+  return {
+    settings,
+    loaded,
+    history,
+    updateSettings,
+    fetchHistory,
+  };
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { DEFAULT_LEAD_TIMES, WatchedEvent, WatchScope, findWatch } from "@/lib/watchlist";
+
+// Event fields needed to star a release or its series
+export interface WatchableEvent {
+  id: string;
+  title: string;
+  date: string;
+}
+
+// Starred events and series. Edits are applied optimistically and the list is
+// reloaded from the server if a write fails.
+export function useWatchlist() {
+  const [watchlist, setWatchlist] = useState<WatchedEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchWatchlist = useCallback(async () => {
+    try {
+      const response = await fetch("/api/watchlist");
+      if (!response.ok) return;
+      const data = await response.json();
+      if (data.watchlist) {
+        setWatchlist(data.watchlist);
+      }
+    } catch (error) {
+      console.error("Failed to fetch watchlist:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Star or unstar a release (scope "event") or every release with its title (scope "series")
+  const toggleWatch = useCallback(
+    async (event: WatchableEvent, scope: WatchScope) => {
+      const existing = watchlist.find((w) =>
+        w.scope === scope && (scope === "event" ? w.eventId === event.id : w.title === event.title)
+      );
+
+      try {
+        if (existing) {
+          setWatchlist((prev) => prev.filter((w) => w.id !== existing.id));
+          const response = await fetch(`/api/watchlist/${existing.id}`, { method: "DELETE" });
+          if (!response.ok && response.status !== 404) throw new Error("Failed to unstar event");
+          return;
+        }
+
+        // A new series watch keeps the lead times already set on the release
+        const current = findWatch(event, watchlist);
+        const tempId = `watch-${Date.now()}`;
+        const input = {
+          scope,
+          eventId: scope === "event" ? event.id : null,
+          title: event.title,
+          date: scope === "event" ? event.date : null,
+          ...(current ? { leadTimes: current.leadTimes, sound: current.sound } : {}),
+        };
+        setWatchlist((prev) => [...prev, { leadTimes: DEFAULT_LEAD_TIMES, sound: "bell", ...input, id: tempId }]);
+
+        const response = await fetch("/api/watchlist", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to star event");
+
+        setWatchlist((prev) => {
+          const withoutTemp = prev.filter((w) => w.id !== tempId && w.id !== data.watch.id);
+          return [...withoutTemp, data.watch];
+        });
+      } catch (error) {
+        console.error("Failed to update watchlist:", error);
+        await fetchWatchlist();
+      }
+    },
+    [watchlist, fetchWatchlist]
+  );
+
+  const updateWatch = useCallback(
+    async (id: string, changes: { leadTimes?: number[]; sound?: string }) => {
+      setWatchlist((prev) => prev.map((w) => (w.id === id ? { ...w, ...changes } : w)));
+      try {
+        const response = await fetch(`/api/watchlist/${id}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to update watch");
+        setWatchlist((prev) => prev.map((w) => (w.id === id ? data.watch : w)));
+      } catch (error) {
+        console.error("Failed to update watch:", error);
+        await fetchWatchlist();
+      }
+    },
+    [fetchWatchlist]
+  );
+
+  const removeWatch = useCallback(
+    async (id: string) => {
+      setWatchlist((prev) => prev.filter((w) => w.id !== id));
+      try {
+        const response = await fetch(`/api/watchlist/${id}`, { method: "DELETE" });
+        if (!response.ok && response.status !== 404) throw new Error("Failed to unstar event");
+      } catch (error) {
+        console.error("Failed to remove watch:", error);
+        await fetchWatchlist();
+      }
+    },
+    [fetchWatchlist]
+  );
+
+  // Initial fetch
+  useEffect(() => {
+    fetchWatchlist();
+  }, [fetchWatchlist]);
+
+  return {
+    watchlist,
+    loading,
+    toggleWatch,
+    updateWatch,
+    removeWatch,
+  };
+}
@@ -0,0 +1,86 @@
+// Evaluation of event-anchored custom alerts against /api/calendar events,
+// shared by the timeline's alert effect, its markers and the push schedule.
+// Kept free of server imports.
+
+import { CustomAlert, EventAlertRule } from "@/lib/timeline";
+import { EventTiming, getEventInstant } from "@/lib/event-time";
+import { describeLeadTime } from "@/lib/watchlist";
+
+export interface RuleEvent extends EventTiming {
+  id: string;
+  title: string;
+  impact: string;
+  category: string;
+  currency?: string;
+}
+
+// One firing of an event alert. Releases sharing a timestamp (CPI headline
+// and core, say) fire a single alert naming them all.
+export interface EventAlertOccurrence {
+  key: string; // `${alertId}|${releaseInstant}`, stable across reloads
+  fireAt: Date;
+  releaseAt: Date;
+  events: RuleEvent[];
+}
+
+export function matchesEventRule(rule: EventAlertRule, event: RuleEvent): boolean {
+  if (rule.impacts.length > 0 && !rule.impacts.includes(event.impact)) return false;
+  if (rule.currencies.length > 0 && !rule.currencies.includes(event.currency || "USD")) return false;
+  if (rule.category && event.category !== rule.category) return false;
+  if (rule.titleMatch && !event.title.toLowerCase().includes(rule.titleMatch.toLowerCase())) return false;
+  return true;
+}
+
+// Firings of an event alert between from (exclusive) and to (inclusive).
+// All-day and TBD events have no release time, so they never fire.
+export function getEventAlertOccurrences(alert: CustomAlert, events: RuleEvent[], from: Date, to: Date): EventAlertOccurrence[] {
+  const rule = alert.eventRule;
+  if (!rule) return [];
+
+  const byRelease = new Map<number, RuleEvent[]>();
+  for (const event of events) {
+    if (!matchesEventRule(rule, event)) continue;
+    const instant = getEventInstant(event);
+    if (!instant) continue;
+
+    const fireAt = instant.getTime() - rule.offsetMinutes * 60000;
+    if (fireAt <= from.getTime() || fireAt > to.getTime()) continue;
+
+    const group = byRelease.get(instant.getTime()) ?? [];
+    // The same release can arrive from two sources; keep one per title
+    if (!group.some((e) => e.title === event.title)) group.push(event);
+    byRelease.set(instant.getTime(), group);
+  }
+
+  return Array.from(byRelease.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([release, grouped]) => ({
+      key: `${alert.id}|${new Date(release).toISOString()}`,
+      fireAt: new Date(release - rule.offsetMinutes * 60000),
+      releaseAt: new Date(release),
+      events: grouped,
+    }));
+}
+
+function joinTitles(events: RuleEvent[]): string {
+  const titles = events.map((e) => e.title);
+  if (titles.length <= 2) return titles.join(" and ");
+  return `${titles[0]} and ${titles.length - 1} more`;
+}
+
+// Spoken and notification text, e.g. "CPI m/m and Core CPI m/m in 15 minutes"
+export function describeEventAlertOccurrence(rule: EventAlertRule, occurrence: EventAlertOccurrence): string {
+  return describeLeadTime(joinTitles(occurrence.events), rule.offsetMinutes);
+}
+
+// Summary for lists and tooltips, e.g. "15 min before high-impact USD events"
+export function describeEventRule(rule: EventAlertRule, categoryLabel: (category: string) => string = (c) => c.replace(/_/g, " ")): string {
+  const when = rule.offsetMinutes === 0 ? "At release of" : `${rule.offsetMinutes} min before`;
+  const filters = [
+    rule.impacts.length > 0 ? `${rule.impacts.join("/")}-impact` : "",
+    rule.currencies.join("/"),
+    rule.category ? categoryLabel(rule.category) : "",
+  ].filter(Boolean);
+  const subject = rule.titleMatch ? `"${rule.titleMatch}" releases` : "events";
+  return `${when} ${[...filters, subject].join(" ")}`;
+}
@@ -0,0 +1,495 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Prisma, EconomicEvent as EconomicEventRow } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getEventId } from "@/lib/event-id";
+import { EventSurprise, toEventSurprise } from "@/lib/surprise";
+import { EventRevisions } from "@/lib/revisions";
+import { EVENT_TO_SERIES } from "@/lib/fred";
+import { parseCurrencyFilter } from "@/lib/currencies";
+import { EventTimeKind, SOURCE_TIME_ZONE, isEventPast, parseEventTimeKind, zonedTimeToUtc } from "@/lib/event-time";
+import { loadRevisions } from "@/lib/release-history";
+
+// Event shape returned by /api/calendar
+export interface EconomicEvent {
+  id: string;
+  date: string;                  // YYYY-MM-DD (ET)
+  time: string;                  // HH:MM (ET), "All Day" or "TBD"
+  timeKind: EventTimeKind;
+  startsAt: string | null;       // UTC release instant (ISO) for timed events
+  currency: string;
+  event: string;
+  impact: "high" | "medium" | "low" | "holiday" | "early_close";
+  forecast: string | null;
+  previous: string | null;
+  actual: string | null;
+  category: string;
+  country?: string;
+  source?: string;
+  sourceUrl?: string;
+  // Enriched metadata
+  description?: string;
+  whyItMatters?: string;
+  frequency?: string;
+  typicalReaction?: {
+    higherThanExpected?: string;
+    lowerThanExpected?: string;
+    hawkish?: string;
+    dovish?: string;
+  };
+  relatedAssets?: string[];
+  historicalVolatility?: string;
+  // Early close fields
+  isEarlyClose?: boolean;
+  closeTimeET?: string;
+  // Set once a released event with a consensus forecast has an actual
+  surprise?: EventSurprise | null;
+  // FRED observation dates behind actual/previous, when the values come from a series
+  actualPeriod?: string | null;
+  previousPeriod?: string | null;
+  // Set when the cron job has seen actual or previous change since its first print
+  revisions?: EventRevisions | null;
+}
+
+// Event as written by the scraper (scraper/index.js output)
+export interface ScrapedEvent {
+  date: string;
+  time: string;
+  title: string;
+  impact: string;
+  category: string;
+  currency?: string;
+  country?: string;
+  source?: string;
+  sourceUrl?: string;
+  fredReleaseId?: number;
+  fredSeriesId?: string;
+  forecast?: string | null;
+  actual?: string | null;
+  previous?: string | null;
+  latestValue?: string | null;
+  priorValue?: string | null;
+  latestDate?: string | null;
+  priorDate?: string | null;
+  description?: string;
+  whyItMatters?: string;
+  frequency?: string;
+  typicalReaction?: EconomicEvent["typicalReaction"];
+  relatedAssets?: string[];
+  historicalVolatility?: string;
+  isEarlyClose?: boolean;
+  closeTimeET?: string;
+}
+
+export interface CalendarFilters {
+  currency?: string | null;
+  impact?: string | null;
+  category?: string | null;
+  start?: string | null;
+  end?: string | null;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// Series part of the natural key: the FRED series when there is one, else the title
+export function getSeriesKey(event: Pick<ScrapedEvent, "fredSeriesId" | "title">): string {
+  return event.fredSeriesId || slugify(event.title);
+}
+
+function naturalKey(event: { source: string; seriesKey: string; date: string }): string {
+  return `${event.source}|${event.seriesKey}|${event.date}`;
+}
+
+const EVENT_IMPACTS = ["high", "medium", "low", "holiday", "early_close"];
+const EVENT_TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|All Day|TBD)$/;
+
+// Check the fields every scraped event must have; returns an error message or null
+export function validateScrapedEvent(event: unknown): string | null {
+  if (typeof event !== "object" || event === null) return "event must be an object";
+  const e = event as Record<string, unknown>;
+  if (typeof e.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(e.date) || isNaN(Date.parse(e.date))) {
+    return "date must be YYYY-MM-DD";
+  }
+  if (typeof e.time !== "string" || !EVENT_TIME_PATTERN.test(e.time)) return "time must be HH:MM, \"All Day\" or \"TBD\"";
+  if (typeof e.title !== "string" || !e.title.trim()) return "title is required";
+  if (typeof e.impact !== "string" || !EVENT_IMPACTS.includes(e.impact)) return `impact must be one of ${EVENT_IMPACTS.join(", ")}`;
+  if (typeof e.category !== "string" || !e.category) return "category is required";
+  if (e.source !== undefined && typeof e.source !== "string") return "source must be a string";
+  if (e.currency !== undefined && (typeof e.currency !== "string" || !/^[A-Z]{3}$/.test(e.currency))) {
+    return "currency must be a 3-letter code";
+  }
+  return null;
+}
+
+export interface InvalidCalendarRecord {
+  index: number;
+  title: string | null;
+  error: string;
+}
+
+export interface CalendarFile {
+  lastUpdated: string;
+  events: ScrapedEvent[];
+  invalid: InvalidCalendarRecord[]; // Records left out of events
+}
+
+// Validate calendar-data.json as written by the scraper. A broken envelope
+// fails the whole file; broken events are set aside individually.
+export function parseCalendarFile(data: unknown): { file: CalendarFile | null; error: string | null } {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { file: null, error: "calendar file must be an object" };
+  }
+
+  const body = data as Record<string, unknown>;
+  if (typeof body.lastUpdated !== "string" || isNaN(Date.parse(body.lastUpdated))) {
+    return { file: null, error: "lastUpdated must be an ISO timestamp" };
+  }
+  if (!Array.isArray(body.events)) {
+    return { file: null, error: "events must be an array" };
+  }
+
+  const events: ScrapedEvent[] = [];
+  const invalid: InvalidCalendarRecord[] = [];
+  body.events.forEach((event: unknown, index) => {
+    const error = validateScrapedEvent(event);
+    if (error) {
+      const title = (event as { title?: unknown } | null)?.title;
+      invalid.push({ index, title: typeof title === "string" ? title : null, error });
+    } else {
+      events.push(event as ScrapedEvent);
+    }
+  });
+
+  return { file: { lastUpdated: body.lastUpdated, events, invalid }, error: null };
+}
+
+// Read and validate public/calendar-data.json
+export async function loadCalendarFile(): Promise<{ file: CalendarFile | null; error: string | null }> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(path.join(process.cwd(), "public", "calendar-data.json"), "utf-8"));
+  } catch (error) {
+    return { file: null, error: error instanceof SyntaxError ? "calendar-data.json is not valid JSON" : "calendar-data.json could not be read" };
+  }
+  return parseCalendarFile(data);
+}
+
+function toEventData(event: ScrapedEvent) {
+  const timeKind = parseEventTimeKind(event.time);
+  return {
+    source: event.source || "unknown",
+    seriesKey: getSeriesKey(event),
+    date: event.date,
+    time: timeKind === "timed" ? event.time : timeKind === "all_day" ? "All Day" : "TBD",
+    timeKind,
+    startsAt: timeKind === "timed" ? zonedTimeToUtc(event.date, event.time, SOURCE_TIME_ZONE) : null,
+    title: event.title.trim(),
+    currency: event.currency || "USD",
+    country: event.country || "US",
+    impact: event.impact,
+    category: event.category,
+    forecast: event.forecast ?? null,
+    actual: event.actual ?? null,
+    previous: event.previous ?? null,
+    latestValue: event.latestValue ?? null,
+    priorValue: event.priorValue ?? null,
+    latestDate: event.latestDate ?? null,
+    priorDate: event.priorDate ?? null,
+    fredReleaseId: event.fredReleaseId ?? null,
+    fredSeriesId: event.fredSeriesId ?? null,
+    sourceUrl: event.sourceUrl ?? null,
+    description: event.description ?? null,
+    whyItMatters: event.whyItMatters ?? null,
+    frequency: event.frequency ?? null,
+    typicalReaction: event.typicalReaction ?? Prisma.DbNull,
+    relatedAssets: event.relatedAssets ?? [],
+    historicalVolatility: event.historicalVolatility ?? null,
+    isEarlyClose: event.isEarlyClose ?? null,
+    closeTimeET: event.closeTimeET ?? null,
+  };
+}
+
+// Shape a stored (or scraped) event for the API; ids come from getEventId, not the row
+export function toApiEvent(row: EconomicEventRow): EconomicEvent {
+  // Past events: show latestValue as Actual, priorValue as Previous
+  // Future events: show null as Actual (displays "—"), latestValue as Previous
+  // Events without FRED values keep whatever the scraper wrote
+  const hasSeriesValues = row.latestValue !== null || row.priorValue !== null;
+  const timing = {
+    date: row.date,
+    time: row.time,
+    timeKind: row.timeKind as EventTimeKind,
+    startsAt: row.startsAt?.toISOString() ?? null,
+  };
+  const isPast = isEventPast(timing);
+  const actual = hasSeriesValues ? (isPast ? row.latestValue : null) : row.actual;
+  const previous = hasSeriesValues ? (isPast ? row.priorValue : row.latestValue) : row.previous;
+
+  return {
+    id: getEventId(row),
+    ...timing,
+    currency: row.currency,
+    event: row.title,
+    impact: row.impact as EconomicEvent["impact"],
+    forecast: row.forecast,
+    previous,
+    actual,
+    category: row.category,
+    country: row.country,
+    source: row.source,
+    sourceUrl: row.sourceUrl ?? undefined,
+    description: row.description ?? undefined,
+    whyItMatters: row.whyItMatters ?? undefined,
+    frequency: row.frequency ?? undefined,
+    typicalReaction: (row.typicalReaction as EconomicEvent["typicalReaction"]) ?? undefined,
+    relatedAssets: row.relatedAssets,
+    historicalVolatility: row.historicalVolatility ?? undefined,
+    isEarlyClose: row.isEarlyClose ?? undefined,
+    closeTimeET: row.closeTimeET ?? undefined,
+    actualPeriod: hasSeriesValues && isPast ? row.latestDate : null,
+    previousPeriod: hasSeriesValues ? (isPast ? row.priorDate : row.latestDate) : null,
+  };
+}
+
+// Filters accepted by /api/calendar and the ICS feeds
+export function parseCalendarFilters(searchParams: URLSearchParams): CalendarFilters {
+  return {
+    currency: searchParams.get("currency"),
+    impact: searchParams.get("impact"),
+    category: searchParams.get("category"),
+    start: searchParams.get("start"),
+    end: searchParams.get("end"),
+  };
+}
+
+// "high" or "high,medium,holiday"; null means every impact
+export function parseImpactFilter(impact: string | null | undefined): string[] | null {
+  if (!impact || impact === "all") return null;
+  const impacts = impact.split(",").map((i) => i.trim()).filter(Boolean);
+  return impacts.length > 0 ? impacts : null;
+}
+
+export function buildCalendarWhere(filters: CalendarFilters): Prisma.EconomicEventWhereInput {
+  const where: Prisma.EconomicEventWhereInput = {};
+
+  const currencies = parseCurrencyFilter(filters.currency);
+  if (currencies) {
+    where.currency = { in: currencies };
+  }
+  const impacts = parseImpactFilter(filters.impact);
+  if (impacts) {
+    where.impact = { in: impacts };
+  }
+  if (filters.category && filters.category !== "all") {
+    where.category = filters.category;
+  }
+  if (filters.start || filters.end) {
+    where.date = {
+      ...(filters.start ? { gte: filters.start } : {}),
+      ...(filters.end ? { lte: filters.end } : {}),
+    };
+  }
+
+  return where;
+}
+
+export async function queryCalendarEvents(filters: CalendarFilters): Promise<EconomicEvent[]> {
+  const rows = await prisma.economicEvent.findMany({
+    where: buildCalendarWhere(filters),
+    orderBy: [{ date: "asc" }, { time: "asc" }],
+  });
+  return rows.map(toApiEvent);
+}
+
+// Upsert a scraper run by natural key. Full runs also remove events that
+// disappeared from a source's schedule (from the run's first date onwards).
+export async function ingestCalendarEvents(
+  events: ScrapedEvent[],
+  { mode, scrapedAt }: { mode: "full" | "data-only"; scrapedAt: Date }
+): Promise<{ created: number; updated: number; removed: number }> {
+  // Last occurrence of a natural key wins, matching the scraper's own dedupe
+  const byKey = new Map<string, ReturnType<typeof toEventData>>();
+  for (const event of events) {
+    const data = toEventData(event);
+    byKey.set(naturalKey(data), data);
+  }
+  const rows = Array.from(byKey.values());
+  if (rows.length === 0) return { created: 0, updated: 0, removed: 0 };
+
+  const sources = Array.from(new Set(rows.map((row) => row.source)));
+  const firstDate = rows.reduce((min, row) => (row.date < min ? row.date : min), rows[0].date);
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.economicEvent.findMany({
+      where: { source: { in: sources }, date: { gte: firstDate } },
+      select: { id: true, source: true, seriesKey: true, date: true },
+    });
+    const existingKeys = new Set(existing.map(naturalKey));
+
+    let created = 0;
+    for (const row of rows) {
+      if (!existingKeys.has(naturalKey(row))) created++;
+      await tx.economicEvent.upsert({
+        where: { source_seriesKey_date: { source: row.source, seriesKey: row.seriesKey, date: row.date } },
+        create: row,
+        update: row,
+      });
+    }
+
+    let removed = 0;
+    if (mode === "full") {
+      const staleIds = existing.filter((e) => !byKey.has(naturalKey(e))).map((e) => e.id);
+      if (staleIds.length > 0) {
+        removed = (await tx.economicEvent.deleteMany({ where: { id: { in: staleIds } } })).count;
+      }
+    }
+
+    await tx.calendarIngestRun.create({
+      data: { mode, scrapedAt, eventCount: rows.length, created, updated: rows.length - created, removed },
+    });
+
+    return { created, updated: rows.length - created, removed };
+  }, { timeout: 120000 });
+}
+
+// Fallback for deployments that haven't received a scraper upload yet
+export async function readCalendarFile(filters: CalendarFilters = {}): Promise<{ lastUpdated: string; events: EconomicEvent[] } | null> {
+  try {
+    const { file, error } = await loadCalendarFile();
+    if (!file) {
+      console.log("Could not load calendar-data.json:", error);
+      return null;
+    }
+    if (file.invalid.length > 0) {
+      console.warn(`Skipping ${file.invalid.length} invalid events in calendar-data.json`);
+    }
+
+    const currencies = parseCurrencyFilter(filters.currency);
+    const impacts = parseImpactFilter(filters.impact);
+
+    const events = file.events
+      .map((event) => {
+        const now = new Date();
+        return toApiEvent({
+          ...toEventData(event),
+          id: "",
+          typicalReaction: event.typicalReaction ?? null,
+          createdAt: now,
+          updatedAt: now,
+        });
+      })
+      .filter((e) =>
+        (!currencies || currencies.includes(e.currency)) &&
+        (!impacts || impacts.includes(e.impact)) &&
+        (!filters.category || filters.category === "all" || e.category === filters.category) &&
+        (!filters.start || e.date >= filters.start) &&
+        (!filters.end || e.date <= filters.end)
+      );
+
+    return {
+      lastUpdated: file.lastUpdated,
+      events,
+    };
+  } catch (error) {
+    console.log("Could not load calendar-data.json", error);
+    return null;
+  }
+}
+
+// Fill in consensus forecasts (and surprises once released) from EventForecast
+async function attachForecasts(events: EconomicEvent[]): Promise<EconomicEvent[]> {
+  if (events.length === 0) return events;
+
+  try {
+    const dates = events.map((e) => e.date).sort();
+    const rows = await prisma.eventForecast.findMany({
+      where: { date: { gte: dates[0], lte: dates[dates.length - 1] } },
+    });
+    if (rows.length === 0) return events;
+
+    const byKey = new Map(rows.map((row) => [`${row.event}|${row.date}`, row]));
+    return events.map((event) => {
+      const row = byKey.get(`${event.event}|${event.date}`);
+      return row ? { ...event, forecast: row.forecast, surprise: toEventSurprise(row) } : event;
+    });
+  } catch (error) {
+    console.error("Error loading event forecasts:", error);
+    return events;
+  }
+}
+
+// Mark actual/previous values that have been revised since they were first published
+async function attachRevisions(events: EconomicEvent[]): Promise<EconomicEvent[]> {
+  const keys = events.flatMap((event) => {
+    const series = EVENT_TO_SERIES[event.event];
+    if (!series) return [];
+    return [event.actualPeriod, event.previousPeriod]
+      .filter((period): period is string => !!period)
+      .map((releaseDate) => ({ seriesId: series.seriesId, releaseDate }));
+  });
+  if (keys.length === 0) return events;
+
+  try {
+    const revisions = await loadRevisions(keys);
+    if (revisions.size === 0) return events;
+
+    return events.map((event) => {
+      const seriesId = EVENT_TO_SERIES[event.event]?.seriesId;
+      const actual = event.actualPeriod ? revisions.get(`${seriesId}|${event.actualPeriod}`) : undefined;
+      const previous = event.previousPeriod ? revisions.get(`${seriesId}|${event.previousPeriod}`) : undefined;
+      return actual || previous ? { ...event, revisions: { actual, previous } } : event;
+    });
+  } catch (error) {
+    console.error("Error loading release revisions:", error);
+    return events;
+  }
+}
+
+export interface CalendarData {
+  lastUpdated: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  events: EconomicEvent[];
+}
+
+// Load events from the database; until the scraper has uploaded anything
+// (or if the database is unreachable) fall back to calendar-data.json
+export async function loadCalendarData(filters: CalendarFilters): Promise<CalendarData | null> {
+  try {
+    const [latestRun, range] = await Promise.all([
+      prisma.calendarIngestRun.findFirst({ orderBy: { receivedAt: "desc" } }),
+      prisma.economicEvent.aggregate({ _min: { date: true }, _max: { date: true }, _count: true }),
+    ]);
+
+    if (range._count > 0) {
+      return {
+        lastUpdated: (latestRun?.scrapedAt ?? new Date()).toISOString(),
+        dateRange: {
+          start: range._min.date!,
+          end: range._max.date!,
+        },
+        events: await attachRevisions(await attachForecasts(await queryCalendarEvents(filters))),
+      };
+    }
+  } catch (error) {
+    console.error("Error loading calendar events from database:", error);
+  }
+
+  const file = await readCalendarFile(filters);
+  if (!file) return null;
+
+  const dates = file.events.map(e => e.date).sort();
+  const today = new Date().toISOString().split("T")[0];
+  return {
+    lastUpdated: file.lastUpdated,
+    dateRange: {
+      start: dates[0] || today,
+      end: dates[dates.length - 1] || today,
+    },
+    events: await attachRevisions(await attachForecasts(file.events)),
+  };
+}
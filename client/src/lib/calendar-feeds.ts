@@ -0,0 +1,86 @@
+import { randomBytes } from "crypto";
+import { CalendarFeed } from "@prisma/client";
+import { CalendarFilters } from "@/lib/calendar-events";
+import { CURRENCY_CODES } from "@/lib/currencies";
+
+// Personal ICS feeds: a saved filter preset behind an unguessable URL token
+
+export interface CalendarFeedInput {
+  name: string;
+  currency: string | null;
+  impact: string | null;
+  category: string | null;
+}
+
+const IMPACTS = ["high", "medium", "low", "holiday", "early_close"];
+
+export function createFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function optionalFilter(value: unknown): string | null {
+  return typeof value === "string" && value.trim() && value !== "all" ? value.trim() : null;
+}
+
+export function parseCalendarFeedInput(data: unknown): { feed: CalendarFeedInput | null; error: string | null } {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { feed: null, error: "Feed must be an object" };
+  }
+
+  const body = data as Record<string, unknown>;
+  const name = optionalFilter(body.name) ?? "Economic Calendar";
+
+  // Accept "high,medium" or ["high", "medium"]
+  const impactList = Array.isArray(body.impact)
+    ? body.impact
+    : typeof body.impact === "string" && body.impact !== "all"
+      ? body.impact.split(",")
+      : [];
+  const impacts = Array.from(new Set(impactList.map((i) => String(i).trim()).filter(Boolean)));
+  if (impacts.some((i) => !IMPACTS.includes(i))) {
+    return { feed: null, error: `impact must be one of ${IMPACTS.join(", ")}` };
+  }
+
+  // Same for currencies: "EUR,USD" or ["EUR", "USD"]
+  const currencyList = Array.isArray(body.currency)
+    ? body.currency
+    : typeof body.currency === "string" && body.currency !== "all"
+      ? body.currency.split(",")
+      : [];
+  const currencies = Array.from(new Set(currencyList.map((c) => String(c).trim().toUpperCase()).filter(Boolean)));
+  if (currencies.some((c) => !CURRENCY_CODES.includes(c))) {
+    return { feed: null, error: `currency must be one of ${CURRENCY_CODES.join(", ")}` };
+  }
+
+  return {
+    feed: {
+      name: name.slice(0, 100),
+      currency: currencies.length > 0 ? currencies.join(",") : null,
+      impact: impacts.length > 0 ? impacts.join(",") : null,
+      category: optionalFilter(body.category),
+    },
+    error: null,
+  };
+}
+
+export function getFeedFilters(feed: CalendarFeed): CalendarFilters {
+  return {
+    currency: feed.currency,
+    impact: feed.impact,
+    category: feed.category,
+  };
+}
+
+export function serializeCalendarFeed(feed: CalendarFeed) {
+  return {
+    id: feed.id,
+    name: feed.name,
+    token: feed.token,
+    path: `/api/calendar/ics/${feed.token}`,
+    currency: feed.currency,
+    impact: feed.impact,
+    category: feed.category,
+    lastAccessedAt: feed.lastAccessedAt?.toISOString() ?? null,
+    createdAt: feed.createdAt.toISOString(),
+  };
+}
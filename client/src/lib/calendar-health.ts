@@ -0,0 +1,151 @@
+import { prisma } from "@/lib/db";
+import { InvalidCalendarRecord, loadCalendarFile } from "@/lib/calendar-events";
+import { SOURCE_TIME_ZONE, getZonedParts } from "@/lib/event-time";
+
+// Calendar data checks reported by /api/health. The scraper runs a full
+// scrape daily and refreshes data every 5 minutes in market hours, so data
+// older than a day and a half means the GitHub Action has stopped.
+
+export const CALENDAR_STALE_HOURS = 36;
+
+// Enough to identify a bad scraper run without returning the whole file
+const MAX_INVALID_RECORDS = 20;
+
+export interface CalendarFileHealth {
+  lastUpdated: string | null;
+  ageHours: number | null;
+  eventCount: number;
+  sourceCounts: Record<string, number>;
+  invalidCount: number;
+  invalidRecords: InvalidCalendarRecord[];
+  error?: string;
+}
+
+export interface CalendarDatabaseHealth {
+  lastIngestedAt: string | null; // scrapedAt of the latest upload
+  ageHours: number | null;
+  eventCount: number;
+  sourceCounts: Record<string, number>;
+}
+
+export interface CalendarHealth {
+  status: "ok" | "degraded";
+  reasons: string[];
+  servedFrom: "database" | "file";
+  upcomingEventCount: number; // Events dated today (ET) or later in the served data
+  file: CalendarFileHealth;
+  database: CalendarDatabaseHealth | null; // null when the database is unreachable
+}
+
+function ageInHours(timestamp: Date, now: Date): number {
+  return Math.round(((now.getTime() - timestamp.getTime()) / (60 * 60 * 1000)) * 10) / 10;
+}
+
+function countBySource(events: { source?: string }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const event of events) {
+    const source = event.source || "unknown";
+    counts[source] = (counts[source] || 0) + 1;
+  }
+  return counts;
+}
+
+async function checkCalendarFile(now: Date, today: string): Promise<{ health: CalendarFileHealth; upcoming: number }> {
+  const { file, error } = await loadCalendarFile();
+  if (!file) {
+    return {
+      health: {
+        lastUpdated: null,
+        ageHours: null,
+        eventCount: 0,
+        sourceCounts: {},
+        invalidCount: 0,
+        invalidRecords: [],
+        error: error || "calendar-data.json could not be loaded",
+      },
+      upcoming: 0,
+    };
+  }
+
+  return {
+    health: {
+      lastUpdated: file.lastUpdated,
+      ageHours: ageInHours(new Date(file.lastUpdated), now),
+      eventCount: file.events.length,
+      sourceCounts: countBySource(file.events),
+      invalidCount: file.invalid.length,
+      invalidRecords: file.invalid.slice(0, MAX_INVALID_RECORDS),
+    },
+    upcoming: file.events.filter((e) => e.date >= today).length,
+  };
+}
+
+async function checkCalendarDatabase(now: Date, today: string): Promise<{ health: CalendarDatabaseHealth; upcoming: number } | null> {
+  try {
+    const [latestRun, bySource, upcoming] = await Promise.all([
+      prisma.calendarIngestRun.findFirst({ orderBy: { receivedAt: "desc" } }),
+      prisma.economicEvent.groupBy({ by: ["source"], _count: { _all: true } }),
+      prisma.economicEvent.count({ where: { date: { gte: today } } }),
+    ]);
+
+    const sourceCounts = Object.fromEntries(bySource.map((row) => [row.source, row._count._all]));
+    return {
+      health: {
+        lastIngestedAt: latestRun?.scrapedAt.toISOString() ?? null,
+        ageHours: latestRun ? ageInHours(latestRun.scrapedAt, now) : null,
+        eventCount: bySource.reduce((sum, row) => sum + row._count._all, 0),
+        sourceCounts,
+      },
+      upcoming,
+    };
+  } catch (error) {
+    console.error("Error checking calendar events in database:", error);
+    return null;
+  }
+}
+
+export async function getCalendarHealth(now: Date = new Date()): Promise<CalendarHealth> {
+  const today = getZonedParts(now, SOURCE_TIME_ZONE).date;
+  const [{ health: file, upcoming: upcomingInFile }, database] = await Promise.all([
+    checkCalendarFile(now, today),
+    checkCalendarDatabase(now, today),
+  ]);
+
+  // Same rule as loadCalendarData: the database once the scraper has uploaded to it
+  const servedFrom = database && database.health.eventCount > 0 ? "database" : "file";
+  const reasons: string[] = [];
+
+  if (file.error) {
+    reasons.push(`Calendar file: ${file.error}`);
+  } else {
+    if (file.ageHours !== null && file.ageHours > CALENDAR_STALE_HOURS) {
+      reasons.push(`calendar-data.json was last updated ${Math.floor(file.ageHours)} hours ago`);
+    }
+    if (file.invalidCount > 0) {
+      reasons.push(`calendar-data.json has ${file.invalidCount} invalid event${file.invalidCount === 1 ? "" : "s"}`);
+    }
+  }
+
+  if (servedFrom === "database" && database) {
+    const { ageHours } = database.health;
+    if (ageHours === null) {
+      reasons.push("No calendar upload has been recorded");
+    } else if (ageHours > CALENDAR_STALE_HOURS) {
+      reasons.push(`Last calendar upload was ${Math.floor(ageHours)} hours ago`);
+    }
+  }
+
+  const upcomingEventCount = servedFrom === "database" && database ? database.upcoming : upcomingInFile;
+  if (upcomingEventCount === 0) {
+    reasons.push("No upcoming calendar events");
+  }
+
+  return {
+    status: reasons.length > 0 ? "degraded" : "ok",
+    reasons,
+    servedFrom,
+    upcomingEventCount,
+    file,
+    database: database?.health ?? null,
+  };
+}
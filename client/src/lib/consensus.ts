@@ -0,0 +1,155 @@
+import { auth } from "@clerk/nextjs/server";
+import { EventForecast as EventForecastRow } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { loadCalendarData } from "@/lib/calendar-events";
+import { isEventPast } from "@/lib/event-time";
+import {
+  EventForecast,
+  ForecastInput,
+  computeSurprise,
+  parseDisplayValue,
+  toEventSurprise,
+} from "@/lib/surprise";
+
+// Actuals normally arrive within a day; after this long a forecast stops being retried
+const CAPTURE_WINDOW_DAYS = 30;
+
+// Consensus forecasts are shared by every account, so writes are limited to
+// FORECAST_EDITOR_USER_IDS (comma-separated Clerk IDs) or scripts holding the
+// ingest secret. Without an editor list any signed-in user may edit outside production.
+export async function getForecastEditor(request: Request): Promise<{ allowed: boolean; userId: string | null }> {
+  const secret = process.env.CALENDAR_INGEST_SECRET || process.env.CRON_SECRET;
+  if (secret && request.headers.get("authorization") === `Bearer ${secret}`) {
+    return { allowed: true, userId: null };
+  }
+
+  const { userId } = await auth();
+  if (!userId) return { allowed: false, userId: null };
+
+  const editors = (process.env.FORECAST_EDITOR_USER_IDS || "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (editors.length === 0) {
+    return { allowed: process.env.NODE_ENV !== "production", userId };
+  }
+  return { allowed: editors.includes(userId), userId };
+}
+
+export function serializeForecast(row: EventForecastRow): EventForecast {
+  return {
+    id: row.id,
+    event: row.event,
+    date: row.date,
+    forecast: row.forecast,
+    actual: row.actual,
+    source: row.source,
+    surprise: toEventSurprise(row),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// Upsert by (event, date). Changing the forecast or actual clears the stored
+// surprise so captureReleasedActuals recomputes it.
+export async function upsertForecasts(
+  forecasts: ForecastInput[],
+  { source, enteredBy }: { source: "manual" | "csv"; enteredBy: string | null }
+): Promise<{ created: number; updated: number }> {
+  if (forecasts.length === 0) return { created: 0, updated: 0 };
+
+  const existing = await prisma.eventForecast.findMany({
+    where: { OR: forecasts.map(({ event, date }) => ({ event, date })) },
+    select: { event: true, date: true, forecastValue: true, actualValue: true },
+  });
+  const existingByKey = new Map(existing.map((row) => [`${row.event}|${row.date}`, row]));
+
+  await prisma.$transaction(
+    forecasts.map((input) => {
+      const forecastValue = parseDisplayValue(input.forecast)!;
+      // A captured actual is kept unless the input backfills one
+      const actualValue = input.actual ? parseDisplayValue(input.actual) : undefined;
+      const actual = input.actual ? { actual: input.actual, actualValue } : {};
+
+      const stored = existingByKey.get(`${input.event}|${input.date}`);
+      const changed = !stored || stored.forecastValue !== forecastValue ||
+        (actualValue !== undefined && stored.actualValue !== actualValue);
+      const values = {
+        forecast: input.forecast,
+        forecastValue,
+        ...(changed ? { surpriseAbs: null, surprisePct: null, surpriseStd: null } : {}),
+        source,
+        enteredBy,
+      };
+      return prisma.eventForecast.upsert({
+        where: { event_date: { event: input.event, date: input.date } },
+        create: { event: input.event, date: input.date, ...values, ...actual },
+        update: { ...values, ...actual },
+      });
+    })
+  );
+
+  const updated = forecasts.filter(({ event, date }) => existingByKey.has(`${event}|${date}`)).length;
+  return { created: forecasts.length - updated, updated };
+}
+
+// Record the actual and surprise of every forecast whose event has been released.
+// Oldest first, so each surprise is standardized against the ones before it.
+// Forecasts still without an actual CAPTURE_WINDOW_DAYS after release are left alone.
+export async function captureReleasedActuals(): Promise<number> {
+  const today = new Date().toISOString().split("T")[0];
+  const windowStart = new Date(Date.now() - CAPTURE_WINDOW_DAYS * 86400000).toISOString().split("T")[0];
+  const pending = await prisma.eventForecast.findMany({
+    where: {
+      surpriseAbs: null,
+      date: { lte: today },
+      OR: [{ actual: { not: null } }, { date: { gte: windowStart } }],
+    },
+    orderBy: { date: "asc" },
+  });
+  if (pending.length === 0) return 0;
+
+  // Actuals as shown on the calendar
+  const calendar = await loadCalendarData({ start: pending[0].date, end: pending[pending.length - 1].date });
+  const released = new Map(
+    (calendar?.events ?? [])
+      .filter((e) => e.actual && isEventPast(e))
+      .map((e) => [`${e.event}|${e.date}`, e.actual as string])
+  );
+
+  // Earlier surprises of every pending event, extended as rows are captured
+  const history = await prisma.eventForecast.findMany({
+    where: {
+      event: { in: [...new Set(pending.map((row) => row.event))] },
+      date: { lt: pending[pending.length - 1].date },
+      surpriseAbs: { not: null },
+    },
+    select: { event: true, date: true, surpriseAbs: true },
+  });
+  const surprisesByEvent = new Map<string, { date: string; surpriseAbs: number }[]>();
+  const addSurprise = (event: string, date: string, surpriseAbs: number) => {
+    surprisesByEvent.set(event, [...(surprisesByEvent.get(event) ?? []), { date, surpriseAbs }]);
+  };
+  for (const row of history) addSurprise(row.event, row.date, row.surpriseAbs!);
+
+  const updates = [];
+  for (const row of pending) {
+    const actual = row.actual ?? released.get(`${row.event}|${row.date}`) ?? null;
+    const actualValue = parseDisplayValue(actual);
+    if (actualValue === null) continue;
+
+    const earlier = (surprisesByEvent.get(row.event) ?? []).filter((e) => e.date < row.date);
+    const surprise = computeSurprise(actualValue, row.forecastValue, earlier.map((e) => e.surpriseAbs));
+    addSurprise(row.event, row.date, surprise.absolute);
+
+    updates.push(prisma.eventForecast.update({
+      where: { id: row.id },
+      data: {
+        actual,
+        actualValue,
+        surpriseAbs: surprise.absolute,
+        surprisePct: surprise.percent,
+        surpriseStd: surprise.standardized,
+      },
+    }));
+  }
+  if (updates.length > 0) await prisma.$transaction(updates);
+
+  return updates.length;
+}
@@ -0,0 +1,53 @@
+// Currencies covered by the calendar and the filter presets built on them,
+// shared by /api/calendar, the timeline and the calendar page. Kept free of server imports.
+
+export interface CurrencyInfo {
+  code: string;
+  country: string; // Country code the scraper writes on events
+  name: string;
+  flag: string;
+  centralBank: string;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "USD", country: "US", name: "United States", flag: "🇺🇸", centralBank: "Fed" },
+  { code: "EUR", country: "EU", name: "Euro Area", flag: "🇪🇺", centralBank: "ECB" },
+  { code: "GBP", country: "GB", name: "United Kingdom", flag: "🇬🇧", centralBank: "BoE" },
+  { code: "JPY", country: "JP", name: "Japan", flag: "🇯🇵", centralBank: "BoJ" },
+  { code: "AUD", country: "AU", name: "Australia", flag: "🇦🇺", centralBank: "RBA" },
+  { code: "CAD", country: "CA", name: "Canada", flag: "🇨🇦", centralBank: "BoC" },
+];
+
+export const CURRENCY_CODES = CURRENCIES.map((c) => c.code);
+
+export function getCurrencyFlag(code: string): string {
+  return CURRENCIES.find((c) => c.code === code)?.flag ?? "🏳️";
+}
+
+export interface CurrencyPreset {
+  id: string;
+  label: string;
+  currencies: string[];
+}
+
+// One preset per traded pair: both sides of the pair's calendar
+export const CURRENCY_PRESETS: CurrencyPreset[] = [
+  { id: "eurusd", label: "EURUSD", currencies: ["EUR", "USD"] },
+  { id: "gbpusd", label: "GBPUSD", currencies: ["GBP", "USD"] },
+  { id: "usdjpy", label: "USDJPY", currencies: ["USD", "JPY"] },
+  { id: "audusd", label: "AUDUSD", currencies: ["AUD", "USD"] },
+  { id: "usdcad", label: "USDCAD", currencies: ["USD", "CAD"] },
+];
+
+// "EUR" or "usd,eur"; null means every currency
+export function parseCurrencyFilter(currency: string | null | undefined): string[] | null {
+  if (!currency || currency.toLowerCase() === "all") return null;
+  const currencies = currency.split(",").map((c) => c.trim().toUpperCase()).filter(Boolean);
+  return currencies.length > 0 ? currencies : null;
+}
+
+// Currencies selected by a saved filter value: "All", a currency code or a preset label
+export function resolveCurrencyFilter(filter: string): string[] | null {
+  if (!filter || filter === "All") return null;
+  return CURRENCY_PRESETS.find((p) => p.label === filter)?.currencies ?? [filter];
+}
@@ -0,0 +1,36 @@
+// Deterministic calendar event ids, shared by /api/calendar and pages that
+// read calendar-data.json directly. Kept free of server imports.
+
+export interface EventIdentity {
+  source?: string | null;
+  fredReleaseId?: number | null;
+  fredSeriesId?: string | null;
+  title: string;
+  date: string;
+}
+
+// 53-bit string hash (cyrb53); plenty for a few thousand events per year
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Same event on the same day => same id, however often the scraper rewrites the data
+export function getEventId(event: EventIdentity): string {
+  const parts = [
+    event.source || "unknown",
+    event.fredReleaseId ?? "",
+    event.fredSeriesId ?? "",
+    event.title.trim().toLowerCase(),
+    event.date,
+  ];
+  return `evt_${hashString(parts.join("|"))}`;
+}
@@ -0,0 +1,169 @@
+import { EconomicEvent } from "@/lib/calendar-events";
+
+// Ranked full-text search over calendar events for /api/calendar/search.
+// Queries can end in a date phrase ("treasury auctions next month"), which
+// becomes a date range instead of a search term.
+
+export interface EventSearchResult extends EconomicEvent {
+  score: number;
+  matches: string[]; // Fields that matched at least one term
+}
+
+export interface EventSearchQuery {
+  terms: string[];
+  range: { start: string; end: string; label: string } | null;
+  today: string;
+}
+
+// Title hits matter most; description and whyItMatters are long, so they only break ties
+const FIELD_WEIGHTS = {
+  title: 5,
+  relatedAssets: 4,
+  category: 3,
+  source: 2,
+  description: 1,
+  whyItMatters: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Filler words in questions like "everything that moves gold"
+const STOP_WORDS = new Set([
+  "a", "about", "affect", "affects", "all", "an", "and", "any", "are", "event", "events", "everything",
+  "for", "in", "is", "me", "move", "moves", "of", "on", "or", "release", "releases", "show", "that",
+  "the", "to", "what", "which", "with",
+]);
+
+const DATE_PHRASES = ["today", "tomorrow", "this week", "next week", "this month", "next month"] as const;
+
+function normalizeToken(token: string): string {
+  // Crude plural folding so "auctions" finds "Auction"
+  return token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token;
+}
+
+// Hyphenated words also index joined, so "nonfarm" finds "Non-Farm"
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .flatMap((word) => (word.includes("-") ? [...word.split("-"), word.replace(/-/g, "")] : [word]))
+    .filter(Boolean)
+    .map(normalizeToken);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function dateRangeFor(phrase: (typeof DATE_PHRASES)[number], today: string): { start: string; end: string } {
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const monday = addDays(today, -((weekday + 6) % 7));
+  const [year, month] = today.split("-").map(Number);
+  const monthStart = (offset: number) => new Date(Date.UTC(year, month - 1 + offset, 1)).toISOString().split("T")[0];
+
+  switch (phrase) {
+    case "today":
+      return { start: today, end: today };
+    case "tomorrow":
+      return { start: addDays(today, 1), end: addDays(today, 1) };
+    case "this week":
+      return { start: monday, end: addDays(monday, 6) };
+    case "next week":
+      return { start: addDays(monday, 7), end: addDays(monday, 13) };
+    case "this month":
+      return { start: monthStart(0), end: addDays(monthStart(1), -1) };
+    case "next month":
+      return { start: monthStart(1), end: addDays(monthStart(2), -1) };
+  }
+}
+
+// today is YYYY-MM-DD in ET, the zone event dates are in
+export function parseSearchQuery(query: string, today: string): EventSearchQuery {
+  let text = ` ${query.toLowerCase().trim()} `;
+  let range: EventSearchQuery["range"] = null;
+
+  for (const phrase of DATE_PHRASES) {
+    if (text.includes(` ${phrase} `)) {
+      range = { ...dateRangeFor(phrase, today), label: phrase };
+      text = text.replace(` ${phrase} `, " ");
+      break;
+    }
+  }
+
+  const terms = Array.from(new Set(tokenize(text).filter((token) => !STOP_WORDS.has(token))));
+  return { terms, range, today };
+}
+
+function fieldTokens(event: EconomicEvent): Record<SearchField, string[]> {
+  return {
+    title: tokenize(event.event),
+    relatedAssets: tokenize((event.relatedAssets || []).join(" ")),
+    category: tokenize(event.category.replace(/_/g, " ")),
+    source: tokenize(event.source || ""),
+    description: tokenize(event.description || ""),
+    whyItMatters: tokenize(event.whyItMatters || ""),
+  };
+}
+
+// Best score first; among equals, upcoming releases soonest first, then past ones most recent first
+function compareResults(today: string) {
+  return (a: EventSearchResult, b: EventSearchResult): number => {
+    if (a.score !== b.score) return b.score - a.score;
+    const aUpcoming = a.date >= today;
+    if (aUpcoming !== b.date >= today) return aUpcoming ? -1 : 1;
+    const byTime = a.date.localeCompare(b.date) || a.time.localeCompare(b.time);
+    return aUpcoming ? byTime : -byTime;
+  };
+}
+
+// Whole-word hits count fully, prefix hits ("infl" -> "inflation") at half weight
+function scoreTerm(term: string, tokens: string[]): number {
+  if (tokens.includes(term)) return 1;
+  if (term.length >= 3 && tokens.some((token) => token.startsWith(term))) return 0.5;
+  return 0;
+}
+
+export function searchEvents(events: EconomicEvent[], query: EventSearchQuery, { limit = 50 }: { limit?: number } = {}): EventSearchResult[] {
+  const inRange = query.range
+    ? events.filter((e) => e.date >= query.range!.start && e.date <= query.range!.end)
+    : events;
+
+  // A date phrase on its own lists everything in the range
+  if (query.terms.length === 0) {
+    return inRange
+      .map((event) => ({ ...event, score: 0, matches: [] }))
+      .sort(compareResults(query.today))
+      .slice(0, limit);
+  }
+
+  const results: EventSearchResult[] = [];
+  for (const event of inRange) {
+    const tokens = fieldTokens(event);
+    const matches = new Set<string>();
+    let score = 0;
+    let matchedTerms = 0;
+
+    for (const term of query.terms) {
+      let termScore = 0;
+      for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+        const hit = scoreTerm(term, tokens[field]);
+        if (hit > 0) {
+          termScore += hit * FIELD_WEIGHTS[field];
+          matches.add(field);
+        }
+      }
+      if (termScore > 0) matchedTerms++;
+      score += termScore;
+    }
+
+    if (matchedTerms === 0) continue;
+
+    // Events matching every term rank above events matching some
+    score *= matchedTerms / query.terms.length;
+    results.push({ ...event, score: Math.round(score * 100) / 100, matches: Array.from(matches) });
+  }
+
+  return results.sort(compareResults(query.today)).slice(0, limit);
+}
@@ -0,0 +1,130 @@
+// Event timing shared by /api/calendar, the timeline and the calendar page.
+// Kept free of server imports.
+//
+// Sources publish release times as US Eastern wall-clock "HH:MM", or as a
+// whole day ("All Day") or not-yet-announced ("TBD"). Ingestion turns timed
+// events into UTC instants (startsAt) so display and countdowns never
+// re-parse ET strings; all-day and TBD events only have a date.
+
+export const SOURCE_TIME_ZONE = "America/New_York";
+
+export type EventTimeKind = "timed" | "all_day" | "tbd";
+
+export interface EventTiming {
+  date: string;              // YYYY-MM-DD in ET
+  time: string;              // ET "HH:MM", "All Day" or "TBD", as published
+  timeKind?: EventTimeKind;
+  startsAt?: string | null;  // UTC instant (ISO) for timed events
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function parseEventTimeKind(time: string | null | undefined): EventTimeKind {
+  if (time && TIME_PATTERN.test(time)) return "timed";
+  if (time?.trim().toLowerCase() === "all day") return "all_day";
+  return "tbd";
+}
+
+export function getEventTimeKind(event: EventTiming): EventTimeKind {
+  return event.timeKind ?? parseEventTimeKind(event.time);
+}
+
+// Wall-clock date and time of an instant in a time zone
+export function getZonedParts(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "00";
+  return { date: `${get("year")}-${get("month")}-${get("day")}`, time: `${get("hour")}:${get("minute")}` };
+}
+
+function offsetMinutes(instant: number, timeZone: string): number {
+  const { date, time } = getZonedParts(new Date(instant), timeZone);
+  return (Date.parse(`${date}T${time}:00Z`) - Math.floor(instant / 60000) * 60000) / 60000;
+}
+
+// UTC instant of a wall-clock date and time in a time zone. The offset is
+// re-checked at the result so times next to a DST change land correctly.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  let instant = wallClock - offsetMinutes(wallClock, timeZone) * 60000;
+  instant = wallClock - offsetMinutes(instant, timeZone) * 60000;
+  return new Date(instant);
+}
+
+// Release instant for timed events; null for all-day and TBD events
+export function getEventInstant(event: EventTiming): Date | null {
+  if (event.startsAt) return new Date(event.startsAt);
+  if (getEventTimeKind(event) !== "timed") return null;
+  return zonedTimeToUtc(event.date, event.time, SOURCE_TIME_ZONE);
+}
+
+// For ordering and placement: the release instant, or the start of the event's ET day
+export function getEventSortTime(event: EventTiming): number {
+  return (getEventInstant(event) ?? zonedTimeToUtc(event.date, "00:00", SOURCE_TIME_ZONE)).getTime();
+}
+
+// Timed events are past once released; all-day and TBD events from the start of their ET day
+export function isEventPast(event: EventTiming, now: Date = new Date()): boolean {
+  const instant = getEventInstant(event);
+  if (instant) return instant.getTime() <= now.getTime();
+  return event.date <= getZonedParts(now, SOURCE_TIME_ZONE).date;
+}
+
+// Calendar date an event falls on in the display zone
+export function getEventDateInZone(event: EventTiming, timeZone: string): string {
+  const instant = getEventInstant(event);
+  return instant ? getZonedParts(instant, timeZone).date : event.date;
+}
+
+export function formatEventTime(event: EventTiming, timeZone: string, { hour12 = true }: { hour12?: boolean } = {}): string {
+  const kind = getEventTimeKind(event);
+  if (kind === "all_day") return "All Day";
+  if (kind === "tbd") return "TBD";
+
+  const instant = getEventInstant(event)!;
+  if (!hour12) return getZonedParts(instant, timeZone).time;
+  return instant.toLocaleTimeString("en-US", { timeZone, hour: "numeric", minute: "2-digit", hour12: true });
+}
+
+// Short zone name for labels, e.g. "EDT" or "GMT+9"
+export function getTimeZoneLabel(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" }).formatToParts(at);
+  return parts.find((p) => p.type === "timeZoneName")?.value || timeZone;
+}
+
+// "local" follows the browser's zone
+export const DISPLAY_TIME_ZONES = [
+  { value: "local", label: "Browser time" },
+  { value: "America/New_York", label: "New York" },
+  { value: "America/Chicago", label: "Chicago" },
+  { value: "America/Los_Angeles", label: "Los Angeles" },
+  { value: "Europe/London", label: "London" },
+  { value: "Europe/Berlin", label: "Frankfurt" },
+  { value: "Asia/Tokyo", label: "Tokyo" },
+  { value: "Asia/Hong_Kong", label: "Hong Kong" },
+  { value: "Australia/Sydney", label: "Sydney" },
+  { value: "UTC", label: "UTC" },
+];
+
+// Whether Intl knows an IANA zone name
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveDisplayTimeZone(preference: string | null | undefined): string {
+  // Unknown zones fall through to the browser's
+  if (preference && preference !== "local" && isValidTimeZone(preference)) return preference;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
@@ -0,0 +1,84 @@
+// Deterministic FRED stand-in for local development and tests.
+// Values drift per period so repeated runs within a period agree, and a
+// new period produces a new "release".
+
+import type { SeriesObservations } from "@/lib/fred";
+
+type Frequency = "weekly" | "monthly" | "quarterly";
+
+// Typical level and period-to-period noise for each mapped series
+const MOCK_SERIES: Record<string, { base: number; noise: number; frequency: Frequency }> = {
+  PAYEMS: { base: 159000, noise: 150, frequency: "monthly" },
+  UNRATE: { base: 4.1, noise: 0.1, frequency: "monthly" },
+  ICSA: { base: 225, noise: 8, frequency: "weekly" },
+  JTSJOL: { base: 7600, noise: 150, frequency: "monthly" },
+  CPIAUCSL: { base: 318, noise: 0.6, frequency: "monthly" },
+  CPILFESL: { base: 324, noise: 0.5, frequency: "monthly" },
+  PPIACO: { base: 255, noise: 1.2, frequency: "monthly" },
+  PCEPILFE: { base: 124, noise: 0.2, frequency: "monthly" },
+  A191RL1Q225SBEA: { base: 2.4, noise: 0.8, frequency: "quarterly" },
+  RSAFS: { base: 720000, noise: 3500, frequency: "monthly" },
+  UMCSENT: { base: 68, noise: 3, frequency: "monthly" },
+  NAPM: { base: 49, noise: 1.5, frequency: "monthly" },
+  INDPRO: { base: 103, noise: 0.4, frequency: "monthly" },
+  DGORDER: { base: 290000, noise: 4000, frequency: "monthly" },
+  GACDISA066MSFRBNY: { base: 2, noise: 6, frequency: "monthly" },
+  HOUST: { base: 1350, noise: 60, frequency: "monthly" },
+  PERMIT: { base: 1420, noise: 50, frequency: "monthly" },
+  HSN1F: { base: 680, noise: 40, frequency: "monthly" },
+  BOPGSTB: { base: -72000, noise: 3000, frequency: "monthly" },
+};
+
+// Small deterministic hash -> [-1, 1)
+function noiseFor(seed: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return ((hash >>> 0) % 2000) / 1000 - 1;
+}
+
+// Start dates of the latest three completed periods, newest first
+function periodDates(frequency: Frequency, now: Date): [Date, Date, Date] {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (frequency === "weekly") {
+    // Weeks ending Saturday, as FRED reports initial claims
+    const daysSinceSaturday = (now.getUTCDay() + 1) % 7 || 7;
+    const lastSaturday = new Date(Date.UTC(year, month, now.getUTCDate() - daysSinceSaturday));
+    return [lastSaturday, new Date(lastSaturday.getTime() - 7 * 86400000), new Date(lastSaturday.getTime() - 14 * 86400000)];
+  }
+
+  if (frequency === "quarterly") {
+    const quarterStart = Math.floor(month / 3) * 3;
+    return [
+      new Date(Date.UTC(year, quarterStart - 3, 1)),
+      new Date(Date.UTC(year, quarterStart - 6, 1)),
+      new Date(Date.UTC(year, quarterStart - 9, 1)),
+    ];
+  }
+
+  return [new Date(Date.UTC(year, month - 1, 1)), new Date(Date.UTC(year, month - 2, 1)), new Date(Date.UTC(year, month - 3, 1))];
+}
+
+export function getMockObservations(seriesId: string, now: Date = new Date()): SeriesObservations | null {
+  const series = MOCK_SERIES[seriesId];
+  if (!series) return null;
+
+  const [latest, previous, prior] = periodDates(series.frequency, now);
+  const toKey = (d: Date) => d.toISOString().split("T")[0];
+  const valueFor = (d: Date) => {
+    const value = series.base + noiseFor(`${seriesId}:${toKey(d)}`) * series.noise;
+    return value.toFixed(Math.abs(series.base) < 1000 ? 2 : 0);
+  };
+
+  return {
+    actual: valueFor(latest),
+    actualDate: toKey(latest),
+    previous: valueFor(previous),
+    previousDate: toKey(previous),
+    prior: valueFor(prior),
+  };
+}
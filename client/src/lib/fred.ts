@@ -0,0 +1,166 @@
+// FRED (Federal Reserve Economic Data) client shared by the cron job and /api/live-data.
+// Without an API key (or with FRED_MOCK=true) outside production, a deterministic
+// stand-in is used so the calendar can be exercised locally.
+
+import { getMockObservations } from "@/lib/fred-mock";
+
+// FRED API configuration
+const FRED_API_KEY = process.env.FRED_API_KEY;
+const FRED_BASE_URL = "https://api.stlouisfed.org/fred";
+
+export interface SeriesConfig {
+  seriesId: string;
+  unit: string; // "level" | "change" | "pct_change"
+  label: string; // Display suffix: "%", "K", "M", "B" or ""
+}
+
+export interface SeriesObservations {
+  actual: string;
+  actualDate: string;
+  previous: string;
+  previousDate: string;
+  prior: string | null; // The observation before previous, to format previous as a change
+}
+
+export interface LiveDataEntry {
+  seriesId: string;
+  actual: string | null;
+  previous: string | null;
+  actualValue: number | null; // Raw FRED observation values
+  previousValue: number | null;
+  actualDate: string;
+  previousDate: string;
+  fetchedAt: string;
+}
+
+// Event to FRED series mapping
+export const EVENT_TO_SERIES: Record<string, SeriesConfig> = {
+  "Non-Farm Payrolls": { seriesId: "PAYEMS", unit: "change", label: "K" },
+  "Unemployment Rate": { seriesId: "UNRATE", unit: "level", label: "%" },
+  "Unemployment Claims": { seriesId: "ICSA", unit: "level", label: "K" },
+  "JOLTS Job Openings": { seriesId: "JTSJOL", unit: "level", label: "M" },
+  "CPI m/m": { seriesId: "CPIAUCSL", unit: "pct_change", label: "%" },
+  "Core CPI m/m": { seriesId: "CPILFESL", unit: "pct_change", label: "%" },
+  "PPI m/m": { seriesId: "PPIACO", unit: "pct_change", label: "%" },
+  "Core PCE Price Index m/m": { seriesId: "PCEPILFE", unit: "pct_change", label: "%" },
+  "GDP q/q": { seriesId: "A191RL1Q225SBEA", unit: "level", label: "%" },
+  "Retail Sales m/m": { seriesId: "RSAFS", unit: "pct_change", label: "%" },
+  "UoM Consumer Sentiment": { seriesId: "UMCSENT", unit: "level", label: "" },
+  "ISM Manufacturing PMI": { seriesId: "NAPM", unit: "level", label: "" },
+  "Industrial Production m/m": { seriesId: "INDPRO", unit: "pct_change", label: "%" },
+  "Durable Goods Orders m/m": { seriesId: "DGORDER", unit: "pct_change", label: "%" },
+  "Empire State Manufacturing Index": { seriesId: "GACDISA066MSFRBNY", unit: "level", label: "" },
+  "Housing Starts": { seriesId: "HOUST", unit: "level", label: "K" },
+  "Building Permits": { seriesId: "PERMIT", unit: "level", label: "K" },
+  "New Home Sales": { seriesId: "HSN1F", unit: "level", label: "K" },
+  "Trade Balance": { seriesId: "BOPGSTB", unit: "level", label: "B" },
+};
+
+export function isFredMockEnabled(): boolean {
+  if (process.env.FRED_MOCK === "true") return true;
+  return !FRED_API_KEY && process.env.NODE_ENV !== "production";
+}
+
+// True when either a real API key or the local stand-in is available
+export function isFredConfigured(): boolean {
+  return Boolean(FRED_API_KEY) || isFredMockEnabled();
+}
+
+export async function fetchSeriesData(seriesId: string): Promise<SeriesObservations | null> {
+  if (isFredMockEnabled()) {
+    return getMockObservations(seriesId);
+  }
+
+  try {
+    const url = `${FRED_BASE_URL}/series/observations?series_id=${seriesId}&api_key=${FRED_API_KEY}&file_type=json&sort_order=desc&limit=3`;
+    const response = await fetch(url, {
+      headers: { "User-Agent": "EconTimeline/2.0" },
+    });
+
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const observations = data.observations || [];
+
+    if (observations.length >= 2) {
+      return {
+        actual: observations[0].value,
+        actualDate: observations[0].date,
+        previous: observations[1].value,
+        previousDate: observations[1].date,
+        prior: observations[2]?.value ?? null,
+      };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function formatValue(
+  value: string | null,
+  previousValue: string | null,
+  config: { unit: string; label: string }
+): string | null {
+  if (!value || value === ".") return null;
+
+  const numValue = parseFloat(value);
+  const prevValue = previousValue ? parseFloat(previousValue) : null;
+
+  if (config.unit === "pct_change" && prevValue) {
+    const pctChange = ((numValue - prevValue) / Math.abs(prevValue)) * 100;
+    return `${pctChange >= 0 ? "+" : ""}${pctChange.toFixed(1)}%`;
+  }
+
+  if (config.unit === "change" && prevValue) {
+    const change = numValue - prevValue;
+    if (config.label === "K") {
+      return `${change >= 0 ? "+" : ""}${change.toFixed(0)}K`;
+    }
+    return `${change >= 0 ? "+" : ""}${change.toFixed(0)}`;
+  }
+
+  if (config.label === "%") return `${numValue.toFixed(1)}%`;
+  if (config.label === "K") return `${numValue.toFixed(0)}K`;
+  if (config.label === "M") return `${(numValue / 1000).toFixed(1)}M`;
+  if (config.label === "B") return `${(numValue / 1000).toFixed(1)}B`;
+
+  return numValue.toFixed(1);
+}
+
+// FRED uses "." for missing observations
+function parseObservation(value: string): number | null {
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+// Fetch and format the latest value of every mapped series, keyed by event title
+export async function fetchLatestReleases(): Promise<Record<string, LiveDataEntry>> {
+  const results: Record<string, LiveDataEntry> = {};
+  const mock = isFredMockEnabled();
+
+  for (const [eventTitle, config] of Object.entries(EVENT_TO_SERIES)) {
+    const data = await fetchSeriesData(config.seriesId);
+
+    if (data) {
+      results[eventTitle] = {
+        seriesId: config.seriesId,
+        actual: formatValue(data.actual, data.previous, config),
+        // Changes need the observation before previous; without it previous is unknown
+        previous: config.unit === "level" || data.prior ? formatValue(data.previous, data.prior, config) : null,
+        actualValue: parseObservation(data.actual),
+        previousValue: parseObservation(data.previous),
+        actualDate: data.actualDate,
+        previousDate: data.previousDate,
+        fetchedAt: new Date().toISOString(),
+      };
+    }
+
+    // Rate limiting (FRED allows 120 requests per minute)
+    if (!mock) {
+      await new Promise((r) => setTimeout(r, 100));
+    }
+  }
+
+  return results;
+}
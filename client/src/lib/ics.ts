@@ -0,0 +1,157 @@
+import { EconomicEvent } from "@/lib/calendar-events";
+
+// iCalendar (RFC 5545) output for the calendar feeds. Event dates and times
+// are ET wall-clock values, so they're emitted with TZID=America/New_York
+// and calendar apps convert them to the subscriber's zone.
+
+const TZID = "America/New_York";
+
+// US Eastern rules since 2007 (second Sunday in March to first Sunday in November)
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TZID}`,
+  `X-LIC-LOCATION:${TZID}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0500",
+  "TZOFFSETTO:-0400",
+  "TZNAME:EDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0400",
+  "TZOFFSETTO:-0500",
+  "TZNAME:EST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+const IMPACT_LABELS: Record<string, string> = {
+  high: "High impact",
+  medium: "Medium impact",
+  low: "Low impact",
+  holiday: "Market holiday",
+  early_close: "Early close",
+};
+
+// Release windows are short; give timed events a half-hour slot
+const EVENT_DURATION = "PT30M";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split("T")[0];
+}
+
+function formatUtcTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function buildDescription(event: EconomicEvent): string {
+  const lines: string[] = [IMPACT_LABELS[event.impact] || event.impact];
+
+  if (event.isEarlyClose && event.closeTimeET) {
+    lines.push(`Markets close early at ${event.closeTimeET} ET`);
+  }
+  if (event.timeKind === "tbd") {
+    lines.push("Release time to be announced");
+  }
+
+  const values = [
+    event.actual ? `Actual: ${event.actual}` : null,
+    event.forecast ? `Forecast: ${event.forecast}` : null,
+    event.previous ? `Previous: ${event.previous}` : null,
+  ].filter(Boolean);
+  if (values.length > 0) lines.push(values.join(" | "));
+
+  if (event.description) lines.push("", event.description);
+  if (event.whyItMatters) lines.push("", `Why it matters: ${event.whyItMatters}`);
+  if (event.sourceUrl) lines.push("", `Source: ${event.sourceUrl}`);
+
+  return lines.join("\n");
+}
+
+function buildEvent(event: EconomicEvent, dtstamp: string): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@econtimeline`,
+    `DTSTAMP:${dtstamp}`,
+  ];
+
+  if (event.timeKind === "timed") {
+    lines.push(`DTSTART;TZID=${TZID}:${formatDate(event.date)}T${event.time.replace(":", "")}00`);
+    lines.push(`DURATION:${EVENT_DURATION}`);
+  } else {
+    // "All Day" and "TBD" releases
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(`${event.currency} ${event.event}`)}`);
+  lines.push(`DESCRIPTION:${escapeText(buildDescription(event))}`);
+  lines.push(`CATEGORIES:${[event.category, IMPACT_LABELS[event.impact] || event.impact].map(escapeText).join(",")}`);
+  if (event.sourceUrl) lines.push(`URL:${event.sourceUrl}`);
+  if (event.timeKind === "tbd") lines.push("STATUS:TENTATIVE");
+  lines.push("TRANSP:TRANSPARENT");
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+export function buildIcsCalendar(events: EconomicEvent[], { name }: { name: string }): string {
+  const dtstamp = formatUtcTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//EconTimeline//Economic Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TZID}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...VTIMEZONE,
+    ...events.flatMap((event) => buildEvent(event, dtstamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validateJournalExport } from "@/lib/journal-export";
+
+const trade = { id: "t1", date: "2026-03-02", ticker: "AAPL", direction: "long", pnl: 120, tags: ["breakout"] };
+const strategy = { id: "s1", name: "Breakout", type: "BREAKOUT", status: "ACTIVE", color: "#3b82f6", defaultRiskPercent: 1 };
+const link = { id: "l1", strategyId: "s1", tradeId: "t1", date: "2026-03-02", ticker: "AAPL", direction: "LONG", pnl: 120, isBacktest: false };
+
+function errorFor(overrides: { trade?: object; strategy?: object; link?: object }): string | null {
+  return validateJournalExport({
+    version: 1,
+    trades: [{ ...trade, ...overrides.trade }],
+    strategies: [{ ...strategy, ...overrides.strategy }],
+    strategyTrades: [{ ...link, ...overrides.link }],
+  }).error;
+}
+
+describe("validateJournalExport", () => {
+  it("accepts a well-formed backup", () => {
+    assert.equal(errorFor({}), null);
+  });
+
+  it("rejects unsupported versions", () => {
+    assert.ok(validateJournalExport({ version: 99, trades: [], strategies: [], strategyTrades: [] }).error);
+  });
+
+  it("rejects unknown directions and impossible dates", () => {
+    assert.equal(errorFor({ trade: { direction: "UP" } }), 'Trade #1 has an unknown direction "UP"');
+    assert.equal(errorFor({ trade: { date: "2026-02-30" } }), 'Trade #1 has an invalid date "2026-02-30"');
+    assert.equal(errorFor({ link: { date: "March 2" } }), 'Strategy trade #1 has an invalid date "March 2"');
+  });
+
+  it("checks option fields", () => {
+    assert.ok(errorFor({ trade: { optionType: "STRADDLE" } }));
+    assert.ok(errorFor({ trade: { strikePrice: "150" } }));
+    assert.equal(errorFor({ trade: { optionType: "CALL", strikePrice: 150, expirationDate: "2026-03-20" } }), null);
+  });
+
+  it("checks the strategy fields the restore writes", () => {
+    assert.equal(errorFor({ strategy: { defaultRiskPercent: "1" } }), "Strategy #1 has a non-numeric defaultRiskPercent");
+    assert.equal(errorFor({ strategy: { status: "DELETED" } }), 'Strategy #1 has an unknown status "DELETED"');
+    assert.equal(errorFor({ strategy: { color: 3 } }), "Strategy #1 has a non-text color");
+  });
+});
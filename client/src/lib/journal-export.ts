@@ -0,0 +1,235 @@
+// Journal export format shared by the export and restore routes.
+// Bump JOURNAL_EXPORT_VERSION whenever the document shape changes.
+
+export const JOURNAL_EXPORT_VERSION = 1;
+
+export interface ExportedTrade {
+  id: string;
+  date: string;
+  time: string | null;
+  ticker: string;
+  direction: string;
+  entryPrice: number | null;
+  exitPrice: number | null;
+  size: number | null;
+  pnl: number;
+  notes: string | null;
+  assetType: string;
+  status: string;
+  closeDate: string | null;
+  optionType: string | null;
+  strikePrice: number | null;
+  expirationDate: string | null;
+  premium: number | null;
+  underlyingTicker: string | null;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExportedStrategy {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  status: string;
+  color: string;
+  defaultRiskPercent: number | null;
+  maxDrawdownPercent: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExportedStrategyTrade {
+  id: string;
+  strategyId: string;
+  tradeId: string | null;
+  date: string;
+  time: string | null;
+  ticker: string;
+  direction: string;
+  entryPrice: number | null;
+  exitPrice: number | null;
+  size: number | null;
+  pnl: number;
+  notes: string | null;
+  isBacktest: boolean;
+  createdAt: string;
+}
+
+export interface JournalExportFilters {
+  startDate: string | null;
+  endDate: string | null;
+  assetTypes: string[];
+}
+
+export interface JournalExport {
+  version: number;
+  exportedAt: string;
+  filters: JournalExportFilters;
+  trades: ExportedTrade[];
+  strategies: ExportedStrategy[];
+  strategyTrades: ExportedStrategyTrade[];
+}
+
+export const TRADE_CSV_COLUMNS = [
+  "id",
+  "date",
+  "time",
+  "closeDate",
+  "ticker",
+  "direction",
+  "assetType",
+  "status",
+  "entryPrice",
+  "exitPrice",
+  "size",
+  "pnl",
+  "optionType",
+  "strikePrice",
+  "expirationDate",
+  "premium",
+  "underlyingTicker",
+  "tags",
+  "strategies",
+  "strategyIds",
+  "notes",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export type TradeCsvColumn = (typeof TRADE_CSV_COLUMNS)[number];
+
+// Quote a CSV cell when it contains a delimiter, quote or newline
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const str = value instanceof Date ? value.toISOString() : String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(",") + "\n";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const DIRECTIONS = ["LONG", "SHORT"];
+const ASSET_TYPES = ["STOCK", "FUTURES", "OPTIONS", "FOREX", "CRYPTO"];
+const TRADE_STATUSES = ["OPEN", "CLOSED"];
+const OPTION_TYPES = ["CALL", "PUT"];
+const STRATEGY_STATUSES = ["ACTIVE", "PAUSED", "ARCHIVED"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === null || value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+// A real calendar day: "2026-02-30" doesn't survive the round trip through Date
+const isDate = (value: unknown) =>
+  isString(value) && DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+const isOneOf = (values: string[]) => (value: unknown) => isString(value) && values.includes(value);
+// Restore upper-cases directions, so any case is accepted
+const isDirection = (value: unknown) => isString(value) && DIRECTIONS.includes(value.toUpperCase());
+
+// Everything the restore transaction relies on, so a bad row fails before any write
+function tradeProblem(t: Record<string, unknown>): string | null {
+  if (!isString(t.id) || !isString(t.ticker) || !isNumber(t.pnl)) {
+    return "is missing id, ticker or pnl";
+  }
+  if (!isDate(t.date)) return `has an invalid date "${String(t.date)}"`;
+  if (!isDirection(t.direction)) return `has an unknown direction "${String(t.direction)}"`;
+  if (!isOptional(t.assetType, isOneOf(ASSET_TYPES))) return `has an unknown asset type "${String(t.assetType)}"`;
+  if (!isOptional(t.status, isOneOf(TRADE_STATUSES))) return `has an unknown status "${String(t.status)}"`;
+  if (!isOptional(t.closeDate, isDate)) return `has an invalid close date "${String(t.closeDate)}"`;
+  if (!isOptional(t.optionType, isOneOf(OPTION_TYPES))) return `has an unknown option type "${String(t.optionType)}"`;
+  if (!isOptional(t.expirationDate, isDate)) return `has an invalid expiration date "${String(t.expirationDate)}"`;
+  for (const key of ["entryPrice", "exitPrice", "size", "strikePrice", "premium"]) {
+    if (!isOptional(t[key], isNumber)) return `has a non-numeric ${key}`;
+  }
+  for (const key of ["time", "notes", "underlyingTicker"]) {
+    if (!isOptional(t[key], isString)) return `has a non-text ${key}`;
+  }
+  if (!isOptional(t.tags, (tags) => Array.isArray(tags) && tags.every(isString))) {
+    return "has tags that are not a list of strings";
+  }
+  return null;
+}
+
+function strategyProblem(s: Record<string, unknown>): string | null {
+  if (!isString(s.id) || !isString(s.name) || !isString(s.type)) {
+    return "is missing id, name or type";
+  }
+  if (!isOptional(s.status, isOneOf(STRATEGY_STATUSES))) return `has an unknown status "${String(s.status)}"`;
+  for (const key of ["description", "color"]) {
+    if (!isOptional(s[key], isString)) return `has a non-text ${key}`;
+  }
+  for (const key of ["defaultRiskPercent", "maxDrawdownPercent"]) {
+    if (!isOptional(s[key], isNumber)) return `has a non-numeric ${key}`;
+  }
+  return null;
+}
+
+function linkProblem(l: Record<string, unknown>): string | null {
+  if (!isString(l.id) || !isString(l.strategyId) || !isString(l.ticker) || !isNumber(l.pnl)) {
+    return "is missing id, strategyId, ticker or pnl";
+  }
+  if (!isDate(l.date)) return `has an invalid date "${String(l.date)}"`;
+  if (!isDirection(l.direction)) return `has an unknown direction "${String(l.direction)}"`;
+  for (const key of ["entryPrice", "exitPrice", "size"]) {
+    if (!isOptional(l[key], isNumber)) return `has a non-numeric ${key}`;
+  }
+  for (const key of ["tradeId", "time", "notes"]) {
+    if (!isOptional(l[key], isString)) return `has a non-text ${key}`;
+  }
+  if (!isOptional(l.isBacktest, (v) => typeof v === "boolean")) return "has a non-boolean isBacktest";
+  return null;
+}
+
+// Validate an uploaded backup before restoring it
+export function validateJournalExport(data: unknown): { bundle: JournalExport | null; error: string | null } {
+  if (!isRecord(data)) {
+    return { bundle: null, error: "Backup must be a JSON object" };
+  }
+
+  if (typeof data.version !== "number" || data.version < 1 || data.version > JOURNAL_EXPORT_VERSION) {
+    return { bundle: null, error: `Unsupported backup version "${String(data.version)}"` };
+  }
+
+  for (const key of ["trades", "strategies", "strategyTrades"] as const) {
+    if (!Array.isArray(data[key]) || !(data[key] as unknown[]).every(isRecord)) {
+      return { bundle: null, error: `Backup is missing a valid "${key}" array` };
+    }
+  }
+
+  const trades = data.trades as Record<string, unknown>[];
+  for (const [index, trade] of trades.entries()) {
+    const problem = tradeProblem(trade);
+    if (problem) {
+      return { bundle: null, error: `Trade #${index + 1} ${problem}` };
+    }
+  }
+
+  const strategies = data.strategies as Record<string, unknown>[];
+  for (const [index, strategy] of strategies.entries()) {
+    const problem = strategyProblem(strategy);
+    if (problem) {
+      return { bundle: null, error: `Strategy #${index + 1} ${problem}` };
+    }
+  }
+
+  const links = data.strategyTrades as Record<string, unknown>[];
+  for (const [index, link] of links.entries()) {
+    const problem = linkProblem(link);
+    if (problem) {
+      return { bundle: null, error: `Strategy trade #${index + 1} ${problem}` };
+    }
+  }
+
+  // Every field the restore reads from a trade, strategy or link has been checked
+  // above; exportedAt and filters are informational and never written back
+  return { bundle: data as unknown as JournalExport, error: null };
+}
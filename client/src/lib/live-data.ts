@@ -0,0 +1,53 @@
+import NodeCache from "node-cache";
+import { fetchLatestReleases, isFredMockEnabled, LiveDataEntry } from "@/lib/fred";
+
+// FRED publishes at most a few releases a day; 15 minutes keeps the calendar
+// fresh without spending the API quota on every page load.
+export const LIVE_DATA_TTL_SECONDS = 15 * 60;
+
+const CACHE_KEY = "latest-releases";
+
+export interface LiveDataSnapshot {
+  fetchedAt: string;
+  seriesCount: number;
+  source: "fred" | "mock";
+  data: Record<string, LiveDataEntry>;
+}
+
+// Per server instance; a cold start simply refetches
+const cache = new NodeCache({ stdTTL: LIVE_DATA_TTL_SECONDS, checkperiod: 120, useClones: false });
+
+// Concurrent misses share one FRED fetch
+let inFlight: Promise<LiveDataSnapshot> | null = null;
+
+export async function getLiveData({ refresh = false }: { refresh?: boolean } = {}): Promise<{ snapshot: LiveDataSnapshot; cached: boolean }> {
+  const cached = refresh ? undefined : cache.get<LiveDataSnapshot>(CACHE_KEY);
+  if (cached) {
+    return { snapshot: cached, cached: true };
+  }
+
+  if (!inFlight) {
+    inFlight = (async () => {
+      const data = await fetchLatestReleases();
+      const snapshot: LiveDataSnapshot = {
+        fetchedAt: new Date().toISOString(),
+        seriesCount: Object.keys(data).length,
+        source: isFredMockEnabled() ? "mock" : "fred",
+        data,
+      };
+      // An empty result usually means FRED was unreachable; don't pin it for the full TTL
+      cache.set(CACHE_KEY, snapshot, snapshot.seriesCount > 0 ? LIVE_DATA_TTL_SECONDS : 60);
+      return snapshot;
+    })().finally(() => {
+      inFlight = null;
+    });
+  }
+
+  return { snapshot: await inFlight, cached: false };
+}
+
+// Seconds until the cached snapshot expires (0 when nothing is cached)
+export function getLiveDataTtl(): number {
+  const expiresAt = cache.getTtl(CACHE_KEY);
+  return expiresAt ? Math.max(0, Math.round((expiresAt - Date.now()) / 1000)) : 0;
+}
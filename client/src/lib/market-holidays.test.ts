@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HolidayCalendarId, buildMarketClosures, isHolidayCalendar } from "@/lib/market-holidays";
+
+const closures = buildMarketClosures([], new Date("2026-10-19T12:00:00Z"));
+
+function closure(calendar: HolidayCalendarId, date: string) {
+  return closures.get(calendar)!.get(date);
+}
+
+describe("JPX", () => {
+  it("computes the equinox days", () => {
+    assert.equal(closure("jpx", "2026-03-20")?.name, "Vernal Equinox Day");
+    assert.equal(closure("jpx", "2026-09-23")?.name, "Autumnal Equinox Day");
+  });
+
+  it("moves a Sunday holiday past Golden Week", () => {
+    // Constitution Memorial Day 2026 is a Sunday; May 4 and 5 are holidays already
+    assert.equal(closure("jpx", "2026-05-06")?.name, "Substitute Holiday");
+  });
+
+  it("moves a Sunday equinox to Monday", () => {
+    assert.equal(closure("jpx", "2027-03-22")?.name, "Substitute Holiday");
+  });
+
+  it("adds a citizens' holiday between two holidays", () => {
+    assert.equal(closure("jpx", "2026-09-22")?.name, "Citizens' Holiday");
+    assert.equal(closure("jpx", "2025-09-22"), undefined);
+  });
+
+  it("closes over the year-end break", () => {
+    ["2026-12-31", "2027-01-01", "2027-01-02", "2027-01-03"].forEach((date) => assert.ok(closure("jpx", date), date));
+  });
+});
+
+describe("Easter holidays", () => {
+  it("follows Easter for Good Friday and Easter Monday", () => {
+    assert.equal(closure("lse", "2026-04-03")?.name, "Good Friday");
+    assert.equal(closure("lse", "2026-04-06")?.name, "Easter Monday");
+    assert.equal(closure("xetra", "2025-04-18")?.name, "Good Friday");
+    assert.equal(closure("asx", "2027-03-29")?.name, "Easter Monday");
+  });
+});
+
+describe("weekend holidays", () => {
+  it("observes Christmas and Boxing Day on the following weekdays", () => {
+    // Christmas 2027 is a Saturday and Boxing Day a Sunday
+    assert.equal(closure("lse", "2027-12-27")?.name, "Christmas Day");
+    assert.equal(closure("lse", "2027-12-28")?.name, "Boxing Day");
+    // Boxing Day 2026 is a Saturday
+    assert.equal(closure("tsx", "2026-12-28")?.name, "Boxing Day");
+  });
+
+  it("puts Victoria Day on the Monday before May 25", () => {
+    assert.equal(closure("tsx", "2026-05-18")?.name, "Victoria Day");
+  });
+});
+
+describe("early closes", () => {
+  it("closes the LSE early on Christmas Eve", () => {
+    assert.equal(closure("lse", "2026-12-24")?.closeTime, "12:30");
+  });
+
+  it("drops early closes that fall on a weekend", () => {
+    assert.equal(closure("asx", "2027-12-24")?.closeTime, "14:10");
+    // Christmas Eve and New Year's Eve 2028 are Sundays
+    const later = buildMarketClosures([], new Date("2028-06-01T12:00:00Z")).get("lse")!;
+    assert.equal(later.get("2027-12-31")?.closeTime, "12:30");
+    assert.equal(later.get("2028-12-24"), undefined);
+    assert.equal(later.get("2028-12-31"), undefined);
+  });
+});
+
+describe("NYSE", () => {
+  const nyse = buildMarketClosures([
+    { date: "2026-11-26", title: "Thanksgiving Day (Market Closed)", impact: "holiday" },
+    { date: "2026-11-27", title: "Early Close", impact: "early_close", closeTimeET: "13:00" },
+    { date: "2026-12-25", title: "Christmas Day (Market Closed)", impact: "holiday" },
+    { date: "2026-12-25", title: "Early Close", impact: "early_close" },
+    { date: "2026-11-27", title: "Retail Sales m/m", impact: "high" },
+  ]).get("nyse")!;
+
+  it("takes closures from holiday and early-close events", () => {
+    assert.deepEqual(nyse.get("2026-11-26"), { date: "2026-11-26", name: "Thanksgiving Day" });
+    assert.equal(nyse.get("2026-11-27")?.closeTime, "13:00");
+    assert.equal(nyse.size, 3);
+  });
+
+  it("lets a full-day holiday win over an early close", () => {
+    assert.equal(nyse.get("2026-12-25")?.closeTime, undefined);
+  });
+});
+
+describe("isHolidayCalendar", () => {
+  it("accepts only known calendars", () => {
+    assert.ok(isHolidayCalendar("jpx"));
+    assert.ok(!isHolidayCalendar("nasdaq"));
+  });
+});
@@ -0,0 +1,366 @@
+// Exchange holiday calendars for the timeline: the trading days each exchange
+// is shut or closes early. NYSE closures come from the holiday and early-close
+// events in the calendar data; the other exchanges' are generated here.
+// Kept free of server imports.
+
+export type HolidayCalendarId = "nyse" | "lse" | "xetra" | "jpx" | "hkex" | "sse" | "asx" | "tsx";
+
+export const HOLIDAY_CALENDARS: { value: HolidayCalendarId; label: string }[] = [
+  { value: "nyse", label: "United States (NYSE)" },
+  { value: "lse", label: "United Kingdom (LSE)" },
+  { value: "xetra", label: "Germany (Xetra)" },
+  { value: "jpx", label: "Japan (TSE)" },
+  { value: "hkex", label: "Hong Kong (HKEX)" },
+  { value: "sse", label: "Mainland China (SSE)" },
+  { value: "asx", label: "Australia (ASX)" },
+  { value: "tsx", label: "Canada (TSX)" },
+];
+
+// A trading day an exchange is shut, or closes early at closeTime
+export interface MarketClosure {
+  date: string;       // YYYY-MM-DD in the exchange's zone
+  name: string;       // e.g. "Thanksgiving Day"
+  closeTime?: string; // HH:MM in the exchange's zone; set for early closes
+}
+
+// One calendar's closures by date
+export type MarketClosures = ReadonlyMap<string, MarketClosure>;
+
+// Every calendar's closures, from buildMarketClosures
+export type CalendarClosures = ReadonlyMap<HolidayCalendarId, MarketClosures>;
+
+export function isHolidayCalendar(value: unknown): value is HolidayCalendarId {
+  return HOLIDAY_CALENDARS.some((c) => c.value === value);
+}
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+function toDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isWeekend(date: string): boolean {
+  const weekday = getWeekday(date);
+  return weekday === 0 || weekday === 6;
+}
+
+// The nth weekday (0-6) of a month (1-12); n = -1 for the last
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n < 0) {
+    const last = toDate(year, month + 1, 0);
+    return addDays(last, -((getWeekday(last) - weekday + 7) % 7));
+  }
+  const first = toDate(year, month, 1);
+  return addDays(first, (weekday - getWeekday(first) + 7) % 7 + (n - 1) * 7);
+}
+
+// Anonymous Gregorian algorithm, as in the scraper's US holiday calendar
+function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDate(year, month, day);
+}
+
+// Holidays falling on a weekend move to the next weekday not already taken,
+// so Christmas on Saturday and Boxing Day on Sunday become Monday and Tuesday
+function observed(holidays: MarketClosure[]): MarketClosure[] {
+  const taken = new Set<string>();
+  return holidays.map((holiday) => {
+    let date = holiday.date;
+    while (isWeekend(date) || taken.has(date)) date = addDays(date, 1);
+    taken.add(date);
+    return { ...holiday, date };
+  });
+}
+
+// Early closes on weekdays only; weekend dates aren't trading days anyway
+function earlyCloses(closures: MarketClosure[]): MarketClosure[] {
+  return closures.filter((c) => !isWeekend(c.date));
+}
+
+// ============================================
+// GENERATED CALENDARS
+// ============================================
+
+// Source: londonstockexchange.com - England and Wales bank holidays; half days
+// on Christmas Eve and New Year's Eve close at 12:30
+function getLseClosures(year: number): MarketClosure[] {
+  const easter = getEasterSunday(year);
+  return [
+    ...observed([{ date: toDate(year, 1, 1), name: "New Year's Day" }]),
+    { date: addDays(easter, -2), name: "Good Friday" },
+    { date: addDays(easter, 1), name: "Easter Monday" },
+    { date: nthWeekday(year, 5, 1, 1), name: "Early May Bank Holiday" },
+    { date: nthWeekday(year, 5, 1, -1), name: "Spring Bank Holiday" },
+    { date: nthWeekday(year, 8, 1, -1), name: "Summer Bank Holiday" },
+    ...observed([
+      { date: toDate(year, 12, 25), name: "Christmas Day" },
+      { date: toDate(year, 12, 26), name: "Boxing Day" },
+    ]),
+    ...earlyCloses([
+      { date: toDate(year, 12, 24), name: "Christmas Eve", closeTime: "12:30" },
+      { date: toDate(year, 12, 31), name: "New Year's Eve", closeTime: "12:30" },
+    ]),
+  ];
+}
+
+// Source: deutsche-boerse.com - Xetra trading calendar
+function getXetraClosures(year: number): MarketClosure[] {
+  const easter = getEasterSunday(year);
+  return [
+    { date: toDate(year, 1, 1), name: "New Year's Day" },
+    { date: addDays(easter, -2), name: "Good Friday" },
+    { date: addDays(easter, 1), name: "Easter Monday" },
+    { date: toDate(year, 5, 1), name: "Labour Day" },
+    { date: toDate(year, 12, 24), name: "Christmas Eve" },
+    { date: toDate(year, 12, 25), name: "Christmas Day" },
+    { date: toDate(year, 12, 26), name: "Boxing Day" },
+    { date: toDate(year, 12, 31), name: "New Year's Eve" },
+  ];
+}
+
+// Equinox days by the formula the National Astronomical Observatory's
+// announcements follow for 1980-2099
+function getEquinoxDay(year: number, base: number): number {
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+// Source: jpx.co.jp - Japanese national holidays, plus the exchange's
+// year-end break from December 31 to January 3
+function getJpxClosures(year: number): MarketClosure[] {
+  const national: MarketClosure[] = [
+    { date: toDate(year, 1, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 1, 1, 2), name: "Coming of Age Day" },
+    { date: toDate(year, 2, 11), name: "National Foundation Day" },
+    { date: toDate(year, 2, 23), name: "Emperor's Birthday" },
+    { date: toDate(year, 3, getEquinoxDay(year, 20.8431)), name: "Vernal Equinox Day" },
+    { date: toDate(year, 4, 29), name: "Showa Day" },
+    { date: toDate(year, 5, 3), name: "Constitution Memorial Day" },
+    { date: toDate(year, 5, 4), name: "Greenery Day" },
+    { date: toDate(year, 5, 5), name: "Children's Day" },
+    { date: nthWeekday(year, 7, 1, 3), name: "Marine Day" },
+    { date: toDate(year, 8, 11), name: "Mountain Day" },
+    { date: nthWeekday(year, 9, 1, 3), name: "Respect for the Aged Day" },
+    { date: toDate(year, 9, getEquinoxDay(year, 23.2488)), name: "Autumnal Equinox Day" },
+    { date: nthWeekday(year, 10, 1, 2), name: "Sports Day" },
+    { date: toDate(year, 11, 3), name: "Culture Day" },
+    { date: toDate(year, 11, 23), name: "Labour Thanksgiving Day" },
+  ];
+  const dates = new Set(national.map((h) => h.date));
+
+  // A weekday between two holidays is a holiday too (September, some years)
+  national.forEach(({ date }) => {
+    const between = addDays(date, 1);
+    if (dates.has(addDays(date, 2)) && !dates.has(between) && getWeekday(between) !== 0) {
+      national.push({ date: between, name: "Citizens' Holiday" });
+      dates.add(between);
+    }
+  });
+
+  // A holiday on Sunday moves to the next day that isn't already a holiday
+  national.filter(({ date }) => getWeekday(date) === 0).forEach(({ date }) => {
+    let substitute = addDays(date, 1);
+    while (dates.has(substitute)) substitute = addDays(substitute, 1);
+    national.push({ date: substitute, name: "Substitute Holiday" });
+    dates.add(substitute);
+  });
+
+  return [
+    ...national,
+    { date: toDate(year, 1, 2), name: "New Year Holidays" },
+    { date: toDate(year, 1, 3), name: "New Year Holidays" },
+    { date: toDate(year, 12, 31), name: "New Year Holidays" },
+  ];
+}
+
+// Source: asx.com.au - trading calendar; Christmas Eve and New Year's Eve
+// close at 14:10. Anzac Day isn't moved when it falls on a weekend.
+function getAsxClosures(year: number): MarketClosure[] {
+  const easter = getEasterSunday(year);
+  return [
+    ...observed([{ date: toDate(year, 1, 1), name: "New Year's Day" }]),
+    ...observed([{ date: toDate(year, 1, 26), name: "Australia Day" }]),
+    { date: addDays(easter, -2), name: "Good Friday" },
+    { date: addDays(easter, 1), name: "Easter Monday" },
+    { date: toDate(year, 4, 25), name: "Anzac Day" },
+    { date: nthWeekday(year, 6, 1, 2), name: "King's Birthday" },
+    ...observed([
+      { date: toDate(year, 12, 25), name: "Christmas Day" },
+      { date: toDate(year, 12, 26), name: "Boxing Day" },
+    ]),
+    ...earlyCloses([
+      { date: toDate(year, 12, 24), name: "Christmas Eve", closeTime: "14:10" },
+      { date: toDate(year, 12, 31), name: "New Year's Eve", closeTime: "14:10" },
+    ]),
+  ];
+}
+
+// Source: tsx.com - TSX holiday schedule; Christmas Eve closes at 13:00
+function getTsxClosures(year: number): MarketClosure[] {
+  const easter = getEasterSunday(year);
+  return [
+    ...observed([{ date: toDate(year, 1, 1), name: "New Year's Day" }]),
+    { date: nthWeekday(year, 2, 1, 3), name: "Family Day" },
+    { date: addDays(easter, -2), name: "Good Friday" },
+    // The last Monday before May 25
+    { date: addDays(toDate(year, 5, 24), -((getWeekday(toDate(year, 5, 24)) + 6) % 7)), name: "Victoria Day" },
+    ...observed([{ date: toDate(year, 7, 1), name: "Canada Day" }]),
+    { date: nthWeekday(year, 8, 1, 1), name: "Civic Holiday" },
+    { date: nthWeekday(year, 9, 1, 1), name: "Labour Day" },
+    { date: nthWeekday(year, 10, 1, 2), name: "Thanksgiving Day" },
+    ...observed([
+      { date: toDate(year, 12, 25), name: "Christmas Day" },
+      { date: toDate(year, 12, 26), name: "Boxing Day" },
+    ]),
+    ...earlyCloses([{ date: toDate(year, 12, 24), name: "Christmas Eve", closeTime: "13:00" }]),
+  ];
+}
+
+// ============================================
+// PUBLISHED CALENDARS
+// ============================================
+
+// Lunar-calendar holidays follow no rule we can compute, so Hong Kong and
+// Shanghai use the exchanges' published schedules. Add each year's once the
+// exchange announces it.
+
+// Source: hkex.com.hk - Trading calendar; half days close after the morning session
+const HKEX_CLOSURES: MarketClosure[] = [
+  { date: "2025-01-01", name: "New Year's Day" },
+  { date: "2025-01-28", name: "Lunar New Year's Eve", closeTime: "12:00" },
+  { date: "2025-01-29", name: "Lunar New Year" },
+  { date: "2025-01-30", name: "Lunar New Year" },
+  { date: "2025-01-31", name: "Lunar New Year" },
+  { date: "2025-04-04", name: "Ching Ming Festival" },
+  { date: "2025-04-18", name: "Good Friday" },
+  { date: "2025-04-21", name: "Easter Monday" },
+  { date: "2025-05-01", name: "Labour Day" },
+  { date: "2025-05-05", name: "Buddha's Birthday" },
+  { date: "2025-07-01", name: "HKSAR Establishment Day" },
+  { date: "2025-10-01", name: "National Day" },
+  { date: "2025-10-07", name: "Day after Mid-Autumn Festival" },
+  { date: "2025-10-29", name: "Chung Yeung Festival" },
+  { date: "2025-12-24", name: "Christmas Eve", closeTime: "12:00" },
+  { date: "2025-12-25", name: "Christmas Day" },
+  { date: "2025-12-26", name: "Boxing Day" },
+  { date: "2025-12-31", name: "New Year's Eve", closeTime: "12:00" },
+  { date: "2026-01-01", name: "New Year's Day" },
+  { date: "2026-02-16", name: "Lunar New Year's Eve", closeTime: "12:00" },
+  { date: "2026-02-17", name: "Lunar New Year" },
+  { date: "2026-02-18", name: "Lunar New Year" },
+  { date: "2026-02-19", name: "Lunar New Year" },
+  { date: "2026-04-03", name: "Good Friday" },
+  { date: "2026-04-06", name: "Easter Monday" },
+  { date: "2026-04-07", name: "Day after Ching Ming Festival" },
+  { date: "2026-05-01", name: "Labour Day" },
+  { date: "2026-05-25", name: "Day after Buddha's Birthday" },
+  { date: "2026-06-19", name: "Tuen Ng Festival" },
+  { date: "2026-07-01", name: "HKSAR Establishment Day" },
+  { date: "2026-10-01", name: "National Day" },
+  { date: "2026-10-19", name: "Day after Chung Yeung Festival" },
+  { date: "2026-12-24", name: "Christmas Eve", closeTime: "12:00" },
+  { date: "2026-12-25", name: "Christmas Day" },
+  { date: "2026-12-28", name: "First weekday after Christmas" },
+  { date: "2026-12-31", name: "New Year's Eve", closeTime: "12:00" },
+];
+
+// Source: sse.com.cn - Trading calendar (weekdays only; the exchange doesn't
+// open on the make-up weekend working days)
+const SSE_CLOSURES: MarketClosure[] = [
+  { date: "2025-01-01", name: "New Year's Day" },
+  ...["2025-01-28", "2025-01-29", "2025-01-30", "2025-01-31", "2025-02-03", "2025-02-04"]
+    .map((date) => ({ date, name: "Spring Festival" })),
+  { date: "2025-04-04", name: "Qingming Festival" },
+  ...["2025-05-01", "2025-05-02", "2025-05-05"].map((date) => ({ date, name: "Labour Day" })),
+  { date: "2025-06-02", name: "Dragon Boat Festival" },
+  ...["2025-10-01", "2025-10-02", "2025-10-03", "2025-10-06", "2025-10-07", "2025-10-08"]
+    .map((date) => ({ date, name: "National Day" })),
+  ...["2026-01-01", "2026-01-02"].map((date) => ({ date, name: "New Year's Day" })),
+  ...["2026-02-16", "2026-02-17", "2026-02-18", "2026-02-19", "2026-02-20", "2026-02-23"]
+    .map((date) => ({ date, name: "Spring Festival" })),
+  { date: "2026-04-06", name: "Qingming Festival" },
+  ...["2026-05-01", "2026-05-04", "2026-05-05"].map((date) => ({ date, name: "Labour Day" })),
+  { date: "2026-06-19", name: "Dragon Boat Festival" },
+  { date: "2026-09-25", name: "Mid-Autumn Festival" },
+  ...["2026-10-01", "2026-10-02", "2026-10-05", "2026-10-06", "2026-10-07"]
+    .map((date) => ({ date, name: "National Day" })),
+];
+
+const CALENDAR_CLOSURES: Record<Exclude<HolidayCalendarId, "nyse">, (year: number) => MarketClosure[]> = {
+  lse: getLseClosures,
+  xetra: getXetraClosures,
+  jpx: getJpxClosures,
+  asx: getAsxClosures,
+  tsx: getTsxClosures,
+  hkex: (year) => HKEX_CLOSURES.filter((c) => c.date.startsWith(`${year}-`)),
+  sse: (year) => SSE_CLOSURES.filter((c) => c.date.startsWith(`${year}-`)),
+};
+
+// ============================================
+// CLOSURES
+// ============================================
+
+// The fields of an /api/calendar event needed for NYSE closures
+export interface ClosureEvent {
+  date: string;
+  title: string;
+  impact: string;
+  closeTimeET?: string;
+}
+
+// NYSE closures from the calendar data's holiday and early-close events
+function getEventClosures(events: ClosureEvent[]): MarketClosure[] {
+  return events.flatMap((event): MarketClosure[] => {
+    if (event.impact === "holiday") {
+      return [{ date: event.date, name: event.title.replace(/\s*\(Market Closed\)$/, "") }];
+    }
+    if (event.impact === "early_close") {
+      return [{ date: event.date, name: "Early Close", closeTime: event.closeTimeET || "13:00" }];
+    }
+    return [];
+  });
+}
+
+// Every calendar's closures from last year through next year. A full-day
+// holiday wins over an early close listed for the same date.
+export function buildMarketClosures(events: ClosureEvent[], now: Date = new Date()): Map<HolidayCalendarId, MarketClosures> {
+  const year = now.getUTCFullYear();
+  const years = [year - 1, year, year + 1];
+
+  const toMap = (closures: MarketClosure[]): MarketClosures => {
+    const byDate = new Map<string, MarketClosure>();
+    closures.forEach((closure) => {
+      const existing = byDate.get(closure.date);
+      if (!existing || (existing.closeTime && !closure.closeTime)) byDate.set(closure.date, closure);
+    });
+    return byDate;
+  };
+
+  const calendars = new Map<HolidayCalendarId, MarketClosures>([["nyse", toMap(getEventClosures(events))]]);
+  (Object.keys(CALENDAR_CLOSURES) as Exclude<HolidayCalendarId, "nyse">[]).forEach((id) => {
+    calendars.set(id, toMap(years.flatMap(CALENDAR_CLOSURES[id])));
+  });
+  return calendars;
+}
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildMarketClosures } from "@/lib/market-holidays";
+import {
+  BUILT_IN_MARKETS,
+  CustomMarket,
+  MarketSession,
+  buildMarketRegistry,
+  getActiveSegment,
+  getNextSegment,
+  getSegmentInstances,
+  parseMarketSegments,
+} from "@/lib/markets";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function builtIn(id: string): MarketSession {
+  return BUILT_IN_MARKETS.find((m) => m.id === id)!;
+}
+
+function market(id: string, events: Parameters<typeof buildMarketClosures>[0] = []): MarketSession {
+  return buildMarketRegistry([], buildMarketClosures(events, NOW)).find((m) => m.id === id)!;
+}
+
+const iso = (date: Date) => date.toISOString();
+
+describe("getSegmentInstances", () => {
+  it("puts the CME maintenance break at 16:00-17:00 Chicago time across the spring DST change", () => {
+    const cme = builtIn("cme");
+    // Friday's session opened Thursday 17:00 CST; Sunday's opens 17:00 CDT
+    const [friday, sunday] = getSegmentInstances(cme, new Date("2026-03-06T12:00:00Z"), new Date("2026-03-09T12:00:00Z"));
+    assert.equal(iso(friday.start), "2026-03-05T23:00:00.000Z");
+    assert.equal(iso(friday.end), "2026-03-06T22:00:00.000Z");
+    assert.equal(sunday.tradingDate, "2026-03-08");
+    assert.equal(iso(sunday.start), "2026-03-08T22:00:00.000Z");
+    assert.equal(iso(sunday.end), "2026-03-09T21:00:00.000Z");
+
+    assert.equal(getActiveSegment(cme, new Date("2026-03-09T21:30:00Z")), null);
+    assert.equal(iso(getNextSegment(cme, new Date("2026-03-09T21:30:00Z"))!.start), "2026-03-09T22:00:00.000Z");
+  });
+
+  it("keeps the CME break an hour long when DST ends", () => {
+    const cme = builtIn("cme");
+    const at = new Date("2026-11-02T22:30:00Z"); // 16:30 CST Monday
+    assert.equal(getActiveSegment(cme, at), null);
+    assert.equal(iso(getNextSegment(cme, at)!.start), "2026-11-02T23:00:00.000Z");
+  });
+
+  it("closes for the TSE lunch break", () => {
+    const tokyo = builtIn("tokyo");
+    const lunch = getActiveSegment(tokyo, new Date("2026-10-20T03:00:00Z")); // 12:00 JST
+    assert.equal(lunch?.segment.type, "break");
+  });
+
+  it("skips full-day holidays", () => {
+    const nyse = market("us", [{ date: "2026-11-26", title: "Thanksgiving Day (Market Closed)", impact: "holiday" }]);
+    const thanksgiving = getSegmentInstances(nyse, new Date("2026-11-26T05:00:00Z"), new Date("2026-11-27T04:59:00Z"));
+    assert.deepEqual(thanksgiving, []);
+  });
+
+  it("trims an early close and drops the segments after it", () => {
+    const nyse = market("us", [{ date: "2026-11-27", title: "Early Close", impact: "early_close", closeTimeET: "13:00" }]);
+    const day = getSegmentInstances(nyse, new Date("2026-11-27T05:00:00Z"), new Date("2026-11-28T04:59:00Z"));
+    assert.deepEqual(day.map((i) => i.segment.type), ["pre", "regular"]);
+    assert.equal(iso(day[1].end), "2026-11-27T18:00:00.000Z");
+  });
+
+  it("uses the exchange's own calendar for generated holidays", () => {
+    const tokyo = market("tokyo");
+    // Citizens' Holiday between Respect for the Aged Day and the autumnal equinox
+    assert.deepEqual(getSegmentInstances(tokyo, new Date("2026-09-21T15:00:00Z"), new Date("2026-09-22T14:59:00Z")), []);
+  });
+});
+
+describe("buildMarketRegistry", () => {
+  it("replaces a built-in with the user's edited copy", () => {
+    const edited: CustomMarket = {
+      id: "row-1",
+      marketId: "us",
+      name: "NYSE (core only)",
+      shortName: "NYSE",
+      color: "#22c55e",
+      timezone: "America/New_York",
+      days: [1, 2, 3, 4, 5],
+      segments: [{ type: "regular", start: "09:30", end: "16:00" }],
+      holidayCalendar: "nyse",
+      version: 1,
+    };
+    const registry = buildMarketRegistry([edited]);
+    assert.equal(registry.filter((m) => m.id === "us").length, 1);
+    assert.equal(registry.find((m) => m.id === "us")!.name, "NYSE (core only)");
+  });
+});
+
+describe("parseMarketSegments", () => {
+  it("accepts overnight sessions written as published", () => {
+    assert.equal(parseMarketSegments([{ type: "regular", start: "17:00", end: "16:00" }]).error, null);
+  });
+
+  it("rejects malformed times", () => {
+    assert.ok(parseMarketSegments([{ type: "regular", start: "9:30", end: "16:00" }]).error);
+  });
+});
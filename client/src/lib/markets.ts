@@ -0,0 +1,499 @@
+// Exchange registry for the timeline: the built-in markets, merged with the
+// user's added exchanges and edited hours (CustomMarket rows), plus the
+// session math behind market lanes, cards and open/close alerts.
+// Kept free of server imports.
+
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from "@/lib/event-time";
+import { CalendarClosures, HolidayCalendarId, MarketClosure, MarketClosures, isHolidayCalendar } from "@/lib/market-holidays";
+
+// Auctions (opening and closing calls) accept orders and count as open;
+// breaks like the Asian lunch break are part of the trading day but shut.
+export type MarketSegmentType = "pre" | "auction" | "regular" | "break" | "post";
+
+// A stretch of the trading day in the market's own time zone. A time earlier
+// than the one before it falls on the next calendar day, so overnight markets
+// like CME Globex are written as they are published ("17:00" to "16:00").
+export interface MarketSegment {
+  type: MarketSegmentType;
+  start: string;  // HH:MM
+  end: string;    // HH:MM; "24:00" for midnight
+  label?: string; // e.g. "Lunch Break"; defaults to the type's label
+}
+
+export interface MarketSession {
+  id: string;
+  name: string;
+  shortName: string;
+  color: string;
+  timezone: string;          // IANA zone the segment times are in
+  days: number[];            // Weekdays a trading day opens on, 0-6 Sunday-Saturday
+  segments: MarketSegment[]; // In trading-day order
+  holidayCalendar?: HolidayCalendarId;
+  closures?: MarketClosures; // The holiday calendar's closures, attached by buildMarketRegistry
+}
+
+// A user-added exchange, or edited hours for the built-in market with the same marketId
+export interface CustomMarket extends Omit<MarketSession, "id" | "closures"> {
+  id: string;
+  marketId: string;
+  version?: number; // Server version, sent back on update to detect edits from another tab
+}
+
+export type CustomMarketInput = Omit<CustomMarket, "id" | "version">;
+
+export const SEGMENT_TYPES: { value: MarketSegmentType; label: string; badge: string }[] = [
+  { value: "pre", label: "Pre-Market", badge: "PRE" },
+  { value: "auction", label: "Auction", badge: "AUCTION" },
+  { value: "regular", label: "Regular", badge: "LIVE" },
+  { value: "break", label: "Break", badge: "BREAK" },
+  { value: "post", label: "After-Hours", badge: "POST" },
+];
+
+// Local trading hours, verified from the exchanges' published schedules
+export const BUILT_IN_MARKETS: MarketSession[] = [
+  {
+    id: "us",
+    name: "New York Stock Exchange",
+    shortName: "NYSE",
+    color: "#22c55e", // Green
+    timezone: "America/New_York",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "nyse",
+    // Source: stockanalysis.com - Pre-market 4:00 AM, After-hours until 8:00 PM
+    segments: [
+      { type: "pre", start: "04:00", end: "09:30" },
+      { type: "regular", start: "09:30", end: "16:00" },
+      { type: "post", start: "16:00", end: "20:00" },
+    ],
+  },
+  {
+    id: "london",
+    name: "London Stock Exchange",
+    shortName: "LSE",
+    color: "#3B82F6", // Blue
+    timezone: "Europe/London",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "lse",
+    // Source: xtb.com - Pre-trading 5:05-7:50, Regular 8:00-16:30, Post 16:40-17:15
+    // Source: londonstockexchange.com - Opening auction 7:50-8:00, Closing auction 16:30-16:35
+    segments: [
+      { type: "pre", start: "05:05", end: "07:50" },
+      { type: "auction", start: "07:50", end: "08:00", label: "Opening Auction" },
+      { type: "regular", start: "08:00", end: "16:30" },
+      { type: "auction", start: "16:30", end: "16:35", label: "Closing Auction" },
+      { type: "post", start: "16:40", end: "17:15", label: "Post-Market" },
+    ],
+  },
+  {
+    id: "tokyo",
+    name: "Tokyo Stock Exchange",
+    shortName: "TSE",
+    color: "#EF4444", // Red
+    timezone: "Asia/Tokyo",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "jpx",
+    // Source: jpx.co.jp - Morning session 9:00-11:30, Afternoon 12:30-15:30
+    // with the closing auction from 15:25
+    segments: [
+      { type: "regular", start: "09:00", end: "11:30", label: "Morning" },
+      { type: "break", start: "11:30", end: "12:30", label: "Lunch Break" },
+      { type: "regular", start: "12:30", end: "15:25", label: "Afternoon" },
+      { type: "auction", start: "15:25", end: "15:30", label: "Closing Auction" },
+    ],
+  },
+  {
+    id: "sydney",
+    name: "Australian Securities Exchange",
+    shortName: "ASX",
+    color: "#EAB308", // Yellow
+    timezone: "Australia/Sydney",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "asx",
+    // Source: asx.com.au - Pre-open 7:00, Normal trading ~10:00-16:00, Adjust phase until 18:50
+    segments: [
+      { type: "pre", start: "07:00", end: "10:00", label: "Pre-Open" },
+      { type: "regular", start: "10:00", end: "16:00" },
+      { type: "post", start: "16:10", end: "18:50", label: "Post-Market" },
+    ],
+  },
+  {
+    id: "xetra",
+    name: "Deutsche Börse Xetra",
+    shortName: "XETRA",
+    color: "#F97316", // Orange
+    timezone: "Europe/Berlin",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "xetra",
+    // Source: deutsche-boerse.com - Opening auction from 8:50, continuous trading 9:00-17:30,
+    // Closing auction from 17:30
+    segments: [
+      { type: "auction", start: "08:50", end: "09:00", label: "Opening Auction" },
+      { type: "regular", start: "09:00", end: "17:30" },
+      { type: "auction", start: "17:30", end: "17:35", label: "Closing Auction" },
+    ],
+  },
+  {
+    id: "hkex",
+    name: "Hong Kong Stock Exchange",
+    shortName: "HKEX",
+    color: "#EC4899", // Pink
+    timezone: "Asia/Hong_Kong",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "hkex",
+    // Source: hkex.com.hk - Pre-opening 9:00-9:30, Morning 9:30-12:00,
+    // Afternoon 13:00-16:00, Closing auction 16:00-16:10
+    segments: [
+      { type: "auction", start: "09:00", end: "09:30", label: "Pre-Opening" },
+      { type: "regular", start: "09:30", end: "12:00", label: "Morning" },
+      { type: "break", start: "12:00", end: "13:00", label: "Lunch Break" },
+      { type: "regular", start: "13:00", end: "16:00", label: "Afternoon" },
+      { type: "auction", start: "16:00", end: "16:10", label: "Closing Auction" },
+    ],
+  },
+  {
+    id: "sse",
+    name: "Shanghai Stock Exchange",
+    shortName: "SSE",
+    color: "#DC2626", // Crimson
+    timezone: "Asia/Shanghai",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "sse",
+    // Source: sse.com.cn - Call auction 9:15-9:25 (orders queue until 9:30), Morning 9:30-11:30,
+    // Afternoon 13:00-14:57, Closing call auction 14:57-15:00
+    segments: [
+      { type: "auction", start: "09:15", end: "09:30", label: "Opening Auction" },
+      { type: "regular", start: "09:30", end: "11:30", label: "Morning" },
+      { type: "break", start: "11:30", end: "13:00", label: "Lunch Break" },
+      { type: "regular", start: "13:00", end: "14:57", label: "Afternoon" },
+      { type: "auction", start: "14:57", end: "15:00", label: "Closing Auction" },
+    ],
+  },
+  {
+    id: "tsx",
+    name: "Toronto Stock Exchange",
+    shortName: "TSX",
+    color: "#14B8A6", // Teal
+    timezone: "America/Toronto",
+    days: [1, 2, 3, 4, 5],
+    holidayCalendar: "tsx",
+    // Source: tsx.com - Pre-open 7:00-9:30, Regular 9:30-16:00, Extended hours 16:15-17:00
+    segments: [
+      { type: "pre", start: "07:00", end: "09:30", label: "Pre-Open" },
+      { type: "regular", start: "09:30", end: "16:00" },
+      { type: "post", start: "16:15", end: "17:00", label: "Extended" },
+    ],
+  },
+  {
+    id: "cme",
+    name: "CME Globex",
+    shortName: "CME",
+    color: "#8B5CF6", // Violet
+    timezone: "America/Chicago",
+    days: [0, 1, 2, 3, 4],
+    // Source: cmegroup.com - Equity and rates futures trade Sunday-Friday 17:00-16:00 CT,
+    // with the daily maintenance break 16:00-17:00 CT
+    segments: [
+      { type: "regular", start: "17:00", end: "16:00", label: "Globex" },
+    ],
+  },
+  {
+    id: "forex",
+    name: "Forex (Spot FX)",
+    shortName: "FX",
+    color: "#06B6D4", // Cyan
+    timezone: "America/New_York",
+    days: [0, 1, 2, 3, 4],
+    // The interbank week opens with Sydney on Sunday 17:00 ET and closes with New York on Friday 17:00 ET
+    segments: [
+      { type: "regular", start: "17:00", end: "17:00", label: "24h" },
+    ],
+  },
+  {
+    id: "crypto",
+    name: "Crypto",
+    shortName: "CRYPTO",
+    color: "#F59E0B", // Amber
+    timezone: "UTC",
+    days: [0, 1, 2, 3, 4, 5, 6],
+    segments: [
+      { type: "regular", start: "00:00", end: "24:00", label: "24/7" },
+    ],
+  },
+];
+
+// Shown until the user picks markets in the filter
+export const DEFAULT_VISIBLE_MARKETS = ["us", "london", "tokyo", "sydney"];
+
+// Built-ins with the user's edits applied, then the user's own exchanges, each
+// with its holiday calendar's closures (from buildMarketClosures)
+export function buildMarketRegistry(
+  customMarkets: CustomMarket[],
+  closures: CalendarClosures = new Map()
+): MarketSession[] {
+  const toSession = ({ marketId, name, shortName, color, timezone, days, segments, holidayCalendar }: CustomMarket): MarketSession =>
+    ({ id: marketId, name, shortName, color, timezone, days, segments, holidayCalendar });
+  const withClosures = (market: MarketSession): MarketSession =>
+    market.holidayCalendar ? { ...market, closures: closures.get(market.holidayCalendar) } : market;
+
+  const overrides = new Map(customMarkets.map((m) => [m.marketId, m]));
+  return [
+    ...BUILT_IN_MARKETS.map((market) => {
+      const override = overrides.get(market.id);
+      return override ? toSession(override) : market;
+    }),
+    ...customMarkets.filter((m) => !isBuiltInMarket(m.marketId)).map(toSession),
+  ].map(withClosures);
+}
+
+export function isBuiltInMarket(marketId: string): boolean {
+  return BUILT_IN_MARKETS.some((m) => m.id === marketId);
+}
+
+export function getSegmentLabel(segment: MarketSegment): string {
+  return segment.label || SEGMENT_TYPES.find((t) => t.value === segment.type)!.label;
+}
+
+// Breaks are the only segments where the market is shut
+export function isTradingSegment(segment: MarketSegment): boolean {
+  return segment.type !== "break";
+}
+
+// ============================================
+// SEGMENT INSTANCES
+// ============================================
+
+// One segment on one trading day, as UTC instants
+export interface SegmentInstance {
+  segment: MarketSegment;
+  index: number;       // Position in the market's segments
+  tradingDate: string; // YYYY-MM-DD the trading day opened on, in the market's zone
+  start: Date;
+  end: Date;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Minutes from the opening day's midnight to each segment's start and end
+function getSegmentOffsets(segments: MarketSegment[]): { start: number; end: number }[] {
+  let previous = 0;
+  return segments.map((segment) => {
+    let start = toMinutes(segment.start);
+    while (start < previous) start += MINUTES_PER_DAY;
+    let end = toMinutes(segment.end);
+    while (end <= start) end += MINUTES_PER_DAY;
+    previous = end;
+    return { start, end };
+  });
+}
+
+// Minutes from a trading day's first open to its last close
+function getTradingDaySpan(segments: MarketSegment[]): number {
+  const offsets = getSegmentOffsets(segments);
+  return offsets.length === 0 ? 0 : offsets[offsets.length - 1].end - offsets[0].start;
+}
+
+function toInstant(date: string, offset: number, timezone: string): Date {
+  return zonedTimeToUtc(addDays(date, Math.floor(offset / MINUTES_PER_DAY)), formatMinutes(offset % MINUTES_PER_DAY), timezone);
+}
+
+// Instances are recomputed every tick for every lane, and zone conversion is
+// slow, so each market's trading days are cached by their definition
+const instanceCache = new Map<string, SegmentInstance[]>();
+
+function getTradingDayInstances(market: MarketSession, date: string): SegmentInstance[] {
+  const cacheKey = `${market.timezone}|${JSON.stringify(market.segments)}|${date}`;
+  const cached = instanceCache.get(cacheKey);
+  if (cached) return cached;
+
+  const instances = getSegmentOffsets(market.segments).map((offset, index) => ({
+    segment: market.segments[index],
+    index,
+    tradingDate: date,
+    start: toInstant(date, offset.start, market.timezone),
+    end: toInstant(date, offset.end, market.timezone),
+  }));
+  if (instanceCache.size > 2000) instanceCache.clear();
+  instanceCache.set(cacheKey, instances);
+  return instances;
+}
+
+// An early close ends the trading day at closeTime: the segment trading then is
+// cut short and later ones, like after-hours or a closing auction, are dropped
+function applyEarlyClose(instances: SegmentInstance[], closure: MarketClosure, timezone: string): SegmentInstance[] {
+  const closeAt = zonedTimeToUtc(closure.date, closure.closeTime!, timezone);
+  const kept = instances
+    .filter((i) => i.start < closeAt)
+    .map((i) => (i.end > closeAt ? { ...i, end: closeAt } : i));
+  while (kept.length > 0 && !isTradingSegment(kept[kept.length - 1].segment)) kept.pop();
+  return kept;
+}
+
+// Segments overlapping from-to, in time order, skipping holidays
+export function getSegmentInstances(market: MarketSession, from: Date, to: Date): SegmentInstance[] {
+  // A trading day can open up to a day before the segment that is trading
+  let date = addDays(getZonedParts(from, market.timezone).date, -2);
+  const lastDate = getZonedParts(to, market.timezone).date;
+
+  const instances: SegmentInstance[] = [];
+  for (; date <= lastDate; date = addDays(date, 1)) {
+    if (!market.days.includes(getWeekday(date))) continue;
+    const closure = market.closures?.get(date);
+    if (closure && !closure.closeTime) continue;
+
+    const day = getTradingDayInstances(market, date);
+    instances.push(...(closure ? applyEarlyClose(day, closure, market.timezone) : day).filter((i) => i.end > from && i.start < to));
+  }
+  return instances.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// The segment trading at a moment, if any
+export function getActiveSegment(market: MarketSession, at: Date): SegmentInstance | null {
+  return getSegmentInstances(market, at, new Date(at.getTime() + 1))[0] ?? null;
+}
+
+// The first segment (of a type, if given) starting after a moment, within two weeks
+export function getNextSegment(market: MarketSession, after: Date, type?: MarketSegmentType): SegmentInstance | null {
+  const instances = getSegmentInstances(market, after, new Date(after.getTime() + 14 * 86400000));
+  return instances.find((i) => i.start > after && (!type || i.segment.type === type)) ?? null;
+}
+
+// The holiday or early close on a market's local date at a moment, if any
+export function getMarketClosure(market: MarketSession, at: Date): MarketClosure | null {
+  return market.closures?.get(getZonedParts(at, market.timezone).date) ?? null;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MARKET_ID_PATTERN = /^[a-z0-9-]{1,40}$/;
+const MAX_SEGMENTS = 8;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export function parseMarketSegments(value: unknown): { segments: MarketSegment[] | null; error: string | null } {
+  if (!Array.isArray(value) || value.length === 0) return { segments: null, error: "Add at least one session" };
+  if (value.length > MAX_SEGMENTS) return { segments: null, error: `A market can have at most ${MAX_SEGMENTS} sessions` };
+
+  const segments: MarketSegment[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) return { segments: null, error: "Each session must be an object" };
+    if (!SEGMENT_TYPES.some((t) => t.value === item.type)) {
+      return { segments: null, error: "Session type must be pre, auction, regular, break or post" };
+    }
+    if (typeof item.start !== "string" || !TIME_PATTERN.test(item.start) ||
+        typeof item.end !== "string" || !(TIME_PATTERN.test(item.end) || item.end === "24:00")) {
+      return { segments: null, error: "Session start and end times must be HH:MM" };
+    }
+    segments.push({
+      type: item.type as MarketSegmentType,
+      start: item.start,
+      end: item.end,
+      label: optionalString(item.label)?.slice(0, 30),
+    });
+  }
+
+  if (segments[0].type === "break" || segments[segments.length - 1].type === "break") {
+    return { segments: null, error: "Breaks must come between trading sessions" };
+  }
+  // Longer days would overlap the next trading day
+  if (getTradingDaySpan(segments) > MINUTES_PER_DAY) {
+    return { segments: null, error: "Sessions must fit within 24 hours of the first open" };
+  }
+  return { segments, error: null };
+}
+
+// Validate a market payload from the client
+export function parseMarketInput(data: unknown): { market: CustomMarketInput | null; error: string | null } {
+  if (!isRecord(data)) return { market: null, error: "Market must be an object" };
+
+  if (typeof data.marketId !== "string" || !MARKET_ID_PATTERN.test(data.marketId)) {
+    return { market: null, error: "Market id must be lowercase letters, digits and dashes" };
+  }
+
+  const name = optionalString(data.name);
+  const shortName = optionalString(data.shortName);
+  if (!name || !shortName) return { market: null, error: "Name and short name are required" };
+  if (shortName.length > 8) return { market: null, error: "Short name must be at most 8 characters" };
+
+  const timezone = optionalString(data.timezone);
+  if (!timezone || !isValidTimeZone(timezone)) return { market: null, error: "Time zone must be an IANA zone like Europe/Paris" };
+
+  const days = Array.isArray(data.days)
+    ? Array.from(new Set(data.days.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))).sort()
+    : [];
+  if (days.length === 0) return { market: null, error: "Pick at least one trading day" };
+
+  const { segments, error } = parseMarketSegments(data.segments);
+  if (!segments) return { market: null, error };
+
+  if (data.holidayCalendar !== undefined && data.holidayCalendar !== null && !isHolidayCalendar(data.holidayCalendar)) {
+    return { market: null, error: "Unknown holiday calendar" };
+  }
+
+  return {
+    market: {
+      marketId: data.marketId,
+      name: name.slice(0, 60),
+      shortName: shortName.toUpperCase(),
+      color: optionalString(data.color) ?? "#3b82f6",
+      timezone,
+      days,
+      segments,
+      holidayCalendar: isHolidayCalendar(data.holidayCalendar) ? data.holidayCalendar : undefined,
+    },
+    error: null,
+  };
+}
+
+interface MarketRow {
+  id: string;
+  marketId: string;
+  name: string;
+  shortName: string;
+  color: string;
+  timezone: string;
+  days: number[];
+  segments: unknown;
+  holidayCalendar: string | null;
+  version: number;
+}
+
+export function serializeMarket(row: MarketRow): CustomMarket {
+  return {
+    id: row.id,
+    marketId: row.marketId,
+    name: row.name,
+    shortName: row.shortName,
+    color: row.color,
+    timezone: row.timezone,
+    days: row.days,
+    segments: parseMarketSegments(row.segments).segments ?? [],
+    holidayCalendar: isHolidayCalendar(row.holidayCalendar) ? row.holidayCalendar : undefined,
+    version: row.version,
+  };
+}
@@ -0,0 +1,131 @@
+import webpush from "web-push";
+import { prisma } from "@/lib/db";
+import { LOCAL_PUSH_ENDPOINT_PREFIX, PushMode, PushPayload } from "@/lib/push";
+import { pushToLocalInbox } from "@/lib/push-mock";
+
+// Web Push delivery for background alerts. Without VAPID keys (or with
+// PUSH_MOCK=true) outside production, pushes go to the in-memory stand-in in
+// push-mock.ts so the service worker can be exercised locally.
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:alerts@localhost";
+
+// Alerts this late are dropped: a market-open push an hour after the bell is noise
+const DELIVERY_GRACE_MS = 5 * 60 * 1000;
+
+// Sent rows are kept a day so re-uploaded schedules can't resend them
+const SENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Push services discard undelivered messages after this many seconds
+const PUSH_TTL_SECONDS = 300;
+
+export function isPushMockEnabled(): boolean {
+  if (process.env.PUSH_MOCK === "true") return true;
+  return !(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) && process.env.NODE_ENV !== "production";
+}
+
+export function getPushMode(): PushMode {
+  if (isPushMockEnabled()) return "local";
+  return VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY ? "webpush" : "disabled";
+}
+
+export function getVapidPublicKey(): string | null {
+  return getPushMode() === "webpush" ? VAPID_PUBLIC_KEY! : null;
+}
+
+interface PushTarget {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// "expired" subscriptions have been removed; the browser unsubscribed or the key rotated
+export async function sendPush(target: PushTarget, payload: PushPayload): Promise<"sent" | "expired" | "failed"> {
+  if (target.endpoint.startsWith(LOCAL_PUSH_ENDPOINT_PREFIX)) {
+    if (!isPushMockEnabled()) return "failed";
+    pushToLocalInbox(target.endpoint, payload);
+    return "sent";
+  }
+
+  if (getPushMode() !== "webpush") return "failed";
+
+  try {
+    await webpush.sendNotification(
+      { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+      JSON.stringify(payload),
+      {
+        TTL: PUSH_TTL_SECONDS,
+        vapidDetails: { subject: VAPID_SUBJECT, publicKey: VAPID_PUBLIC_KEY!, privateKey: VAPID_PRIVATE_KEY! },
+      }
+    );
+    return "sent";
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (statusCode === 404 || statusCode === 410) {
+      await prisma.pushSubscription.deleteMany({ where: { id: target.id } });
+      return "expired";
+    }
+    console.error("Error sending push notification:", error);
+    return "failed";
+  }
+}
+
+export interface PushDeliveryResult {
+  due: number;
+  sent: number;
+  expired: number;
+  failed: number;
+  dropped: number; // Came due while nothing was delivering, past the grace period
+}
+
+// Send every scheduled alert that has come due to the subscriptions opted in to its type
+export async function deliverDuePushes(now: Date = new Date(), { userId }: { userId?: string } = {}): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { due: 0, sent: 0, expired: 0, failed: 0, dropped: 0 };
+  const graceStart = new Date(now.getTime() - DELIVERY_GRACE_MS);
+
+  const { count: dropped } = await prisma.scheduledPush.updateMany({
+    where: { ...(userId ? { userId } : {}), sentAt: null, fireAt: { lt: graceStart } },
+    data: { sentAt: now },
+  });
+  result.dropped = dropped;
+
+  const candidates = await prisma.scheduledPush.findMany({
+    where: { ...(userId ? { userId } : {}), sentAt: null, fireAt: { gte: graceStart, lte: now } },
+    orderBy: { fireAt: "asc" },
+  });
+
+  // Claim each row before sending so overlapping runs (a retried request, or the
+  // dev poll alongside the scheduler) never deliver the same alert twice. Rows
+  // are marked sent even when a send fails; a retry would arrive too late to be useful.
+  const claims = await prisma.$transaction(
+    candidates.map((push) => prisma.scheduledPush.updateMany({ where: { id: push.id, sentAt: null }, data: { sentAt: now } }))
+  );
+  const due = candidates.filter((_, index) => claims[index].count === 1);
+  result.due = due.length;
+
+  if (due.length > 0) {
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: { in: Array.from(new Set(due.map((push) => push.userId))) } },
+    });
+
+    const expiredIds = new Set<string>();
+    for (const push of due) {
+      const payload: PushPayload = { title: push.title, body: push.body, tag: push.key, type: push.type as PushPayload["type"], url: "/dashboard" };
+      const targets = subscriptions.filter((s) => s.userId === push.userId && s.alertTypes.includes(push.type) && !expiredIds.has(s.id));
+
+      for (const target of targets) {
+        const outcome = await sendPush(target, payload);
+        if (outcome === "expired") expiredIds.add(target.id);
+        result[outcome]++;
+      }
+    }
+  }
+
+  await prisma.scheduledPush.deleteMany({
+    where: { ...(userId ? { userId } : {}), sentAt: { not: null }, fireAt: { lt: new Date(now.getTime() - SENT_RETENTION_MS) } },
+  });
+
+  return result;
+}
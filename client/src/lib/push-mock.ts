@@ -0,0 +1,29 @@
+// In-memory Web Push stand-in for local development. Payloads sent to a
+// "local:" endpoint wait here until the dashboard polls /api/push/local and
+// hands them to the service worker, which shows them exactly as it would a
+// real push. Only works with a single server process.
+
+import type { PushPayload } from "@/lib/push";
+
+// Kept on globalThis so every route handler sees the same inbox in dev
+const globalForPush = globalThis as unknown as {
+  localPushInbox: Map<string, PushPayload[]> | undefined;
+};
+
+const inbox = globalForPush.localPushInbox ?? new Map<string, PushPayload[]>();
+globalForPush.localPushInbox = inbox;
+
+// Undelivered payloads past this are dropped, like an expired push TTL
+const MAX_QUEUED_PER_ENDPOINT = 50;
+
+export function pushToLocalInbox(endpoint: string, payload: PushPayload): void {
+  const queued = inbox.get(endpoint) ?? [];
+  queued.push(payload);
+  inbox.set(endpoint, queued.slice(-MAX_QUEUED_PER_ENDPOINT));
+}
+
+export function drainLocalInbox(endpoint: string): PushPayload[] {
+  const queued = inbox.get(endpoint) ?? [];
+  inbox.delete(endpoint);
+  return queued;
+}
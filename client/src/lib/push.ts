@@ -0,0 +1,123 @@
+// Background alerts shared by the dashboard, usePushNotifications and the
+// /api/push routes. Kept free of server imports.
+//
+// The dashboard computes the alerts due over the next day and uploads them as
+// a schedule; /api/cron/push-alerts sends each one as a Web Push when it comes
+// due, and the service worker (public/sw.js) shows it unless a dashboard tab
+// is visible and already playing it.
+
+export const PUSH_ALERT_TYPES = [
+  { value: "market", label: "Market open/close" },
+  { value: "custom", label: "Custom alerts and sessions" },
+  { value: "event", label: "Watchlist events" },
+] as const;
+
+export type PushAlertType = (typeof PUSH_ALERT_TYPES)[number]["value"];
+
+export interface PushScheduleItem {
+  key: string;      // One per occurrence, so re-uploading a schedule never repeats a sent alert
+  type: PushAlertType;
+  fireAt: string;   // ISO instant
+  title: string;
+  body: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;      // Notifications with the same tag replace each other
+  type: PushAlertType | "test";
+  url: string;
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  alertTypes: PushAlertType[];
+}
+
+// "webpush" with VAPID keys, "local" for the development stand-in
+export type PushMode = "webpush" | "local" | "disabled";
+
+// Endpoints of stand-in subscriptions, which never leave the server
+export const LOCAL_PUSH_ENDPOINT_PREFIX = "local:";
+
+// The dashboard re-uploads at least hourly, so a day ahead covers a closed laptop overnight
+export const PUSH_SCHEDULE_HOURS = 24;
+
+const MAX_SCHEDULE_ITEMS = 500;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isAlertType(value: unknown): value is PushAlertType {
+  return PUSH_ALERT_TYPES.some((t) => t.value === value);
+}
+
+// Unknown types are dropped rather than rejected, so older clients keep working
+export function parseAlertTypes(value: unknown): PushAlertType[] {
+  if (value === undefined) return PUSH_ALERT_TYPES.map((t) => t.value);
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter(isAlertType)));
+}
+
+export function parsePushSubscriptionInput(data: unknown): { subscription: PushSubscriptionInput | null; error: string | null } {
+  if (!isRecord(data)) return { subscription: null, error: "Subscription must be an object" };
+
+  const endpoint = typeof data.endpoint === "string" ? data.endpoint.trim() : "";
+  if (!endpoint.startsWith("https://") && !endpoint.startsWith(LOCAL_PUSH_ENDPOINT_PREFIX)) {
+    return { subscription: null, error: "endpoint must be an https URL" };
+  }
+
+  // Same shape as PushSubscription.toJSON()
+  const keys = isRecord(data.keys) ? data.keys : {};
+  const p256dh = typeof keys.p256dh === "string" ? keys.p256dh : "";
+  const auth = typeof keys.auth === "string" ? keys.auth : "";
+  if (!endpoint.startsWith(LOCAL_PUSH_ENDPOINT_PREFIX) && (!p256dh || !auth)) {
+    return { subscription: null, error: "keys.p256dh and keys.auth are required" };
+  }
+
+  return {
+    subscription: { endpoint, p256dh, auth, alertTypes: parseAlertTypes(data.alertTypes) },
+    error: null,
+  };
+}
+
+export function parsePushSchedule(data: unknown): { items: PushScheduleItem[] | null; error: string | null } {
+  if (!isRecord(data) || !Array.isArray(data.items)) return { items: null, error: "items must be an array" };
+  if (data.items.length > MAX_SCHEDULE_ITEMS) {
+    return { items: null, error: `At most ${MAX_SCHEDULE_ITEMS} scheduled alerts` };
+  }
+
+  const items: PushScheduleItem[] = [];
+  for (const item of data.items) {
+    if (!isRecord(item)) return { items: null, error: "Each scheduled alert must be an object" };
+    const { key, type, fireAt, title, body } = item;
+    if (typeof key !== "string" || !key || !isAlertType(type) || typeof title !== "string" || !title) {
+      return { items: null, error: "Scheduled alerts need key, type and title" };
+    }
+    if (typeof fireAt !== "string" || Number.isNaN(Date.parse(fireAt))) {
+      return { items: null, error: `Invalid fireAt for "${title}"` };
+    }
+    items.push({
+      key: key.slice(0, 200),
+      type,
+      fireAt: new Date(fireAt).toISOString(),
+      title: title.slice(0, 200),
+      body: typeof body === "string" ? body.slice(0, 500) : "",
+    });
+  }
+
+  return { items, error: null };
+}
+
+// VAPID public keys are base64url; PushManager.subscribe wants the raw bytes
+export function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
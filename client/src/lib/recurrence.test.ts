@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildMarketClosures } from "@/lib/market-holidays";
+import { Recurrence, getNextRecurrenceDates, getRecurrenceDates, parseRRule, parseRecurrence } from "@/lib/recurrence";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function recurrence(rule: string, overrides: Partial<Recurrence> = {}): Recurrence {
+  return { rule, start: "2026-01-01", exceptions: [], holidays: "ignore", ...overrides };
+}
+
+describe("parseRRule", () => {
+  it("rejects rules without a frequency", () => {
+    assert.ok(parseRRule("BYDAY=3FR").error);
+  });
+
+  it("reads ordinal weekdays", () => {
+    const { rule } = parseRRule("FREQ=MONTHLY;BYDAY=3FR");
+    assert.deepEqual(rule?.byDay, [{ weekday: 5, ordinal: 3 }]);
+  });
+});
+
+describe("parseRecurrence", () => {
+  it("rejects unknown holiday calendars", () => {
+    assert.ok(parseRecurrence({ rule: "FREQ=DAILY", start: "2026-01-01", holidayCalendar: "nasdaq" }).error);
+  });
+
+  it("rejects impossible start dates", () => {
+    assert.ok(parseRecurrence({ rule: "FREQ=DAILY", start: "2026-02-30" }).error);
+  });
+});
+
+describe("getRecurrenceDates", () => {
+  it("expands monthly OPEX to the third Friday", () => {
+    assert.deepEqual(getRecurrenceDates(recurrence("FREQ=MONTHLY;BYDAY=3FR"), "2026-01-01", "2026-04-30"), [
+      "2026-01-16",
+      "2026-02-20",
+      "2026-03-20",
+      "2026-04-17",
+    ]);
+  });
+
+  it("moves OPEX off a holiday onto the previous business day", () => {
+    // Juneteenth 2026 is the third Friday of June
+    const closures = buildMarketClosures([{ date: "2026-06-19", title: "Juneteenth (Market Closed)", impact: "holiday" }], NOW);
+    const opex = recurrence("FREQ=MONTHLY;BYDAY=3FR", { holidays: "previous" });
+    assert.deepEqual(getRecurrenceDates(opex, "2026-06-01", "2026-06-30", closures), ["2026-06-18"]);
+  });
+
+  it("uses the chosen exchange's holidays", () => {
+    const daily = recurrence("FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", { holidays: "skip", holidayCalendar: "lse" });
+    const closures = buildMarketClosures([], NOW);
+    // Good Friday and Easter Monday
+    assert.deepEqual(getRecurrenceDates(daily, "2026-04-02", "2026-04-07", closures), ["2026-04-02", "2026-04-07"]);
+  });
+
+  it("keeps early closes as business days", () => {
+    const closures = buildMarketClosures([{ date: "2026-11-27", title: "Early Close", impact: "early_close", closeTimeET: "13:00" }], NOW);
+    const daily = recurrence("FREQ=DAILY", { holidays: "skip" });
+    assert.deepEqual(getRecurrenceDates(daily, "2026-11-27", "2026-11-27", closures), ["2026-11-27"]);
+  });
+
+  it("takes the last weekday of the quarter with BYSETPOS", () => {
+    const quarterEnd = recurrence("FREQ=MONTHLY;BYMONTH=3,6,9,12;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1");
+    assert.deepEqual(getRecurrenceDates(quarterEnd, "2026-01-01", "2026-12-31"), ["2026-03-31", "2026-06-30", "2026-09-30", "2026-12-31"]);
+  });
+
+  it("leaves out exceptions and stops at COUNT", () => {
+    const weekly = recurrence("FREQ=WEEKLY;BYDAY=MO;COUNT=3", { start: "2026-03-02", exceptions: ["2026-03-09"] });
+    assert.deepEqual(getRecurrenceDates(weekly, "2026-03-01", "2026-04-30"), ["2026-03-02", "2026-03-16"]);
+  });
+
+  it("counts days across a DST change", () => {
+    const everyOtherDay = recurrence("FREQ=DAILY;INTERVAL=2", { start: "2026-03-07" });
+    assert.deepEqual(getRecurrenceDates(everyOtherDay, "2026-03-07", "2026-03-12"), ["2026-03-07", "2026-03-09", "2026-03-11"]);
+  });
+});
+
+describe("getNextRecurrenceDates", () => {
+  it("finds rare occurrences beyond the first window", () => {
+    const yearly = recurrence("FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=24");
+    assert.deepEqual(getNextRecurrenceDates(yearly, "2026-01-05", 2), ["2026-12-24", "2027-12-24"]);
+  });
+});
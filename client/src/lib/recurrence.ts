@@ -0,0 +1,467 @@
+// iCalendar-style recurrence (RFC 5545 RRULE subset) for custom sessions and
+// alerts: monthly OPEX, quarter-end, roll days, first business day of the
+// month. Dates are calendar days in the browser's zone, as with session times.
+// Holidays are the full-day closures of the chosen exchange, on its own dates.
+// Kept free of server imports.
+
+import { CalendarClosures, HolidayCalendarId, isHolidayCalendar } from "@/lib/market-holidays";
+
+export type HolidayPolicy = "ignore" | "skip" | "next" | "previous";
+
+export interface Recurrence {
+  rule: string;           // RRULE body, e.g. "FREQ=MONTHLY;BYDAY=3FR"
+  start: string;          // YYYY-MM-DD (DTSTART); anchors INTERVAL and COUNT
+  exceptions: string[];   // YYYY-MM-DD dates left out (EXDATE)
+  holidays: HolidayPolicy; // What happens to occurrences on market holidays
+  holidayCalendar?: HolidayCalendarId; // Exchange whose holidays count; NYSE when unset
+}
+
+export const HOLIDAY_POLICIES: { value: HolidayPolicy; label: string }[] = [
+  { value: "ignore", label: "Ignore holidays" },
+  { value: "skip", label: "Skip holidays" },
+  { value: "next", label: "Move to next business day" },
+  { value: "previous", label: "Move to previous business day" },
+];
+
+export const RECURRENCE_PRESETS: { label: string; rule: string; holidays: HolidayPolicy }[] = [
+  { label: "Monthly OPEX", rule: "FREQ=MONTHLY;BYDAY=3FR", holidays: "previous" },
+  { label: "Quarter-end", rule: "FREQ=MONTHLY;BYMONTH=3,6,9,12;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", holidays: "previous" },
+  { label: "Quarterly roll", rule: "FREQ=MONTHLY;BYMONTH=3,6,9,12;BYDAY=2TH", holidays: "previous" },
+  { label: "First business day", rule: "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1", holidays: "next" },
+];
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+interface WeekdayRule {
+  weekday: number; // 0-6, Sunday-Saturday
+  ordinal: number; // 3 for "3FR", -1 for "-1MO", 0 for every one
+}
+
+export interface ParsedRRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: number; // Day number, inclusive
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+}
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_EXCEPTIONS = 100;
+
+// Days either side of a window searched for occurrences a holiday moves into it
+const SHIFT_MARGIN_DAYS = 7;
+
+// Previews look this far ahead for rules that fire rarely or have ended
+const PREVIEW_HORIZON_DAYS = 2 * 366;
+
+// ============================================
+// Day arithmetic on days since 1970-01-01, free of DST
+// ============================================
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / 86400000);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * 86400000).toISOString().slice(0, 10);
+}
+
+function dayNumberOf(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month - 1, day) / 86400000);
+}
+
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+}
+
+function partsOf(dayNumber: number): { year: number; month: number; day: number } {
+  const date = new Date(dayNumber * 86400000);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && fromDayNumber(toDayNumber(value)) === value;
+}
+
+// Local calendar date of a Date, as YYYY-MM-DD
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+function parseIntegerList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(",").map((part) => Number(part.trim()));
+  if (numbers.some((n) => !Number.isInteger(n) || n === 0 || n < min || n > max)) return null;
+  return Array.from(new Set(numbers));
+}
+
+export function parseRRule(text: string): { rule: ParsedRRule | null; error: string | null } {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  if (!body) return { rule: null, error: "Recurrence rule is empty" };
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || value.trim() === "") return { rule: null, error: `Malformed rule part "${part}"` };
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    return { rule: null, error: `FREQ must be one of ${FREQUENCIES.join(", ")}` };
+  }
+
+  const rule: ParsedRRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [] };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+      case "WKST": // Weeks always start on Monday
+        break;
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > 99) return { rule: null, error: "INTERVAL must be 1-99" };
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1 || count > 1000) return { rule: null, error: "COUNT must be 1-1000" };
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+        if (!isValidDate(until)) return { rule: null, error: "UNTIL must be a date like 20271231" };
+        rule.until = toDayNumber(until);
+        break;
+      }
+      case "BYDAY": {
+        for (const token of value.split(",")) {
+          const match = token.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          const ordinal = match?.[1] ? Number(match[1]) : 0;
+          if (!match || Math.abs(ordinal) > 53 || (match[1] && ordinal === 0)) {
+            return { rule: null, error: `Invalid BYDAY value "${token}"` };
+          }
+          if (ordinal !== 0 && freq !== "MONTHLY" && freq !== "YEARLY") {
+            return { rule: null, error: "Numbered BYDAY values need FREQ=MONTHLY or YEARLY" };
+          }
+          rule.byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal });
+        }
+        break;
+      }
+      case "BYMONTHDAY": {
+        const days = parseIntegerList(value, -31, 31);
+        if (!days) return { rule: null, error: "BYMONTHDAY must be days 1-31 or -1 to -31" };
+        if (freq === "WEEKLY") return { rule: null, error: "BYMONTHDAY can't be used with FREQ=WEEKLY" };
+        rule.byMonthDay = days;
+        break;
+      }
+      case "BYMONTH": {
+        const months = parseIntegerList(value, 1, 12);
+        if (!months) return { rule: null, error: "BYMONTH must be months 1-12" };
+        rule.byMonth = months.sort((a, b) => a - b);
+        break;
+      }
+      case "BYSETPOS": {
+        const positions = parseIntegerList(value, -366, 366);
+        if (!positions) return { rule: null, error: "BYSETPOS must be non-zero positions" };
+        rule.bySetPos = positions;
+        break;
+      }
+      default:
+        return { rule: null, error: `${key} isn't supported; times come from the session or alert` };
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    return { rule: null, error: "Use COUNT or UNTIL, not both" };
+  }
+  if (rule.bySetPos.length > 0 && rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byMonth.length === 0) {
+    return { rule: null, error: "BYSETPOS needs BYDAY, BYMONTHDAY or BYMONTH" };
+  }
+
+  return { rule, error: null };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validate a recurrence from a session or alert payload
+export function parseRecurrence(data: unknown): { recurrence: Recurrence | null; error: string | null } {
+  if (!isRecord(data)) return { recurrence: null, error: "recurrence must be an object" };
+
+  const ruleText = typeof data.rule === "string" ? data.rule.trim().replace(/^RRULE:/i, "") : "";
+  const { error } = parseRRule(ruleText);
+  if (error) return { recurrence: null, error };
+
+  const start = typeof data.start === "string" ? data.start.trim() : "";
+  if (!isValidDate(start)) return { recurrence: null, error: "Recurrence start must be a date (YYYY-MM-DD)" };
+
+  const exceptions = Array.isArray(data.exceptions) ? data.exceptions : [];
+  if (exceptions.some((d) => typeof d !== "string" || !isValidDate(d))) {
+    return { recurrence: null, error: "Exceptions must be dates (YYYY-MM-DD)" };
+  }
+  if (exceptions.length > MAX_EXCEPTIONS) {
+    return { recurrence: null, error: `At most ${MAX_EXCEPTIONS} exception dates` };
+  }
+
+  const holidays = HOLIDAY_POLICIES.find((p) => p.value === data.holidays)?.value ?? "ignore";
+  const holidayCalendar = data.holidayCalendar ?? undefined;
+  if (holidayCalendar !== undefined && !isHolidayCalendar(holidayCalendar)) {
+    return { recurrence: null, error: `Unknown holiday calendar "${String(holidayCalendar)}"` };
+  }
+
+  return {
+    recurrence: {
+      rule: ruleText.toUpperCase(),
+      start,
+      exceptions: Array.from(new Set(exceptions as string[])).sort(),
+      holidays,
+      ...(holidayCalendar ? { holidayCalendar } : {}),
+    },
+    error: null,
+  };
+}
+
+// ============================================
+// Expansion
+// ============================================
+
+function matchesOrdinal(position: number, fromEnd: number, ordinal: number): boolean {
+  if (ordinal === 0) return true;
+  return ordinal > 0 ? Math.ceil(position / 7) === ordinal : Math.ceil(fromEnd / 7) === -ordinal;
+}
+
+function matchesMonthDay(day: number, length: number, byMonthDay: number[]): boolean {
+  return byMonthDay.length === 0 || byMonthDay.some((md) => (md > 0 ? md === day : length + md + 1 === day));
+}
+
+// Candidate days of one month, before BYSETPOS
+function expandMonth(rule: ParsedRRule, year: number, month: number, startDay: number): number[] {
+  const length = daysInMonth(year, month);
+  const first = dayNumberOf(year, month, 1);
+
+  if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+    return startDay <= length ? [first + startDay - 1] : [];
+  }
+
+  const days: number[] = [];
+  for (let day = 1; day <= length; day++) {
+    const dayNumber = first + day - 1;
+    if (!matchesMonthDay(day, length, rule.byMonthDay)) continue;
+    const weekday = weekdayOf(dayNumber);
+    if (rule.byDay.length > 0 && !rule.byDay.some((d) => d.weekday === weekday && matchesOrdinal(day, length - day + 1, d.ordinal))) continue;
+    days.push(dayNumber);
+  }
+  return days;
+}
+
+// Candidate days of one year, before BYSETPOS
+function expandYear(rule: ParsedRRule, year: number, start: { month: number; day: number }): number[] {
+  if (rule.byMonth.length > 0) {
+    return rule.byMonth.flatMap((month) => expandMonth(rule, year, month, start.day));
+  }
+
+  if (rule.byDay.length > 0) {
+    // Numbered weekdays count through the whole year, e.g. "20MO"
+    const first = dayNumberOf(year, 1, 1);
+    const length = dayNumberOf(year + 1, 1, 1) - first;
+    const days: number[] = [];
+    for (let offset = 0; offset < length; offset++) {
+      const dayNumber = first + offset;
+      const { month, day } = partsOf(dayNumber);
+      if (!matchesMonthDay(day, daysInMonth(year, month), rule.byMonthDay)) continue;
+      const weekday = weekdayOf(dayNumber);
+      if (!rule.byDay.some((d) => d.weekday === weekday && matchesOrdinal(offset + 1, length - offset, d.ordinal))) continue;
+      days.push(dayNumber);
+    }
+    return days;
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    return Array.from({ length: 12 }, (_, i) => expandMonth(rule, year, i + 1, start.day)).flat();
+  }
+
+  return start.day <= daysInMonth(year, start.month) ? [dayNumberOf(year, start.month, start.day)] : [];
+}
+
+function applySetPos(days: number[], bySetPos: number[]): number[] {
+  if (bySetPos.length === 0) return days;
+  const picked = bySetPos
+    .map((pos) => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+    .filter((d): d is number => d !== undefined);
+  return Array.from(new Set(picked)).sort((a, b) => a - b);
+}
+
+// Days the rule produces in its k-th period after the start's, in order
+function expandPeriod(rule: ParsedRRule, startDay: number, k: number): { days: number[]; periodStart: number } {
+  const start = partsOf(startDay);
+  const step = k * rule.interval;
+  const inMonths = (days: number[]) => rule.byMonth.length === 0 ? days : days.filter((d) => rule.byMonth.includes(partsOf(d).month));
+  let days: number[];
+  let periodStart: number;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      periodStart = startDay + step;
+      const { day, month } = partsOf(periodStart);
+      const weekday = weekdayOf(periodStart);
+      const matches = matchesMonthDay(day, daysInMonth(partsOf(periodStart).year, month), rule.byMonthDay) &&
+        (rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === weekday));
+      days = inMonths(matches ? [periodStart] : []);
+      break;
+    }
+    case "WEEKLY": {
+      periodStart = startDay - ((weekdayOf(startDay) + 6) % 7) + step * 7; // Monday
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [weekdayOf(startDay)];
+      days = inMonths(Array.from({ length: 7 }, (_, i) => periodStart + i).filter((d) => weekdays.includes(weekdayOf(d))));
+      break;
+    }
+    case "MONTHLY": {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      periodStart = dayNumberOf(year, month, 1);
+      days = rule.byMonth.length > 0 && !rule.byMonth.includes(month) ? [] : expandMonth(rule, year, month, start.day);
+      break;
+    }
+    case "YEARLY": {
+      periodStart = dayNumberOf(start.year + step, 1, 1);
+      days = expandYear(rule, start.year + step, start);
+      break;
+    }
+  }
+
+  return { days: applySetPos(days, rule.bySetPos), periodStart };
+}
+
+// First period that can reach fromDay; rules with COUNT always start from the first
+function firstPeriod(rule: ParsedRRule, startDay: number, fromDay: number): number {
+  if (rule.count !== undefined || fromDay <= startDay) return 0;
+  const start = partsOf(startDay);
+  const from = partsOf(fromDay);
+  let periods: number;
+  switch (rule.freq) {
+    case "DAILY":
+      periods = fromDay - startDay;
+      break;
+    case "WEEKLY":
+      periods = Math.floor((fromDay - startDay + ((weekdayOf(startDay) + 6) % 7)) / 7);
+      break;
+    case "MONTHLY":
+      periods = (from.year - start.year) * 12 + (from.month - start.month);
+      break;
+    case "YEARLY":
+      periods = from.year - start.year;
+      break;
+  }
+  return Math.max(0, Math.floor(periods / rule.interval));
+}
+
+// Occurrences of the rule itself between two day numbers, before exceptions and holidays
+function expandRule(rule: ParsedRRule, startDay: number, fromDay: number, toDay: number): number[] {
+  const days: number[] = [];
+  let produced = 0;
+
+  for (let k = firstPeriod(rule, startDay, fromDay); ; k++) {
+    const { days: periodDays, periodStart } = expandPeriod(rule, startDay, k);
+    if (periodStart > toDay) break;
+
+    for (const day of periodDays) {
+      if (day < startDay) continue;
+      if (rule.until !== undefined && day > rule.until) return days;
+      if (rule.count !== undefined && ++produced > rule.count) return days;
+      if (day >= fromDay && day <= toDay) days.push(day);
+    }
+  }
+
+  return days;
+}
+
+// Whether a date is a full-day closure of the recurrence's exchange; early closes still trade
+function getHolidayCheck(recurrence: Recurrence, closures: CalendarClosures): (date: string) => boolean {
+  const calendar = closures.get(recurrence.holidayCalendar ?? "nyse");
+  return (date) => {
+    const closure = calendar?.get(date);
+    return !!closure && !closure.closeTime;
+  };
+}
+
+function isBusinessDay(dayNumber: number, isHoliday: (date: string) => boolean): boolean {
+  const weekday = weekdayOf(dayNumber);
+  return weekday !== 0 && weekday !== 6 && !isHoliday(fromDayNumber(dayNumber));
+}
+
+// Dates (YYYY-MM-DD) a recurrence falls on between from and to, inclusive.
+// closures holds every exchange's closures, from buildMarketClosures.
+export function getRecurrenceDates(recurrence: Recurrence, from: string, to: string, closures: CalendarClosures = new Map()): string[] {
+  const { rule } = parseRRule(recurrence.rule);
+  if (!rule || !isValidDate(recurrence.start)) return [];
+
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  const exceptions = new Set(recurrence.exceptions);
+  const isHoliday = getHolidayCheck(recurrence, closures);
+  const dates = new Set<number>();
+
+  for (const day of expandRule(rule, toDayNumber(recurrence.start), fromDay - SHIFT_MARGIN_DAYS, toDay + SHIFT_MARGIN_DAYS)) {
+    if (exceptions.has(fromDayNumber(day))) continue;
+
+    let date = day;
+    if (recurrence.holidays === "skip" && isHoliday(fromDayNumber(day))) continue;
+    if (recurrence.holidays === "next" || recurrence.holidays === "previous") {
+      const direction = recurrence.holidays === "next" ? 1 : -1;
+      for (let tries = 0; tries < SHIFT_MARGIN_DAYS && !isBusinessDay(date, isHoliday); tries++) date += direction;
+    }
+
+    if (date >= fromDay && date <= toDay) dates.add(date);
+  }
+
+  return Array.from(dates).sort((a, b) => a - b).map(fromDayNumber);
+}
+
+// The next few dates on or after a date, for the session/alert modal preview
+export function getNextRecurrenceDates(recurrence: Recurrence, after: string, limit: number, closures: CalendarClosures = new Map()): string[] {
+  const dates: string[] = [];
+  let from = toDayNumber(after);
+  const horizon = from + PREVIEW_HORIZON_DAYS;
+
+  while (dates.length < limit && from <= horizon) {
+    const to = Math.min(from + 90, horizon);
+    dates.push(...getRecurrenceDates(recurrence, fromDayNumber(from), fromDayNumber(to), closures));
+    from = to + 1;
+  }
+
+  return dates.slice(0, limit);
+}
+
+// Whether a session or alert runs on a local calendar date. Without a
+// recurrence, recurring items follow their weekdays and others run daily.
+export function occursOn(
+  item: { recurring: boolean; days?: number[]; recurrence?: Recurrence },
+  date: Date,
+  closures: CalendarClosures = new Map()
+): boolean {
+  if (!item.recurring) return true;
+  if (item.recurrence) {
+    const key = toDateKey(date);
+    return getRecurrenceDates(item.recurrence, key, key, closures).length > 0;
+  }
+  return item.days?.includes(date.getDay()) ?? false;
+}
@@ -0,0 +1,117 @@
+import { prisma } from "@/lib/db";
+import { LiveDataEntry } from "@/lib/fred";
+import { ReleaseRevision } from "@/lib/revisions";
+
+interface Observation {
+  seriesId: string;
+  releaseDate: string;
+  value: string;
+  rawValue: number | null;
+  observedAt: Date;
+}
+
+function observationKey(seriesId: string, releaseDate: string): string {
+  return `${seriesId}|${releaseDate}`;
+}
+
+// Raw values decide, since a revision can leave the rounded display unchanged.
+// Rows stored before raw values were kept fall back to the formatted value.
+function isSameObservation(a: { value: string; rawValue: number | null }, b: { value: string; rawValue: number | null }): boolean {
+  return a.rawValue !== null && b.rawValue !== null ? a.rawValue === b.rawValue : a.value === b.value;
+}
+
+// Store the actual and previous of each entry as observations when the raw FRED
+// value differs from the last one seen for that observation. Returns how many
+// were revisions.
+async function recordObservations(entries: LiveDataEntry[]): Promise<number> {
+  const seen: Observation[] = entries.flatMap((entry) => {
+    const observedAt = new Date(entry.fetchedAt);
+    return [
+      { releaseDate: entry.actualDate, value: entry.actual, rawValue: entry.actualValue },
+      { releaseDate: entry.previousDate, value: entry.previous, rawValue: entry.previousValue },
+    ]
+      .filter((o): o is { releaseDate: string; value: string | null; rawValue: number } => !!o.releaseDate && o.rawValue !== null)
+      // A change can't be formatted without the observation before it; keep the level
+      .map((o) => ({ seriesId: entry.seriesId, ...o, value: o.value ?? String(o.rawValue), observedAt }));
+  });
+  if (seen.length === 0) return 0;
+
+  const existing = await prisma.releaseObservation.findMany({
+    where: { OR: seen.map(({ seriesId, releaseDate }) => ({ seriesId, releaseDate })) },
+    orderBy: { observedAt: "asc" },
+  });
+  const latest = new Map(existing.map((row) => [observationKey(row.seriesId, row.releaseDate), row]));
+
+  const changed = seen.filter((o) => {
+    const last = latest.get(observationKey(o.seriesId, o.releaseDate));
+    return !last || !isSameObservation(last, o);
+  });
+  if (changed.length > 0) await prisma.releaseObservation.createMany({ data: changed });
+
+  return changed.filter((o) => latest.has(observationKey(o.seriesId, o.releaseDate))).length;
+}
+
+// First and latest value of each observation that has been revised, keyed by "seriesId|releaseDate"
+export async function loadRevisions(keys: { seriesId: string; releaseDate: string }[]): Promise<Map<string, ReleaseRevision>> {
+  const revisions = new Map<string, ReleaseRevision>();
+  if (keys.length === 0) return revisions;
+
+  const rows = await prisma.releaseObservation.findMany({
+    where: { OR: keys },
+    orderBy: { observedAt: "asc" },
+  });
+
+  const byKey = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = observationKey(row.seriesId, row.releaseDate);
+    byKey.set(key, [...(byKey.get(key) ?? []), row]);
+  }
+  for (const [key, observations] of byKey) {
+    const first = observations[0];
+    const last = observations[observations.length - 1];
+    if (!isSameObservation(first, last)) {
+      revisions.set(key, { from: first.value, to: last.value, revisedAt: last.observedAt.toISOString() });
+    }
+  }
+
+  return revisions;
+}
+
+// Upsert the latest observation of each series. Returns how many rows were
+// new releases, how many already existed (re-fetched or updated in place) and
+// how many earlier prints were revised.
+export async function recordReleaseValues(data: Record<string, LiveDataEntry>): Promise<{ created: number; updated: number; revised: number }> {
+  const entries = Object.entries(data);
+  if (entries.length === 0) return { created: 0, updated: 0, revised: 0 };
+
+  const revised = await recordObservations(entries.map(([, entry]) => entry));
+
+  const existing = await prisma.releaseValue.findMany({
+    where: {
+      OR: entries.map(([, entry]) => ({ seriesId: entry.seriesId, releaseDate: entry.actualDate })),
+    },
+    select: { seriesId: true, releaseDate: true },
+  });
+  const existingKeys = new Set(existing.map((row) => `${row.seriesId}|${row.releaseDate}`));
+
+  await prisma.$transaction(
+    entries.map(([event, entry]) => {
+      const values = {
+        event,
+        actual: entry.actual,
+        previous: entry.previous,
+        actualValue: entry.actualValue,
+        previousValue: entry.previousValue,
+        fetchedAt: new Date(entry.fetchedAt),
+      };
+      return prisma.releaseValue.upsert({
+        where: { seriesId_releaseDate: { seriesId: entry.seriesId, releaseDate: entry.actualDate } },
+        create: { seriesId: entry.seriesId, releaseDate: entry.actualDate, ...values },
+        update: values,
+      });
+    })
+  );
+
+  const updated = entries.filter(([, entry]) => existingKeys.has(`${entry.seriesId}|${entry.actualDate}`)).length;
+  return { created: entries.length - updated, updated, revised };
+}
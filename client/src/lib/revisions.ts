@@ -0,0 +1,19 @@
+// Revisions to earlier prints, shared by /api/calendar and the calendar and
+// timeline pages. Kept free of server imports.
+
+export interface ReleaseRevision {
+  from: string;      // First value seen for the observation
+  to: string;        // Latest value
+  revisedAt: string; // When the latest value was first seen (ISO)
+}
+
+// Keyed by the value on the event that was revised
+export interface EventRevisions {
+  actual?: ReleaseRevision;
+  previous?: ReleaseRevision;
+}
+
+// e.g. "Previous revised from +0.3% to +0.2%"
+export function describeRevision(label: string, revision: ReleaseRevision): string {
+  return `${label} revised from ${revision.from} to ${revision.to}`;
+}
@@ -0,0 +1,219 @@
+import { prisma } from "@/lib/db";
+import { loadCalendarData } from "@/lib/calendar-events";
+import { isEventPast } from "@/lib/event-time";
+import { LOWER_IS_BETTER_EVENTS, MIN_SURPRISE_HISTORY, parseDisplayValue, standardDeviation } from "@/lib/surprise";
+
+// Rolling economic surprise index in the spirit of the Citi ESI.
+//
+// Each release gets a score: its standardized surprise against consensus when a
+// forecast was entered, otherwise its change from the previous print scaled by
+// that indicator's typical change (or just the direction with too little history).
+// Scores are capped at ±3, flipped for lower-is-better indicators, weighted by
+// impact and decayed by age. The index is 100 × the weighted mean score, so
+// positive readings mean data has been beating expectations.
+
+const IMPACT_WEIGHTS: Record<string, number> = { high: 3, medium: 2, low: 1 };
+const MAX_SCORE = 3;
+
+// Quarterly observations are released up to about three months after they start
+const OBSERVATION_LAG_DAYS = 120;
+
+export interface SurpriseIndexOptions {
+  days: number;         // Length of the returned series
+  windowDays: number;   // Releases older than this no longer count
+  halfLifeDays: number; // A release's weight halves every halfLifeDays
+}
+
+export const DEFAULT_SURPRISE_INDEX_OPTIONS: SurpriseIndexOptions = {
+  days: 180,
+  windowDays: 90,
+  halfLifeDays: 30,
+};
+
+export interface ScoredRelease {
+  date: string;
+  event: string;
+  category: string;
+  impact: string;
+  versus: "forecast" | "previous";
+  score: number;
+}
+
+export interface SurpriseIndexPoint {
+  date: string;
+  index: number | null;
+  byCategory: Record<string, number | null>;
+}
+
+export interface SurpriseIndex {
+  asOf: string;
+  options: SurpriseIndexOptions;
+  categories: string[];
+  series: SurpriseIndexPoint[];
+  releases: ScoredRelease[]; // Releases inside the window as of the last point, newest first
+}
+
+interface Release {
+  date: string;
+  event: string;
+  category: string;
+  impact: string;
+  standardized: number | null; // From a consensus forecast
+  change: number | null;       // actual - previous, when there's no forecast
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000;
+}
+
+function clamp(value: number): number {
+  return Math.max(-MAX_SCORE, Math.min(MAX_SCORE, value));
+}
+
+// Released US events from the calendar plus the release history kept by the cron job
+async function loadReleases(from: string, to: string): Promise<Release[]> {
+  const calendar = await loadCalendarData({ start: from, end: to, currency: "USD" });
+  const events = (calendar?.events ?? [])
+    .filter((e) => IMPACT_WEIGHTS[e.impact] && e.actual && isEventPast(e))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const releases: Release[] = [];
+  const seen = new Set<string>();
+  const meta = new Map<string, { category: string; impact: string }>();
+  const releaseDates = new Map<string, string[]>(); // Newest first
+
+  for (const e of events) {
+    meta.set(e.event, { category: e.category, impact: e.impact });
+    releaseDates.set(e.event, [...(releaseDates.get(e.event) ?? []), e.date]);
+
+    if (e.surprise) {
+      releases.push({
+        date: e.date,
+        event: e.event,
+        category: e.category,
+        impact: e.impact,
+        standardized: e.surprise.standardized ?? Math.sign(e.surprise.absolute),
+        change: null,
+      });
+      continue;
+    }
+
+    // The scraper writes an indicator's latest values onto all of its rows, so
+    // older rows repeat the newest print; only the latest row keeps it
+    const key = `${e.event}|${e.actual}|${e.previous}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const actual = parseDisplayValue(e.actual);
+    const previous = parseDisplayValue(e.previous);
+    if (actual === null || previous === null) continue;
+    releases.push({ date: e.date, event: e.event, category: e.category, impact: e.impact, standardized: null, change: actual - previous });
+  }
+
+  // History rows are keyed by observation period, which starts weeks or months
+  // before the release. The nth newest observation of an indicator came out at
+  // its nth newest release in the calendar; older ones fall outside the window.
+  const history = await prisma.releaseValue.findMany({
+    where: { event: { in: [...meta.keys()] }, releaseDate: { gte: addDays(from, -OBSERVATION_LAG_DAYS) } },
+    orderBy: { releaseDate: "desc" },
+  });
+  const matched = new Map<string, number>();
+  for (const row of history) {
+    const rank = matched.get(row.event) ?? 0;
+    matched.set(row.event, rank + 1);
+    const date = releaseDates.get(row.event)?.[rank];
+    const info = meta.get(row.event);
+    const key = `${row.event}|${row.actual}|${row.previous}`;
+    if (!date || !info || seen.has(key)) continue;
+    seen.add(key);
+
+    const actual = parseDisplayValue(row.actual);
+    const previous = parseDisplayValue(row.previous);
+    if (actual === null || previous === null) continue;
+    releases.push({
+      date,
+      event: row.event,
+      ...info,
+      standardized: null,
+      change: actual - previous,
+    });
+  }
+
+  return releases;
+}
+
+function scoreReleases(releases: Release[]): ScoredRelease[] {
+  // Typical size of each indicator's change, for releases without a forecast
+  const changes = new Map<string, number[]>();
+  for (const r of releases) {
+    if (r.change !== null) changes.set(r.event, [...(changes.get(r.event) ?? []), r.change]);
+  }
+
+  return releases.map((r) => {
+    let score: number;
+    let versus: ScoredRelease["versus"] = "forecast";
+    if (r.standardized !== null) {
+      score = r.standardized;
+    } else {
+      versus = "previous";
+      const history = changes.get(r.event) ?? [];
+      const spread = history.length >= MIN_SURPRISE_HISTORY ? standardDeviation(history) : 0;
+      score = spread > 0 ? r.change! / spread : Math.sign(r.change!);
+    }
+    if (LOWER_IS_BETTER_EVENTS.includes(r.event)) score = -score;
+
+    return {
+      date: r.date,
+      event: r.event,
+      category: r.category,
+      impact: r.impact,
+      versus,
+      score: Math.round(clamp(score) * 100) / 100,
+    };
+  });
+}
+
+function weightedIndex(releases: ScoredRelease[], date: string, options: SurpriseIndexOptions): number | null {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const r of releases) {
+    const age = daysBetween(r.date, date);
+    if (age < 0 || age > options.windowDays) continue;
+    const weight = IMPACT_WEIGHTS[r.impact] * Math.pow(0.5, age / options.halfLifeDays);
+    weighted += weight * r.score;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 1000) / 10 : null;
+}
+
+export async function getSurpriseIndex(options: SurpriseIndexOptions = DEFAULT_SURPRISE_INDEX_OPTIONS): Promise<SurpriseIndex> {
+  const today = new Date().toISOString().split("T")[0];
+  const start = addDays(today, -(options.days - 1));
+  const releases = scoreReleases(await loadReleases(addDays(start, -options.windowDays), today));
+  const categories = Array.from(new Set(releases.map((r) => r.category))).sort();
+
+  const series: SurpriseIndexPoint[] = [];
+  for (let date = start; date <= today; date = addDays(date, 1)) {
+    const byCategory: Record<string, number | null> = {};
+    for (const category of categories) {
+      byCategory[category] = weightedIndex(releases.filter((r) => r.category === category), date, options);
+    }
+    series.push({ date, index: weightedIndex(releases, date, options), byCategory });
+  }
+
+  return {
+    asOf: new Date().toISOString(),
+    options,
+    categories,
+    series,
+    releases: releases
+      .filter((r) => daysBetween(r.date, today) <= options.windowDays)
+      .sort((a, b) => b.date.localeCompare(a.date)),
+  };
+}
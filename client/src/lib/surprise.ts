@@ -0,0 +1,146 @@
+// Consensus forecasts and release surprises, shared by /api/calendar/forecasts
+// and the calendar page. Kept free of server imports.
+
+import { parseCsv } from "@/lib/trade-import";
+
+export interface EventSurprise {
+  absolute: number;            // actual - forecast, in the release's display units
+  percent: number | null;      // absolute / |forecast| * 100; null when the forecast is 0
+  standardized: number | null; // absolute / std dev of the event's past surprises; null with < 3 past surprises
+}
+
+export interface EventForecast {
+  id: string;
+  event: string;
+  date: string;
+  forecast: string;
+  actual: string | null;
+  source: string;
+  surprise: EventSurprise | null;
+  updatedAt: string;
+}
+
+export interface ForecastInput {
+  event: string;
+  date: string;
+  forecast: string;
+  actual?: string | null; // Only for backfilling past releases
+}
+
+// Indicators where a lower print is the stronger reading
+export const LOWER_IS_BETTER_EVENTS = [
+  "Unemployment Rate",
+  "Unemployment Claims",
+];
+
+// Fewer past surprises than this and the spread is too noisy to standardize by
+export const MIN_SURPRISE_HISTORY = 3;
+
+const UNIT_SCALE: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+
+// Parse a value as displayed on the calendar ("+0.3%", "215K", "-1.2M", "4,250") to a number
+export function parseDisplayValue(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().replace(/,/g, "").match(/^([+-]?\d*\.?\d+)\s*([KMBT%]?)$/i);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  const unit = match[2].toUpperCase();
+  return Number.isFinite(number) ? number * (UNIT_SCALE[unit] ?? 1) : null;
+}
+
+// Sample standard deviation
+export function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function round(value: number, decimals = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// pastSurprises are the absolute surprises of earlier releases of the same event
+export function computeSurprise(actualValue: number, forecastValue: number, pastSurprises: number[]): EventSurprise {
+  const absolute = actualValue - forecastValue;
+  const spread = pastSurprises.length >= MIN_SURPRISE_HISTORY ? standardDeviation(pastSurprises) : 0;
+
+  return {
+    absolute: round(absolute),
+    percent: forecastValue !== 0 ? round((absolute / Math.abs(forecastValue)) * 100, 2) : null,
+    standardized: spread > 0 ? round(absolute / spread, 2) : null,
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate a forecast from the manual form or a CSV row
+export function parseForecastInput(data: unknown): { forecast: ForecastInput | null; error: string | null } {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { forecast: null, error: "Forecast must be an object" };
+  }
+
+  const body = data as Record<string, unknown>;
+  const event = typeof body.event === "string" ? body.event.trim() : "";
+  const date = typeof body.date === "string" ? body.date.trim() : "";
+  const forecast = typeof body.forecast === "string" || typeof body.forecast === "number" ? String(body.forecast).trim() : "";
+  const actual = typeof body.actual === "string" || typeof body.actual === "number" ? String(body.actual).trim() : "";
+
+  if (!event) return { forecast: null, error: "Event name is required" };
+  if (!DATE_PATTERN.test(date)) return { forecast: null, error: "Date must be YYYY-MM-DD" };
+  if (parseDisplayValue(forecast) === null) {
+    return { forecast: null, error: `Forecast "${forecast}" is not a number (e.g. 0.3%, 215K, 4.1)` };
+  }
+  if (actual && parseDisplayValue(actual) === null) {
+    return { forecast: null, error: `Actual "${actual}" is not a number` };
+  }
+
+  return { forecast: { event, date, forecast, actual: actual || null }, error: null };
+}
+
+// CSV with a header row: date,event,forecast[,actual]
+export function parseForecastCsv(text: string): { forecasts: ForecastInput[]; errors: { row: number; message: string }[] } {
+  const rows = parseCsv(text);
+  const forecasts: ForecastInput[] = [];
+  const errors: { row: number; message: string }[] = [];
+
+  if (rows.length === 0) return { forecasts, errors: [{ row: 0, message: "File is empty" }] };
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const [dateCol, eventCol, forecastCol, actualCol] = ["date", "event", "forecast", "actual"].map(column);
+
+  if (dateCol < 0 || eventCol < 0 || forecastCol < 0) {
+    return { forecasts, errors: [{ row: 1, message: "Header must include date, event and forecast columns" }] };
+  }
+
+  rows.slice(1).forEach((cells, i) => {
+    const { forecast, error } = parseForecastInput({
+      date: cells[dateCol],
+      event: cells[eventCol],
+      forecast: cells[forecastCol],
+      actual: actualCol >= 0 ? cells[actualCol] : undefined,
+    });
+    if (forecast) {
+      forecasts.push(forecast);
+    } else {
+      errors.push({ row: i + 2, message: error || "Invalid row" });
+    }
+  });
+
+  return { forecasts, errors };
+}
+
+// How a surprise reads on the calendar, e.g. "Above forecast +33.3% (+1.4σ)"
+export function describeSurprise(surprise: EventSurprise): string {
+  const direction = surprise.absolute > 0 ? "Above" : surprise.absolute < 0 ? "Below" : "In line with";
+  const sigma = surprise.standardized !== null ? ` (${surprise.standardized > 0 ? "+" : ""}${surprise.standardized.toFixed(1)}σ)` : "";
+  const percent = surprise.percent !== null ? ` ${surprise.percent > 0 ? "+" : ""}${surprise.percent.toFixed(1)}%` : "";
+  return `${direction} forecast${percent}${sigma}`;
+}
+
+// Surprise columns as stored on EventForecast
+export function toEventSurprise(row: { surpriseAbs: number | null; surprisePct: number | null; surpriseStd: number | null }): EventSurprise | null {
+  if (row.surpriseAbs === null) return null;
+  return { absolute: row.surpriseAbs, percent: row.surprisePct, standardized: row.surpriseStd };
+}
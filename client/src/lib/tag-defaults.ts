@@ -0,0 +1,38 @@
+// Default tag taxonomy, seeded for new accounts and used by "Restore Defaults".
+// Kept free of server imports so both TagContext and the API routes can use it.
+
+export interface DefaultTagSection {
+  name: string;
+  color: string;
+  tags: string[];
+}
+
+export const DEFAULT_TAG_SECTIONS: DefaultTagSection[] = [
+  {
+    name: "Strategy",
+    color: "blue",
+    tags: ["Breakout", "Reversal", "Momentum", "Scalp", "Swing", "Gap Play", "VWAP", "Support/Resistance"],
+  },
+  {
+    name: "Market Condition",
+    color: "purple",
+    tags: ["Trending", "Ranging", "Volatile", "Low Volume", "News Driven", "Earnings"],
+  },
+  {
+    name: "Execution",
+    color: "emerald",
+    tags: ["Followed Plan", "Target Hit", "Trailed Stop", "Partial Exit", "Added Position"],
+  },
+  {
+    name: "Mistakes",
+    color: "red",
+    tags: ["FOMO", "Revenge Trade", "Overtraded", "Chased", "Hesitated", "Early Exit"],
+  },
+  {
+    name: "Time of Day",
+    color: "amber",
+    tags: ["Pre-Market", "Market Open", "Mid-Day", "Power Hour", "After Hours"],
+  },
+];
+
+export const TAG_SECTION_COLORS = ["blue", "purple", "emerald", "red", "amber", "cyan", "pink", "indigo"];
@@ -0,0 +1,98 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { DefaultTagSection } from "@/lib/tag-defaults";
+
+type TxClient = Prisma.TransactionClient;
+
+const taxonomyInclude = {
+  tags: { orderBy: { order: "asc" } },
+} satisfies Prisma.TagSectionInclude;
+
+export type TagSectionWithTags = Prisma.TagSectionGetPayload<{ include: typeof taxonomyInclude }>;
+
+// Load a user's sections with their tags, both in display order
+export async function getTagTaxonomy(userId: string, client: TxClient = prisma): Promise<TagSectionWithTags[]> {
+  return client.tagSection.findMany({
+    where: { userId },
+    include: taxonomyInclude,
+    orderBy: { order: "asc" },
+  });
+}
+
+// Create sections and tags in order. Tag names are unique per user, so
+// repeated names across sections are kept only in the first section.
+export async function seedTagSections(tx: TxClient, userId: string, sections: DefaultTagSection[]): Promise<void> {
+  const seen = new Set<string>();
+
+  for (const [sectionIndex, section] of sections.entries()) {
+    const created = await tx.tagSection.create({
+      data: {
+        userId,
+        name: section.name.trim(),
+        color: section.color || "blue",
+        order: sectionIndex,
+      },
+    });
+
+    const tagNames = section.tags
+      .map((name) => name.trim())
+      .filter((name) => {
+        const key = name.toLowerCase();
+        if (!name || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    if (tagNames.length > 0) {
+      await tx.tag.createMany({
+        data: tagNames.map((name, order) => ({ userId, sectionId: created.id, name, order })),
+      });
+    }
+  }
+}
+
+// Move a tag to the end of another section and close the gap it leaves behind
+export async function moveTagToSection(
+  tx: TxClient,
+  tag: { id: string; sectionId: string; order: number },
+  sectionId: string
+): Promise<void> {
+  const order = await tx.tag.count({ where: { sectionId } });
+  await tx.tag.update({ where: { id: tag.id }, data: { sectionId, order } });
+  await tx.tag.updateMany({
+    where: { sectionId: tag.sectionId, order: { gt: tag.order } },
+    data: { order: { decrement: 1 } },
+  });
+}
+
+// Rename a tag inside every trade that carries it, without creating duplicates
+export async function renameTagInTrades(tx: TxClient, userId: string, oldName: string, newName: string): Promise<number> {
+  const trades = await tx.trade.findMany({
+    where: { userId, tags: { has: oldName } },
+    select: { id: true, tags: true },
+  });
+
+  for (const trade of trades) {
+    const tags = Array.from(new Set(trade.tags.map((t) => (t === oldName ? newName : t))));
+    await tx.trade.update({ where: { id: trade.id }, data: { tags } });
+  }
+
+  return trades.length;
+}
+
+// Remove a tag from every trade that carries it
+export async function removeTagFromTrades(tx: TxClient, userId: string, name: string): Promise<number> {
+  const trades = await tx.trade.findMany({
+    where: { userId, tags: { has: name } },
+    select: { id: true, tags: true },
+  });
+
+  for (const trade of trades) {
+    await tx.trade.update({
+      where: { id: trade.id },
+      data: { tags: trade.tags.filter((t) => t !== name) },
+    });
+  }
+
+  return trades.length;
+}
@@ -0,0 +1,336 @@
+// Custom timeline items and preferences, shared by the dashboard and the
+// /api/timeline routes. Kept free of server imports.
+
+import { HolidayPolicy, Recurrence, parseRecurrence } from "@/lib/recurrence";
+
+export interface CustomSession {
+  id: string;
+  name: string;
+  startTime: string; // HH:MM format
+  endTime: string;
+  color: string;
+  recurring: boolean;
+  days?: number[]; // 0-6, Sunday-Saturday
+  recurrence?: Recurrence; // Replaces days when set
+  openAlert?: boolean;
+  openAlertSound?: string;
+  closeAlert?: boolean;
+  closeAlertSound?: string;
+  note?: string;
+  version?: number; // Server version, sent back on update to detect edits from another tab
+}
+
+// Anchors an alert to calendar releases instead of a clock time, e.g.
+// "15 minutes before any high-impact USD event". Empty lists match anything.
+export interface EventAlertRule {
+  offsetMinutes: number; // Before the release; 0 fires at release
+  impacts: string[];
+  currencies: string[];
+  category?: string;
+  titleMatch?: string;   // Case-insensitive, e.g. "FOMC Rate Decision"
+}
+
+export interface CustomAlert {
+  id: string;
+  name: string;
+  time: string; // HH:MM format; unused when eventRule is set
+  sound: string;
+  recurring: boolean;
+  days?: number[];
+  recurrence?: Recurrence; // Replaces days when set
+  color: string;
+  note?: string;
+  eventRule?: EventAlertRule;
+  version?: number;
+}
+
+export interface TimelinePreferences {
+  visibleMarkets?: string[];
+  marketAlerts?: string[];
+  marketAlertSounds?: Record<string, { open: string; close: string } | string>;
+  alertVoice?: string;
+  showEventsCard?: boolean;
+  showCustomCard?: boolean;
+  activeMarketsOnly?: boolean;
+  showPastEvents?: boolean;
+  filterImpacts?: string[];
+  filterCategory?: string;
+  filterCurrency?: string;
+}
+
+export const TIMELINE_STORAGE_KEYS = {
+  sessions: "timeline-custom-sessions",
+  alerts: "timeline-custom-alerts",
+  markets: "timeline-custom-markets",
+  preferences: "econtimeline-preferences",
+} as const;
+
+export type CustomSessionInput = Omit<CustomSession, "id" | "version">;
+export type CustomAlertInput = Omit<CustomAlert, "id" | "version">;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const RULE_IMPACTS = ["high", "medium", "low"];
+
+// A day ahead is as early as a release-anchored alert is useful
+export const MAX_EVENT_ALERT_OFFSET = 24 * 60;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseDays(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))).sort();
+}
+
+// Only recurring items carry a recurrence
+function parseOptionalRecurrence(recurring: boolean, value: unknown): { recurrence: Recurrence | undefined; error: string | null } {
+  if (!recurring || value === undefined || value === null) return { recurrence: undefined, error: null };
+  const { recurrence, error } = parseRecurrence(value);
+  return { recurrence: recurrence ?? undefined, error };
+}
+
+// Validate a session payload from the client or from a localStorage migration
+export function parseCustomSession(data: unknown): { session: CustomSessionInput | null; error: string | null } {
+  if (!isRecord(data)) return { session: null, error: "Session must be an object" };
+
+  const name = optionalString(data.name);
+  if (!name) return { session: null, error: "Session name is required" };
+
+  if (typeof data.startTime !== "string" || !TIME_PATTERN.test(data.startTime) ||
+      typeof data.endTime !== "string" || !TIME_PATTERN.test(data.endTime)) {
+    return { session: null, error: "Start and end times must be HH:MM" };
+  }
+
+  const recurring = data.recurring === true;
+  const openAlert = data.openAlert === true;
+  const closeAlert = data.closeAlert === true;
+
+  const { recurrence, error } = parseOptionalRecurrence(recurring, data.recurrence);
+  if (error) return { session: null, error };
+
+  return {
+    session: {
+      name,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      color: optionalString(data.color) ?? "#3b82f6",
+      recurring,
+      days: recurring ? parseDays(data.days) : undefined,
+      recurrence,
+      openAlert,
+      openAlertSound: openAlert ? optionalString(data.openAlertSound) : undefined,
+      closeAlert,
+      closeAlertSound: closeAlert ? optionalString(data.closeAlertSound) : undefined,
+      note: optionalString(data.note),
+    },
+    error: null,
+  };
+}
+
+function parseStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim())));
+}
+
+export function parseEventAlertRule(data: unknown): { rule: EventAlertRule | null; error: string | null } {
+  if (!isRecord(data)) return { rule: null, error: "eventRule must be an object" };
+
+  const offsetMinutes = data.offsetMinutes ?? 0;
+  if (!Number.isInteger(offsetMinutes) || (offsetMinutes as number) < 0 || (offsetMinutes as number) > MAX_EVENT_ALERT_OFFSET) {
+    return { rule: null, error: `offsetMinutes must be whole minutes between 0 and ${MAX_EVENT_ALERT_OFFSET}` };
+  }
+
+  const impacts = parseStringList(data.impacts).map((i) => i.toLowerCase());
+  if (impacts.some((i) => !RULE_IMPACTS.includes(i))) {
+    return { rule: null, error: `impacts must be any of ${RULE_IMPACTS.join(", ")}` };
+  }
+
+  const rule: EventAlertRule = {
+    offsetMinutes: offsetMinutes as number,
+    impacts,
+    currencies: parseStringList(data.currencies).map((c) => c.toUpperCase()),
+    category: optionalString(data.category),
+    titleMatch: optionalString(data.titleMatch),
+  };
+
+  // A rule matching every release would alert dozens of times a day
+  if (rule.impacts.length === 0 && rule.currencies.length === 0 && !rule.category && !rule.titleMatch) {
+    return { rule: null, error: "Event alerts need at least one of impacts, currencies, category or titleMatch" };
+  }
+
+  return { rule, error: null };
+}
+
+export function parseCustomAlert(data: unknown): { alert: CustomAlertInput | null; error: string | null } {
+  if (!isRecord(data)) return { alert: null, error: "Alert must be an object" };
+
+  const name = optionalString(data.name);
+  if (!name) return { alert: null, error: "Alert name is required" };
+
+  let eventRule: EventAlertRule | undefined;
+  if (data.eventRule !== undefined && data.eventRule !== null) {
+    const { rule, error } = parseEventAlertRule(data.eventRule);
+    if (!rule) return { alert: null, error };
+    eventRule = rule;
+  }
+
+  // Event alerts keep a placeholder time so the column stays required
+  const time = typeof data.time === "string" ? data.time : eventRule ? "00:00" : "";
+  if (!TIME_PATTERN.test(time)) {
+    return { alert: null, error: "Alert time must be HH:MM" };
+  }
+
+  // Event alerts follow the calendar, so they never repeat on their own
+  const recurring = data.recurring === true && !eventRule;
+  const { recurrence, error: recurrenceError } = parseOptionalRecurrence(recurring, data.recurrence);
+  if (recurrenceError) return { alert: null, error: recurrenceError };
+
+  return {
+    alert: {
+      name,
+      time,
+      sound: optionalString(data.sound) ?? "default",
+      recurring,
+      days: recurring ? parseDays(data.days) : undefined,
+      recurrence,
+      color: optionalString(data.color) ?? "#3b82f6",
+      note: optionalString(data.note),
+      eventRule,
+    },
+    error: null,
+  };
+}
+
+function toRecurrenceData(recurrence: Recurrence | undefined) {
+  return {
+    recurrenceRule: recurrence?.rule ?? null,
+    recurrenceStart: recurrence?.start ?? null,
+    recurrenceExceptions: recurrence?.exceptions ?? [],
+    holidayPolicy: recurrence?.holidays ?? null,
+  };
+}
+
+// Database columns are non-optional; map between them and the client shape
+export function toSessionData({ recurrence, ...session }: CustomSessionInput) {
+  return {
+    ...session,
+    ...toRecurrenceData(recurrence),
+    days: session.days ?? [],
+    openAlert: session.openAlert ?? false,
+    openAlertSound: session.openAlertSound ?? null,
+    closeAlert: session.closeAlert ?? false,
+    closeAlertSound: session.closeAlertSound ?? null,
+    note: session.note ?? null,
+  };
+}
+
+export function toAlertData({ eventRule, recurrence, ...alert }: CustomAlertInput) {
+  return {
+    ...alert,
+    ...toRecurrenceData(recurrence),
+    days: alert.days ?? [],
+    note: alert.note ?? null,
+    eventOffset: eventRule?.offsetMinutes ?? null,
+    eventImpacts: eventRule?.impacts ?? [],
+    eventCurrencies: eventRule?.currencies ?? [],
+    eventCategory: eventRule?.category ?? null,
+    eventTitle: eventRule?.titleMatch ?? null,
+  };
+}
+
+interface RecurrenceColumns {
+  recurrenceRule: string | null;
+  recurrenceStart: string | null;
+  recurrenceExceptions: string[];
+  holidayPolicy: string | null;
+}
+
+function fromRecurrenceData(row: RecurrenceColumns): Recurrence | undefined {
+  if (row.recurrenceRule === null || row.recurrenceStart === null) return undefined;
+  return {
+    rule: row.recurrenceRule,
+    start: row.recurrenceStart,
+    exceptions: row.recurrenceExceptions,
+    holidays: (row.holidayPolicy ?? "ignore") as HolidayPolicy,
+  };
+}
+
+interface SessionRow extends RecurrenceColumns {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  color: string;
+  recurring: boolean;
+  days: number[];
+  openAlert: boolean;
+  openAlertSound: string | null;
+  closeAlert: boolean;
+  closeAlertSound: string | null;
+  note: string | null;
+  version: number;
+}
+
+interface AlertRow extends RecurrenceColumns {
+  id: string;
+  name: string;
+  time: string;
+  sound: string;
+  recurring: boolean;
+  days: number[];
+  color: string;
+  note: string | null;
+  eventOffset: number | null;
+  eventImpacts: string[];
+  eventCurrencies: string[];
+  eventCategory: string | null;
+  eventTitle: string | null;
+  version: number;
+}
+
+export function serializeSession(row: SessionRow): CustomSession {
+  return {
+    id: row.id,
+    name: row.name,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    color: row.color,
+    recurring: row.recurring,
+    days: row.recurring ? row.days : undefined,
+    recurrence: row.recurring ? fromRecurrenceData(row) : undefined,
+    openAlert: row.openAlert,
+    openAlertSound: row.openAlertSound ?? undefined,
+    closeAlert: row.closeAlert,
+    closeAlertSound: row.closeAlertSound ?? undefined,
+    note: row.note ?? undefined,
+    version: row.version,
+  };
+}
+
+export function serializeAlert(row: AlertRow): CustomAlert {
+  return {
+    id: row.id,
+    name: row.name,
+    time: row.time,
+    sound: row.sound,
+    recurring: row.recurring,
+    days: row.recurring ? row.days : undefined,
+    recurrence: row.recurring ? fromRecurrenceData(row) : undefined,
+    color: row.color,
+    note: row.note ?? undefined,
+    eventRule: row.eventOffset === null ? undefined : {
+      offsetMinutes: row.eventOffset,
+      impacts: row.eventImpacts,
+      currencies: row.eventCurrencies,
+      category: row.eventCategory ?? undefined,
+      titleMatch: row.eventTitle ?? undefined,
+    },
+    version: row.version,
+  };
+}
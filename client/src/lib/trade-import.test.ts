@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Fill, groupFillsIntoTrades, parseColumnMapping, parseFills } from "@/lib/trade-import";
+
+let row = 0;
+
+function fill(timestamp: string, symbol: string, quantity: number, price: number, commission = 0): Fill {
+  const [date, time] = timestamp.split(" ");
+  return { row: ++row, date, time: time.slice(0, 5), timestamp, symbol, quantity, price, commission };
+}
+
+describe("groupFillsIntoTrades", () => {
+  it("closes a round trip built from fractional fills", () => {
+    const [trade] = groupFillsIntoTrades([
+      fill("2026-03-02 09:00:00", "BTCUSD", 0.1, 60000),
+      fill("2026-03-02 09:05:00", "BTCUSD", 0.2, 61000),
+      fill("2026-03-02 10:00:00", "BTCUSD", -0.3, 62000),
+    ], "CRYPTO");
+
+    assert.equal(trade.status, "CLOSED");
+    assert.equal(trade.size, 0.3);
+    assert.equal(trade.entryPrice, 60666.6667);
+    assert.equal(trade.pnl, 400);
+  });
+
+  it("keeps a partially closed position open", () => {
+    const trades = groupFillsIntoTrades([
+      fill("2026-03-02 09:30:00", "AAPL", 100, 200),
+      fill("2026-03-02 10:00:00", "AAPL", -40, 205),
+    ], "STOCK");
+
+    assert.equal(trades.length, 1);
+    assert.equal(trades[0].status, "OPEN");
+    assert.equal(trades[0].pnl, 0);
+    assert.equal(trades[0].exitPrice, 205);
+  });
+
+  it("closes a position scaled out of over several fills", () => {
+    const [trade] = groupFillsIntoTrades([
+      fill("2026-03-02 09:30:00", "EURUSD", -0.7, 1.085, 1),
+      fill("2026-03-02 11:00:00", "EURUSD", 0.3, 1.08, 1),
+      fill("2026-03-03 09:00:00", "EURUSD", 0.4, 1.075, 1),
+    ], "FOREX", 100000);
+
+    assert.equal(trade.direction, "SHORT");
+    assert.equal(trade.status, "CLOSED");
+    assert.equal(trade.closeDate, "2026-03-03");
+    // 0.3 lots x 50 pips + 0.4 lots x 100 pips, less commissions
+    assert.equal(trade.pnl, 150 + 400 - 3);
+  });
+
+  it("splits a fill that reverses the position", () => {
+    const trades = groupFillsIntoTrades([
+      fill("2026-03-02 09:30:00", "ES", 2, 5000),
+      fill("2026-03-02 10:00:00", "ES", -3, 5010),
+      fill("2026-03-02 11:00:00", "ES", 1, 5000),
+    ], "FUTURES", 50);
+
+    assert.deepEqual(trades.map((t) => [t.direction, t.size, t.status, t.pnl]), [
+      ["LONG", 2, "CLOSED", 1000],
+      ["SHORT", 1, "CLOSED", 500],
+    ]);
+  });
+
+  it("tracks symbols independently", () => {
+    const trades = groupFillsIntoTrades([
+      fill("2026-03-02 09:30:00", "AAPL", 10, 200),
+      fill("2026-03-02 09:31:00", "MSFT", 5, 400),
+      fill("2026-03-02 09:45:00", "AAPL", -10, 201),
+    ], "STOCK");
+
+    assert.deepEqual(trades.map((t) => [t.ticker, t.status]), [["AAPL", "CLOSED"], ["MSFT", "OPEN"]]);
+  });
+});
+
+describe("parseFills", () => {
+  it("signs quantities from the side column and skips footer rows", () => {
+    const csv = [
+      "Account,U123",
+      "Date,Time,Symbol,Side,Quantity,Price",
+      "2026-03-02,09:30:00,aapl,Buy,\"1,000\",$200.50",
+      "03/02/2026,10:15:00,AAPL,Sell,1000,201",
+      "Total,,,,,",
+    ].join("\n");
+    const { fills, errors } = parseFills(csv, { date: "Date", time: "Time", symbol: "Symbol", side: "Side", quantity: "Quantity", price: "Price" });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(fills.map((f) => [f.date, f.time, f.symbol, f.quantity, f.price]), [
+      ["2026-03-02", "09:30", "AAPL", 1000, 200.5],
+      ["2026-03-02", "10:15", "AAPL", -1000, 201],
+    ]);
+  });
+
+  it("reports rows it can't read", () => {
+    const csv = "Date,Symbol,Side,Quantity,Price\nsoon,AAPL,Buy,1,200\n2026-03-02,AAPL,Hold,1,200";
+    const { errors } = parseFills(csv, { date: "Date", symbol: "Symbol", side: "Side", quantity: "Quantity", price: "Price" });
+    assert.deepEqual(errors.map((e) => e.row), [2, 3]);
+  });
+});
+
+describe("parseColumnMapping", () => {
+  it("rejects column names that aren't strings", () => {
+    assert.ok(parseColumnMapping({ symbol: 3 }).error);
+    assert.ok(parseColumnMapping(["Symbol"]).error);
+  });
+
+  it("keeps known fields only", () => {
+    assert.deepEqual(parseColumnMapping({ symbol: "Ticker", extra: "X" }).mapping, { symbol: "Ticker" });
+  });
+});
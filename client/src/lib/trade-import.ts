@@ -0,0 +1,456 @@
+// Broker statement CSV import
+// Parses fill-level CSV exports and groups fills into round-trip trades
+// that map 1:1 onto the Trade model.
+
+export const IMPORT_FIELDS = ["dateTime", "date", "time", "symbol", "side", "quantity", "price", "commission"] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Maps each import field to a CSV column header (matched case-insensitively)
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface BrokerPreset {
+  id: string;
+  label: string;
+  mapping: ColumnMapping;
+  assetType: string;
+}
+
+export const BROKER_PRESETS: BrokerPreset[] = [
+  {
+    id: "generic",
+    label: "Generic (map columns)",
+    mapping: { date: "Date", time: "Time", symbol: "Symbol", side: "Side", quantity: "Quantity", price: "Price", commission: "Commission" },
+    assetType: "STOCK",
+  },
+  {
+    id: "thinkorswim",
+    label: "thinkorswim (Account Trade History)",
+    mapping: { dateTime: "Exec Time", symbol: "Symbol", side: "Side", quantity: "Qty", price: "Price" },
+    assetType: "STOCK",
+  },
+  {
+    id: "interactive-brokers",
+    label: "Interactive Brokers (Trades)",
+    mapping: { dateTime: "Date/Time", symbol: "Symbol", quantity: "Quantity", price: "T. Price", commission: "Comm/Fee" },
+    assetType: "STOCK",
+  },
+  {
+    id: "tradovate",
+    label: "Tradovate (Fills)",
+    mapping: { dateTime: "Timestamp", symbol: "Contract", side: "B/S", quantity: "Quantity", price: "Price", commission: "Commission" },
+    assetType: "FUTURES",
+  },
+  {
+    id: "webull",
+    label: "Webull (Orders)",
+    mapping: { dateTime: "Filled Time", symbol: "Symbol", side: "Side", quantity: "Filled", price: "Avg Price" },
+    assetType: "STOCK",
+  },
+];
+
+export interface Fill {
+  row: number;
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM
+  timestamp: string; // sortable "YYYY-MM-DD HH:MM:SS"
+  symbol: string;
+  quantity: number; // Signed: positive = buy, negative = sell
+  price: number;
+  commission: number;
+}
+
+export interface ImportedTrade {
+  date: string;
+  time: string | null;
+  closeDate: string | null;
+  ticker: string;
+  direction: "LONG" | "SHORT";
+  entryPrice: number;
+  exitPrice: number | null;
+  size: number;
+  pnl: number;
+  assetType: string;
+  status: "OPEN" | "CLOSED";
+  fillCount: number;
+}
+
+export interface ImportError {
+  row: number;
+  message: string;
+}
+
+export interface ParseResult {
+  fills: Fill[];
+  errors: ImportError[];
+}
+
+// Parse CSV text into rows, honouring quoted fields and escaped quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// Accepts "2025-01-15", "01/15/2025", "1/15/25" and "20250115"
+function parseDatePart(value: string): string | null {
+  const trimmed = value.trim();
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return `${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}`;
+
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return `${year}-${pad(Number(match[1]))}-${pad(Number(match[2]))}`;
+  }
+
+  match = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  return null;
+}
+
+// Accepts "09:31", "09:31:05", "9:31:05 AM" and "093105"
+function parseTimePart(value: string): string | null {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d{1,2}):?(\d{2})(?::?(\d{2}))?(?:\.\d+)?\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = match[3] ? Number(match[3]) : 0;
+  const period = match[4]?.toUpperCase();
+
+  if (period === "PM" && hours < 12) hours += 12;
+  if (period === "AM" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+// Split a combined timestamp like "2025-01-15, 09:31:05", "20250115;093105" or "01/15/25 9:31:05 AM"
+function parseDateTime(value: string): { date: string; time: string | null } | null {
+  const trimmed = value
+    .trim()
+    .replace(/^(\d{4}-\d{2}-\d{2})T/, "$1 ")
+    .replace(/(Z|[+-]\d{2}:\d{2}|\s+(EST|EDT|ET|UTC))$/i, "");
+  const splitAt = trimmed.search(/[,;\s]/);
+
+  if (splitAt === -1) {
+    const date = parseDatePart(trimmed);
+    return date ? { date, time: null } : null;
+  }
+
+  const date = parseDatePart(trimmed.slice(0, splitAt));
+  const time = parseTimePart(trimmed.slice(splitAt + 1).replace(/^[,;\s]+/, ""));
+  return date ? { date, time } : null;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const cleaned = value.replace(/[$,\s]/g, "").replace(/^\((.*)\)$/, "-$1");
+  if (cleaned === "") return null;
+  const num = Number(cleaned);
+  return Number.isFinite(num) ? num : null;
+}
+
+function parseSide(value: string | undefined): 1 | -1 | null {
+  if (!value) return null;
+  const side = value.trim().toUpperCase();
+  if (["BUY", "B", "BOT", "BOUGHT", "BUY TO OPEN", "BUY TO CLOSE", "BUY TO COVER"].includes(side)) return 1;
+  if (["SELL", "S", "SLD", "SOLD", "SELL SHORT", "SELL TO OPEN", "SELL TO CLOSE", "SHORT"].includes(side)) return -1;
+  return null;
+}
+
+export function getPreset(id: string): BrokerPreset | undefined {
+  return BROKER_PRESETS.find((p) => p.id === id);
+}
+
+// Validate a custom column mapping from an import request; unknown fields are dropped
+export function parseColumnMapping(value: unknown): { mapping: ColumnMapping | null; error: string | null } {
+  if (value === undefined || value === null) return { mapping: {}, error: null };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { mapping: null, error: "mapping must be an object of column names" };
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const column = (value as Record<string, unknown>)[field];
+    if (column === undefined) continue;
+    if (typeof column !== "string") {
+      return { mapping: null, error: `mapping.${field} must be a column name` };
+    }
+    mapping[field] = column;
+  }
+  return { mapping, error: null };
+}
+
+// Convert CSV text into signed fills using a column mapping
+export function parseFills(csv: string, mapping: ColumnMapping): ParseResult {
+  const rows = parseCsv(csv);
+  const errors: ImportError[] = [];
+  const fills: Fill[] = [];
+
+  const required: ImportField[] = mapping.dateTime ? ["dateTime", "symbol", "quantity", "price"] : ["date", "symbol", "quantity", "price"];
+  const missing = required.filter((field) => !mapping[field]);
+  if (missing.length > 0) {
+    return { fills, errors: [{ row: 0, message: `Column mapping is missing: ${missing.join(", ")}` }] };
+  }
+
+  // Brokers often prepend account info, so find the first row that carries every mapped header
+  const wanted = required.map((field) => mapping[field]!.trim().toLowerCase());
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map((cell) => cell.trim().toLowerCase());
+    return wanted.every((header) => cells.includes(header));
+  });
+
+  if (headerIndex === -1) {
+    return { fills, errors: [{ row: 0, message: `Could not find a header row with columns: ${required.map((f) => mapping[f]).join(", ")}` }] };
+  }
+
+  const header = rows[headerIndex].map((cell) => cell.trim().toLowerCase());
+  const columnIndex = (field: ImportField): number => {
+    const name = mapping[field];
+    return name ? header.indexOf(name.trim().toLowerCase()) : -1;
+  };
+  const cell = (row: string[], field: ImportField): string | undefined => {
+    const index = columnIndex(field);
+    return index >= 0 ? row[index] : undefined;
+  };
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const rowNumber = i + 1;
+    const symbol = cell(row, "symbol")?.trim().toUpperCase();
+
+    // Section footers and totals rows have no symbol
+    if (!symbol) continue;
+
+    let when: { date: string; time: string | null } | null = null;
+    if (mapping.dateTime) {
+      when = parseDateTime(cell(row, "dateTime") || "");
+    } else {
+      const date = parseDatePart(cell(row, "date") || "");
+      const rawTime = cell(row, "time");
+      when = date ? { date, time: rawTime ? parseTimePart(rawTime) : null } : null;
+    }
+
+    if (!when) {
+      errors.push({ row: rowNumber, message: "Unrecognized date" });
+      continue;
+    }
+
+    const rawQuantity = parseNumber(cell(row, "quantity"));
+    const price = parseNumber(cell(row, "price"));
+    if (rawQuantity === null || rawQuantity === 0 || price === null) {
+      errors.push({ row: rowNumber, message: "Missing quantity or price" });
+      continue;
+    }
+
+    // Without a side column the quantity sign carries direction (IB style)
+    let sign: 1 | -1 | null = rawQuantity < 0 ? -1 : 1;
+    if (mapping.side) {
+      sign = parseSide(cell(row, "side"));
+      if (sign === null) {
+        errors.push({ row: rowNumber, message: `Unrecognized side "${cell(row, "side")}"` });
+        continue;
+      }
+    }
+
+    fills.push({
+      row: rowNumber,
+      date: when.date,
+      time: when.time ? when.time.slice(0, 5) : null,
+      timestamp: `${when.date} ${when.time || "00:00:00"}`,
+      symbol,
+      quantity: roundQuantity(Math.abs(rawQuantity)) * sign,
+      price,
+      commission: Math.abs(parseNumber(cell(row, "commission")) ?? 0),
+    });
+  }
+
+  return { fills, errors };
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Quantities are kept at this precision so fractional crypto and forex fills
+// (0.1 + 0.2 against 0.3) net to exactly zero
+const QUANTITY_DECIMALS = 8;
+
+function roundQuantity(value: number): number {
+  return round(value, QUANTITY_DECIMALS);
+}
+
+interface OpenPosition {
+  direction: 1 | -1;
+  date: string;
+  time: string | null;
+  quantity: number; // Absolute open quantity
+  maxQuantity: number;
+  entryCost: number; // Sum of qty * price on opening fills
+  entryQuantity: number;
+  exitCost: number;
+  exitQuantity: number;
+  realized: number;
+  commission: number;
+  fillCount: number;
+}
+
+function toTrade(symbol: string, pos: OpenPosition, assetType: string, closeDate: string | null): ImportedTrade {
+  const entryPrice = pos.entryCost / pos.entryQuantity;
+  const isClosed = closeDate !== null;
+
+  return {
+    date: pos.date,
+    time: pos.time,
+    closeDate: isClosed && closeDate !== pos.date ? closeDate : null,
+    ticker: symbol,
+    direction: pos.direction === 1 ? "LONG" : "SHORT",
+    entryPrice: round(entryPrice, 4),
+    exitPrice: pos.exitQuantity > 0 ? round(pos.exitCost / pos.exitQuantity, 4) : null,
+    size: pos.maxQuantity,
+    pnl: isClosed ? round(pos.realized - pos.commission) : 0,
+    assetType,
+    status: isClosed ? "CLOSED" : "OPEN",
+    fillCount: pos.fillCount,
+  };
+}
+
+// Group fills into round trips: a trade opens when a symbol's position leaves zero
+// and closes when it returns to zero. Fills that flip the position are split.
+export function groupFillsIntoTrades(fills: Fill[], assetType: string, multiplier = 1): ImportedTrade[] {
+  const trades: ImportedTrade[] = [];
+  const positions = new Map<string, OpenPosition>();
+  const sorted = [...fills].sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.row - b.row);
+
+  for (const fill of sorted) {
+    let remaining = roundQuantity(Math.abs(fill.quantity));
+    const sign: 1 | -1 = fill.quantity > 0 ? 1 : -1;
+    let commission = fill.commission;
+
+    while (remaining > 0) {
+      const pos = positions.get(fill.symbol);
+
+      if (!pos) {
+        positions.set(fill.symbol, {
+          direction: sign,
+          date: fill.date,
+          time: fill.time,
+          quantity: remaining,
+          maxQuantity: remaining,
+          entryCost: remaining * fill.price,
+          entryQuantity: remaining,
+          exitCost: 0,
+          exitQuantity: 0,
+          realized: 0,
+          commission,
+          fillCount: 1,
+        });
+        break;
+      }
+
+      pos.fillCount++;
+      pos.commission += commission;
+      commission = 0;
+
+      if (pos.direction === sign) {
+        pos.quantity = roundQuantity(pos.quantity + remaining);
+        pos.maxQuantity = Math.max(pos.maxQuantity, pos.quantity);
+        pos.entryCost += remaining * fill.price;
+        pos.entryQuantity = roundQuantity(pos.entryQuantity + remaining);
+        break;
+      }
+
+      const closing = Math.min(remaining, pos.quantity);
+      const avgEntry = pos.entryCost / pos.entryQuantity;
+      pos.realized += (fill.price - avgEntry) * closing * pos.direction * multiplier;
+      pos.exitCost += closing * fill.price;
+      pos.exitQuantity = roundQuantity(pos.exitQuantity + closing);
+      pos.quantity = roundQuantity(pos.quantity - closing);
+      remaining = roundQuantity(remaining - closing);
+
+      if (pos.quantity === 0) {
+        trades.push(toTrade(fill.symbol, pos, assetType, fill.date));
+        positions.delete(fill.symbol);
+      }
+    }
+  }
+
+  // Anything still open at the end of the statement is an open (swing) trade
+  for (const [symbol, pos] of positions) {
+    trades.push(toTrade(symbol, pos, assetType, null));
+  }
+
+  return trades.sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+}
+
+// Key used to match imported trades against trades already in the journal
+export function getTradeFingerprint(trade: {
+  date: string;
+  ticker: string;
+  direction: string;
+  size: number | null;
+  entryPrice: number | null;
+  exitPrice: number | null;
+}): string {
+  const price = (value: number | null) => (value === null ? "" : round(value, 2).toFixed(2));
+  return [
+    trade.date,
+    trade.ticker.toUpperCase(),
+    trade.direction.toUpperCase(),
+    trade.size ?? "",
+    price(trade.entryPrice),
+    price(trade.exitPrice),
+  ].join("|");
+}
@@ -0,0 +1,92 @@
+// Per-account trading settings shared by /api/settings and the dashboard.
+// Kept free of server imports.
+
+import { isValidTimeZone } from "@/lib/event-time";
+
+export interface ConsistencySettings {
+  winRateTarget: number;      // Target win rate for max score (%)
+  profitFactorTarget: number; // Target profit factor for max score
+  maxDrawdownLimit: number;   // Max acceptable drawdown (%)
+  riskRewardTarget: number;   // Target risk/reward ratio for max score
+}
+
+export interface UserSettings extends ConsistencySettings {
+  yearlyPnlGoal: number;
+  monthlyPnlGoal: number; // Always yearlyPnlGoal / 12
+  startingEquity: number;
+  keyMetrics: string[];   // Key Metrics ids in display order; empty means the page defaults
+  displayTimezone: string; // IANA zone for event times and countdowns; "local" follows the browser
+}
+
+export type UserSettingsUpdate = Partial<Omit<UserSettings, "monthlyPnlGoal">>;
+
+export interface UserSettingsHistoryEntry extends ConsistencySettings {
+  id: string;
+  yearlyPnlGoal: number;
+  startingEquity: number;
+  changedFields: string[];
+  createdAt: string;
+}
+
+export const DEFAULT_CONSISTENCY_SETTINGS: ConsistencySettings = {
+  winRateTarget: 60,
+  profitFactorTarget: 2,
+  maxDrawdownLimit: 25,
+  riskRewardTarget: 1.5,
+};
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  yearlyPnlGoal: 0,
+  monthlyPnlGoal: 0,
+  startingEquity: 0,
+  ...DEFAULT_CONSISTENCY_SETTINGS,
+  keyMetrics: [],
+  displayTimezone: "local",
+};
+
+// Changes to these fields are recorded in the settings history
+export const TRACKED_SETTINGS_FIELDS = [
+  "yearlyPnlGoal",
+  "startingEquity",
+  "winRateTarget",
+  "profitFactorTarget",
+  "maxDrawdownLimit",
+  "riskRewardTarget",
+] as const;
+
+export type TrackedSettingsField = (typeof TRACKED_SETTINGS_FIELDS)[number];
+
+// Validate a partial update; unknown keys are ignored
+export function parseUserSettingsUpdate(data: unknown): { update: UserSettingsUpdate | null; error: string | null } {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { update: null, error: "Settings must be an object" };
+  }
+
+  const body = data as Record<string, unknown>;
+  const update: UserSettingsUpdate = {};
+
+  for (const field of TRACKED_SETTINGS_FIELDS) {
+    if (body[field] === undefined) continue;
+    const value = body[field];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return { update: null, error: `${field} must be a non-negative number` };
+    }
+    update[field] = value;
+  }
+
+  if (body.keyMetrics !== undefined) {
+    if (!Array.isArray(body.keyMetrics) || !body.keyMetrics.every((id) => typeof id === "string")) {
+      return { update: null, error: "keyMetrics must be an array of metric ids" };
+    }
+    update.keyMetrics = Array.from(new Set(body.keyMetrics as string[]));
+  }
+
+  if (body.displayTimezone !== undefined) {
+    if (typeof body.displayTimezone !== "string" || (body.displayTimezone !== "local" && !isValidTimeZone(body.displayTimezone))) {
+      return { update: null, error: "displayTimezone must be an IANA time zone or \"local\"" };
+    }
+    update.displayTimezone = body.displayTimezone;
+  }
+
+  return { update, error: null };
+}
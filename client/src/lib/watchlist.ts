@@ -0,0 +1,137 @@
+// Starred events and series, shared by /api/watchlist, the calendar page and
+// the timeline watchlist panel. Kept free of server imports.
+
+export type WatchScope = "event" | "series";
+
+export interface WatchedEvent {
+  id: string;
+  scope: WatchScope;
+  eventId: string | null; // Set for event watches
+  title: string;
+  date: string | null;    // Set for event watches
+  leadTimes: number[];    // Minutes before the release, largest first
+  sound: string;
+}
+
+export type WatchedEventInput = Omit<WatchedEvent, "id">;
+
+export const DEFAULT_LEAD_TIMES = [15, 2];
+
+// Lead times beyond a day would fire before the day's schedule is settled
+export const MAX_LEAD_TIME_MINUTES = 24 * 60;
+
+const MAX_LEAD_TIMES = 5;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Whole minutes, 0 (at release) up to a day, largest first
+export function parseLeadTimes(value: unknown): { leadTimes: number[] | null; error: string | null } {
+  if (value === undefined) return { leadTimes: DEFAULT_LEAD_TIMES, error: null };
+  if (!Array.isArray(value)) return { leadTimes: null, error: "leadTimes must be an array of minutes" };
+  if (value.some((m) => !Number.isInteger(m) || m < 0 || m > MAX_LEAD_TIME_MINUTES)) {
+    return { leadTimes: null, error: `Lead times must be whole minutes between 0 and ${MAX_LEAD_TIME_MINUTES}` };
+  }
+  const leadTimes = Array.from(new Set(value as number[])).sort((a, b) => b - a);
+  if (leadTimes.length > MAX_LEAD_TIMES) {
+    return { leadTimes: null, error: `At most ${MAX_LEAD_TIMES} lead times per event` };
+  }
+  return { leadTimes, error: null };
+}
+
+export function parseWatchedEventInput(data: unknown): { watch: WatchedEventInput | null; error: string | null } {
+  if (!isRecord(data)) return { watch: null, error: "Watch must be an object" };
+
+  const scope = data.scope === "series" ? "series" : data.scope === "event" ? "event" : null;
+  if (!scope) return { watch: null, error: "scope must be \"event\" or \"series\"" };
+
+  const title = typeof data.title === "string" ? data.title.trim() : "";
+  if (!title) return { watch: null, error: "title is required" };
+
+  const eventId = typeof data.eventId === "string" ? data.eventId.trim() : "";
+  const date = typeof data.date === "string" ? data.date.trim() : "";
+  if (scope === "event" && (!eventId || !DATE_PATTERN.test(date))) {
+    return { watch: null, error: "Event watches need eventId and date (YYYY-MM-DD)" };
+  }
+
+  const { leadTimes, error } = parseLeadTimes(data.leadTimes);
+  if (!leadTimes) return { watch: null, error };
+
+  return {
+    watch: {
+      scope,
+      eventId: scope === "event" ? eventId : null,
+      title: title.slice(0, 200),
+      date: scope === "event" ? date : null,
+      leadTimes,
+      sound: typeof data.sound === "string" && data.sound.trim() ? data.sound.trim() : "bell",
+    },
+    error: null,
+  };
+}
+
+// Lead times or alert sound for an existing watch; either can be sent alone
+export function parseWatchUpdate(data: unknown): { update: { leadTimes?: number[]; sound?: string } | null; error: string | null } {
+  if (!isRecord(data)) return { update: null, error: "Update must be an object" };
+
+  const { leadTimes, error } = parseLeadTimes(data.leadTimes);
+  if (!leadTimes) return { update: null, error };
+
+  return {
+    update: {
+      ...(data.leadTimes !== undefined ? { leadTimes } : {}),
+      ...(typeof data.sound === "string" && data.sound.trim() ? { sound: data.sound.trim() } : {}),
+    },
+    error: null,
+  };
+}
+
+interface WatchedEventRow {
+  id: string;
+  scope: string;
+  eventId: string | null;
+  title: string;
+  date: string | null;
+  leadTimes: number[];
+  sound: string;
+}
+
+export function serializeWatchedEvent(row: WatchedEventRow): WatchedEvent {
+  return {
+    id: row.id,
+    scope: row.scope as WatchScope,
+    eventId: row.eventId,
+    title: row.title,
+    date: row.date,
+    leadTimes: row.leadTimes,
+    sound: row.sound,
+  };
+}
+
+// The watch covering an event; a watch on the release itself wins over its series
+export function findWatch(event: { id: string; title: string }, watchlist: WatchedEvent[]): WatchedEvent | null {
+  return (
+    watchlist.find((w) => w.scope === "event" && w.eventId === event.id) ??
+    watchlist.find((w) => w.scope === "series" && w.title === event.title) ??
+    null
+  );
+}
+
+export function formatLeadTime(minutes: number): string {
+  if (minutes === 0) return "At release";
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return minutes > 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// Spoken alert text, e.g. "CPI m/m in 15 minutes". Event alert rules use it
+// too, so watchlist and rule alerts read the same.
+export function describeLeadTime(title: string, minutes: number): string {
+  if (minutes === 0) return `${title} releasing now`;
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+  if (minutes < 60) return `${title} in ${plural(minutes, "minute")}`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${title} in ${plural(hours, "hour")}${rest ? ` ${plural(rest, "minute")}` : ""}`;
+}
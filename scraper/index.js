@@ -3,7 +3,8 @@
  *
  * API-based architecture focused on US economic data:
  * - FRED API for US economic release schedules + actual values
- * - FOMC calendar for Fed rate decisions
+ * - Central bank calendars (FOMC, ECB, BoE, BoJ, RBA, BoC)
+ * - EUR, GBP, JPY, AUD and CAD inflation, jobs and GDP releases
  * - Treasury auctions
  * - EIA energy data
  * - US market holidays
@@ -21,6 +22,7 @@ import { fileURLToPath } from 'url';
 // US Data Sources
 import { scrapeFRED } from './sources/fred.js';
 import { scrapeCentralBanks } from './sources/central-banks.js';
+import { scrapeIntlReleases } from './sources/intl-releases.js';
 import { scrapeTreasury } from './sources/treasury.js';
 import { scrapeFedSpeakers } from './sources/fed-speakers.js';
 import { scrapeEIA } from './sources/eia.js';
@@ -34,6 +36,7 @@ import { enrichEventsWithData, fetchDataValuesOnly } from './lib/data-fetcher.js
 
 // Import indicator metadata
 import { getIndicatorInfo } from './lib/indicators.js';
+import { publishCalendar } from './lib/publish.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -50,10 +53,14 @@ const dataSources = {
     name: 'FRED API (US Economic Data)',
     scraper: scrapeFRED,
   },
-  fomc: {
-    name: 'FOMC Calendar (Fed Rate Decisions + Minutes)',
+  'central-banks': {
+    name: 'Central Banks (FOMC, ECB, BoE, BoJ, RBA, BoC)',
     scraper: scrapeCentralBanks,
   },
+  'intl-releases': {
+    name: 'International Releases (EUR, GBP, JPY, AUD, CAD)',
+    scraper: scrapeIntlReleases,
+  },
   treasury: {
     name: 'US Treasury Auctions',
     scraper: scrapeTreasury,
@@ -139,6 +146,8 @@ async function quickDataRefresh() {
     console.log(`Saved to ${clientOutputPath}`);
   }
 
+  await publishCalendar(output, 'data-only');
+
   console.log('\n✅ Data refresh complete!');
 }
 
@@ -171,8 +180,8 @@ async function fullScrape() {
         const indicatorInfo = getIndicatorInfo(event.title);
         return {
           ...event,
-          currency: 'USD',
-          country: 'US',
+          currency: event.currency || 'USD',
+          country: event.country || 'US',
           source: event.source || sourceKey,
           // Add indicator metadata
           description: event.description || indicatorInfo.description,
@@ -241,6 +250,8 @@ async function fullScrape() {
     console.log(`Saved to ${clientOutputPath}`);
   }
 
+  await publishCalendar(output, 'full');
+
   // Print summary by source
   console.log('\n--- Events by Source ---');
   const bySource = {};
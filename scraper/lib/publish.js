@@ -0,0 +1,40 @@
+/**
+ * Publish scraper output to the app's calendar ingestion endpoint
+ *
+ * Set CALENDAR_INGEST_URL (e.g. https://app.example.com/api/calendar/ingest)
+ * and CALENDAR_INGEST_SECRET to upload each run. Without a URL the run only
+ * writes calendar-data.json, as before.
+ */
+
+export async function publishCalendar(output, mode) {
+  const url = process.env.CALENDAR_INGEST_URL;
+  if (!url) {
+    console.log('CALENDAR_INGEST_URL not set - skipping upload');
+    return null;
+  }
+
+  const headers = { 'Content-Type': 'application/json' };
+  if (process.env.CALENDAR_INGEST_SECRET) {
+    headers.Authorization = `Bearer ${process.env.CALENDAR_INGEST_SECRET}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ ...output, mode }),
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error(`Upload failed (${response.status}): ${result.error || response.statusText}`);
+      return null;
+    }
+
+    console.log(`Uploaded to ${url}: ${result.created} new, ${result.updated} updated, ${result.removed} removed`);
+    return result;
+  } catch (error) {
+    console.error(`Upload failed: ${error.message}`);
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Time zone conversion for sources that publish in local time
+ *
+ * The calendar is kept in US Eastern time, so releases and decisions set in
+ * other zones are converted per date: Europe, Australia and the US change
+ * clocks on different days.
+ */
+
+/**
+ * Minutes east of UTC for a time zone at a given instant
+ */
+function zoneOffsetMinutes(timeZone, utcMs) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(utcMs));
+  const get = (type) => Number(parts.find(p => p.type === type).value);
+  return (Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute')) - utcMs) / 60000;
+}
+
+/**
+ * Convert a local date and HH:MM in timeZone to the calendar's ET date and time
+ */
+export function toEastern(date, time, timeZone) {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const instant = wallClock - zoneOffsetMinutes(timeZone, wallClock) * 60000;
+  const eastern = new Date(instant + zoneOffsetMinutes('America/New_York', instant) * 60000);
+  const iso = eastern.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
@@ -1,10 +1,14 @@
 /**
- * FOMC Calendar (Federal Reserve)
+ * Central Bank Calendars
  *
- * Tracks Federal Open Market Committee meetings, rate decisions, and minutes.
+ * Tracks Federal Open Market Committee meetings, rate decisions, and minutes,
+ * plus the policy decisions of the ECB, BoE, BoJ, RBA and BoC.
  * Source: https://www.federalreserve.gov/monetarypolicy/fomccalendars.htm
+ * and each bank's published meeting schedule (linked below).
  */
 
+import { toEastern } from '../lib/time-zones.js';
+
 // FOMC 2024 Meeting Dates (for historical data)
 const FOMC_2024 = [
   { date: '2024-01-31', hasPresser: true, hasSEP: false, minutesDate: '2024-02-21' },
@@ -43,8 +47,138 @@ const FOMC_2026 = [
   { date: '2026-12-09', hasPresser: true, hasSEP: true, minutesDate: '2026-12-30' },   // Dec 8-9
 ];
 
+// Other central banks. Announcement times are local to the bank and converted
+// to ET per meeting, since Europe, Australia and the US change clocks on different dates.
+// `report` marks meetings that come with the bank's quarterly projections.
+const BANKS = [
+  {
+    source: 'ecb',
+    currency: 'EUR',
+    country: 'EU',
+    timeZone: 'Europe/Berlin',
+    sourceUrl: 'https://www.ecb.europa.eu/press/calendars/mgcgc/html/index.en.html',
+    decision: { title: 'ECB Interest Rate Decision', time: '14:15' },
+    pressConference: { title: 'ECB Press Conference', time: '14:45', impact: 'high' },
+    meetings: [
+      { date: '2025-01-30' }, { date: '2025-03-06' }, { date: '2025-04-17' }, { date: '2025-06-05' },
+      { date: '2025-07-24' }, { date: '2025-09-11' }, { date: '2025-10-30' }, { date: '2025-12-18' },
+      { date: '2026-02-05' }, { date: '2026-03-19' }, { date: '2026-04-30' }, { date: '2026-06-11' },
+      { date: '2026-07-23' }, { date: '2026-09-10' }, { date: '2026-10-29' }, { date: '2026-12-17' },
+    ],
+  },
+  {
+    source: 'boe',
+    currency: 'GBP',
+    country: 'GB',
+    timeZone: 'Europe/London',
+    sourceUrl: 'https://www.bankofengland.co.uk/monetary-policy/upcoming-mpc-dates',
+    decision: { title: 'BoE Interest Rate Decision', time: '12:00' },
+    report: { title: 'BoE Monetary Policy Report', time: '12:00' },
+    meetings: [
+      { date: '2025-02-06', report: true }, { date: '2025-03-20' }, { date: '2025-05-08', report: true }, { date: '2025-06-19' },
+      { date: '2025-08-07', report: true }, { date: '2025-09-18' }, { date: '2025-11-06', report: true }, { date: '2025-12-18' },
+      { date: '2026-02-05', report: true }, { date: '2026-03-19' }, { date: '2026-04-30', report: true }, { date: '2026-06-18' },
+      { date: '2026-07-30', report: true }, { date: '2026-09-17' }, { date: '2026-11-05', report: true }, { date: '2026-12-17' },
+    ],
+  },
+  {
+    source: 'boj',
+    currency: 'JPY',
+    country: 'JP',
+    timeZone: 'Asia/Tokyo',
+    sourceUrl: 'https://www.boj.or.jp/en/mopo/mpmsche_minu/index.htm',
+    // No fixed time; the statement usually lands around midday Tokyo time
+    decision: { title: 'BoJ Interest Rate Decision', time: null, approximateTime: '12:00' },
+    pressConference: { title: 'BoJ Press Conference', time: '15:30', impact: 'high' },
+    report: { title: 'BoJ Outlook Report', time: '15:00' },
+    meetings: [
+      { date: '2025-01-24', report: true }, { date: '2025-03-19' }, { date: '2025-05-01', report: true }, { date: '2025-06-17' },
+      { date: '2025-07-31', report: true }, { date: '2025-09-19' }, { date: '2025-10-30', report: true }, { date: '2025-12-19' },
+      { date: '2026-01-23', report: true }, { date: '2026-03-19' }, { date: '2026-04-28', report: true }, { date: '2026-06-16' },
+      { date: '2026-07-31', report: true }, { date: '2026-09-18' }, { date: '2026-10-30', report: true }, { date: '2026-12-18' },
+    ],
+  },
+  {
+    source: 'rba',
+    currency: 'AUD',
+    country: 'AU',
+    timeZone: 'Australia/Sydney',
+    sourceUrl: 'https://www.rba.gov.au/schedules-events/board-meeting-schedules.html',
+    decision: { title: 'RBA Interest Rate Decision', time: '14:30' },
+    pressConference: { title: 'RBA Press Conference', time: '15:30', impact: 'medium' },
+    meetings: [
+      { date: '2025-02-18' }, { date: '2025-04-01' }, { date: '2025-05-20' }, { date: '2025-07-08' },
+      { date: '2025-08-12' }, { date: '2025-09-30' }, { date: '2025-11-04' }, { date: '2025-12-09' },
+      { date: '2026-02-03' }, { date: '2026-03-17' }, { date: '2026-05-05' }, { date: '2026-06-16' },
+      { date: '2026-08-11' }, { date: '2026-09-29' }, { date: '2026-11-03' }, { date: '2026-12-08' },
+    ],
+  },
+  {
+    source: 'boc',
+    currency: 'CAD',
+    country: 'CA',
+    timeZone: 'America/Toronto',
+    sourceUrl: 'https://www.bankofcanada.ca/press/upcoming-events/',
+    decision: { title: 'BoC Interest Rate Decision', time: '09:45' },
+    pressConference: { title: 'BoC Press Conference', time: '10:30', impact: 'medium' },
+    report: { title: 'BoC Monetary Policy Report', time: '09:45' },
+    meetings: [
+      { date: '2025-01-29', report: true }, { date: '2025-03-12' }, { date: '2025-04-16', report: true }, { date: '2025-06-04' },
+      { date: '2025-07-30', report: true }, { date: '2025-09-17' }, { date: '2025-10-29', report: true }, { date: '2025-12-10' },
+      { date: '2026-01-28', report: true }, { date: '2026-03-11' }, { date: '2026-04-15', report: true }, { date: '2026-06-03' },
+      { date: '2026-07-15', report: true }, { date: '2026-09-02' }, { date: '2026-10-28', report: true }, { date: '2026-12-09' },
+    ],
+  },
+];
+
+/**
+ * Generate decision, press conference and report events for the non-US banks
+ */
+function generateBankEvents(bank, isInRange) {
+  const events = [];
+  const base = {
+    category: 'central_bank',
+    currency: bank.currency,
+    country: bank.country,
+    source: bank.source,
+    sourceUrl: bank.sourceUrl,
+    frequency: '8 times per year',
+  };
+
+  bank.meetings.forEach(meeting => {
+    // Decision
+    const decision = bank.decision.time
+      ? toEastern(meeting.date, bank.decision.time, bank.timeZone)
+      : { date: toEastern(meeting.date, bank.decision.approximateTime, bank.timeZone).date, time: 'TBD' };
+    if (!isInRange(decision.date)) return;
+
+    events.push({ ...base, ...decision, title: bank.decision.title, impact: 'high' });
+
+    if (bank.pressConference) {
+      events.push({
+        ...base,
+        ...toEastern(meeting.date, bank.pressConference.time, bank.timeZone),
+        title: bank.pressConference.title,
+        impact: bank.pressConference.impact,
+      });
+    }
+
+    if (bank.report && meeting.report) {
+      events.push({
+        ...base,
+        ...toEastern(meeting.date, bank.report.time, bank.timeZone),
+        title: bank.report.title,
+        impact: 'medium',
+        frequency: 'Quarterly',
+      });
+    }
+  });
+
+  return events;
+}
+
 /**
- * Generate FOMC events
+ * Generate FOMC and other central bank events
  */
 export function scrapeCentralBanks() {
   const events = [];
@@ -150,6 +284,13 @@ export function scrapeCentralBanks() {
   });
 
   console.log(`  Generated ${events.length} FOMC events`);
+
+  BANKS.forEach(bank => {
+    const bankEvents = generateBankEvents(bank, isInRange);
+    console.log(`  Generated ${bankEvents.length} ${bank.source.toUpperCase()} events`);
+    events.push(...bankEvents);
+  });
+
   return events;
 }
 
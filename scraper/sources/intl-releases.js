@@ -0,0 +1,345 @@
+/**
+ * International Economic Releases
+ *
+ * Headline inflation, jobs and GDP releases for EUR, GBP, JPY, AUD and CAD,
+ * alongside the central-bank decisions in central-banks.js.
+ *
+ * Dates follow each statistics agency's usual release pattern (e.g. Canada's
+ * Labour Force Survey on the first Friday) and aren't shifted for local
+ * holidays; release times are local to the agency and converted to ET.
+ *
+ * Sources: Eurostat, ONS, Statistics Bureau of Japan / Cabinet Office,
+ * ABS and Statistics Canada release calendars (linked below).
+ */
+
+import { toEastern } from '../lib/time-zones.js';
+
+function toDate(year, month, day) {
+  return new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+}
+
+function weekday(date) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function addDays(date, days) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0];
+}
+
+function isBusinessDay(date) {
+  return weekday(date) !== 0 && weekday(date) !== 6;
+}
+
+/**
+ * The nth weekday (0-6) of a month (0-11); n = -1 for the last
+ */
+function nthWeekday(year, month, day, n) {
+  if (n < 0) {
+    const last = toDate(year, month + 1, 0);
+    return addDays(last, -((weekday(last) - day + 7) % 7));
+  }
+  const first = toDate(year, month, 1);
+  return addDays(first, (day - weekday(first) + 7) % 7 + (n - 1) * 7);
+}
+
+/**
+ * The nth business day of a month; n = -1 for the last
+ */
+function nthBusinessDay(year, month, n) {
+  if (n < 0) {
+    let date = toDate(year, month + 1, 0);
+    while (!isBusinessDay(date)) date = addDays(date, -1);
+    return date;
+  }
+  let date = toDate(year, month, 1);
+  let count = isBusinessDay(date) ? 1 : 0;
+  while (count < n) {
+    date = addDays(date, 1);
+    if (isBusinessDay(date)) count++;
+  }
+  return date;
+}
+
+/**
+ * The first business day on or after a day of the month
+ */
+function businessDayFrom(year, month, day) {
+  let date = toDate(year, month, day);
+  while (!isBusinessDay(date)) date = addDays(date, 1);
+  return date;
+}
+
+// Quarterly releases only come out in some months
+const inMonths = (months, rule) => (year, month) => (months.includes(month) ? rule(year, month) : null);
+
+const AGENCIES = {
+  eurostat: {
+    currency: 'EUR',
+    bank: 'ECB',
+    country: 'EU',
+    timeZone: 'Europe/Brussels',
+    time: '11:00',
+    sourceUrl: 'https://ec.europa.eu/eurostat/news/release-calendar',
+  },
+  ons: {
+    currency: 'GBP',
+    bank: 'Bank of England',
+    country: 'GB',
+    timeZone: 'Europe/London',
+    time: '07:00',
+    sourceUrl: 'https://www.ons.gov.uk/releasecalendar',
+  },
+  'stat-japan': {
+    currency: 'JPY',
+    bank: 'Bank of Japan',
+    country: 'JP',
+    timeZone: 'Asia/Tokyo',
+    time: '08:30',
+    sourceUrl: 'https://www.stat.go.jp/english/info/guide/2.html',
+  },
+  abs: {
+    currency: 'AUD',
+    bank: 'RBA',
+    country: 'AU',
+    timeZone: 'Australia/Sydney',
+    time: '11:30',
+    sourceUrl: 'https://www.abs.gov.au/release-calendar/future-releases',
+  },
+  statcan: {
+    currency: 'CAD',
+    bank: 'Bank of Canada',
+    country: 'CA',
+    timeZone: 'America/Toronto',
+    time: '08:30',
+    sourceUrl: 'https://www150.statcan.gc.ca/n1/dai-quo/cal2-eng.htm',
+  },
+};
+
+// Titles carry the country so they never pick up a US indicator's FRED series
+const RELEASES = [
+  // Eurozone
+  {
+    agency: 'eurostat',
+    title: 'Eurozone CPI Flash Estimate y/y',
+    impact: 'high',
+    category: 'inflation',
+    frequency: 'Monthly (start of month)',
+    description: 'Preliminary estimate of Eurozone HICP inflation for the month just ended.',
+    date: (year, month) => nthBusinessDay(year, month, 1),
+  },
+  {
+    agency: 'eurostat',
+    title: 'Eurozone Unemployment Rate',
+    higherIsBearish: true,
+    impact: 'medium',
+    category: 'employment',
+    frequency: 'Monthly',
+    description: 'Share of the Eurozone labour force that is unemployed, two months in arrears.',
+    date: (year, month) => nthBusinessDay(year, month, 2),
+  },
+  {
+    agency: 'eurostat',
+    title: 'Eurozone GDP Flash Estimate q/q',
+    impact: 'high',
+    category: 'growth',
+    frequency: 'Quarterly',
+    description: 'Preliminary estimate of Eurozone GDP growth for the quarter just ended.',
+    date: inMonths([0, 3, 6, 9], (year, month) => nthBusinessDay(year, month, -1)),
+  },
+
+  // United Kingdom
+  {
+    agency: 'ons',
+    title: 'UK Unemployment Rate',
+    higherIsBearish: true,
+    impact: 'high',
+    category: 'employment',
+    frequency: 'Monthly',
+    description: 'ILO unemployment rate for the three months to two months earlier, released with claimant count and earnings.',
+    date: (year, month) => nthWeekday(year, month, 2, 2),
+  },
+  {
+    agency: 'ons',
+    title: 'UK CPI y/y',
+    impact: 'high',
+    category: 'inflation',
+    frequency: 'Monthly',
+    description: 'Annual change in UK consumer prices. The Bank of England targets 2%.',
+    // The Wednesday of the week after the labour market release
+    date: (year, month) => addDays(nthWeekday(year, month, 2, 2), 8),
+  },
+  {
+    agency: 'ons',
+    title: 'UK GDP m/m',
+    impact: 'medium',
+    category: 'growth',
+    frequency: 'Monthly',
+    description: 'Monthly change in UK output, two months in arrears.',
+    date: (year, month) => nthWeekday(year, month, 4, 2),
+  },
+
+  // Japan
+  {
+    agency: 'stat-japan',
+    title: 'Japan National Core CPI y/y',
+    impact: 'medium',
+    category: 'inflation',
+    frequency: 'Monthly',
+    description: 'Annual change in Japanese consumer prices excluding fresh food, the Bank of Japan\'s preferred gauge.',
+    date: (year, month) => nthWeekday(year, month, 5, 3),
+  },
+  {
+    agency: 'stat-japan',
+    title: 'Tokyo Core CPI y/y',
+    impact: 'medium',
+    category: 'inflation',
+    frequency: 'Monthly',
+    description: 'Tokyo consumer prices excluding fresh food for the current month, a lead for the national figure.',
+    date: (year, month) => nthWeekday(year, month, 5, -1),
+  },
+  {
+    agency: 'stat-japan',
+    title: 'Japan Unemployment Rate',
+    higherIsBearish: true,
+    impact: 'low',
+    category: 'employment',
+    frequency: 'Monthly',
+    description: 'Share of the Japanese labour force that is unemployed, from the Labour Force Survey.',
+    date: (year, month) => nthWeekday(year, month, 5, -1),
+  },
+  {
+    agency: 'stat-japan',
+    title: 'Japan GDP q/q (Preliminary)',
+    impact: 'high',
+    category: 'growth',
+    frequency: 'Quarterly',
+    description: 'First estimate of Japanese GDP growth, about six weeks after the quarter ends.',
+    sourceUrl: 'https://www.esri.cao.go.jp/en/sna/kouhyou/kouhyou_top.html',
+    date: inMonths([1, 4, 7, 10], (year, month) => businessDayFrom(year, month, 15)),
+  },
+
+  // Australia
+  {
+    agency: 'abs',
+    title: 'Australia Employment Change',
+    impact: 'high',
+    category: 'employment',
+    frequency: 'Monthly',
+    description: 'Monthly change in the number of employed Australians, from the Labour Force Survey.',
+    date: (year, month) => nthWeekday(year, month, 4, 3),
+  },
+  {
+    agency: 'abs',
+    title: 'Australia Unemployment Rate',
+    higherIsBearish: true,
+    impact: 'high',
+    category: 'employment',
+    frequency: 'Monthly',
+    description: 'Share of the Australian labour force that is unemployed.',
+    date: (year, month) => nthWeekday(year, month, 4, 3),
+  },
+  {
+    agency: 'abs',
+    title: 'Australia CPI y/y',
+    impact: 'high',
+    category: 'inflation',
+    frequency: 'Monthly',
+    description: 'Annual change in Australian consumer prices. The RBA targets 2-3%.',
+    date: (year, month) => nthWeekday(year, month, 3, -1),
+  },
+  {
+    agency: 'abs',
+    title: 'Australia GDP q/q',
+    impact: 'high',
+    category: 'growth',
+    frequency: 'Quarterly',
+    description: 'Quarterly change in Australian output, from the National Accounts.',
+    date: inMonths([2, 5, 8, 11], (year, month) => nthWeekday(year, month, 3, 1)),
+  },
+
+  // Canada
+  {
+    agency: 'statcan',
+    title: 'Canada Employment Change',
+    impact: 'high',
+    category: 'employment',
+    frequency: 'Monthly (first Friday)',
+    description: 'Monthly change in the number of employed Canadians, from the Labour Force Survey.',
+    date: (year, month) => nthWeekday(year, month, 5, 1),
+  },
+  {
+    agency: 'statcan',
+    title: 'Canada Unemployment Rate',
+    higherIsBearish: true,
+    impact: 'high',
+    category: 'employment',
+    frequency: 'Monthly (first Friday)',
+    description: 'Share of the Canadian labour force that is unemployed.',
+    date: (year, month) => nthWeekday(year, month, 5, 1),
+  },
+  {
+    agency: 'statcan',
+    title: 'Canada CPI y/y',
+    impact: 'high',
+    category: 'inflation',
+    frequency: 'Monthly',
+    description: 'Annual change in Canadian consumer prices. The Bank of Canada targets 2%.',
+    date: (year, month) => nthWeekday(year, month, 2, 3),
+  },
+  {
+    agency: 'statcan',
+    title: 'Canada GDP m/m',
+    impact: 'medium',
+    category: 'growth',
+    frequency: 'Monthly (end of month)',
+    description: 'Monthly change in Canadian output, two months in arrears.',
+    date: (year, month) => nthBusinessDay(year, month, -1),
+  },
+];
+
+/**
+ * Generate release events for the non-US currencies
+ */
+export async function scrapeIntlReleases() {
+  const events = [];
+  const today = new Date();
+
+  // 3 months back to 6 months ahead, like the other scheduled sources
+  for (let monthOffset = -3; monthOffset <= 6; monthOffset++) {
+    const target = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + monthOffset, 1));
+    const year = target.getUTCFullYear();
+    const month = target.getUTCMonth();
+
+    RELEASES.forEach(release => {
+      const localDate = release.date(year, month);
+      if (!localDate) return;
+
+      const agency = AGENCIES[release.agency];
+      events.push({
+        ...toEastern(localDate, agency.time, agency.timeZone),
+        title: release.title,
+        impact: release.impact,
+        category: release.category,
+        currency: agency.currency,
+        country: agency.country,
+        source: release.agency,
+        sourceUrl: release.sourceUrl || agency.sourceUrl,
+        description: release.description,
+        frequency: release.frequency,
+        // Set here so partial title matches don't pull in US indicator metadata
+        whyItMatters: `A key input to ${agency.bank} rate decisions.`,
+        typicalReaction: {
+          higherThanExpected: `${agency.currency} ${release.higherIsBearish ? 'bearish' : 'bullish'}`,
+          lowerThanExpected: `${agency.currency} ${release.higherIsBearish ? 'bullish' : 'bearish'}`,
+        },
+        relatedAssets: [agency.currency],
+        historicalVolatility: release.impact === 'high' ? 'High' : release.impact === 'medium' ? 'Medium' : 'Low',
+      });
+    });
+  }
+
+  console.log(`  Generated ${events.length} international release events`);
+  return events;
+}
+
+export default scrapeIntlReleases;